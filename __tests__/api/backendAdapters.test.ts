@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the backend adapter registry used by /api/chat
+ * Tests registration, endpoint options, payload builders and chunk parsers
+ */
+import {
+  chatAdapter,
+  chatStreamAdapter,
+  contextAwareRagAdapter,
+  generateAdapter,
+  generateStreamAdapter,
+  getBackendAdapter,
+  getBackendAdapters,
+  registerBackendAdapter,
+} from '@/utils/api/adapters';
+import {
+  HTTP_ENDPOINTS,
+  getDefaultHttpEndpoint,
+  getHttpEndpointOptions,
+} from '@/constants/endpoints';
+import { AdapterStreamState, BackendAdapter } from '@/types/adapter';
+
+describe('Backend Adapter Registry', () => {
+  const newState = (): AdapterStreamState => ({ rawContent: '', stepIndex: 0 });
+
+  describe('registry', () => {
+    it('should register an adapter for every built-in endpoint', () => {
+      Object.values(HTTP_ENDPOINTS).forEach(endpoint => {
+        expect(getBackendAdapter(endpoint)?.endpoint).toBe(endpoint);
+      });
+    });
+
+    it('should derive endpoint options from registered adapters', () => {
+      const options = getHttpEndpointOptions();
+      expect(options.map(option => option.value)).toEqual(Object.values(HTTP_ENDPOINTS));
+      expect(options[0]).toEqual({
+        label: chatStreamAdapter.label,
+        value: HTTP_ENDPOINTS.CHAT_STREAM,
+      });
+    });
+
+    it('should return undefined for unknown endpoints', () => {
+      expect(getBackendAdapter('/admin')).toBeUndefined();
+    });
+
+    it('should allow registering a custom adapter', () => {
+      const customAdapter: BackendAdapter = {
+        endpoint: '/custom/workflow',
+        label: 'Custom Workflow',
+        streaming: false,
+        buildRequest: ({ messages }) => ({ query: messages.at(-1)?.content }),
+        parseResponse: data => data.toUpperCase(),
+      };
+
+      registerBackendAdapter(customAdapter);
+
+      expect(getBackendAdapter('/custom/workflow')).toBe(customAdapter);
+      expect(getBackendAdapters()).toContain(customAdapter);
+      expect(getHttpEndpointOptions()).toContainEqual({
+        label: 'Custom Workflow',
+        value: '/custom/workflow',
+      });
+    });
+
+    it('should pick a default endpoint registered after the constants loaded', () => {
+      const original = process.env.NEXT_PUBLIC_NAT_DEFAULT_ENDPOINT;
+      registerBackendAdapter({ ...chatAdapter, endpoint: '/late/workflow', label: 'Late Workflow' });
+      process.env.NEXT_PUBLIC_NAT_DEFAULT_ENDPOINT = 'Late Workflow';
+
+      expect(getDefaultHttpEndpoint()).toBe('/late/workflow');
+
+      if (original === undefined) delete process.env.NEXT_PUBLIC_NAT_DEFAULT_ENDPOINT;
+      else process.env.NEXT_PUBLIC_NAT_DEFAULT_ENDPOINT = original;
+    });
+  });
+
+  describe('buildRequest', () => {
+    const context = {
+      messages: [{ role: 'user', content: 'Hello' }],
+      conversationId: 'conv-1',
+      serverURL: 'http://127.0.0.1:8000',
+    };
+
+    it('should build generate payload from last message', () => {
+      expect(generateAdapter.buildRequest(context)).toEqual({ input_message: 'Hello' });
+    });
+
+    it('should throw when generate payload has no user message', () => {
+      expect(() => generateAdapter.buildRequest({ ...context, messages: [] })).toThrow(
+        'User message not found.'
+      );
+    });
+
+    it('should set stream flag according to chat adapter', () => {
+      expect(chatAdapter.buildRequest(context)).toEqual({ messages: context.messages, stream: false });
+      expect(chatStreamAdapter.buildRequest(context)).toEqual({ messages: context.messages, stream: true });
+    });
+
+    it('should forward attachments as content parts to chat endpoints', () => {
+      const messages = [
+        { role: 'assistant', content: 'Send the data' },
+        {
+          role: 'user',
+          content: 'Here',
+          attachments: [
+            { id: 'a', name: 'chart.png', mimeType: 'image/png', size: 3, kind: 'image', content: 'data:image/png;base64,AAA' },
+            { id: 'b', name: 'data.csv', mimeType: 'text/csv', size: 4, kind: 'text', content: 'a,b' },
+          ],
+        },
+      ];
+
+      expect(chatAdapter.buildRequest({ ...context, messages }).messages).toEqual([
+        { role: 'assistant', content: 'Send the data' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Here' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAA' } },
+            { type: 'text', text: 'File: data.csv\n```csv\na,b\n```' },
+          ],
+        },
+      ]);
+      expect(generateAdapter.buildRequest({ ...context, messages })).toEqual({
+        input_message: 'Here\n\nFile: data.csv\n```csv\na,b\n```',
+      });
+    });
+
+    it('should reject context-aware RAG requests without a trailing user message', async () => {
+      await expect(
+        contextAwareRagAdapter.buildRequest({
+          ...context,
+          messages: [{ role: 'assistant', content: 'Hi' }],
+        })
+      ).rejects.toThrow('User message not found');
+    });
+
+    it('should only accept generation parameters for chat adapters', () => {
+      expect(chatAdapter.acceptsGenerationParameters).toBe(true);
+      expect(chatStreamAdapter.acceptsGenerationParameters).toBe(true);
+      expect(generateAdapter.acceptsGenerationParameters).toBeFalsy();
+      expect(contextAwareRagAdapter.acceptsGenerationParameters).toBeFalsy();
+    });
+  });
+
+  describe('parseResponse', () => {
+    it('should prefer value for generate responses', () => {
+      expect(generateAdapter.parseResponse(JSON.stringify({ value: 'A', output: 'B' }))).toBe('A');
+    });
+
+    it('should prefer output for chat responses', () => {
+      expect(chatAdapter.parseResponse(JSON.stringify({ value: 'A', output: 'B' }))).toBe('B');
+    });
+
+    it('should read result for context-aware RAG responses', () => {
+      expect(contextAwareRagAdapter.parseResponse(JSON.stringify({ result: 'RAG answer' }))).toBe('RAG answer');
+    });
+
+    it('should pass through plain text', () => {
+      expect(chatAdapter.parseResponse('plain')).toBe('plain');
+    });
+  });
+
+  describe('parseStreamChunk', () => {
+    it('should extract delta content from chat stream lines', () => {
+      const line = `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] })}`;
+      expect(chatStreamAdapter.parseStreamChunk!(line, newState())).toEqual([
+        { type: 'text', text: 'Hi' },
+      ]);
+    });
+
+    it('should signal done on [DONE]', () => {
+      expect(chatStreamAdapter.parseStreamChunk!('data: [DONE]', newState())).toEqual([{ type: 'done' }]);
+      expect(generateStreamAdapter.parseStreamChunk!('data: [DONE]', newState())).toEqual([{ type: 'done' }]);
+    });
+
+    it('should convert intermediate_data lines into indexed steps', () => {
+      const state = newState();
+      const line = `intermediate_data: ${JSON.stringify({ id: 'step-1', name: 'Tool', payload: 'details' })}`;
+
+      const [first] = chatStreamAdapter.parseStreamChunk!(line, state);
+      const [second] = chatStreamAdapter.parseStreamChunk!(line, state);
+
+      expect(first).toMatchObject({
+        type: 'intermediate_step',
+        step: { id: 'step-1', type: 'system_intermediate', content: { name: 'Tool', payload: 'details' }, index: 0 },
+      });
+      expect(second).toMatchObject({ step: { index: 1 } });
+    });
+
+    it('should ignore malformed lines', () => {
+      expect(chatStreamAdapter.parseStreamChunk!('data: {broken', newState())).toEqual([]);
+      expect(generateStreamAdapter.parseStreamChunk!('intermediate_data: {broken', newState())).toEqual([]);
+      expect(generateStreamAdapter.parseStreamChunk!('random text', newState())).toEqual([]);
+    });
+
+    it('should surface interaction requests from SSE data lines', () => {
+      const message = { type: 'system_interaction_message', content: { input_type: 'text', text: 'Approve?' } };
+      const line = `data: ${JSON.stringify(message)}`;
+      expect(chatStreamAdapter.parseStreamChunk!(line, newState())).toEqual([{ type: 'interaction', message }]);
+      expect(generateStreamAdapter.parseStreamChunk!(line, newState())).toEqual([{ type: 'interaction', message }]);
+    });
+
+    it('should parse pre-tagged intermediate steps in generate streams', () => {
+      const step = { id: 'tagged', type: 'system_intermediate' };
+      const line = `<intermediatestep>${JSON.stringify(step)}</intermediatestep>`;
+      expect(generateStreamAdapter.parseStreamChunk!(line, newState())).toEqual([
+        { type: 'intermediate_step', step },
+      ]);
+    });
+
+    it('should fall back to a single JSON body when generate stream ends', () => {
+      const state = { rawContent: JSON.stringify({ output: ' final answer ' }), stepIndex: 0 };
+      expect(generateStreamAdapter.finalizeStream!(state)).toEqual([
+        { type: 'text', text: 'final answer' },
+      ]);
+    });
+  });
+});
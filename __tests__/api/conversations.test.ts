@@ -0,0 +1,192 @@
+/**
+ * Tests for the /api/conversations routes and the file-based history store
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import conversationHandler from '@/pages/api/conversations/[id]';
+import conversationsHandler from '@/pages/api/conversations';
+import folderHandler from '@/pages/api/conversations/folders/[id]';
+import foldersHandler from '@/pages/api/conversations/folders';
+import { createFileHistoryStore, setHistoryStore } from '@/utils/api/history';
+import { SESSION_COOKIE_NAME } from '@/constants/constants';
+import { Conversation } from '@/types/chat';
+import { HistoryStore } from '@/types/history';
+
+describe('/api/conversations', () => {
+  let rootDir: string;
+  let store: HistoryStore;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nat-history-'));
+    store = createFileHistoryStore(rootDir);
+    setHistoryStore(store);
+  });
+
+  afterEach(async () => {
+    setHistoryStore(null);
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const conversation = (id: string, folderId: string | null = null): Conversation => ({
+    id,
+    name: `Chat ${id}`,
+    folderId,
+    messages: [{ id: `${id}-m1`, role: 'user', content: 'hello' }],
+  });
+
+  const call = async (
+    handler: (req: any, res: any) => Promise<unknown>,
+    {
+      method = 'GET',
+      query = {},
+      body,
+      session = 'session-a',
+    }: { method?: string; query?: Record<string, string>; body?: any; session?: string | null },
+  ) => {
+    const res: any = { statusCode: 200, headers: {}, body: undefined };
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.json = jest.fn((payload: any) => {
+      res.body = payload;
+      return res;
+    });
+    res.end = jest.fn(() => res);
+    res.setHeader = jest.fn((name: string, value: any) => {
+      res.headers[name] = value;
+    });
+
+    await handler(
+      {
+        method,
+        query,
+        body,
+        cookies: session ? { [SESSION_COOKIE_NAME]: session } : {},
+        headers: {},
+      },
+      res,
+    );
+    return res;
+  };
+
+  it('rejects requests without a session cookie', async () => {
+    const res = await call(conversationsHandler, { session: null });
+
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('stores conversations per session and keeps their order', async () => {
+    await call(conversationHandler, { method: 'PUT', query: { id: 'a' }, body: conversation('a') });
+    await call(conversationHandler, { method: 'PUT', query: { id: 'b' }, body: conversation('b') });
+    await call(conversationHandler, {
+      method: 'PUT',
+      query: { id: 'a' },
+      body: { ...conversation('a'), name: 'renamed' },
+    });
+
+    const own = await call(conversationsHandler, {});
+    const other = await call(conversationsHandler, { session: 'session-b' });
+
+    expect(own.body.conversations.map((c: Conversation) => c.name)).toEqual(['renamed', 'Chat b']);
+    expect(other.body.conversations).toEqual([]);
+  });
+
+  it('reads and deletes a single conversation', async () => {
+    await call(conversationHandler, { method: 'PUT', query: { id: 'a' }, body: conversation('a') });
+
+    const found = await call(conversationHandler, { query: { id: 'a' } });
+    expect(found.body).toEqual(conversation('a'));
+
+    const deleted = await call(conversationHandler, { method: 'DELETE', query: { id: 'a' } });
+    expect(deleted.statusCode).toBe(204);
+
+    const missing = await call(conversationHandler, { query: { id: 'a' } });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('validates conversation bodies', async () => {
+    const invalid = await call(conversationHandler, {
+      method: 'PUT',
+      query: { id: 'a' },
+      body: { id: 'a', name: 'no messages' },
+    });
+    const mismatched = await call(conversationHandler, {
+      method: 'PUT',
+      query: { id: 'a' },
+      body: conversation('b'),
+    });
+
+    expect(invalid.statusCode).toBe(400);
+    expect(mismatched.statusCode).toBe(400);
+    expect(await store.listConversations('session-a')).toEqual([]);
+  });
+
+  it('clears all conversations of the session', async () => {
+    await call(conversationHandler, { method: 'PUT', query: { id: 'a' }, body: conversation('a') });
+
+    const res = await call(conversationsHandler, { method: 'DELETE' });
+
+    expect(res.statusCode).toBe(204);
+    expect(await store.listConversations('session-a')).toEqual([]);
+  });
+
+  it('rejects unsupported methods', async () => {
+    const res = await call(conversationsHandler, { method: 'POST' });
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toEqual(['GET', 'DELETE']);
+  });
+
+  describe('folders', () => {
+    const folder = { id: 'f1', name: 'Work', type: 'chat' };
+
+    it('creates, renames and lists folders', async () => {
+      const created = await call(foldersHandler, { method: 'POST', body: folder });
+      const duplicate = await call(foldersHandler, { method: 'POST', body: folder });
+      await call(folderHandler, { method: 'PUT', query: { id: 'f1' }, body: { ...folder, name: 'Team' } });
+
+      const list = await call(foldersHandler, {});
+
+      expect(created.statusCode).toBe(201);
+      expect(duplicate.statusCode).toBe(409);
+      expect(list.body.folders).toEqual([{ ...folder, name: 'Team' }]);
+    });
+
+    it('moves conversations out of a deleted folder', async () => {
+      await call(foldersHandler, { method: 'POST', body: folder });
+      await call(conversationHandler, { method: 'PUT', query: { id: 'a' }, body: conversation('a', 'f1') });
+
+      const deleted = await call(folderHandler, { method: 'DELETE', query: { id: 'f1' } });
+      const missing = await call(folderHandler, { method: 'DELETE', query: { id: 'f1' } });
+
+      expect(deleted.statusCode).toBe(204);
+      expect(missing.statusCode).toBe(404);
+      expect((await store.getConversation('session-a', 'a'))?.folderId).toBeNull();
+    });
+  });
+
+  describe('file store', () => {
+    it('keeps session ids out of file names', async () => {
+      await store.putConversation('../../etc/passwd', conversation('a'));
+
+      const files = await fs.readdir(rootDir);
+
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+    });
+
+    it('does not lose concurrent writes to the same session', async () => {
+      await Promise.all(
+        ['a', 'b', 'c', 'd'].map(id => store.putConversation('session-a', conversation(id))),
+      );
+
+      const reloaded = createFileHistoryStore(rootDir);
+      const ids = (await reloaded.listConversations('session-a')).map(c => c.id);
+
+      expect(ids).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the /api/data-stream-events push subscription
+ */
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+
+import handler from '@/pages/api/data-stream-events';
+import updateHandler from '@/pages/api/update-data-stream';
+
+describe('/api/data-stream-events', () => {
+  const subscribe = async (query: Record<string, string> = {}) => {
+    const req: any = new EventEmitter();
+    req.method = 'GET';
+    req.query = query;
+    const res: any = { chunks: [] as string[] };
+    res.writeHead = jest.fn();
+    res.write = jest.fn((chunk: string) => res.chunks.push(chunk));
+    await handler(req, res);
+    // Parsed events written so far
+    res.events = () =>
+      res.chunks
+        .filter((chunk: string) => chunk.startsWith('event:'))
+        .map((chunk: string) => {
+          const [eventLine, dataLine] = chunk.trim().split('\n');
+          return {
+            name: eventLine.slice('event: '.length),
+            data: JSON.parse(dataLine.slice('data: '.length)),
+          };
+        });
+    return { req, res };
+  };
+
+  const update = async (method: string, body: any) => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    const req = Object.assign(Readable.from([JSON.stringify(body)]), {
+      method,
+      query: {},
+      headers: {},
+    });
+    await updateHandler(req as any, res);
+    return res;
+  };
+
+  const subscriptions: any[] = [];
+  const open = async (query?: Record<string, string>) => {
+    const subscription = await subscribe(query);
+    subscriptions.push(subscription);
+    return subscription.res;
+  };
+
+  afterEach(() => {
+    subscriptions.splice(0).forEach(({ req }) => req.emit('close'));
+  });
+
+  it('opens an event stream with the stream list and current text', async () => {
+    await update('POST', { text: 'hello', stream_id: 'mic1' });
+
+    const res = await open({ stream: 'mic1' });
+
+    expect(res.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ 'Content-Type': 'text/event-stream' }),
+    );
+    expect(res.events()).toEqual([
+      { name: 'streams', data: { type: 'streams', streams: expect.arrayContaining(['mic1']) } },
+      {
+        name: 'live-text',
+        data: expect.objectContaining({ type: 'live-text', stream_id: 'mic1', text: 'hello' }),
+      },
+    ]);
+  });
+
+  it('pushes live text, finalized entries and ingestion status of the stream', async () => {
+    const res = await open({ stream: 'mic2' });
+    const other = await open({ stream: 'mic3' });
+
+    await update('POST', { text: 'one', stream_id: 'mic2' });
+    await update('POST', { text: 'one two', stream_id: 'mic2', finalized: true, uuid: 'u-1' });
+    await update('PATCH', { uuid: 'u-1', pending: false });
+
+    const names = res.events().map((event: any) => event.name);
+    expect(names).toEqual([
+      'streams',
+      'live-text',
+      'live-text',
+      'streams',
+      'finalized-entry',
+      'live-text',
+      'ingestion-status',
+    ]);
+    const status = res.events().pop().data;
+    expect(status.entry).toEqual(
+      expect.objectContaining({ uuid: 'u-1', pending: false, stream_id: 'mic2' }),
+    );
+
+    // Other streams only hear about the new stream id
+    expect(other.events().map((event: any) => event.name)).toEqual([
+      'streams',
+      'live-text',
+      'streams',
+    ]);
+  });
+
+  it('sends only the requested event types', async () => {
+    const res = await open({ types: 'finalized-entry' });
+
+    await update('POST', { text: 'draft', stream_id: 'mic4' });
+    await update('POST', { text: 'final', stream_id: 'mic4', finalized: true });
+
+    expect(res.events().map((event: any) => event.name)).toEqual(['finalized-entry']);
+  });
+
+  it('stops pushing once the client disconnects', async () => {
+    const { req, res } = await subscribe();
+    req.emit('close');
+    const written = res.chunks.length;
+
+    await update('POST', { text: 'late', stream_id: 'mic5' });
+
+    expect(res.chunks).toHaveLength(written);
+  });
+
+  it('rejects other methods', async () => {
+    const res: any = {};
+    res.setHeader = jest.fn();
+    res.status = jest.fn(() => res);
+    res.end = jest.fn();
+
+    await handler({ method: 'POST', query: {} } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for authenticated writes to /api/update-data-stream: ingestion keys,
+ * HMAC signatures, per-stream permissions and body size limits
+ */
+import { Readable } from 'stream';
+
+import handler from '@/pages/api/update-data-stream';
+import { createMemoryStreamStore, setStreamStore } from '@/utils/api/dataStream';
+import {
+  clearSeenSignatures,
+  getIngestionKeys,
+  signDataStreamBody,
+} from '@/utils/api/dataStream/ingestion';
+
+const call = async (
+  method: string,
+  body: any,
+  headers: Record<string, string> = {},
+) => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.setHeader = jest.fn();
+  res.end = jest.fn();
+  const raw = typeof body === 'string' ? body : JSON.stringify(body);
+  const req = Object.assign(Readable.from([raw]), { method, query: {}, headers });
+  await handler(req as any, res);
+  return {
+    status: res.status.mock.calls[0]?.[0],
+    body: res.json.mock.calls[0]?.[0],
+    headers: Object.fromEntries(res.setHeader.mock.calls),
+  };
+};
+
+const bearer = (secret: string) => ({ authorization: `Bearer ${secret}` });
+
+const signed = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) => ({
+  'x-data-stream-timestamp': String(timestamp),
+  'x-data-stream-signature': `sha256=${signDataStreamBody(secret, timestamp, body)}`,
+});
+
+describe('data stream ingestion', () => {
+  const originalKeys = process.env.NAT_DATA_STREAM_INGEST_KEYS;
+  const originalMaxBody = process.env.NAT_DATA_STREAM_MAX_BODY_BYTES;
+
+  beforeEach(() => {
+    process.env.NAT_DATA_STREAM_INGEST_KEYS = 'asr-key=mic1,room-*;db-key';
+    delete process.env.NAT_DATA_STREAM_MAX_BODY_BYTES;
+    setStreamStore(createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 0 }));
+    clearSeenSignatures();
+  });
+
+  afterAll(() => {
+    if (originalKeys === undefined) delete process.env.NAT_DATA_STREAM_INGEST_KEYS;
+    else process.env.NAT_DATA_STREAM_INGEST_KEYS = originalKeys;
+    if (originalMaxBody === undefined) delete process.env.NAT_DATA_STREAM_MAX_BODY_BYTES;
+    else process.env.NAT_DATA_STREAM_MAX_BODY_BYTES = originalMaxBody;
+    setStreamStore(null);
+  });
+
+  it('parses keys with and without stream lists', () => {
+    expect(getIngestionKeys()).toEqual([
+      { secret: 'asr-key', streams: ['mic1', 'room-*'] },
+      { secret: 'db-key', streams: ['*'] },
+    ]);
+  });
+
+  it('stays open when no keys are configured', async () => {
+    delete process.env.NAT_DATA_STREAM_INGEST_KEYS;
+
+    const { status } = await call('POST', { text: 'hi', stream_id: 'mic1' });
+
+    expect(status).toBe(200);
+  });
+
+  it('answers 401 without a valid key', async () => {
+    const missing = await call('POST', { text: 'hi', stream_id: 'mic1' });
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({ error: 'Ingestion key or signature is required.' });
+    expect(missing.headers['WWW-Authenticate']).toBe('Bearer realm="data-stream"');
+
+    const wrong = await call('POST', { text: 'hi', stream_id: 'mic1' }, bearer('guess'));
+    expect(wrong.status).toBe(401);
+    expect(wrong.body).toEqual({ error: 'Invalid ingestion key.' });
+  });
+
+  it('lets a key write only its streams', async () => {
+    expect((await call('POST', { text: 'hi', stream_id: 'mic1' }, bearer('asr-key'))).status).toBe(200);
+    expect((await call('POST', { text: 'hi', stream_id: 'room-2' }, bearer('asr-key'))).status).toBe(200);
+
+    const denied = await call('POST', { text: 'hi', stream_id: 'mic2' }, bearer('asr-key'));
+    expect(denied.status).toBe(403);
+    expect(denied.body).toEqual({ error: 'Not allowed to write stream mic2.' });
+
+    // Without stream_id the update goes to the default stream
+    expect((await call('POST', { text: 'hi' }, bearer('asr-key'))).status).toBe(403);
+    expect((await call('POST', { text: 'hi', stream_id: 'mic2' }, bearer('db-key'))).status).toBe(200);
+  });
+
+  it('checks the stream of the entry on PATCH', async () => {
+    await call('POST', { text: 'a', stream_id: 'mic1', finalized: true, uuid: 'u-1' }, bearer('db-key'));
+    await call('POST', { text: 'b', stream_id: 'mic9', finalized: true, uuid: 'u-9' }, bearer('db-key'));
+
+    expect((await call('PATCH', { uuid: 'u-1', pending: false }, bearer('asr-key'))).status).toBe(200);
+    expect((await call('PATCH', { uuid: 'u-9', pending: false }, bearer('asr-key'))).status).toBe(403);
+    expect((await call('PATCH', { uuid: 'u-9', pending: false })).status).toBe(401);
+  });
+
+  it('accepts bodies signed with a key', async () => {
+    const body = JSON.stringify({ text: 'signed', stream_id: 'mic1' });
+
+    const { status } = await call('POST', body, signed('asr-key', body));
+
+    expect(status).toBe(200);
+  });
+
+  it('rejects altered, unsigned and expired signatures', async () => {
+    const body = JSON.stringify({ text: 'signed', stream_id: 'mic1' });
+    const altered = JSON.stringify({ text: 'injected', stream_id: 'mic1' });
+    const headers = signed('asr-key', body);
+
+    expect((await call('POST', altered, headers)).body).toEqual({ error: 'Invalid signature.' });
+    expect((await call('POST', body, signed('other-key', body))).status).toBe(401);
+
+    const stale = Math.floor(Date.now() / 1000) - 3600;
+    const expired = await call('POST', body, signed('asr-key', body, stale));
+    expect(expired.status).toBe(401);
+    expect(expired.body).toEqual({ error: 'Signature timestamp is missing or expired.' });
+  });
+
+  it('rejects a signed request that is sent again', async () => {
+    const body = JSON.stringify({ text: 'signed', stream_id: 'mic1' });
+    const headers = signed('asr-key', body);
+
+    expect((await call('POST', body, headers)).status).toBe(200);
+
+    const replayed = await call('POST', body, headers);
+    expect(replayed.status).toBe(401);
+    expect(replayed.body).toEqual({ error: 'Signature has already been used.' });
+
+    // A new timestamp makes a new signature for the same body
+    const later = signed('asr-key', body, Math.floor(Date.now() / 1000) + 1);
+    expect((await call('POST', body, later)).status).toBe(200);
+  });
+
+  it('answers 413 for bodies over the limit', async () => {
+    process.env.NAT_DATA_STREAM_MAX_BODY_BYTES = '64';
+
+    const large = await call('POST', { text: 'x'.repeat(100), stream_id: 'mic1' }, bearer('db-key'));
+    expect(large.status).toBe(413);
+
+    const declared = await call('POST', { text: 'hi' }, { ...bearer('db-key'), 'content-length': '1000' });
+    expect(declared.status).toBe(413);
+  });
+
+  it('answers 400 for bodies that are not JSON objects', async () => {
+    expect((await call('POST', 'text=hi', bearer('db-key'))).status).toBe(400);
+    expect((await call('POST', '[1]', bearer('db-key'))).status).toBe(400);
+    expect((await call('POST', { text: 'hi', stream_id: 7 }, bearer('db-key'))).status).toBe(400);
+  });
+});
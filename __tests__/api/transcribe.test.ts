@@ -0,0 +1,93 @@
+/**
+ * Tests for the /api/transcribe speech-to-text proxy
+ */
+import handler from '@/pages/api/transcribe';
+
+describe('/api/transcribe', () => {
+  const originalEnv = process.env;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      NAT_STT_URL: 'http://whisper.local/v1/audio/transcriptions',
+    };
+    delete process.env.NAT_STT_API_KEY;
+    delete process.env.NAT_STT_MODEL;
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  const call = async (method: string, body?: any) => {
+    const res: any = { statusCode: 200, headers: {} };
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.json = jest.fn((payload: any) => {
+      res.body = payload;
+      return res;
+    });
+    res.setHeader = jest.fn((name: string, value: any) => {
+      res.headers[name] = value;
+    });
+    await handler({ method, body } as any, res);
+    return res;
+  };
+
+  const audio = Buffer.from('RIFF-audio').toString('base64');
+
+  it('forwards the recording as multipart form data', async () => {
+    process.env.NAT_STT_API_KEY = 'secret';
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ text: ' hello there ' }),
+    });
+
+    const res = await call('POST', {
+      audio,
+      mimeType: 'audio/webm;codecs=opus',
+      language: 'de-DE',
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ text: 'hello there' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://whisper.local/v1/audio/transcriptions');
+    expect(init.headers).toEqual({ Authorization: 'Bearer secret' });
+    const form = init.body as FormData;
+    expect(form.get('model')).toBe('whisper-1');
+    expect(form.get('language')).toBe('de');
+    expect((form.get('file') as File).name).toBe('recording.webm');
+  });
+
+  it('rejects requests when no transcription server is configured', async () => {
+    delete process.env.NAT_STT_URL;
+
+    const res = await call('POST', { audio });
+
+    expect(res.statusCode).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods and missing audio', async () => {
+    expect((await call('GET')).statusCode).toBe(405);
+    expect((await call('POST', {})).statusCode).toBe(400);
+  });
+
+  it('reports upstream failures as a bad gateway', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 500 });
+
+    const res = await call('POST', { audio });
+
+    expect(res.statusCode).toBe(502);
+    expect(res.body).toEqual({ error: 'Transcription failed' });
+  });
+});
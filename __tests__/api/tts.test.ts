@@ -0,0 +1,102 @@
+/**
+ * Tests for the /api/tts text-to-speech proxy
+ */
+import handler from '@/pages/api/tts';
+
+describe('/api/tts', () => {
+  const originalEnv = process.env;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      NAT_TTS_URL: 'http://tts.local/v1/audio/speech',
+      NAT_TTS_VOICES: 'af_bella, am_adam',
+    };
+    delete process.env.NAT_TTS_API_KEY;
+    delete process.env.NAT_TTS_VOICE;
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  const call = async (method: string, body?: any) => {
+    const res: any = { statusCode: 200, headers: {} };
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.json = jest.fn((payload: any) => {
+      res.body = payload;
+      return res;
+    });
+    res.send = jest.fn((payload: any) => {
+      res.body = payload;
+      return res;
+    });
+    res.setHeader = jest.fn((name: string, value: any) => {
+      res.headers[name] = value;
+    });
+    await handler({ method, body } as any, res);
+    return res;
+  };
+
+  it('lists the configured voices', async () => {
+    const res = await call('GET');
+
+    expect(res.body).toEqual({ voices: ['af_bella', 'am_adam'] });
+  });
+
+  it('returns the audio generated by the TTS server', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'Content-Type': 'audio/mpeg' }),
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+    });
+
+    const res = await call('POST', { text: 'Hello there.', voice: 'am_adam' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('audio/mpeg');
+    expect(Array.from(res.body)).toEqual([1, 2, 3]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      model: 'tts-1',
+      input: 'Hello there.',
+      voice: 'am_adam',
+      response_format: 'mp3',
+    });
+  });
+
+  it('falls back to the default voice for unknown voices', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      headers: new Headers(),
+      arrayBuffer: async () => new ArrayBuffer(0),
+    });
+
+    await call('POST', { text: 'Hi.', voice: 'someone-else' });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).voice).toBe('af_bella');
+  });
+
+  it('rejects missing text and unconfigured servers', async () => {
+    expect((await call('POST', { text: ' ' })).statusCode).toBe(400);
+
+    delete process.env.NAT_TTS_URL;
+    expect((await call('POST', { text: 'Hi.' })).statusCode).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports upstream failures as a bad gateway', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+    const res = await call('POST', { text: 'Hi.' });
+
+    expect(res.statusCode).toBe(502);
+  });
+});
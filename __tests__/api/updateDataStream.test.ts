@@ -0,0 +1,287 @@
+/**
+ * Tests for /api/update-data-stream append mode, history, pagination and
+ * ingestion status, and the stream stores
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+import handler from '@/pages/api/update-data-stream';
+import {
+  createFileStreamStore,
+  createMemoryStreamStore,
+  setStreamStore,
+} from '@/utils/api/dataStream';
+
+const call = async (
+  method: string,
+  query: any = {},
+  body?: any,
+  headers: Record<string, string> = {},
+) => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.setHeader = jest.fn();
+  res.end = jest.fn();
+  const raw = typeof body === 'string' ? body : JSON.stringify(body ?? {});
+  const req = Object.assign(Readable.from(method === 'GET' ? [] : [raw]), {
+    method,
+    query,
+    headers,
+  });
+  await handler(req as any, res);
+  return {
+    status: res.status.mock.calls[0]?.[0],
+    body: res.json.mock.calls[0]?.[0],
+    headers: Object.fromEntries(res.setHeader.mock.calls),
+  };
+};
+
+const entry = (id: string, stream_id: string, timestamp: number) => ({
+  id,
+  text: id,
+  stream_id,
+  timestamp,
+  finalized: true,
+  pending: true,
+});
+
+describe('/api/update-data-stream', () => {
+  beforeEach(() => {
+    setStreamStore(createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 0 }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    setStreamStore(null);
+  });
+
+  const finalize = (text: string, stream_id: string, timestamp: number) =>
+    call('POST', {}, { text, stream_id, timestamp, finalized: true });
+
+  it('pages finalized entries newest first with the total and next offset', async () => {
+    await finalize('one', 'mic1', 1000);
+    await finalize('two', 'mic2', 2000);
+    await finalize('three', 'mic1', 3000);
+
+    const first = await call('GET', { type: 'finalized', order: 'newest', limit: '2' });
+    expect(first.status).toBe(200);
+    expect(first.body.entries.map((e: any) => e.text)).toEqual(['three', 'two']);
+    expect(first.body).toMatchObject({ total: 3, offset: 0, limit: 2, next_offset: 2, streams: ['mic1', 'mic2'] });
+
+    const last = await call('GET', { type: 'finalized', order: 'newest', limit: '2', offset: '2' });
+    expect(last.body.entries.map((e: any) => e.text)).toEqual(['one']);
+    expect(last.body.next_offset).toBeNull();
+
+    const stream = await call('GET', { type: 'finalized', stream: 'mic1' });
+    expect(stream.body.entries.map((e: any) => e.text)).toEqual(['one', 'three']);
+    expect(stream.body).toMatchObject({ stream_id: 'mic1', total: 2 });
+    expect(stream.body.next_offset).toBeUndefined();
+  });
+
+  it('appends deltas in sequence and reports skipped sequence numbers', async () => {
+    await call('POST', {}, { text: 'hello', stream_id: 'asr', mode: 'append', sequence: 1, timestamp: 1 });
+    const next = await call('POST', {}, { text: ' world', stream_id: 'asr', mode: 'append', sequence: 4, timestamp: 2 });
+
+    expect(next.body).toEqual({ success: true, sequence: 4, gap: 2 });
+    expect((await call('GET', { stream: 'asr' })).body.text).toBe('hello world');
+
+    const stale = await call('POST', {}, { text: '!', stream_id: 'asr', mode: 'append', sequence: 4 });
+    expect(stale.status).toBe(409);
+    expect(stale.body.last_sequence).toBe(4);
+    expect((await call('GET', { stream: 'asr' })).body.text).toBe('hello world');
+  });
+
+  it('keeps every delta of concurrent appends', async () => {
+    // Slow writes, as to a database, leave room for requests to interleave
+    const store = createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 0 });
+    const setStreamText = store.setStreamText;
+    store.setStreamText = (data) => new Promise((resolve) => setTimeout(() => resolve(setStreamText(data)), 10));
+    setStreamStore(store);
+
+    const posts = ['a', 'b', 'c'].map((text) => call('POST', {}, { text, stream_id: 'asr', mode: 'append' }));
+    await Promise.all(posts);
+
+    const { text } = (await call('GET', { stream: 'asr' })).body;
+    expect(text.split('').sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps live updates in the stream history', async () => {
+    await call('POST', {}, { text: 'first draft', stream_id: 'asr', timestamp: 1 });
+    await call('POST', {}, { text: 'second draft', stream_id: 'asr', timestamp: 2 });
+    await call('POST', {}, { text: ' and more', stream_id: 'asr', mode: 'append', timestamp: 3 });
+
+    const all = await call('GET', { type: 'history', stream: 'asr' });
+    expect(all.body.segments).toEqual([
+      { stream_id: 'asr', text: 'first draft', timestamp: 1, mode: 'replace' },
+      { stream_id: 'asr', text: 'second draft', timestamp: 2, mode: 'replace' },
+      { stream_id: 'asr', text: ' and more', timestamp: 3, mode: 'append' },
+    ]);
+
+    const recent = await call('GET', { type: 'history', stream: 'asr', limit: '1' });
+    expect(recent.body.segments.map((s: any) => s.text)).toEqual([' and more']);
+  });
+
+  it('rejects invalid modes, sequences and history requests', async () => {
+    expect((await call('POST', {}, { text: 'x', mode: 'prepend' })).status).toBe(400);
+    expect((await call('POST', {}, { text: 'x', sequence: -1 })).status).toBe(400);
+    expect((await call('POST', {}, { text: 'x', sequence: '2' })).status).toBe(400);
+    expect((await call('GET', { type: 'history' })).status).toBe(400);
+    expect((await call('GET', { type: 'history', stream: 'asr', limit: '0' })).status).toBe(400);
+  });
+
+  it('tracks ingestion status, failures, retries and latency', async () => {
+    jest.useFakeTimers({ now: 100_000 });
+    await call('POST', {}, { text: 'chunk', stream_id: 'mic1', finalized: true, uuid: 'u-1' });
+    const patch = async (fields: any) => (await call('PATCH', {}, { uuid: 'u-1', ...fields })).body.entry;
+
+    expect(await patch({ status: 'embedding' })).toMatchObject({ status: 'embedding', pending: true, retries: 0 });
+    expect(await patch({ status: 'failed', error: 'Embedding service timed out' })).toMatchObject({
+      status: 'failed',
+      pending: true,
+      error: 'Embedding service timed out',
+    });
+
+    // Leaving failed counts as a retry and clears the error
+    const retried = await patch({ status: 'queued' });
+    expect(retried).toMatchObject({ status: 'queued', retries: 1 });
+    expect(retried.error).toBeUndefined();
+
+    jest.setSystemTime(102_500);
+    expect(await patch({ status: 'ingested' })).toMatchObject({
+      status: 'ingested',
+      pending: false,
+      ingested_at: 102_500,
+      latency_ms: 2500,
+    });
+    expect(await patch({ status: 'ingested', latency_ms: 1800 })).toMatchObject({ latency_ms: 1800, ingested_at: 102_500 });
+  });
+
+  it('maps pending from older backends to queued or ingested', async () => {
+    await call('POST', {}, { text: 'chunk', stream_id: 'mic1', finalized: true, uuid: 'u-2' });
+
+    const { body } = await call('PATCH', {}, { uuid: 'u-2', pending: false });
+
+    expect(body.entry).toMatchObject({ status: 'ingested', pending: false });
+  });
+
+  it('rejects invalid ingestion updates', async () => {
+    await call('POST', {}, { text: 'chunk', stream_id: 'mic1', finalized: true, uuid: 'u-3' });
+
+    for (const fields of [{}, { status: 'done' }, { pending: 'no' }, { status: 'failed', error: 42 }, { status: 'queued', retries: -1 }, { status: 'ingested', latency_ms: 'fast' }]) {
+      const { status } = await call('PATCH', {}, { uuid: 'u-3', ...fields });
+      expect(status).toBe(400);
+    }
+  });
+
+  it('filters finalized entries by status and summarizes each stream', async () => {
+    await call('POST', {}, { text: 'a', stream_id: 'mic1', finalized: true, uuid: 'a' });
+    await call('POST', {}, { text: 'b', stream_id: 'mic1', finalized: true, uuid: 'b' });
+    await call('POST', {}, { text: 'c', stream_id: 'mic2', finalized: true, uuid: 'c' });
+    await call('PATCH', {}, { uuid: 'b', status: 'failed', error: 'boom' });
+
+    const failed = await call('GET', { type: 'finalized', status: 'failed' });
+    expect(failed.body.entries.map((e: any) => e.text)).toEqual(['b']);
+    expect((await call('GET', { type: 'finalized', status: 'lost' })).status).toBe(400);
+
+    const { body } = await call('GET', { type: 'summary' });
+    expect(body.summaries.map((summary: any) => [summary.stream_id, summary.counts])).toEqual([
+      ['mic1', { queued: 1, embedding: 0, ingested: 0, failed: 1 }],
+      ['mic2', { queued: 1, embedding: 0, ingested: 0, failed: 0 }],
+    ]);
+    expect(body.window_ms).toBe(5 * 60 * 1000);
+  });
+
+  it('rejects invalid paging parameters', async () => {
+    for (const query of [{ limit: '0' }, { limit: '1001' }, { limit: 'ten' }, { offset: '-1' }, { order: 'random' }]) {
+      const { status } = await call('GET', { type: 'finalized', ...query });
+      expect(status).toBe(400);
+    }
+  });
+
+  it('answers 500 when the store fails', async () => {
+    const failing = createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 0 });
+    failing.listStreamTexts = () => Promise.reject(new Error('disk full'));
+    setStreamStore(failing);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { status, body } = await call('GET');
+
+    expect(status).toBe(500);
+    expect(body).toEqual({ error: 'Data stream store failed.' });
+    consoleError.mockRestore();
+  });
+});
+
+describe('memory stream store', () => {
+  it('keeps the newest entries of each stream', async () => {
+    const store = createMemoryStreamStore({ maxEntriesPerStream: 2, maxSegmentsPerStream: 0, ttlMs: 0 });
+    await store.addFinalizedEntry(entry('a1', 'a', 1));
+    await store.addFinalizedEntry(entry('b1', 'b', 2));
+    await store.addFinalizedEntry(entry('a3', 'a', 3));
+    await store.addFinalizedEntry(entry('a2', 'a', 2));
+
+    const page = await store.listFinalizedEntries({});
+
+    expect(page.entries.map((e) => e.id)).toEqual(['b1', 'a2', 'a3']);
+  });
+
+  it('keeps the most recent segments of each stream', async () => {
+    const store = createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 2, ttlMs: 0 });
+    for (const text of ['a', 'b', 'c']) {
+      await store.addStreamSegment({ stream_id: 'mic', text, timestamp: 1, mode: 'append' });
+    }
+
+    expect((await store.listStreamSegments('mic')).map((s) => s.text)).toEqual(['b', 'c']);
+    expect(await store.listStreamSegments('other')).toEqual([]);
+  });
+
+  it('drops entries and live text older than the TTL', async () => {
+    const now = Date.now();
+    const store = createMemoryStreamStore({ maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 60_000 });
+    await store.setStreamText({ text: 'old', stream_id: 'a', timestamp: now - 120_000, finalized: false });
+    await store.setStreamText({ text: 'new', stream_id: 'b', timestamp: now, finalized: false });
+    await store.addFinalizedEntry(entry('old', 'a', now - 120_000));
+    await store.addFinalizedEntry(entry('new', 'a', now));
+
+    expect(Object.keys(await store.listStreamTexts())).toEqual(['b']);
+    expect((await store.listFinalizedEntries({})).entries.map((e) => e.id)).toEqual(['new']);
+  });
+});
+
+describe('file stream store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nat-data-stream-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves changes to the file and loads them again', async () => {
+    const file = path.join(dir, 'streams.json');
+    const retention = { maxEntriesPerStream: 0, maxSegmentsPerStream: 0, ttlMs: 0 };
+    const store = createFileStreamStore(file, retention);
+    await store.setStreamText({ text: 'live', stream_id: 'mic1', timestamp: 1, finalized: false });
+    await store.addStreamSegment({ stream_id: 'mic1', text: 'live', timestamp: 1, mode: 'replace' });
+    await store.addFinalizedEntry({ ...entry('e1', 'mic1', 1), uuid: 'u-1' });
+    await store.updateFinalizedEntry('u-1', { pending: false });
+
+    // Writes are batched over a second
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+
+    const reloaded = createFileStreamStore(file, retention);
+    expect((await reloaded.listStreamTexts()).mic1.text).toBe('live');
+    expect(await reloaded.listStreamSegments('mic1')).toHaveLength(1);
+    expect((await reloaded.listFinalizedEntries({})).entries).toEqual([
+      expect.objectContaining({ id: 'e1', pending: false }),
+    ]);
+  });
+});
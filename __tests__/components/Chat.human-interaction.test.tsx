@@ -638,4 +638,115 @@ describe('Human-in-the-Loop Functionality', () => {
       expect(interactionQueue).toHaveLength(0);
     });
   });
+
+  describe('Interaction Form Schema', () => {
+    const renderModal = (content: any) => {
+      const onSubmit = jest.fn();
+      const onClose = jest.fn();
+      render(
+        <InteractionModal
+          isOpen
+          interactionMessage={{ type: 'system_interaction_message', thread_id: 't1', content }}
+          onClose={onClose}
+          onSubmit={onSubmit}
+        />
+      );
+      return { onSubmit, onClose };
+    };
+
+    it('renders every field of a form and submits typed values', () => {
+      const { onSubmit, onClose } = renderModal({
+        input_type: 'form',
+        text: 'Deployment settings',
+        fields: [
+          { name: 'replicas', type: 'number', label: 'Replicas', required: true, min: 1, max: 5 },
+          { name: 'region', type: 'dropdown', label: 'Region', options: [
+            { label: 'US', value: 'us' },
+            { label: 'EU', value: 'eu' },
+          ] },
+          { name: 'features', type: 'checkbox', label: 'Features', options: [
+            { label: 'GPU', value: 'gpu' },
+            { label: 'Logs', value: 'logs' },
+          ] },
+          { name: 'confirm', type: 'checkbox', placeholder: 'I understand', required: true },
+          { name: 'start', type: 'date', label: 'Start' },
+        ],
+      });
+
+      fireEvent.change(screen.getByLabelText('Replicas *'), { target: { value: '3' } });
+      fireEvent.change(screen.getByLabelText('Region'), { target: { value: 'eu' } });
+      fireEvent.click(screen.getByLabelText('GPU'));
+      fireEvent.click(screen.getByLabelText('I understand'));
+      fireEvent.click(screen.getByText('Submit'));
+
+      expect(onSubmit).toHaveBeenCalledWith({
+        interactionMessage: expect.objectContaining({ thread_id: 't1' }),
+        userResponse: { replicas: 3, region: 'eu', features: ['gpu'], confirm: true, start: '' },
+      });
+      expect(onClose).toHaveBeenCalled();
+    });
+
+    it('shows validation errors instead of submitting', () => {
+      const { onSubmit } = renderModal({
+        input_type: 'form',
+        text: 'Contact',
+        fields: [
+          { name: 'age', type: 'number', label: 'Age', max: 120 },
+          { name: 'email', type: 'text', label: 'Email', required: true, pattern: '[^@]+@[^@]+', pattern_message: 'Enter an email address.' },
+        ],
+      });
+
+      fireEvent.click(screen.getByText('Submit'));
+      expect(screen.getByText('This field is required.')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Age'), { target: { value: '200' } });
+      fireEvent.change(screen.getByLabelText('Email *'), { target: { value: 'nope' } });
+      fireEvent.click(screen.getByText('Submit'));
+
+      expect(screen.getByText('Must be at most 120.')).toBeInTheDocument();
+      expect(screen.getByText('Enter an email address.')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('enforces required on radio prompts', () => {
+      const { onSubmit } = renderModal({
+        input_type: 'radio',
+        text: 'Pick one',
+        required: true,
+        options: [{ id: 'a', label: 'Email', value: 'email' }],
+      });
+
+      fireEvent.click(screen.getByText('Submit'));
+      expect(screen.getByText('Please select an option.')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Email'));
+      fireEvent.click(screen.getByText('Submit'));
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ userResponse: 'email' }));
+    });
+
+    it('answers binary choices on click', () => {
+      const { onSubmit } = renderModal({
+        input_type: 'binary_choice',
+        text: 'Continue?',
+        options: [
+          { id: 'y', label: 'Yes', value: 'continue' },
+          { id: 'n', label: 'No', value: 'stop' },
+        ],
+      });
+
+      fireEvent.click(screen.getByText('No'));
+
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ userResponse: 'stop' }));
+    });
+
+    it('falls back to a text answer for unknown input types', () => {
+      const { onSubmit } = renderModal({ input_type: 'user_confirmation', text: 'Anything else?' });
+
+      expect(screen.getByText('Anything else?')).toBeInTheDocument();
+      fireEvent.change(screen.getByRole('textbox'), { target: { value: 'No thanks' } });
+      fireEvent.click(screen.getByText('Submit'));
+
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ userResponse: 'No thanks' }));
+    });
+  });
 });
@@ -0,0 +1,135 @@
+/**
+ * Tests for inserting library prompts with the "/" command
+ */
+
+import React, { useRef } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ChatInput } from '@/components/Chat/ChatInput';
+import HomeContext from '@/pages/api/home/home.context';
+import { initialState } from '@/pages/api/home/home.state';
+import { Prompt } from '@/types/prompt';
+
+jest.mock('next-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+describe('ChatInput prompt command', () => {
+  const prompts: Prompt[] = [
+    {
+      id: 'p1',
+      name: 'Translate',
+      description: 'Translate a text',
+      content: 'Translate {{text}} to {{language}}',
+      folderId: null,
+    },
+    {
+      id: 'p2',
+      name: 'Tidy',
+      description: '',
+      content: 'Fix the grammar:',
+      folderId: null,
+    },
+    {
+      id: 'p3',
+      name: 'Price',
+      description: '',
+      content: 'Costs $& or $1 in $$',
+      folderId: null,
+    },
+  ];
+
+  const Harness = () => {
+    const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+    return (
+      <HomeContext.Provider
+        value={{
+          state: { ...initialState, prompts },
+          dispatch: jest.fn(),
+        } as any}
+      >
+        <ChatInput
+          onSend={jest.fn()}
+          onRegenerate={jest.fn()}
+          onScrollDownClick={jest.fn()}
+          textareaRef={textareaRef}
+          showScrollDownButton={false}
+          controller={{ current: null }}
+          onStopConversation={jest.fn()}
+        />
+      </HomeContext.Provider>
+    );
+  };
+
+  const type = (textarea: HTMLElement, value: string) =>
+    fireEvent.change(textarea, { target: { value } });
+
+  beforeAll(() => {
+    jest
+      .spyOn(window.HTMLMediaElement.prototype, 'play')
+      .mockImplementation(() => Promise.resolve());
+  });
+
+  it('lists matching prompts and inserts one without variables', () => {
+    render(<Harness />);
+    const textarea = screen.getByRole('textbox');
+
+    type(textarea, 'Please /ti');
+    expect(screen.getByTestId('prompt-list')).toHaveTextContent('Tidy');
+    expect(screen.queryByText('Translate')).toBeNull();
+
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+
+    expect(textarea).toHaveValue('Please Fix the grammar:');
+    expect(screen.queryByTestId('prompt-list')).toBeNull();
+    expect(screen.queryByTestId('variable-modal')).toBeNull();
+  });
+
+  it('asks for the variables of the chosen prompt', () => {
+    render(<Harness />);
+    const textarea = screen.getByRole('textbox');
+
+    type(textarea, '/');
+    fireEvent.keyDown(textarea, { key: 'ArrowDown' });
+    fireEvent.keyDown(textarea, { key: 'ArrowUp' });
+    fireEvent.click(screen.getByText('Translate'));
+
+    expect(screen.getByTestId('variable-modal')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('text'), { target: { value: 'hello' } });
+    fireEvent.change(screen.getByLabelText('language'), { target: { value: 'French' } });
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(screen.queryByTestId('variable-modal')).toBeNull();
+    expect(textarea).toHaveValue('Translate hello to French');
+  });
+
+  it('inserts the prompt body literally', () => {
+    render(<Harness />);
+    const textarea = screen.getByRole('textbox');
+
+    type(textarea, '/pri');
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+
+    expect(textarea).toHaveValue('Costs $& or $1 in $$');
+  });
+
+  it('fills in only the variables of the inserted prompt', () => {
+    render(<Harness />);
+    const textarea = screen.getByRole('textbox');
+
+    type(textarea, 'Keep {{text}} then /tr');
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+    fireEvent.change(screen.getByLabelText('text'), { target: { value: 'hello' } });
+    fireEvent.change(screen.getByLabelText('language'), { target: { value: 'French' } });
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(textarea).toHaveValue('Keep {{text}} then Translate hello to French');
+  });
+
+  it('does not open the list for slashes inside words', () => {
+    render(<Harness />);
+    const textarea = screen.getByRole('textbox');
+
+    type(textarea, 'and/or');
+    expect(screen.queryByTestId('prompt-list')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for inline human-in-the-loop interaction cards
+ */
+
+import React from 'react';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { InteractionCard } from '@/components/Chat/InteractionCard';
+import { InteractionRecord } from '@/types/interaction';
+
+jest.mock('next-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+describe('InteractionCard', () => {
+  const record = (overrides: Partial<InteractionRecord> = {}): InteractionRecord => ({
+    id: 'p1',
+    status: 'pending',
+    receivedAt: 0,
+    message: {
+      type: 'system_interaction_message',
+      id: 'p1',
+      content: {
+        input_type: 'radio',
+        text: 'Notify how?',
+        options: [
+          { id: 'e', label: 'Email', value: 'email' },
+          { id: 's', label: 'SMS', value: 'sms' },
+        ],
+      },
+    },
+    ...overrides,
+  });
+
+  it('answers a pending prompt inline', () => {
+    const onSubmit = jest.fn();
+    render(<InteractionCard record={record()} onSubmit={onSubmit} />);
+
+    expect(screen.getByText('Waiting for you')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('SMS'));
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ id: 'p1' }), 'sms');
+  });
+
+  it('can be put aside and reopened later', () => {
+    render(<InteractionCard record={record()} onSubmit={jest.fn()} />);
+
+    fireEvent.click(screen.getByText('Later'));
+    expect(screen.queryByLabelText('SMS')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Reply'));
+    expect(screen.getByLabelText('SMS')).toBeInTheDocument();
+  });
+
+  it('shows the kept answer with option labels', () => {
+    render(<InteractionCard record={record({ status: 'answered', response: 'email' })} />);
+
+    expect(screen.getByText('Answered')).toBeInTheDocument();
+    expect(screen.getByText('Email')).toBeInTheDocument();
+    expect(screen.queryByText('Submit')).not.toBeInTheDocument();
+  });
+
+  it('shows expired prompts without a form', () => {
+    render(<InteractionCard record={record({ status: 'expired' })} />);
+
+    expect(screen.getByText('Expired')).toBeInTheDocument();
+    expect(screen.queryByText('Submit')).not.toBeInTheDocument();
+  });
+
+  it('counts down to the default answer and notes automatic answers', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+    const message = { ...record().message, timeout_seconds: 90, default_response: 'email' };
+    const { rerender } = render(
+      <InteractionCard record={record({ message, deadline: 90_000 })} onSubmit={jest.fn()} />,
+    );
+
+    expect(screen.getByTestId('interaction-countdown')).toHaveTextContent('Default answer in 1:30');
+    act(() => {
+      jest.advanceTimersByTime(31_000);
+    });
+    expect(screen.getByTestId('interaction-countdown')).toHaveTextContent('Default answer in 0:59');
+
+    rerender(
+      <InteractionCard
+        record={record({ message, deadline: 90_000, status: 'answered', response: 'email', autoSubmitted: true })}
+      />,
+    );
+    expect(screen.queryByTestId('interaction-countdown')).not.toBeInTheDocument();
+    expect(screen.getByText('Default answer sent after the prompt timed out.')).toBeInTheDocument();
+    jest.useRealTimers();
+  });
+});
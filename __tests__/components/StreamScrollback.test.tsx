@@ -0,0 +1,31 @@
+/**
+ * Tests for the live data stream scrollback
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { StreamScrollback } from '@/components/DataStreamDisplay/StreamScrollback';
+
+describe('StreamScrollback', () => {
+  it('lists updates with sequence numbers, appended deltas and gaps', () => {
+    render(
+      <StreamScrollback
+        segments={[
+          { stream_id: 'asr', text: 'hello', timestamp: 1000, mode: 'replace', sequence: 1 },
+          { stream_id: 'asr', text: 'world', timestamp: 2000, mode: 'append', sequence: 4, gap: 2 },
+        ]}
+      />,
+    );
+
+    expect(screen.getByText('hello')).toBeTruthy();
+    expect(screen.getByText('+ world')).toBeTruthy();
+    expect(screen.getByText(/#4/)).toBeTruthy();
+    expect(screen.getByText('2 updates missing')).toBeTruthy();
+  });
+
+  it('says when there are no updates', () => {
+    render(<StreamScrollback segments={[]} />);
+
+    expect(screen.getByTestId('stream-scrollback').textContent).toBe('No recent updates');
+  });
+});
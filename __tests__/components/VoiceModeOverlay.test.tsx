@@ -0,0 +1,60 @@
+/**
+ * Tests for the hands-free voice mode screen
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { VoiceModeOverlay } from '@/components/Chat/VoiceModeOverlay';
+
+jest.mock('next-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+describe('VoiceModeOverlay', () => {
+  it('shows what was heard while listening', () => {
+    render(
+      <VoiceModeOverlay
+        phase="listening"
+        transcript="what is the weather"
+        onInterrupt={jest.fn()}
+        onClose={jest.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Listening…')).toBeTruthy();
+    expect(screen.getByText('what is the weather')).toBeTruthy();
+    expect(screen.queryByText('Interrupt')).toBeNull();
+  });
+
+  it('offers to interrupt while the answer is spoken', () => {
+    const onInterrupt = jest.fn();
+    render(
+      <VoiceModeOverlay
+        phase="speaking"
+        transcript=""
+        onInterrupt={onInterrupt}
+        onClose={jest.fn()}
+      />,
+    );
+
+    expect(screen.getByTestId('voice-mode-overlay').getAttribute('data-phase')).toBe('speaking');
+    fireEvent.click(screen.getByText('Interrupt'));
+    expect(onInterrupt).toHaveBeenCalled();
+  });
+
+  it('closes with the close button and Escape', () => {
+    const onClose = jest.fn();
+    render(
+      <VoiceModeOverlay
+        phase="thinking"
+        transcript=""
+        onInterrupt={jest.fn()}
+        onClose={onClose}
+      />,
+    );
+
+    fireEvent.click(screen.getByLabelText('Exit voice mode'));
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
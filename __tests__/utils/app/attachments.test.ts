@@ -0,0 +1,92 @@
+/**
+ * Unit tests for chat attachment validation and content part conversion
+ */
+
+import {
+  MAX_ATTACHMENTS,
+  formatAttachmentSize,
+  getAttachmentKind,
+  toOpenAIContentParts,
+  validateAttachment,
+  withAttachmentText,
+} from '@/utils/app/attachments';
+import { MessageAttachment } from '@/types/chat';
+
+describe('attachments', () => {
+  const attachment = (overrides: Partial<MessageAttachment> = {}): MessageAttachment => ({
+    id: 'a',
+    name: 'notes.txt',
+    mimeType: 'text/plain',
+    size: 10,
+    kind: 'text',
+    content: 'hello',
+    ...overrides,
+  });
+
+  it('detects the attachment kind from the type or the extension', () => {
+    expect(getAttachmentKind({ name: 'photo.jpg', type: 'image/jpeg' })).toBe('image');
+    expect(getAttachmentKind({ name: 'report.pdf', type: '' })).toBe('pdf');
+    expect(getAttachmentKind({ name: 'data.json', type: 'application/json' })).toBe('text');
+    expect(getAttachmentKind({ name: 'main.py', type: '' })).toBe('text');
+    expect(getAttachmentKind({ name: 'app.exe', type: 'application/x-msdownload' })).toBeNull();
+  });
+
+  it('rejects unsupported, oversized and excess files', () => {
+    const file = { name: 'a.csv', type: 'text/csv', size: 100 };
+
+    expect(validateAttachment(file, [])).toBeNull();
+    expect(validateAttachment({ ...file, name: 'a.zip', type: 'application/zip' }, [])).toMatch(
+      'only images, PDFs',
+    );
+    expect(validateAttachment({ ...file, size: 3 * 1024 * 1024 }, [])).toBe(
+      'a.csv: files must not exceed 2 MB',
+    );
+    expect(
+      validateAttachment(file, Array.from({ length: MAX_ATTACHMENTS }, (_, i) => attachment({ id: `${i}` }))),
+    ).toBe(`At most ${MAX_ATTACHMENTS} files can be attached to a message`);
+    expect(
+      validateAttachment({ ...file, size: 2 * 1024 * 1024 }, [attachment({ size: 1.5 * 1024 * 1024 })]),
+    ).toBe('Attachments in a conversation must not exceed 3 MB in total');
+  });
+
+  it('counts attachments of earlier messages towards the total size', () => {
+    const file = { name: 'b.pdf', type: 'application/pdf', size: 1024 * 1024 };
+    const earlier = [attachment({ id: 'e1', size: 1.5 * 1024 * 1024 }), attachment({ id: 'e2', size: 1024 * 1024 })];
+
+    expect(validateAttachment(file, [], earlier.slice(0, 1))).toBeNull();
+    expect(validateAttachment(file, [], earlier)).toBe(
+      'Attachments in a conversation must not exceed 3 MB in total',
+    );
+  });
+
+  it('formats sizes for the preview chips', () => {
+    expect(formatAttachmentSize(512)).toBe('512 B');
+    expect(formatAttachmentSize(2048)).toBe('2 KB');
+    expect(formatAttachmentSize(1.5 * 1024 * 1024)).toBe('1.5 MB');
+  });
+
+  it('converts attachments to OpenAI content parts', () => {
+    const parts = toOpenAIContentParts({
+      content: ' Summarize ',
+      attachments: [
+        attachment({ kind: 'pdf', name: 'r.pdf', content: 'data:application/pdf;base64,JVB' }),
+        attachment(),
+      ],
+    });
+
+    expect(parts).toEqual([
+      { type: 'text', text: 'Summarize' },
+      { type: 'file', file: { filename: 'r.pdf', file_data: 'data:application/pdf;base64,JVB' } },
+      { type: 'text', text: 'File: notes.txt\n```txt\nhello\n```' },
+    ]);
+  });
+
+  it('appends only text attachments to plain prompts', () => {
+    expect(
+      withAttachmentText({
+        content: '',
+        attachments: [attachment({ kind: 'image', content: 'data:image/png;base64,A' }), attachment()],
+      }),
+    ).toBe('File: notes.txt\n```txt\nhello\n```');
+  });
+});
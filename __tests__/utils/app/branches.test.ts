@@ -0,0 +1,155 @@
+/**
+ * Unit tests for conversation branching on top of Message.parentId
+ */
+
+import {
+  branchConversation,
+  getMessageSiblings,
+  linkMessagePath,
+  normalizeMessageTree,
+  switchBranch,
+} from '@/utils/app/branches';
+import { cleanConversationHistory } from '@/utils/app/clean';
+import { Conversation, Message } from '@/types/chat';
+
+describe('conversation branches', () => {
+  const conversation = (messages: Message[], branchMessages?: Message[]): Conversation => ({
+    id: 'conv-1',
+    name: 'Branching',
+    folderId: null,
+    messages,
+    ...(branchMessages ? { branchMessages } : {}),
+  });
+
+  const linear = () =>
+    conversation([
+      { id: 'u1', role: 'user', content: 'first', timestamp: 1 },
+      { id: 'a1', role: 'assistant', content: 'answer 1', timestamp: 2 },
+      { id: 'u2', role: 'user', content: 'second', timestamp: 3 },
+      { id: 'a2', role: 'assistant', content: 'answer 2', timestamp: 4 },
+    ]);
+
+  // Simulates handleSend after an edit of the message at `index`
+  const editAt = (source: Conversation, index: number, message: Message): Conversation => {
+    const branched = branchConversation(source, index);
+    return {
+      ...branched,
+      messages: [...branched.messages, { ...message, parentId: branched.messages.at(-1)?.id }],
+    };
+  };
+
+  describe('linkMessagePath', () => {
+    it('links each message to the previous one', () => {
+      const linked = linkMessagePath(linear().messages);
+
+      expect(linked.map(m => m.parentId)).toEqual([undefined, 'u1', 'a1', 'u2']);
+    });
+
+    it('fills in missing and duplicate ids', () => {
+      const linked = linkMessagePath([
+        { role: 'user', content: 'no id' },
+        { id: 'dup', role: 'assistant', content: 'one' },
+        { id: 'dup', role: 'assistant', content: 'two' },
+      ]);
+
+      expect(linked[0].id).toEqual(expect.any(String));
+      expect(linked[1].id).toBe('dup');
+      expect(linked[2].id).not.toBe('dup');
+      expect(linked[2].parentId).toBe('dup');
+      expect(linked.every(m => typeof m.timestamp === 'number')).toBe(true);
+    });
+  });
+
+  describe('branchConversation', () => {
+    it('moves the replaced tail into branchMessages instead of dropping it', () => {
+      const branched = branchConversation(linear(), 2);
+
+      expect(branched.messages.map(m => m.id)).toEqual(['u1', 'a1']);
+      expect(branched.branchMessages?.map(m => m.id)).toEqual(['u2', 'a2']);
+      expect(branched.branchMessages?.[0].parentId).toBe('a1');
+    });
+
+    it('drops queued messages that were never sent', () => {
+      const source = conversation([
+        { id: 'u1', role: 'user', content: 'first', timestamp: 1 },
+        { id: 'u2', role: 'user', content: 'queued', timestamp: 2, queued: true },
+      ]);
+
+      expect(branchConversation(source, 1).branchMessages).toEqual([]);
+    });
+  });
+
+  describe('getMessageSiblings', () => {
+    it('returns the message alone when there are no branches', () => {
+      const source = linear();
+      expect(getMessageSiblings(source, source.messages[2])).toEqual([source.messages[2]]);
+    });
+
+    it('lists edited prompts as siblings in creation order', () => {
+      const edited = editAt(linear(), 2, { id: 'u2b', role: 'user', content: 'second, edited', timestamp: 10 });
+      const current = edited.messages[2];
+
+      expect(getMessageSiblings(edited, current).map(m => m.id)).toEqual(['u2', 'u2b']);
+      expect(getMessageSiblings(edited, edited.messages[0]).map(m => m.id)).toEqual(['u1']);
+    });
+  });
+
+  describe('switchBranch', () => {
+    it('restores the original branch with its answers', () => {
+      const edited = editAt(linear(), 2, { id: 'u2b', role: 'user', content: 'second, edited', timestamp: 10 });
+      const withAnswer = {
+        ...edited,
+        messages: [...edited.messages, { id: 'a2b', parentId: 'u2b', role: 'assistant' as const, content: 'new answer', timestamp: 11 }],
+      };
+
+      const original = switchBranch(withAnswer, 'u2');
+
+      expect(original.messages.map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+      expect(original.branchMessages?.map(m => m.id).sort()).toEqual(['a2b', 'u2b']);
+
+      const back = switchBranch(original, 'u2b');
+      expect(back.messages.map(m => m.id)).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+      expect(back.branchMessages?.map(m => m.id).sort()).toEqual(['a2', 'u2']);
+    });
+
+    it('follows the most recent child below the selected message', () => {
+      let tree = editAt(linear(), 2, { id: 'u2b', role: 'user', content: 'b', timestamp: 10 });
+      tree = editAt(tree, 2, { id: 'u2c', role: 'user', content: 'c', timestamp: 20 });
+
+      const fromRoot = switchBranch(tree, 'a1');
+
+      expect(fromRoot.messages.map(m => m.id)).toEqual(['u1', 'a1', 'u2c']);
+      expect(getMessageSiblings(fromRoot, fromRoot.messages[2]).map(m => m.id)).toEqual(['u2', 'u2b', 'u2c']);
+    });
+
+    it('ignores unknown message ids', () => {
+      const source = linear();
+      expect(switchBranch(source, 'missing')).toBe(source);
+    });
+  });
+
+  describe('normalizeMessageTree', () => {
+    it('leaves conversations without branches untouched', () => {
+      const source = linear();
+      expect(normalizeMessageTree(source)).toBe(source);
+    });
+
+    it('drops orphaned branch messages and their descendants', () => {
+      const source = conversation(linear().messages, [
+        { id: 'u2b', parentId: 'a1', role: 'user', content: 'kept' },
+        { id: 'x1', parentId: 'missing', role: 'user', content: 'orphan' },
+        { id: 'x2', parentId: 'x1', role: 'assistant', content: 'orphan child' },
+        { role: 'user', content: 'no id' } as Message,
+      ]);
+
+      expect(normalizeMessageTree(source).branchMessages?.map(m => m.id)).toEqual(['u2b']);
+    });
+
+    it('keeps branches when cleaning imported history', () => {
+      const branched = branchConversation(linear(), 2);
+      const [cleaned] = cleanConversationHistory([JSON.parse(JSON.stringify(branched))]);
+
+      expect(cleaned.branchMessages?.map(m => m.id)).toEqual(['u2', 'a2']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for string and content part message accessors
+ */
+
+import { cleanConversationHistory } from '@/utils/app/clean';
+import {
+  getMediaParts,
+  getMessageText,
+  hasMessageContent,
+  isContentPart,
+  isDisplayableImageUrl,
+  normalizeMessageContent,
+  replaceMessageText,
+} from '@/utils/app/content';
+import { MessageContentPart } from '@/types/chat';
+
+describe('message content', () => {
+  const parts: MessageContentPart[] = [
+    { type: 'text', text: 'Describe this' },
+    { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+    { type: 'text', text: 'and this' },
+    { type: 'input_audio', input_audio: { data: 'AAAA', format: 'wav' } },
+  ];
+
+  it('reads the text of string and part contents', () => {
+    expect(getMessageText('hello')).toBe('hello');
+    expect(getMessageText(parts)).toBe('Describe this\n\nand this');
+    expect(getMessageText(undefined)).toBe('');
+  });
+
+  it('separates media parts from text', () => {
+    expect(getMediaParts('hello')).toEqual([]);
+    expect(getMediaParts(parts).map((part) => part.type)).toEqual([
+      'image_url',
+      'input_audio',
+    ]);
+    expect(hasMessageContent([parts[1]])).toBe(true);
+    expect(hasMessageContent('  ')).toBe(false);
+  });
+
+  it('replaces the text and keeps the media parts', () => {
+    expect(replaceMessageText('old', 'new')).toBe('new');
+    expect(replaceMessageText(parts, 'new')).toEqual([
+      { type: 'text', text: 'new' },
+      parts[1],
+      parts[3],
+    ]);
+  });
+
+  it('validates parts and drops malformed ones', () => {
+    expect(isContentPart({ type: 'file', file: { file_id: 'f1' } })).toBe(true);
+    expect(isContentPart({ type: 'image_url', image_url: {} })).toBe(false);
+    expect(isContentPart({ type: 'video', url: 'x' })).toBe(false);
+
+    expect(normalizeMessageContent([...parts, { type: 'text' }, null])).toEqual(parts);
+    expect(normalizeMessageContent(42)).toBe('');
+  });
+
+  it('only displays web and inline image URLs', () => {
+    expect(isDisplayableImageUrl('data:image/png;base64,AAAA')).toBe(true);
+    expect(isDisplayableImageUrl('javascript:alert(1)')).toBe(false);
+  });
+
+  it('keeps part arrays when cleaning imported history', () => {
+    const [cleaned] = cleanConversationHistory([
+      {
+        id: 'c1',
+        name: 'Parts',
+        messages: [
+          { role: 'user', content: [...parts, { type: 'bogus' }] },
+          { role: 'assistant', content: 'plain' },
+          { role: 'assistant', content: { text: 'broken' } },
+        ],
+      },
+    ]);
+
+    expect(cleaned.messages.map((message) => message.content)).toEqual([
+      parts,
+      'plain',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for conversation persistence through the ConversationStore
+ */
+
+import {
+  clearConversations,
+  loadConversations,
+  saveConversation,
+  saveConversations,
+} from '@/utils/app/conversation';
+import {
+  createMemoryConversationStore,
+  migrateSessionStorage,
+  setConversationStore,
+} from '@/utils/app/conversationStore';
+import { importData } from '@/utils/app/importExport';
+import { Conversation } from '@/types/chat';
+import { ConversationStore } from '@/types/storage';
+
+describe('conversationStore', () => {
+  let session: Record<string, string>;
+  let store: ConversationStore;
+
+  // jest.setup.js replaces sessionStorage with bare mocks, back them with a map
+  beforeEach(async () => {
+    session = {};
+    (sessionStorage.getItem as jest.Mock).mockImplementation((key: string) => session[key] ?? null);
+    (sessionStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      session[key] = value;
+    });
+    (sessionStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+      delete session[key];
+    });
+
+    store = createMemoryConversationStore();
+    setConversationStore(store);
+    // Also forgets what earlier tests saved
+    await clearConversations();
+  });
+
+  afterAll(() => {
+    setConversationStore(null);
+  });
+
+  const conversation = (id: string, name = id): Conversation => ({
+    id,
+    name,
+    folderId: null,
+    messages: [{ id: `${id}-m1`, role: 'user', content: 'hello' }],
+  });
+
+  describe('migrateSessionStorage', () => {
+    it('does nothing when there is no legacy data', async () => {
+      expect(await migrateSessionStorage(store)).toBe(false);
+      expect(await store.getAll()).toEqual([]);
+    });
+
+    it('moves history and the newer selected conversation into the store', async () => {
+      const selected = { ...conversation('b'), name: 'renamed' };
+      session.conversationHistory = JSON.stringify([conversation('a'), conversation('b')]);
+      session.selectedConversation = JSON.stringify(selected);
+
+      expect(await migrateSessionStorage(store)).toBe(true);
+
+      expect(await store.getAll()).toEqual([conversation('a'), selected]);
+      expect(await store.getSelectedId()).toBe('b');
+      expect(session).toEqual({});
+    });
+
+    it('keeps legacy data when the store rejects the write', async () => {
+      session.conversationHistory = JSON.stringify([conversation('a')]);
+      jest.spyOn(store, 'put').mockRejectedValue(new Error('blocked'));
+
+      await expect(migrateSessionStorage(store)).rejects.toThrow('blocked');
+      expect(session.conversationHistory).toBeDefined();
+    });
+  });
+
+  describe('saveConversations', () => {
+    it('writes only conversations that changed and deletes removed ones', async () => {
+      const a = conversation('a');
+      const b = conversation('b');
+      await saveConversations([a, b]);
+
+      const put = jest.spyOn(store, 'put');
+      const remove = jest.spyOn(store, 'remove');
+      const renamed = { ...a, name: 'renamed' };
+
+      await saveConversations([renamed]);
+
+      expect(put).toHaveBeenCalledWith([renamed]);
+      expect(remove).toHaveBeenCalledWith(['b']);
+      expect(await store.getAll()).toEqual([renamed]);
+    });
+
+    it('retries a conversation whose write failed', async () => {
+      const a = conversation('a');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const put = jest.spyOn(store, 'put').mockRejectedValueOnce(new Error('blocked'));
+
+      await saveConversations([a]);
+      await saveConversations([a]);
+
+      expect(put).toHaveBeenCalledTimes(2);
+      expect(await store.getAll()).toEqual([a]);
+    });
+  });
+
+  describe('loadConversations', () => {
+    it('migrates, cleans and restores the selected conversation', async () => {
+      session.conversationHistory = JSON.stringify([
+        conversation('a'),
+        { id: 'b', name: 'no messages' },
+      ]);
+      await saveConversation(conversation('a'));
+
+      const { conversations, selectedConversation } = await loadConversations();
+
+      expect(conversations.map(c => c.id)).toEqual(['a', 'b']);
+      expect(conversations[1].messages).toEqual([]);
+      expect(selectedConversation?.id).toBe('a');
+    });
+
+    it('does not rewrite conversations that were just loaded', async () => {
+      await store.put([conversation('a')]);
+      const { conversations } = await loadConversations();
+      const put = jest.spyOn(store, 'put');
+
+      await saveConversations(conversations);
+
+      expect(put).not.toHaveBeenCalled();
+    });
+  });
+
+  it('clears every conversation and the selection', async () => {
+    await saveConversation(conversation('a'));
+
+    await clearConversations();
+
+    expect(await store.getAll()).toEqual([]);
+    expect(await store.getSelectedId()).toBeNull();
+  });
+
+  it('imports history into the store and selects the last conversation', async () => {
+    await saveConversations([conversation('a')]);
+
+    const { history } = await importData({
+      version: 4,
+      history: [conversation('a', 'duplicate'), conversation('b')],
+      folders: [],
+      prompts: [],
+    });
+
+    expect(history.map(c => c.name)).toEqual(['a', 'b']);
+    expect((await store.getAll()).map(c => c.id)).toEqual(['a', 'b']);
+    expect(await store.getSelectedId()).toBe('b');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the data stream push subscription and its polling fallback
+ */
+
+import { subscribeToDataStream } from '@/utils/app/dataStream';
+
+describe('data stream subscription', () => {
+  class FakeEventSource {
+    static CLOSED = 2;
+    static instances: FakeEventSource[] = [];
+    readyState = 0;
+    onopen: any;
+    onerror: any;
+    listeners: Record<string, (message: any) => void> = {};
+    close = jest.fn();
+
+    constructor(public url: string) {
+      FakeEventSource.instances.push(this);
+    }
+
+    addEventListener(type: string, listener: (message: any) => void) {
+      this.listeners[type] = listener;
+    }
+
+    emit(type: string, payload: any) {
+      this.listeners[type]?.({ data: JSON.stringify(payload) });
+    }
+  }
+
+  beforeEach(() => {
+    (global as any).EventSource = FakeEventSource;
+    FakeEventSource.instances = [];
+  });
+
+  afterEach(() => {
+    delete (global as any).EventSource;
+    jest.useRealTimers();
+  });
+
+  it('subscribes to one stream and delivers its events', () => {
+    const onEvent = jest.fn();
+    const onConnectionChange = jest.fn();
+
+    const unsubscribe = subscribeToDataStream({
+      stream: 'mic 1',
+      types: ['live-text'],
+      onEvent,
+      onConnectionChange,
+    });
+    const [source] = FakeEventSource.instances;
+
+    expect(source.url).toBe('/api/data-stream-events?stream=mic+1&types=live-text');
+    source.onopen();
+    expect(onConnectionChange).toHaveBeenLastCalledWith(true);
+
+    const event = { type: 'live-text', stream_id: 'mic 1', text: 'hi', timestamp: 1 };
+    source.emit('live-text', event);
+    expect(onEvent).toHaveBeenCalledWith(event);
+
+    unsubscribe();
+    expect(source.close).toHaveBeenCalled();
+  });
+
+  it('reports the connection as down and reopens a refused stream later', () => {
+    jest.useFakeTimers();
+    const onConnectionChange = jest.fn();
+
+    const unsubscribe = subscribeToDataStream({ onEvent: jest.fn(), onConnectionChange });
+    const [source] = FakeEventSource.instances;
+    expect(source.url).toBe('/api/data-stream-events');
+
+    source.readyState = FakeEventSource.CLOSED;
+    source.onerror();
+    expect(onConnectionChange).toHaveBeenLastCalledWith(false);
+
+    jest.advanceTimersByTime(10000);
+    expect(FakeEventSource.instances).toHaveLength(2);
+
+    unsubscribe();
+    expect(FakeEventSource.instances[1].close).toHaveBeenCalled();
+  });
+
+  it('falls back to polling without EventSource', () => {
+    delete (global as any).EventSource;
+    const onConnectionChange = jest.fn();
+
+    subscribeToDataStream({ onEvent: jest.fn(), onConnectionChange });
+
+    expect(onConnectionChange).toHaveBeenCalledWith(false);
+  });
+});
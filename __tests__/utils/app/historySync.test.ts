@@ -0,0 +1,251 @@
+/**
+ * Unit tests for syncing conversation history with /api/conversations
+ */
+
+import {
+  HISTORY_SYNC_DELAY_MS,
+  flushHistorySync,
+  pullServerConversations,
+  pullServerFolders,
+  resetHistorySync,
+  syncConversations,
+  syncFolders,
+} from '@/utils/app/historySync';
+import { Conversation } from '@/types/chat';
+import { FolderInterface } from '@/types/folder';
+
+describe('historySync', () => {
+  const fetchMock = jest.fn();
+  let store: Record<string, string>;
+
+  const conversation = (id: string, name = id): Conversation => ({
+    id,
+    name,
+    folderId: null,
+    messages: [],
+  });
+
+  const respond = (body: any = {}, status = 200) =>
+    Promise.resolve({ ok: status < 400, status, json: () => Promise.resolve(body) });
+
+  const calls = () => fetchMock.mock.calls.map(([url, init]: [string, RequestInit?]) => `${init?.method ?? 'GET'} ${url}`);
+
+  // jest.setup.js replaces localStorage with bare mocks, back them with a map
+  beforeEach(() => {
+    store = {};
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      store[key] = value;
+    });
+    (localStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+      delete store[key];
+    });
+    resetHistorySync();
+    process.env.NEXT_PUBLIC_NAT_SERVER_HISTORY_ON = 'true';
+    fetchMock.mockImplementation(() => respond());
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_NAT_SERVER_HISTORY_ON;
+    resetHistorySync();
+  });
+
+  it('does nothing unless server history is enabled', async () => {
+    delete process.env.NEXT_PUBLIC_NAT_SERVER_HISTORY_ON;
+    const local = [conversation('a')];
+
+    syncConversations(local);
+    await flushHistorySync();
+
+    expect(await pullServerConversations(local)).toBe(local);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('debounces repeated saves of the same conversation', async () => {
+    jest.useFakeTimers();
+    try {
+      syncConversations([conversation('a', 'one')]);
+      syncConversations([conversation('a', 'two')]);
+      syncConversations([], ['b']);
+
+      jest.advanceTimersByTime(HISTORY_SYNC_DELAY_MS);
+      await flushHistorySync();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(calls()).toEqual(['PUT /api/conversations/a', 'DELETE /api/conversations/b']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).name).toBe('two');
+  });
+
+  it('retries a conversation whose upload failed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock.mockImplementationOnce(() => respond({}, 500));
+    const a = conversation('a');
+
+    syncConversations([a]);
+    await flushHistorySync();
+    syncConversations([a]);
+    await flushHistorySync();
+
+    expect(calls()).toEqual(['PUT /api/conversations/a', 'PUT /api/conversations/a']);
+  });
+
+  it('merges server history and uploads local-only conversations', async () => {
+    fetchMock.mockImplementationOnce(() =>
+      respond({ conversations: [conversation('a', 'from server')] }),
+    );
+
+    const merged = await pullServerConversations([conversation('a', 'local'), conversation('b')]);
+    await flushHistorySync();
+
+    expect(merged.map(c => c.name)).toEqual(['from server', 'b']);
+    expect(calls()).toEqual(['GET /api/conversations', 'PUT /api/conversations/b']);
+
+    // The server copy is already synced, saving it again sends nothing
+    fetchMock.mockClear();
+    syncConversations(merged);
+    await flushHistorySync();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps a local change newer than the server copy across a reload', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock.mockImplementationOnce(() => respond({}, 503));
+    const edited = conversation('a', 'offline edit');
+    syncConversations([edited]);
+    await flushHistorySync();
+
+    // After a reload only localStorage remembers the unsent edit
+    resetHistorySync();
+    fetchMock.mockClear();
+    fetchMock.mockImplementationOnce(() =>
+      respond({ conversations: [{ ...conversation('a', 'server'), updatedAt: 1 }] }),
+    );
+
+    const merged = await pullServerConversations([edited]);
+    await flushHistorySync();
+
+    expect(merged.map(c => c.name)).toEqual(['offline edit']);
+    expect(calls()).toEqual(['GET /api/conversations', 'PUT /api/conversations/a']);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).name).toBe('offline edit');
+  });
+
+  it('takes a server copy newer than the unsent local change', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock.mockImplementationOnce(() => respond({}, 503));
+    syncConversations([conversation('a', 'offline edit')]);
+    await flushHistorySync();
+
+    resetHistorySync();
+    fetchMock.mockClear();
+    fetchMock.mockImplementationOnce(() =>
+      respond({ conversations: [{ ...conversation('a', 'edited elsewhere'), updatedAt: Date.now() + 60000 }] }),
+    );
+
+    const merged = await pullServerConversations([conversation('a', 'offline edit')]);
+    await flushHistorySync();
+
+    expect(merged.map(c => c.name)).toEqual(['edited elsewhere']);
+    expect(calls()).toEqual(['GET /api/conversations']);
+  });
+
+  it('does not bring back a conversation whose deletion failed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock.mockImplementationOnce(() => respond({}, 503));
+    syncConversations([], ['a']);
+    await flushHistorySync();
+
+    resetHistorySync();
+    fetchMock.mockClear();
+    fetchMock.mockImplementationOnce(() =>
+      respond({ conversations: [conversation('a'), conversation('b')] }),
+    );
+
+    const merged = await pullServerConversations([conversation('b')]);
+    await flushHistorySync();
+
+    expect(merged.map(c => c.id)).toEqual(['b']);
+    expect(calls()).toEqual(['GET /api/conversations', 'DELETE /api/conversations/a']);
+
+    // Once the deletion went through nothing is left to send
+    resetHistorySync();
+    fetchMock.mockClear();
+    fetchMock.mockImplementationOnce(() => respond({ conversations: [conversation('b')] }));
+    await pullServerConversations([conversation('b')]);
+    await flushHistorySync();
+    expect(calls()).toEqual(['GET /api/conversations']);
+  });
+
+  it('does not bring back history deleted in another browser', async () => {
+    // A tiny server shared by two browsers, each with its own localStorage
+    const server = {
+      conversations: new Map<string, Conversation | FolderInterface>(),
+      folders: new Map<string, Conversation | FolderInterface>(),
+    };
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+      const [, kind, id] = url.match(/^\/api\/conversations(\/folders)?(?:\/(.+))?$/) ?? [];
+      const records = kind ? server.folders : server.conversations;
+      if (init?.method === 'PUT') records.set(decodeURIComponent(id), JSON.parse(init.body as string));
+      if (init?.method === 'DELETE') records.delete(decodeURIComponent(id));
+      return respond(kind ? { folders: Array.from(records.values()) } : { conversations: Array.from(records.values()) });
+    });
+    const work = { id: 'f1', name: 'Work', type: 'chat' as const };
+    const browserA = store;
+    const browserB: Record<string, string> = {};
+
+    // Browser A creates a conversation and a folder
+    const local = await pullServerConversations([conversation('a')]);
+    await flushHistorySync();
+    const folders = await pullServerFolders([work]);
+    expect(server.conversations.has('a')).toBe(true);
+    expect(server.folders.has('f1')).toBe(true);
+
+    // Browser B loads them and deletes both
+    store = browserB;
+    resetHistorySync();
+    expect((await pullServerConversations([])).map(c => c.id)).toEqual(['a']);
+    expect((await pullServerFolders([])).map(f => f.id)).toEqual(['f1']);
+    syncConversations([], ['a']);
+    await flushHistorySync();
+    await syncFolders([]);
+    expect(server.conversations.size).toBe(0);
+    expect(server.folders.size).toBe(0);
+
+    // Browser A reloads with its stale copies and drops them
+    store = browserA;
+    resetHistorySync();
+    fetchMock.mockClear();
+    expect(await pullServerConversations(local)).toEqual([]);
+    expect(await pullServerFolders(folders)).toEqual([]);
+    await flushHistorySync();
+    expect(calls()).toEqual(['GET /api/conversations', 'GET /api/conversations/folders']);
+
+    // A conversation the server never had is still uploaded
+    fetchMock.mockClear();
+    await pullServerConversations([conversation('b')]);
+    await flushHistorySync();
+    expect(calls()).toEqual(['GET /api/conversations', 'PUT /api/conversations/b']);
+  });
+
+  it('keeps local history when the server is unreachable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock.mockImplementationOnce(() => Promise.reject(new Error('offline')));
+    const local = [conversation('a')];
+
+    expect(await pullServerConversations(local)).toBe(local);
+  });
+
+  it('writes changed folders and deletes removed ones', async () => {
+    const work = { id: 'f1', name: 'Work', type: 'chat' as const };
+    await syncFolders([work]);
+    await syncFolders([work]);
+    await syncFolders([]);
+
+    expect(calls()).toEqual([
+      'PUT /api/conversations/folders/f1',
+      'DELETE /api/conversations/folders/f1',
+    ]);
+  });
+});
@@ -227,4 +227,37 @@ describe('cleanData Functions', () => {
       });
     });
   });
+
+  describe('cleaning data with message branches', () => {
+    it('should keep branches and drop orphaned branch messages', () => {
+      const data = {
+        version: 4,
+        history: [
+          {
+            id: '1',
+            name: 'conversation 1',
+            messages: [
+              { id: 'u1', role: 'user', content: 'first' },
+              { id: 'a1', parentId: 'u1', role: 'assistant', content: 'answer' },
+            ],
+            branchMessages: [
+              { id: 'u1b', role: 'user', content: 'first, edited' },
+              { id: 'a1b', parentId: 'u1b', role: 'assistant', content: 'other answer' },
+              { id: 'x', parentId: 'gone', role: 'assistant', content: 'orphan' },
+            ],
+            folderId: null,
+          },
+        ],
+        folders: [],
+        prompts: [],
+      } as ExportFormatV4;
+
+      const obj = cleanData(data);
+      expect(obj.history[0].messages).toHaveLength(2);
+      expect(obj.history[0].branchMessages?.map((m) => m.id)).toEqual([
+        'u1b',
+        'a1b',
+      ]);
+    });
+  });
 });
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for finalized entry ingestion statuses and summaries
+ */
+
+import {
+  formatLatency,
+  getIngestionStatus,
+  summarizeIngestion,
+} from '@/utils/app/ingestion';
+
+import { FinalizedDataEntry } from '@/types/dataStream';
+
+const entry = (
+  id: string,
+  stream_id: string,
+  fields: Partial<FinalizedDataEntry> = {},
+): FinalizedDataEntry => ({
+  id,
+  stream_id,
+  text: id,
+  timestamp: 0,
+  ...fields,
+});
+
+describe('ingestion', () => {
+  it('maps the pending flag of older entries to a status', () => {
+    expect(getIngestionStatus(entry('a', 's', { pending: true }))).toBe('queued');
+    expect(getIngestionStatus(entry('b', 's', { pending: false }))).toBe('ingested');
+    expect(getIngestionStatus(entry('c', 's', { pending: true, status: 'failed' }))).toBe('failed');
+  });
+
+  it('summarizes status counts, throughput and latency per stream', () => {
+    const now = 10 * 60 * 1000;
+    const summaries = summarizeIngestion(
+      [
+        entry('1', 'mic', { status: 'ingested', ingested_at: now - 1000, latency_ms: 100 }),
+        entry('2', 'mic', { status: 'ingested', ingested_at: now - 2000, latency_ms: 300 }),
+        entry('3', 'mic', { status: 'ingested', ingested_at: now - 9 * 60 * 1000, latency_ms: 800 }),
+        entry('4', 'mic', { status: 'failed', error: 'timeout' }),
+        entry('5', 'cam', { pending: true }),
+      ],
+      now,
+    );
+
+    expect(summaries).toEqual([
+      {
+        stream_id: 'cam',
+        total: 1,
+        counts: { queued: 1, embedding: 0, ingested: 0, failed: 0 },
+        throughput_per_minute: 0,
+        avg_latency_ms: null,
+        p95_latency_ms: null,
+      },
+      {
+        stream_id: 'mic',
+        total: 4,
+        counts: { queued: 0, embedding: 0, ingested: 3, failed: 1 },
+        throughput_per_minute: 2 / 5, // Two ingested within the last five minutes
+        avg_latency_ms: 400,
+        p95_latency_ms: 800,
+      },
+    ]);
+  });
+
+  it('formats latencies', () => {
+    expect(formatLatency(850)).toBe('850 ms');
+    expect(formatLatency(1234)).toBe('1.2 s');
+    expect(formatLatency(204000)).toBe('3.4 min');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the human-in-the-loop interaction schema helpers
+ */
+
+import {
+  formatCountdown,
+  initialInteractionValues,
+  serializeInteractionResponse,
+  toInteractionResponse,
+  toInteractionSchema,
+  validateInteractionField,
+} from '@/utils/app/interaction';
+import { InteractionField } from '@/types/interaction';
+
+describe('interaction schema', () => {
+  it('turns legacy prompts into a single field with inline settings', () => {
+    const schema = toInteractionSchema({
+      input_type: 'text',
+      text: 'Why?',
+      required: true,
+      placeholder: 'Explain',
+    });
+
+    expect(schema).toMatchObject({ title: 'Why?', isForm: false });
+    expect(schema.fields).toEqual([
+      { name: 'response', type: 'textarea', required: true, placeholder: 'Explain' },
+    ]);
+  });
+
+  it('sanitizes form fields and falls back for unknown prompt types', () => {
+    // Malformed fields as a backend could send them
+    const fields: unknown = [{ type: 'slider', label: 'Level' }, null, { name: 'ok', type: 'checkbox' }];
+    const form = toInteractionSchema({
+      input_type: 'form',
+      fields: fields as InteractionField[],
+    });
+    expect(form.fields.map(f => `${f.name}:${f.type}`)).toEqual(['field_0:text', 'ok:checkbox']);
+
+    const withOptions = toInteractionSchema({
+      input_type: 'approval',
+      options: [{ label: 'Yes', value: 'yes' }],
+    });
+    expect(withOptions).toMatchObject({ fallback: true, fields: [{ type: 'radio' }] });
+
+    const empty = toInteractionSchema({ input_type: 'form', fields: [] });
+    expect(empty).toMatchObject({ title: 'Input requested', fallback: true, fields: [{ type: 'textarea' }] });
+  });
+
+  it('starts from defaults in the shape each field edits', () => {
+    const schema = toInteractionSchema({
+      input_type: 'form',
+      fields: [
+        { name: 'count', type: 'number', default_value: 2 },
+        { name: 'tags', type: 'dropdown', multiple: true, default_value: 'a', options: [{ label: 'A', value: 'a' }] },
+        { name: 'agree', type: 'checkbox' },
+      ],
+    });
+
+    expect(initialInteractionValues(schema)).toEqual({ count: '2', tags: ['a'], agree: false });
+  });
+
+  it('validates bounds, lengths, patterns and options', () => {
+    expect(validateInteractionField({ name: 'n', type: 'number', min: 1 }, '0')).toBe('Must be at least 1.');
+    expect(validateInteractionField({ name: 'n', type: 'number' }, 'abc')).toBe('Enter a valid number.');
+    expect(validateInteractionField({ name: 'd', type: 'date', max: '2025-01-01' }, '2025-06-01')).toBe(
+      'Must be on or before 2025-01-01.',
+    );
+    expect(validateInteractionField({ name: 't', type: 'text', min_length: 3 }, 'ab')).toBe(
+      'Must be at least 3 characters.',
+    );
+    expect(validateInteractionField({ name: 't', type: 'text', pattern: '\\d+' }, '12a')).toBe('Invalid format.');
+    expect(validateInteractionField({ name: 't', type: 'text', pattern: '(' }, 'x')).toBeNull();
+    expect(
+      validateInteractionField({ name: 'r', type: 'radio', options: [{ label: 'A', value: 'a' }] }, 'b'),
+    ).toBe('Select a valid option.');
+    expect(validateInteractionField({ name: 'c', type: 'checkbox', required: true }, false)).toBe(
+      'This field is required.',
+    );
+    expect(validateInteractionField({ name: 'n', type: 'number' }, '')).toBeNull();
+  });
+
+  it('converts values to typed responses and serializes them for the socket', () => {
+    const form = toInteractionSchema({
+      input_type: 'form',
+      fields: [
+        { name: 'count', type: 'number' },
+        { name: 'limit', type: 'number' },
+      ],
+    });
+    const response = toInteractionResponse(form, { count: '4', limit: '' });
+
+    expect(response).toEqual({ count: 4, limit: null });
+    expect(serializeInteractionResponse(response)).toBe('{"count":4,"limit":null}');
+
+    const single = toInteractionSchema({ input_type: 'number' });
+    expect(toInteractionResponse(single, { response: '7' })).toBe(7);
+    expect(serializeInteractionResponse('plain text')).toBe('plain text');
+  });
+
+  it('formats the time left before a prompt times out', () => {
+    expect(formatCountdown(65_000)).toBe('1:05');
+    expect(formatCountdown(400)).toBe('0:01');
+    expect(formatCountdown(-2000)).toBe('0:00');
+  });
+});
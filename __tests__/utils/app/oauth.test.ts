@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the OAuth consent popup, callback messages and pending auth storage
+ */
+
+import {
+  getOAuthRedirectReturn,
+  getPendingAuths,
+  isOAuthCompleteMessage,
+  isTrustedOAuthEvent,
+  openOAuthPopup,
+  saveOAuthRedirectReturn,
+  savePendingAuths,
+  subscribeOAuthComplete,
+  toOAuthCompleteMessage,
+} from '@/utils/app/oauth';
+
+describe('oauth consent', () => {
+  // jest.setup.js replaces sessionStorage with bare mocks, back them with a map
+  beforeEach(() => {
+    const session: Record<string, string> = {};
+    (sessionStorage.getItem as jest.Mock).mockImplementation((key: string) => session[key] ?? null);
+    (sessionStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      session[key] = value;
+    });
+    (sessionStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+      delete session[key];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds completion messages from the callback query', () => {
+    expect(toOAuthCompleteMessage({ status: 'success' })).toEqual({
+      type: 'oauth_complete',
+      status: 'success',
+    });
+    expect(
+      toOAuthCompleteMessage({ error: 'access_denied', error_description: ['User declined'] }),
+    ).toEqual({ type: 'oauth_complete', status: 'error', error: 'User declined' });
+    expect(toOAuthCompleteMessage({ status: 'error' }).error).toBe('Authorization failed');
+  });
+
+  it('only trusts typed messages from its own origin', () => {
+    const data = { type: 'oauth_complete', status: 'success' };
+
+    expect(isOAuthCompleteMessage({ type: 'oauth_complete', status: 'done' })).toBe(false);
+    expect(isOAuthCompleteMessage('oauth_complete')).toBe(false);
+    expect(
+      isTrustedOAuthEvent(new MessageEvent('message', { data, origin: window.location.origin })),
+    ).toBe(true);
+    expect(
+      isTrustedOAuthEvent(new MessageEvent('message', { data, origin: 'https://evil.example.com' })),
+    ).toBe(false);
+  });
+
+  it('delivers trusted window messages until unsubscribed', () => {
+    const onComplete = jest.fn();
+    const unsubscribe = subscribeOAuthComplete(onComplete);
+    const data = { type: 'oauth_complete', status: 'error', error: 'nope' };
+
+    window.dispatchEvent(new MessageEvent('message', { data, origin: 'https://evil.example.com' }));
+    window.dispatchEvent(new MessageEvent('message', { data, origin: window.location.origin }));
+    unsubscribe();
+    window.dispatchEvent(new MessageEvent('message', { data, origin: window.location.origin }));
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(data);
+  });
+
+  it('opens validated URLs in a popup without an opener', () => {
+    const popup = { opener: window, closed: false } as unknown as Window;
+    const open = jest.spyOn(window, 'open').mockReturnValue(popup);
+
+    expect(openOAuthPopup('https://auth.example.com/authorize')).toBe(popup);
+    expect(popup.opener).toBeNull();
+    expect(openOAuthPopup('javascript:alert(1)')).toBeNull();
+    expect(open).toHaveBeenCalledTimes(1);
+
+    open.mockReturnValue(null);
+    expect(openOAuthPopup('https://auth.example.com/authorize')).toBeNull();
+  });
+
+  it('keeps pending auth and redirect state for the session', () => {
+    const pending = {
+      'conv-1': {
+        conversationId: 'conv-1',
+        url: 'https://auth.example.com/authorize',
+        status: 'pending' as const,
+        startedAt: 1,
+      },
+    };
+
+    savePendingAuths(pending);
+    expect(getPendingAuths()).toEqual(pending);
+    savePendingAuths({});
+    expect(getPendingAuths()).toEqual({});
+
+    saveOAuthRedirectReturn({ conversationId: 'conv-1' });
+    expect(getOAuthRedirectReturn()).toEqual({ conversationId: 'conv-1' });
+    saveOAuthRedirectReturn(null);
+    expect(getOAuthRedirectReturn()).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the WebSocket outbound queue persisted in sessionStorage
+ */
+
+import {
+  enqueueOutboundFrame,
+  flushOutboundQueue,
+  getOutboundQueue,
+  markQueuedMessagesSent,
+  removeOutboundFrame,
+} from '@/utils/app/outboundQueue';
+import { Conversation } from '@/types/chat';
+import { QueuedWebSocketFrame } from '@/types/websocket';
+
+describe('outboundQueue', () => {
+  let store: Record<string, string>;
+
+  // jest.setup.js replaces sessionStorage with bare mocks, back them with a map
+  beforeEach(() => {
+    store = {};
+    (sessionStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+    (sessionStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      store[key] = value;
+    });
+    (sessionStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+      delete store[key];
+    });
+  });
+
+  const frame = (id: string, conversationId = 'conv-1') => ({
+    id,
+    conversationId,
+    frame: { type: 'user_message', id, conversation_id: conversationId },
+  });
+
+  it('returns an empty queue when nothing is stored or data is corrupt', () => {
+    expect(getOutboundQueue()).toEqual([]);
+    store.webSocketOutboundQueue = '{not json';
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(getOutboundQueue()).toEqual([]);
+  });
+
+  it('persists frames in the order they were queued', () => {
+    enqueueOutboundFrame(frame('m1'));
+    enqueueOutboundFrame(frame('m2'));
+
+    expect(getOutboundQueue().map(queued => queued.id)).toEqual(['m1', 'm2']);
+    expect(getOutboundQueue()[0].queuedAt).toEqual(expect.any(Number));
+  });
+
+  it('reports a frame that does not fit in storage as not queued', () => {
+    expect(enqueueOutboundFrame(frame('m1'))).toBe(true);
+    (sessionStorage.setItem as jest.Mock).mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+
+    expect(enqueueOutboundFrame(frame('m2'))).toBe(false);
+    expect(getOutboundQueue().map(queued => queued.id)).toEqual(['m1']);
+  });
+
+  it('replaces a frame queued again with the same id', () => {
+    enqueueOutboundFrame(frame('m1'));
+    enqueueOutboundFrame(frame('m2'));
+    enqueueOutboundFrame({ ...frame('m1'), frame: { type: 'user_message', edited: true } });
+
+    const queue = getOutboundQueue();
+    expect(queue.map(queued => queued.id)).toEqual(['m2', 'm1']);
+    expect(queue[1].frame.edited).toBe(true);
+  });
+
+  it('removes a cancelled frame', () => {
+    enqueueOutboundFrame(frame('m1'));
+    enqueueOutboundFrame(frame('m2'));
+
+    removeOutboundFrame('m1');
+
+    expect(getOutboundQueue().map(queued => queued.id)).toEqual(['m2']);
+  });
+
+  it('flushes every frame in order and clears storage', () => {
+    enqueueOutboundFrame(frame('m1'));
+    enqueueOutboundFrame(frame('m2'));
+    const send = jest.fn<void, [QueuedWebSocketFrame]>();
+
+    const sent = flushOutboundQueue(send);
+
+    expect(send.mock.calls.map(([queued]: [QueuedWebSocketFrame]) => queued.id)).toEqual(['m1', 'm2']);
+    expect(sent).toHaveLength(2);
+    expect(store.webSocketOutboundQueue).toBeUndefined();
+  });
+
+  it('keeps the failed frame and everything after it', () => {
+    enqueueOutboundFrame(frame('m1'));
+    enqueueOutboundFrame(frame('m2'));
+    enqueueOutboundFrame(frame('m3'));
+    const send = jest.fn().mockImplementationOnce(() => undefined).mockImplementationOnce(() => {
+      throw new Error('socket closed');
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const sent = flushOutboundQueue(send);
+
+    expect(sent.map(queued => queued.id)).toEqual(['m1']);
+    expect(getOutboundQueue().map(queued => queued.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('clears the queued flag on sent messages only', () => {
+    const conversations: Conversation[] = [
+      {
+        id: 'conv-1',
+        name: 'Test',
+        folderId: null,
+        messages: [
+          { id: 'm1', role: 'user', content: 'one', queued: true },
+          { id: 'm2', role: 'user', content: 'two', queued: true },
+        ],
+      },
+      { id: 'conv-2', name: 'Other', folderId: null, messages: [] },
+    ];
+
+    const updated = markQueuedMessagesSent(conversations, ['m1']);
+
+    expect(updated[0].messages[0].queued).toBeUndefined();
+    expect(updated[0].messages[1].queued).toBe(true);
+    expect(updated[1]).toBe(conversations[1]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for prompt variables and the "/" command filter
+ */
+
+import {
+  fillVariables,
+  filterPrompts,
+  parseVariables,
+} from '@/utils/app/prompts';
+
+import { Prompt } from '@/types/prompt';
+
+const prompt = (name: string): Prompt => ({
+  id: name,
+  name,
+  description: '',
+  content: '',
+  folderId: null,
+});
+
+describe('prompt library', () => {
+  it('lists each variable once, in order of first use', () => {
+    expect(
+      parseVariables('Translate {{text}} to {{ language }}, keep {{text}} short'),
+    ).toEqual(['text', 'language']);
+    expect(parseVariables('No variables {{}} here')).toEqual([]);
+  });
+
+  it('fills known variables and leaves the rest', () => {
+    expect(
+      fillVariables('Translate {{text}} to {{ language }} for {{name}}', {
+        text: 'hello',
+        language: 'French',
+      }),
+    ).toBe('Translate hello to French for {{name}}');
+  });
+
+  it('keeps values containing $ patterns as typed', () => {
+    expect(fillVariables('Price: {{amount}}', { amount: '$& $1' })).toBe(
+      'Price: $& $1',
+    );
+  });
+
+  it('matches names case-insensitively, prefix matches first', () => {
+    const prompts = [prompt('Summarize'), prompt('Email summary'), prompt('Review')];
+
+    expect(filterPrompts(prompts, 'sum').map((p) => p.name)).toEqual([
+      'Summarize',
+      'Email summary',
+    ]);
+    expect(filterPrompts(prompts, '')).toHaveLength(3);
+  });
+});
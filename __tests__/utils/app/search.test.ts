@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the client-side message search index
+ */
+
+import { buildSnippet, createSearchIndex, tokenize } from '@/utils/app/search';
+import { Conversation, Message } from '@/types/chat';
+
+describe('message search', () => {
+  const conversation = (
+    id: string,
+    messages: Message[],
+    folderId: string | null = null,
+  ): Conversation => ({ id, name: `Chat ${id}`, folderId, messages });
+
+  const history = () => [
+    conversation('a', [
+      { id: 'a1', role: 'user', content: 'How do I deploy the toolkit?', timestamp: 1000 },
+      {
+        id: 'a2',
+        role: 'assistant',
+        content: 'Use the container image.',
+        timestamp: 2000,
+        intermediateSteps: [
+          {
+            content: { name: 'Tool: kubernetes_lookup', payload: 'helm chart found' },
+            intermediate_steps: [{ content: { name: 'Nested', payload: { cluster: 'staging' } } }],
+          },
+        ],
+      },
+    ]),
+    conversation(
+      'b',
+      [{ id: 'b1', role: 'user', content: 'Deployment failed on staging', timestamp: 5000 }],
+      'folder-1',
+    ),
+  ];
+
+  it('tokenizes on word boundaries, ignoring case and punctuation', () => {
+    expect(tokenize('Hello, Wörld! v2_beta')).toEqual(['hello', 'wörld', 'v2_beta']);
+  });
+
+  it('finds messages by content and by intermediate step names and payloads', () => {
+    const index = createSearchIndex();
+    index.sync(history());
+
+    expect(index.search('container').map(r => r.messageId)).toEqual(['a2']);
+
+    const steps = index.search('kubernetes');
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ conversationId: 'a', messageIndex: 1, field: 'step' });
+
+    expect(index.search('staging').map(r => `${r.messageId}:${r.field}`).sort()).toEqual([
+      'a2:step',
+      'b1:content',
+    ]);
+  });
+
+  it('requires every term and matches the last one as a prefix', () => {
+    const index = createSearchIndex();
+    index.sync(history());
+
+    expect(index.search('deploy').map(r => r.messageId).sort()).toEqual(['a1', 'b1']);
+    expect(index.search('deploy toolk').map(r => r.messageId)).toEqual(['a1']);
+    expect(index.search('deploy failed')).toEqual([]);
+    expect(index.search('deploy staging')).toEqual([]);
+    expect(index.search('deployment stag').map(r => r.messageId)).toEqual(['b1']);
+  });
+
+  it('filters by role, folder and date range', () => {
+    const index = createSearchIndex();
+    index.sync(history());
+
+    expect(index.search('staging', { roles: ['user'] }).map(r => r.messageId)).toEqual(['b1']);
+    expect(index.search('staging', { folderId: null }).map(r => r.messageId)).toEqual(['a2']);
+    expect(index.search('staging', { folderId: 'folder-1' }).map(r => r.messageId)).toEqual(['b1']);
+    expect(index.search('staging', { from: 3000 }).map(r => r.messageId)).toEqual(['b1']);
+    expect(index.search('staging', { to: 3000 }).map(r => r.messageId)).toEqual(['a2']);
+  });
+
+  it('re-indexes only messages that changed while streaming', () => {
+    const index = createSearchIndex();
+    const [first] = history();
+    index.sync([first]);
+
+    const streaming = {
+      ...first,
+      messages: [
+        first.messages[0],
+        { ...first.messages[1], content: 'Use the container image or the helm chart.' },
+      ],
+    };
+    index.sync([streaming]);
+
+    expect(index.search('helm').map(r => `${r.messageId}:${r.field}`).sort()).toEqual([
+      'a2:content',
+      'a2:step',
+    ]);
+    expect(index.search('toolkit').map(r => r.messageId)).toEqual(['a1']);
+  });
+
+  it('drops removed messages, conversations and stale tokens', () => {
+    const index = createSearchIndex();
+    const [first, second] = history();
+    index.sync([first, second]);
+
+    index.sync([{ ...first, messages: first.messages.slice(0, 1) }]);
+
+    expect(index.search('container')).toEqual([]);
+    expect(index.search('deployment')).toEqual([]);
+    expect(index.search('deploy').map(r => r.messageId)).toEqual(['a1']);
+  });
+
+  it('re-indexes a conversation moved to another folder', () => {
+    const index = createSearchIndex();
+    const [first] = history();
+    index.sync([first]);
+
+    index.sync([{ ...first, folderId: 'folder-2' }]);
+
+    expect(index.search('container', { folderId: 'folder-2' })).toHaveLength(1);
+    expect(index.search('container', { folderId: null })).toEqual([]);
+  });
+
+  it('builds snippets around the first match with merged highlights', () => {
+    const text = `${'x '.repeat(60)}the Search term and search again`;
+    const snippet = buildSnippet(text, ['search']);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.highlights).toHaveLength(2);
+    const [start, end] = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('Search');
+
+    const overlapping = buildSnippet('deployment', ['deploy', 'deployment']);
+    expect(overlapping.highlights).toEqual([[0, 10]]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for speech input provider selection and the browser provider
+ */
+
+import {
+  resolveSpeechInputProvider,
+  startSpeechInput,
+  transcribeAudio,
+} from '@/utils/app/speech';
+
+describe('speech input', () => {
+  class FakeRecognition {
+    static instances: FakeRecognition[] = [];
+    lang = '';
+    interimResults = false;
+    continuous = false;
+    onresult: any;
+    onerror: any;
+    onend: any;
+    start = jest.fn();
+    stop = jest.fn(() => this.onend?.());
+
+    constructor() {
+      FakeRecognition.instances.push(this);
+    }
+  }
+
+  const options = () => ({
+    language: 'fr-FR',
+    onTranscript: jest.fn(),
+    onError: jest.fn(),
+    onEnd: jest.fn(),
+  });
+
+  afterEach(() => {
+    delete (window as any).webkitSpeechRecognition;
+    FakeRecognition.instances = [];
+  });
+
+  it('falls back to the other provider when one is unsupported', () => {
+    expect(resolveSpeechInputProvider('browser')).toBeNull();
+
+    (window as any).webkitSpeechRecognition = FakeRecognition;
+    expect(resolveSpeechInputProvider('browser')).toBe('browser');
+    expect(resolveSpeechInputProvider('server')).toBe('browser');
+  });
+
+  it('recognizes in the chosen language and restarts after pauses', async () => {
+    (window as any).webkitSpeechRecognition = FakeRecognition;
+    const callbacks = options();
+
+    const session = await startSpeechInput('browser', callbacks);
+    const [recognition] = FakeRecognition.instances;
+
+    expect(recognition.lang).toBe('fr-FR');
+    recognition.onresult({
+      results: [[{ transcript: 'bonjour ' }], [{ transcript: 'tout le monde' }]],
+    });
+    expect(callbacks.onTranscript).toHaveBeenCalledWith('bonjour tout le monde');
+
+    recognition.onend();
+    expect(recognition.start).toHaveBeenCalledTimes(2);
+    expect(callbacks.onEnd).not.toHaveBeenCalled();
+
+    session.stop();
+    expect(callbacks.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports recognition errors other than silence', async () => {
+    (window as any).webkitSpeechRecognition = FakeRecognition;
+    const callbacks = options();
+
+    await startSpeechInput('browser', callbacks);
+    const [recognition] = FakeRecognition.instances;
+
+    recognition.onerror({ error: 'no-speech' });
+    expect(callbacks.onError).not.toHaveBeenCalled();
+
+    recognition.onerror({ error: 'not-allowed' });
+    recognition.onend();
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      'Speech recognition failed: not-allowed',
+    );
+    expect(callbacks.onEnd).toHaveBeenCalled();
+  });
+
+  it('rejects when the browser supports neither provider', async () => {
+    await expect(startSpeechInput('server', options())).rejects.toThrow(
+      'not supported',
+    );
+  });
+
+  it('posts recordings to /api/transcribe', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ text: 'hello' }),
+    });
+    global.fetch = fetchMock;
+
+    const text = await transcribeAudio(
+      new Blob(['abc'], { type: 'audio/webm' }),
+      'en-US',
+    );
+
+    expect(text).toBe('hello');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${window.location.origin}/api/transcribe`);
+    expect(JSON.parse(init.body)).toEqual({
+      audio: btoa('abc'),
+      mimeType: 'audio/webm',
+      language: 'en-US',
+    });
+  });
+});
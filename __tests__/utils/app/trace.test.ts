@@ -0,0 +1,111 @@
+/**
+ * Unit tests for building trace timelines from intermediate steps
+ */
+
+import { processIntermediateMessage } from '@/utils/app/helper';
+import { buildTraceTimeline, formatDuration, parseStepTime } from '@/utils/app/trace';
+
+describe('trace timeline', () => {
+  const step = (overrides: Record<string, any>) => ({
+    parent_id: 'user-message',
+    status: 'in_progress',
+    content: { name: 'Step', payload: '' },
+    ...overrides,
+  });
+
+  it('parses epoch seconds, epoch ms and ISO timestamps', () => {
+    expect(parseStepTime(1700000000)).toBe(1700000000000);
+    expect(parseStepTime('1700000000.5')).toBe(1700000000500);
+    expect(parseStepTime(1700000000000)).toBe(1700000000000);
+    expect(parseStepTime('2024-01-01T00:00:00.000Z')).toBe(Date.UTC(2024, 0, 1));
+    expect(parseStepTime('default')).toBeUndefined();
+    expect(parseStepTime(undefined)).toBeUndefined();
+  });
+
+  it('merges start and end events of a step into one span', () => {
+    const { spans, start, end } = buildTraceTimeline([
+      step({ id: 'tool', time_stamp: 100, content: { name: 'Function Start: search' } }),
+      step({ id: 'tool', time_stamp: 102.5, content: { name: 'Function Complete: search' } }),
+    ]);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: 'search',
+      status: 'complete',
+      start: 100000,
+      end: 102500,
+      duration: 2500,
+    });
+    expect([start, end]).toEqual([100000, 102500]);
+  });
+
+  it('keeps the start time when a later event overrides a step', () => {
+    let steps = processIntermediateMessage(
+      [],
+      step({ id: 'llm', time_stamp: '2024-01-01T00:00:00Z', content: { name: 'LLM' } }),
+    );
+    steps = processIntermediateMessage(
+      steps,
+      step({
+        id: 'llm',
+        status: 'complete',
+        time_stamp: '2024-01-01T00:00:03Z',
+        content: { name: 'LLM' },
+      }),
+    );
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].started_at).toBe('2024-01-01T00:00:00Z');
+    expect(buildTraceTimeline(steps).spans[0]).toMatchObject({ status: 'complete', duration: 3000 });
+  });
+
+  it('nests spans under intermediate_parent_id and orders siblings by start', () => {
+    const { spans } = buildTraceTimeline([
+      step({ id: 'workflow', time_stamp: 100, status: 'complete' }),
+      step({ id: 'b', intermediate_parent_id: 'workflow', time_stamp: 103, content: { name: 'b' } }),
+      step({ id: 'a', intermediate_parent_id: 'workflow', time_stamp: 101, content: { name: 'a' } }),
+      step({ id: 'a1', intermediate_parent_id: 'a', time_stamp: 102, content: { name: 'a1' } }),
+    ]);
+
+    expect(spans.map(s => `${s.depth}:${s.id}`)).toEqual(['0:workflow', '1:a', '2:a1', '1:b']);
+    expect(spans.find(s => s.id === 'a1')?.parentId).toBe('a');
+  });
+
+  it('falls back to the nesting built from parent_id', () => {
+    const { spans } = buildTraceTimeline([
+      step({ id: 'outer', intermediate_steps: [step({ id: 'inner', parent_id: 'outer' })] }),
+    ]);
+
+    expect(spans.map(s => `${s.depth}:${s.id}`)).toEqual(['0:outer', '1:inner']);
+  });
+
+  it('marks failed steps and leaves running steps open', () => {
+    const { spans } = buildTraceTimeline([
+      step({ id: 'failed', time_stamp: 1, error: 'Timeout calling tool' }),
+      step({ id: 'running', time_stamp: 2 }),
+      step({ id: 'untimed', time_stamp: 'default', status: 'complete' }),
+    ]);
+
+    expect(spans.map(s => [s.id, s.status, s.duration])).toEqual([
+      ['failed', 'error', 0],
+      ['running', 'in_progress', undefined],
+      ['untimed', 'complete', undefined],
+    ]);
+    expect(spans[0].error).toBe('Timeout calling tool');
+  });
+
+  it('survives parent cycles', () => {
+    const { spans } = buildTraceTimeline([
+      step({ id: 'a', intermediate_parent_id: 'b' }),
+      step({ id: 'b', intermediate_parent_id: 'a' }),
+    ]);
+
+    expect(spans.map(s => s.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(250)).toBe('250 ms');
+    expect(formatDuration(2500)).toBe('2.50 s');
+    expect(formatDuration(125000)).toBe('2m 5s');
+  });
+});
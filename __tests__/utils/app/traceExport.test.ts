@@ -0,0 +1,101 @@
+/**
+ * Unit tests for exporting intermediate steps as OTLP/JSON traces
+ */
+
+import { toOtlpTrace } from '@/utils/app/traceExport';
+import { Message } from '@/types/chat';
+
+describe('toOtlpTrace', () => {
+  const message: Message = {
+    id: 'assistant-1',
+    parentId: 'user-1',
+    role: 'assistant',
+    content: 'Done',
+    timestamp: 1700000000000,
+    intermediateSteps: [
+      {
+        id: 'workflow',
+        parent_id: 'user-1',
+        status: 'complete',
+        started_at: 1700000000,
+        time_stamp: 1700000004,
+        content: { name: 'Workflow', payload: 'all good' },
+        intermediate_steps: [
+          {
+            id: 'tool',
+            parent_id: 'workflow',
+            status: 'complete',
+            started_at: 1700000001,
+            time_stamp: 1700000002.25,
+            content: { name: 'Tool: search', payload: { query: 'gpu' } },
+          },
+        ],
+      },
+      {
+        id: 'broken',
+        parent_id: 'user-1',
+        time_stamp: 1700000003,
+        error: 'tool crashed',
+        content: { name: 'Tool: broken' },
+      },
+    ],
+  };
+
+  const spansOf = (trace: ReturnType<typeof toOtlpTrace>) =>
+    trace.resourceSpans[0].scopeSpans[0].spans;
+
+  const attribute = (span: any, key: string) =>
+    span.attributes.find((a: any) => a.key === key)?.value.stringValue;
+
+  it('creates a root span with one child span per step', () => {
+    const trace = toOtlpTrace(message, 'conversation-1');
+    const [root, workflow, tool, broken] = spansOf(trace);
+
+    expect(spansOf(trace)).toHaveLength(4);
+    expect(root.name).toBe('assistant_response');
+    expect(attribute(root, 'nat.conversation.id')).toBe('conversation-1');
+    expect(root.parentSpanId).toBeUndefined();
+
+    expect(workflow.parentSpanId).toBe(root.spanId);
+    expect(tool.parentSpanId).toBe(workflow.spanId);
+    expect(broken.parentSpanId).toBe(root.spanId);
+    expect(new Set(spansOf(trace).map(s => s.traceId)).size).toBe(1);
+  });
+
+  it('uses valid hex ids and nanosecond timestamps', () => {
+    const spans = spansOf(toOtlpTrace(message));
+    const tool = spans[2];
+
+    spans.forEach(span => {
+      expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    });
+    expect(tool.startTimeUnixNano).toBe('1700000001000000000');
+    expect(tool.endTimeUnixNano).toBe('1700000002250000000');
+    expect(spans[0].startTimeUnixNano).toBe('1700000000000000000');
+    expect(spans[0].endTimeUnixNano).toBe('1700000004000000000');
+  });
+
+  it('carries step name, payload and error status', () => {
+    const [, , tool, broken] = spansOf(toOtlpTrace(message));
+
+    expect(tool.name).toBe('Tool: search');
+    expect(attribute(tool, 'nat.step.payload')).toBe('{"query":"gpu"}');
+    expect(tool.status).toEqual({ code: 1 });
+    expect(broken.status).toEqual({ code: 2, message: 'tool crashed' });
+  });
+
+  it('produces the same ids on every export', () => {
+    expect(toOtlpTrace(message)).toEqual(toOtlpTrace(message));
+  });
+
+  it('places untimed steps at the message timestamp', () => {
+    const [root, step] = spansOf(
+      toOtlpTrace({ ...message, intermediateSteps: [{ id: 'a', content: { name: 'A' } }] }),
+    );
+
+    expect(step.startTimeUnixNano).toBe('1700000000000000000');
+    expect(step.endTimeUnixNano).toBe(step.startTimeUnixNano);
+    expect(root.startTimeUnixNano).toBe(step.startTimeUnixNano);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for speech text preparation and sentence-by-sentence playback
+ */
+
+import {
+  splitSentences,
+  startSpeechPlayback,
+  toSpeechText,
+} from '@/utils/app/tts';
+
+describe('text-to-speech', () => {
+  let spoken: any[];
+
+  beforeEach(() => {
+    spoken = [];
+    (global as any).SpeechSynthesisUtterance = function (this: any, text: string) {
+      this.text = text;
+    };
+    (window as any).speechSynthesis = {
+      getVoices: () => [],
+      speak: jest.fn((utterance: any) => spoken.push(utterance)),
+      cancel: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    delete (window as any).speechSynthesis;
+    delete (global as any).SpeechSynthesisUtterance;
+  });
+
+  // Lets queued promise callbacks run
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const finishUtterance = async () => {
+    spoken[spoken.length - 1].onend();
+    await flush();
+  };
+
+  it('splits complete sentences from the unfinished rest', () => {
+    expect(splitSentences('Hello there! How are you? I am fi')).toEqual({
+      sentences: ['Hello there!', 'How are you?'],
+      rest: 'I am fi',
+    });
+    // A trailing period may still become a decimal point
+    expect(splitSentences('It costs 3.')).toEqual({ sentences: [], rest: 'It costs 3.' });
+    expect(splitSentences('Line one\nLine two').sentences).toEqual(['Line one']);
+  });
+
+  it('leaves code, links and markdown out of the spoken text', () => {
+    expect(
+      toSpeechText('**Run** [the docs](https://x.io) at https://y.io\n```sh\nls\n```\nDone'),
+    ).toBe('Run the docs at \n \nDone');
+    expect(toSpeechText('Before\n```py\nprint(')).toBe('Before\n ');
+  });
+
+  it('speaks streamed sentences in order as they complete', async () => {
+    const onEnd = jest.fn();
+    const playback = startSpeechPlayback({ provider: 'browser', onEnd });
+
+    playback.append('First sentence. Sec');
+    await flush();
+    expect(spoken.map((u) => u.text)).toEqual(['First sentence.']);
+
+    playback.append('ond one. Third');
+    await flush();
+    // The second sentence waits for the first to finish
+    expect(spoken).toHaveLength(1);
+
+    await finishUtterance();
+    expect(spoken.map((u) => u.text)).toEqual(['First sentence.', 'Second one.']);
+
+    playback.finish();
+    await finishUtterance();
+    expect(spoken[2].text).toBe('Third');
+
+    await finishUtterance();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops the previous playback when a new one starts', async () => {
+    const onEnd = jest.fn();
+    const first = startSpeechPlayback({ provider: 'browser', onEnd });
+    first.append('Still talking. ');
+    await flush();
+
+    startSpeechPlayback({ provider: 'browser' });
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(window.speechSynthesis.cancel).toHaveBeenCalled();
+    first.append('Ignored. ');
+    await flush();
+    expect(spoken).toHaveLength(1);
+  });
+});
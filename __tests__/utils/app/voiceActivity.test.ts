@@ -0,0 +1,66 @@
+/**
+ * Unit tests for voice activity detection on microphone levels
+ */
+
+import { createVoiceActivityTracker } from '@/utils/app/voiceActivity';
+
+describe('voice activity tracker', () => {
+  const options = { threshold: 0.1, minSpeechMs: 200, silenceMs: 1000 };
+
+  // Feeds one level every 50ms and collects the events
+  const feed = (
+    tracker: ReturnType<typeof createVoiceActivityTracker>,
+    levels: Array<[number, number]>,
+    start = 0,
+  ) => {
+    const events: Array<[number, string]> = [];
+    let now = start;
+    levels.forEach(([level, durationMs]) => {
+      for (let t = 0; t < durationMs; t += 50, now += 50) {
+        const event = tracker.update(level, now);
+        if (event) events.push([now, event]);
+      }
+    });
+    return events;
+  };
+
+  it('reports speech once it lasts and silence once it stops', () => {
+    const tracker = createVoiceActivityTracker(options);
+
+    const events = feed(tracker, [
+      [0.01, 500],
+      [0.3, 1000],
+      [0.01, 1500],
+    ]);
+
+    expect(events).toEqual([
+      [700, 'speech-start'],
+      [2500, 'silence'],
+    ]);
+  });
+
+  it('ignores short noises and short pauses', () => {
+    const tracker = createVoiceActivityTracker(options);
+
+    expect(feed(tracker, [[0.5, 150], [0.01, 500]])).toEqual([]);
+
+    const events = feed(tracker, [
+      [0.5, 300],
+      [0.01, 600], // a pause between words
+      [0.5, 300],
+      [0.01, 1100],
+    ], 1000);
+    expect(events.map(([, event]) => event)).toEqual(['speech-start', 'silence']);
+  });
+
+  it('starts over after a reset', () => {
+    const tracker = createVoiceActivityTracker(options);
+    feed(tracker, [[0.5, 400]]);
+    expect(tracker.isSpeaking()).toBe(true);
+
+    tracker.reset();
+
+    expect(tracker.isSpeaking()).toBe(false);
+    expect(feed(tracker, [[0.01, 2000]], 400)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for WebSocket reconnect helpers
+ * Covers backoff timing, the connection state machine and the resume handshake
+ */
+
+import {
+  WEBSOCKET_RECONNECT_CONFIG,
+  buildResumeMessage,
+  getReconnectDelay,
+  nextConnectionState,
+  recordLastSeenMessage,
+} from '@/utils/app/websocket';
+
+describe('WebSocket reconnect helpers', () => {
+  describe('getReconnectDelay', () => {
+    it('doubles the delay window on each attempt', () => {
+      expect(getReconnectDelay(0, () => 1)).toBe(1000);
+      expect(getReconnectDelay(1, () => 1)).toBe(2000);
+      expect(getReconnectDelay(3, () => 1)).toBe(8000);
+    });
+
+    it('keeps at least half of the window when jitter is zero', () => {
+      expect(getReconnectDelay(0, () => 0)).toBe(500);
+      expect(getReconnectDelay(2, () => 0)).toBe(2000);
+    });
+
+    it('caps the delay at maxDelayMs', () => {
+      expect(getReconnectDelay(20, () => 1)).toBe(WEBSOCKET_RECONNECT_CONFIG.maxDelayMs);
+    });
+
+    it('stays within the jitter range for random values', () => {
+      for (let i = 0; i < 20; i++) {
+        const delay = getReconnectDelay(2);
+        expect(delay).toBeGreaterThanOrEqual(2000);
+        expect(delay).toBeLessThanOrEqual(4000);
+      }
+    });
+  });
+
+  describe('nextConnectionState', () => {
+    it('follows connect, drop and resume', () => {
+      let state = nextConnectionState('idle', 'connect');
+      expect(state).toBe('connecting');
+      state = nextConnectionState(state, 'open');
+      expect(state).toBe('open');
+      state = nextConnectionState(state, 'close');
+      expect(state).toBe('reconnecting');
+      state = nextConnectionState(state, 'connect');
+      expect(state).toBe('reconnecting');
+      state = nextConnectionState(state, 'open');
+      expect(state).toBe('open');
+    });
+
+    it('fails after giving up and can connect again', () => {
+      const failed = nextConnectionState('reconnecting', 'give_up');
+      expect(failed).toBe('failed');
+      expect(nextConnectionState(failed, 'connect')).toBe('connecting');
+    });
+
+    it('closes from any state on disconnect', () => {
+      expect(nextConnectionState('open', 'disconnect')).toBe('closed');
+      expect(nextConnectionState('reconnecting', 'disconnect')).toBe('closed');
+    });
+
+    it('ignores events that are invalid for the current state', () => {
+      expect(nextConnectionState('idle', 'open')).toBe('idle');
+      expect(nextConnectionState('open', 'connect')).toBe('open');
+    });
+  });
+
+  describe('resume handshake', () => {
+    it('tracks the last message id per conversation', () => {
+      let lastSeen = recordLastSeenMessage({}, { id: 'm1', conversation_id: 'c1' });
+      lastSeen = recordLastSeenMessage(lastSeen, { id: 'm2', conversation_id: 'c2' });
+      lastSeen = recordLastSeenMessage(lastSeen, { id: 'm3', conversation_id: 'c1' });
+
+      expect(lastSeen).toEqual({ c1: 'm3', c2: 'm2' });
+    });
+
+    it('ignores frames without an id or conversation id', () => {
+      const lastSeen = { c1: 'm1' };
+      expect(recordLastSeenMessage(lastSeen, { conversation_id: 'c1' })).toBe(lastSeen);
+      expect(recordLastSeenMessage(lastSeen, { id: 'm2' })).toBe(lastSeen);
+    });
+
+    it('builds a resume message with the last seen ids', () => {
+      const message = buildResumeMessage({ c1: 'm3' });
+
+      expect(message).toMatchObject({
+        type: 'user_resume_message',
+        content: { last_message_ids: { c1: 'm3' } },
+      });
+      expect(message?.id).toEqual(expect.any(String));
+    });
+
+    it('skips the handshake when nothing has been received', () => {
+      expect(buildResumeMessage({})).toBeNull();
+    });
+  });
+});
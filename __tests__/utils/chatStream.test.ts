@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the /api/chat NDJSON event stream encoder and decoder
+ */
+
+import {
+  createChatStreamDecoder,
+  encodeChatStreamEvent,
+  isChatStreamEvent,
+} from '@/utils/chatStream';
+import { ChatStreamEvent } from '@/types/chat';
+
+describe('chatStream', () => {
+  describe('encodeChatStreamEvent', () => {
+    it('encodes one JSON object per line', () => {
+      expect(encodeChatStreamEvent({ type: 'response_delta', text: 'Hi' })).toBe(
+        '{"type":"response_delta","text":"Hi"}\n'
+      );
+    });
+  });
+
+  describe('isChatStreamEvent', () => {
+    it('accepts known event types', () => {
+      expect(isChatStreamEvent({ type: 'done' })).toBe(true);
+      expect(isChatStreamEvent({ type: 'error', message: 'boom' })).toBe(true);
+    });
+
+    it('rejects unknown or non-object values', () => {
+      expect(isChatStreamEvent({ type: 'system_response_message' })).toBe(false);
+      expect(isChatStreamEvent('done')).toBe(false);
+      expect(isChatStreamEvent(null)).toBe(false);
+    });
+  });
+
+  describe('createChatStreamDecoder', () => {
+    it('round-trips encoded events', () => {
+      const events: ChatStreamEvent[] = [
+        { type: 'response_delta', text: 'Hello' },
+        { type: 'intermediate_step', step: { id: 'step-1', type: 'system_intermediate' } },
+        { type: 'interaction', message: { type: 'system_interaction_message' } },
+        { type: 'error', message: 'Stream interrupted' },
+        { type: 'done' },
+      ];
+      const decoder = createChatStreamDecoder();
+
+      expect(decoder.push(events.map(encodeChatStreamEvent).join(''))).toEqual(events);
+    });
+
+    it('buffers events split across chunks', () => {
+      const step = {
+        id: 'step-1',
+        type: 'system_intermediate',
+        content: { name: 'Tool', payload: 'text with </intermediatestep> inside' },
+      };
+      const encoded = encodeChatStreamEvent({ type: 'intermediate_step', step });
+      const decoder = createChatStreamDecoder();
+
+      expect(decoder.push(encoded.slice(0, 20))).toEqual([]);
+      expect(decoder.push(encoded.slice(20, 45))).toEqual([]);
+      expect(decoder.push(encoded.slice(45))).toEqual([{ type: 'intermediate_step', step }]);
+    });
+
+    it('keeps answer text intact when a step arrives mid-answer', () => {
+      const encoded = [
+        encodeChatStreamEvent({ type: 'response_delta', text: 'The answer ' }),
+        encodeChatStreamEvent({ type: 'intermediate_step', step: { id: 'a', type: 'system_intermediate' } }),
+        encodeChatStreamEvent({ type: 'response_delta', text: 'is 42' }),
+      ].join('');
+      const decoder = createChatStreamDecoder();
+
+      const events = [
+        ...decoder.push(encoded.slice(0, 30)),
+        ...decoder.push(encoded.slice(30, 70)),
+        ...decoder.push(encoded.slice(70)),
+      ];
+      const text = events
+        .map(event => (event.type === 'response_delta' ? event.text : ''))
+        .join('');
+
+      expect(text).toBe('The answer is 42');
+      expect(events.filter(event => event.type === 'intermediate_step')).toHaveLength(1);
+    });
+
+    it('skips blank, malformed and unknown lines', () => {
+      const decoder = createChatStreamDecoder();
+      const input = '\n{broken\n{"type":"unknown"}\n  \n{"type":"done"}\n';
+
+      expect(decoder.push(input)).toEqual([{ type: 'done' }]);
+    });
+
+    it('returns a trailing event without newline on flush', () => {
+      const decoder = createChatStreamDecoder();
+
+      expect(decoder.push('{"type":"done"}')).toEqual([]);
+      expect(decoder.flush()).toEqual([{ type: 'done' }]);
+      expect(decoder.flush()).toEqual([]);
+    });
+  });
+});
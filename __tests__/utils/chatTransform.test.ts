@@ -12,6 +12,15 @@ import {
   updateAssistantMessage,
   shouldRenderAssistantMessage,
   extractConversationContent,
+  attachInteraction,
+  answerInteraction,
+  countPendingInteractions,
+  createInteractionRecord,
+  expirePendingInteractions,
+  findDueInteractions,
+  findNextInteractionDeadline,
+  timeOutInteraction,
+  resolveDueInteractions,
 } from '@/utils/chatTransform';
 
 import {
@@ -354,4 +363,135 @@ describe('chatTransform', () => {
       expect(result).toBe('');
     });
   });
-});
\ No newline at end of file
+
+  describe('interaction records', () => {
+    const prompt = (id: string) => ({
+      type: 'system_interaction_message',
+      id,
+      parent_id: 'user-1',
+      thread_id: 'thread-1',
+      conversation_id: 'conv-1',
+      content: { input_type: 'text', text: 'Why?' },
+    });
+
+    it('attaches prompts to the last assistant message and ignores repeats', () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'Hi', id: 'user-1' },
+        { role: 'assistant', content: 'Working', id: 'a-1' },
+      ];
+
+      const once = attachInteraction(messages, createInteractionRecord(prompt('p1'), 100));
+      const twice = attachInteraction(once, createInteractionRecord(prompt('p1'), 200));
+
+      expect(once[1].humanInteractionMessages).toEqual([
+        { id: 'p1', status: 'pending', message: prompt('p1'), receivedAt: 100 },
+      ]);
+      expect(twice).toBe(once);
+      expect(messages[1].humanInteractionMessages).toBeUndefined();
+    });
+
+    it('creates an assistant message for a prompt that arrives first', () => {
+      const messages: Message[] = [{ role: 'user', content: 'Hi', id: 'user-1' }];
+
+      const result = attachInteraction(messages, createInteractionRecord(prompt('p1')));
+
+      expect(result).toHaveLength(2);
+      expect(result[1]).toMatchObject({ role: 'assistant', content: '', parentId: 'user-1' });
+      expect(shouldRenderAssistantMessage(result[1])).toBe(true);
+    });
+
+    it('answers and expires prompts and counts the pending ones', () => {
+      let messages = attachInteraction(
+        [{ role: 'assistant', content: '', id: 'a-1' }],
+        createInteractionRecord(prompt('p1')),
+      );
+      messages = attachInteraction(messages, createInteractionRecord(prompt('p2')));
+      const conversation = (m: Message[]): Conversation => ({ id: 'conv-1', name: 'c', messages: m, folderId: null });
+
+      expect(countPendingInteractions(conversation(messages))).toBe(2);
+
+      messages = answerInteraction(messages, 'p1', 'Because', 500);
+      expect(messages[0].humanInteractionMessages?.[0]).toMatchObject({
+        status: 'answered',
+        response: 'Because',
+        answeredAt: 500,
+      });
+      expect(countPendingInteractions(conversation(messages))).toBe(1);
+
+      messages = expirePendingInteractions(messages);
+      expect(messages[0].humanInteractionMessages?.map(r => r.status)).toEqual(['answered', 'expired']);
+      expect(expirePendingInteractions(messages)).toBe(messages);
+
+      // Answers only apply to pending prompts
+      expect(answerInteraction(messages, 'p2', 'late')[0].humanInteractionMessages?.[1].status).toBe('expired');
+    });
+
+    it('times out prompts with their default response', () => {
+      const timed = { ...prompt('p1'), timeout_seconds: 30, default_response: 'approve' };
+      const untimed = { ...prompt('p2'), timeout_seconds: 0 };
+      let messages = attachInteraction(
+        [{ role: 'assistant', content: '', id: 'a-1' }],
+        createInteractionRecord(timed, 1000),
+      );
+      messages = attachInteraction(messages, createInteractionRecord(untimed, 1000));
+      const conversation: Conversation = { id: 'conv-1', name: 'c', messages, folderId: null };
+
+      expect(messages[0].humanInteractionMessages?.map(r => r.deadline)).toEqual([31000, undefined]);
+      expect(findNextInteractionDeadline([conversation])).toBe(31000);
+      expect(findDueInteractions(messages, 30999)).toEqual([]);
+      expect(findDueInteractions(messages, 31000).map(r => r.id)).toEqual(['p1']);
+
+      messages = timeOutInteraction(messages, 'p1', 31000);
+      expect(messages[0].humanInteractionMessages?.[0]).toMatchObject({
+        status: 'answered',
+        response: 'approve',
+        answeredAt: 31000,
+        autoSubmitted: true,
+      });
+      expect(findNextInteractionDeadline([{ ...conversation, messages }])).toBeNull();
+    });
+
+    it('expires timed-out prompts that have no default response', () => {
+      const messages = attachInteraction(
+        [{ role: 'assistant', content: '', id: 'a-1' }],
+        createInteractionRecord({ ...prompt('p1'), timeout_seconds: 5 }, 0),
+      );
+
+      const result = timeOutInteraction(messages, 'p1', 5000);
+
+      expect(result[0].humanInteractionMessages?.[0].status).toBe('expired');
+      expect(result[0].humanInteractionMessages?.[0].autoSubmitted).toBeUndefined();
+    });
+
+    it('sends the default response only for prompts received live', () => {
+      const timed = { ...prompt('p1'), timeout_seconds: 30, default_response: 'approve' };
+      const messages = attachInteraction(
+        [{ role: 'assistant', content: '', id: 'a-1' }],
+        createInteractionRecord(timed, 1000),
+      );
+
+      const live = resolveDueInteractions(messages, new Set(['p1']), 31000);
+
+      expect(live.toSend.map(r => r.id)).toEqual(['p1']);
+      expect(live.messages[0].humanInteractionMessages?.[0]).toMatchObject({
+        status: 'answered',
+        autoSubmitted: true,
+      });
+      expect(resolveDueInteractions(messages, new Set(['p1']), 30999)).toEqual({ messages, toSend: [] });
+    });
+
+    it('expires a prompt past its deadline after a reload without sending', () => {
+      const timed = { ...prompt('p1'), timeout_seconds: 30, default_response: 'approve' };
+      const stored = attachInteraction(
+        [{ role: 'assistant', content: '', id: 'a-1' }],
+        createInteractionRecord(timed, 1000),
+      );
+
+      const { messages, toSend } = resolveDueInteractions(stored, new Set(), 60000);
+
+      expect(toSend).toEqual([]);
+      expect(messages[0].humanInteractionMessages?.[0].status).toBe('expired');
+      expect(messages[0].humanInteractionMessages?.[0].autoSubmitted).toBeUndefined();
+    });
+  });
+});
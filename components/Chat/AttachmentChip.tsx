@@ -0,0 +1,61 @@
+import {
+  IconFileText,
+  IconFileTypePdf,
+  IconPhoto,
+  IconX,
+} from '@tabler/icons-react';
+import { FC } from 'react';
+
+import { formatAttachmentSize } from '@/utils/app/attachments';
+
+import { MessageAttachment } from '@/types/chat';
+
+interface Props {
+  attachment: MessageAttachment;
+  onRemove?: (attachment: MessageAttachment) => void;
+}
+
+const KIND_ICONS = {
+  image: IconPhoto,
+  pdf: IconFileTypePdf,
+  text: IconFileText,
+};
+
+/**
+ * One attached file: thumbnail or type icon, name and size
+ * Removable while the message is being composed
+ */
+export const AttachmentChip: FC<Props> = ({ attachment, onRemove }) => {
+  const Icon = KIND_ICONS[attachment.kind] ?? IconFileText;
+
+  return (
+    <div
+      className="flex max-w-[16rem] items-center gap-2 rounded-md bg-[#91c438] px-2 py-1 text-sm text-black dark:bg-green-700 dark:text-white"
+      title={attachment.name}
+      data-testid="attachment-chip"
+    >
+      {attachment.kind === 'image' ? (
+        <img
+          src={attachment.content}
+          alt=""
+          className="h-6 w-6 shrink-0 rounded object-cover"
+        />
+      ) : (
+        <Icon size={16} className="shrink-0" />
+      )}
+      <span className="truncate">{attachment.name}</span>
+      <span className="shrink-0 text-xs opacity-70">
+        {formatAttachmentSize(attachment.size)}
+      </span>
+      {onRemove && (
+        <button
+          className="shrink-0 hover:text-[#ff1717e9]"
+          onClick={() => onRemove(attachment)}
+          aria-label={`Remove ${attachment.name}`}
+        >
+          <IconX size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { IconChevronLeft, IconChevronRight } from '@tabler/icons-react';
+import { FC } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { Message } from '@/types/chat';
+
+interface Props {
+  siblings: Message[];
+  currentId?: string;
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+}
+
+export const BranchNavigator: FC<Props> = ({
+  siblings,
+  currentId,
+  disabled = false,
+  onSelect,
+}) => {
+  const { t } = useTranslation('chat');
+  const index = siblings.findIndex((sibling) => sibling.id === currentId);
+
+  if (siblings.length < 2 || index < 0) {
+    return null;
+  }
+
+  const select = (target: number) => {
+    const id = siblings[target]?.id;
+    if (id) onSelect(id);
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+      <button
+        className="disabled:opacity-30 hover:text-gray-700 dark:hover:text-gray-300"
+        onClick={() => select(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label={t('Previous branch') || 'Previous branch'}
+      >
+        <IconChevronLeft size={16} />
+      </button>
+      <span>
+        {index + 1}/{siblings.length}
+      </span>
+      <button
+        className="disabled:opacity-30 hover:text-gray-700 dark:hover:text-gray-300"
+        onClick={() => select(index + 1)}
+        disabled={disabled || index === siblings.length - 1}
+        aria-label={t('Next branch') || 'Next branch'}
+      >
+        <IconChevronRight size={16} />
+      </button>
+    </div>
+  );
+};
@@ -4,10 +4,12 @@
 import { ChatInput } from './ChatInput';
 import { ChatLoader } from './ChatLoader';
 import { MemoizedChatMessage } from './MemoizedChatMessage';
-import { InteractionModal } from '@/components/Chat/ChatInteractionMessage';
+import { PendingAuthBanner } from './PendingAuthBanner';
+import { showInteractionNotification } from '@/components/Chat/ChatInteractionMessage';
 import HomeContext from '@/pages/api/home/home.context';
-import { DEFAULT_HTTP_ENDPOINT } from '@/constants/endpoints';
 import { ChatApiRequest, Conversation, Message } from '@/types/chat';
+import { InteractionRecord, InteractionResponse } from '@/types/interaction';
+import { OAuthCompleteMessage, PendingAuth } from '@/types/oauth';
 import {
   WebSocketInbound,
   validateWebSocketMessage,
@@ -22,8 +24,13 @@ import {
   isOAuthConsentMessage,
   extractOAuthUrl,
   shouldAppendResponseContent,
+  WebSocketConnectionEvent,
+  WebSocketConnectionState,
 } from '@/types/websocket';
 import { getEndpoint } from '@/utils/app/api';
+import { toOpenAIContentParts } from '@/utils/app/attachments';
+import { getMessageText } from '@/utils/app/content';
+import { branchConversation, switchBranch } from '@/utils/app/branches';
 import { webSocketMessageTypes } from '@/utils/app/const';
 import {
   saveConversation,
@@ -35,6 +42,7 @@ import {
   processIntermediateMessage,
   updateConversationTitle,
 } from '@/utils/app/helper';
+import { serializeInteractionResponse } from '@/utils/app/interaction';
 import {
   shouldAppendResponse,
   appendAssistantText,
@@ -43,110 +51,52 @@ import {
   createAssistantMessage,
   updateAssistantMessage,
   shouldRenderAssistantMessage,
+  attachInteraction,
+  createInteractionRecord,
+  expirePendingInteractions,
+  answerInteraction,
+  findNextInteractionDeadline,
+  resolveDueInteractions,
 } from '@/utils/chatTransform';
+import { createChatStreamDecoder } from '@/utils/chatStream';
+import {
+  WEBSOCKET_RECONNECT_CONFIG,
+  buildResumeMessage,
+  getReconnectDelay,
+  nextConnectionState,
+  recordLastSeenMessage,
+} from '@/utils/app/websocket';
+import {
+  enqueueOutboundFrame,
+  flushOutboundQueue,
+  markQueuedMessagesSent,
+  removeOutboundFrame,
+} from '@/utils/app/outboundQueue';
+import {
+  getOAuthRedirectReturn,
+  getPendingAuths,
+  openOAuthPopup,
+  saveOAuthRedirectReturn,
+  savePendingAuths,
+  subscribeOAuthComplete,
+} from '@/utils/app/oauth';
 import { throttle } from '@/utils/data/throttle';
 import { useTranslation } from 'next-i18next';
 import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import toast from 'react-hot-toast';
 import { v4 as uuidv4 } from 'uuid';
+import { useAutoRead } from '@/hooks/useAutoRead';
+import { useVoiceMode } from '@/hooks/useVoiceMode';
 
 import { SESSION_COOKIE_NAME } from '@/constants/constants';
 import { isValidConsentPromptURL } from '@/utils/security/oauth-validation';
 import { validateWebSocketURL } from '@/utils/security/url-validation';
+import { VoiceModeOverlay } from './VoiceModeOverlay';
 
 export { validateWebSocketURL };
 
-
-
-// Streaming utilities for handling SSE and NDJSON safely
-function normalizeNewlines(s: string): string {
-  // turn CRLF into LF so splitting is predictable
-  return s.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-}
-
-function extractSsePayloads(buffer: string): {
-  frames: string[];
-  rest: string;
-} {
-  buffer = normalizeNewlines(buffer);
-
-  // Split on blank line (event delimiter)
-  const parts = buffer.split(/\n\n/);
-  const rest = parts.pop() ?? '';
-
-  const frames: string[] = [];
-
-  for (const block of parts) {
-    // Keep only lines that start with "data:" possibly followed by a space
-    const dataLines = block
-      .split('\n')
-      .filter(line => /^data:\s*/.test(line))
-      .map(line => line.replace(/^data:\s*/, '').trim())
-      .filter(line => line.length > 0);
-
-    if (dataLines.length === 0) continue;
-
-    // Some servers send multi-line JSON; join them
-    const payload = dataLines.join('\n');
-
-    // Ignore sentinel frames
-    if (payload === '[DONE]' || payload === 'DONE') continue;
-
-    frames.push(payload);
-  }
-
-  return { frames, rest };
-}
-
-function splitNdjson(buffer: string): { lines: string[]; rest: string } {
-  buffer = normalizeNewlines(buffer);
-  const parts = buffer.split('\n');
-  const rest = parts.pop() ?? '';
-  // strip empty/whitespace lines
-  const lines = parts.map(l => l.trim()).filter(Boolean);
-  return { lines, rest };
-}
-
-function tryParseJson<T = any>(s: string): T | null {
-  try {
-    return JSON.parse(s);
-  } catch {
-    return null;
-  }
-}
-
-function parsePossiblyConcatenatedJson(payload: string): any[] {
-  // Fast path
-  const single = tryParseJson(payload);
-  if (single !== null) return [single];
-
-  // Slow path: try to split concatenated top-level objects
-  const objs: any[] = [];
-  let depth = 0,
-    start = -1;
-  for (let i = 0; i < payload.length; i++) {
-    const ch = payload[i];
-    if (ch === '{') {
-      if (depth === 0) start = i;
-      depth++;
-    } else if (ch === '}') {
-      depth--;
-      if (depth === 0 && start !== -1) {
-        const slice = payload.slice(start, i + 1);
-        const parsed = tryParseJson(slice);
-        if (parsed !== null) objs.push(parsed);
-        start = -1;
-      }
-    }
-  }
-  return objs;
-}
-
-// Debug helper for streaming parse issues (commented out for production)
-// const debugParse = (label: string, payload: string) => {
-//   const preview = payload.length > 200 ? payload.slice(0, 200) + '…' : payload;
-//   console.debug(`[stream][${label}] payload preview:`, preview);
-// };
+// How long a message opened from search stays highlighted
+const MESSAGE_FLASH_MS = 2000;
 
 export const Chat = () => {
   const { t } = useTranslation('chat');
@@ -166,12 +116,17 @@ export const Chat = () => {
       expandIntermediateSteps,
       intermediateStepOverride,
       enableIntermediateSteps,
+      messageJumpTarget,
+      speechInputProvider,
+      speechLanguage,
+      speechOutputProvider,
+      speechVoice,
+      autoReadResponses,
     },
     handleUpdateConversation,
     dispatch: homeDispatch,
   } = useContext(HomeContext);
 
-  const [currentMessage, setCurrentMessage] = useState<Message>();
   const [autoScrollEnabled, setAutoScrollEnabled] = useState<boolean>(true);
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [showScrollDownButton, setShowScrollDownButton] =
@@ -179,19 +134,29 @@ export const Chat = () => {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const flashTimerRef = useRef<ReturnType<typeof setTimeout>>();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const controllerRef = useRef(new AbortController());
   const selectedConversationRef = useRef(selectedConversation);
   const conversationsRef = useRef(conversations);
+  const [pendingAuths, setPendingAuths] = useState<Record<string, PendingAuth>>(
+    () => getPendingAuths()
+  );
+  const oauthPopupWatchRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
-  const [modalOpen, setModalOpen] = useState(false);
-  const [interactionMessage, setInteractionMessage] = useState(null);
   const webSocketRef = useRef<WebSocket | null>(null);
   const webSocketConnectedRef = useRef(false);
+  const connectionStateRef = useRef<WebSocketConnectionState>('idle');
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Last message id received per conversation_id, sent in the resume handshake
+  const lastSeenMessageIdsRef = useRef<Record<string, string>>({});
+  // Prompts received on this tab's WebSocket, the only ones answered with
+  // their default_response when they time out
+  const liveInteractionIdsRef = useRef<Set<string>>(new Set());
   const webSocketModeRef = useRef(
     sessionStorage.getItem('webSocketMode') === 'false' ? false : webSocketMode
   );
-  let websocketLoadingToastId: string | null = null;
+  const websocketLoadingToastIdRef = useRef<string | null>(null);
   const lastScrollTop = useRef(0); // Store last known scroll position
 
   // Add these variables near the top of your component
@@ -203,6 +168,17 @@ export const Chat = () => {
     webSocketModeRef.current = webSocketMode;
   }, [webSocketMode]);
 
+  const [voiceModeOpen, setVoiceModeOpen] = useState(false);
+
+  // Voice mode reads its answers itself
+  useAutoRead({
+    conversation: selectedConversation,
+    messageIsStreaming,
+    enabled: autoReadResponses && !voiceModeOpen,
+    provider: speechOutputProvider,
+    voice: speechVoice,
+  });
+
   // WebSocket message tracking for stop generating functionality
   const activeUserMessageId = useRef<string | null>(null);
 
@@ -233,14 +209,10 @@ export const Chat = () => {
     }
   }, [webSocketModeRef, homeDispatch]);
 
-  const openModal = (data: any = {}) => {
-    setInteractionMessage(data);
-    setModalOpen(true);
-  };
-
-  const handleUserInteraction = ({
+  const handleUserInteraction = useCallback(({
     interactionMessage = {},
     userResponse = '',
+    conversationId = selectedConversationRef.current?.id,
   }: any) => {
     const wsMessage = {
       type: webSocketMessageTypes.userInteractionMessage,
@@ -254,7 +226,8 @@ export const Chat = () => {
             content: [
               {
                 type: 'text',
-                text: userResponse,
+                // Typed responses (numbers, selections, forms) go as JSON
+                text: serializeInteractionResponse(userResponse),
               },
             ],
           },
@@ -262,8 +235,19 @@ export const Chat = () => {
       },
       timestamp: new Date().toISOString(),
     };
+    if (!webSocketConnectedRef.current) {
+      const queued = enqueueOutboundFrame({
+        id: wsMessage.id,
+        conversationId: conversationId || '',
+        frame: wsMessage,
+      });
+      if (!queued) {
+        toast.error('Storage quota exceeded, your response was not queued.');
+      }
+      return;
+    }
     webSocketRef?.current?.send(JSON.stringify(wsMessage));
-  };
+  }, []);
 
   useEffect(() => {
     selectedConversationRef.current = selectedConversation;
@@ -286,178 +270,361 @@ export const Chat = () => {
     }
   }, [selectedConversation?.id]);
 
+  const updateConnectionState = useCallback(
+    (event: WebSocketConnectionEvent) => {
+      const nextState = nextConnectionState(connectionStateRef.current, event);
+      if (nextState !== connectionStateRef.current) {
+        connectionStateRef.current = nextState;
+        homeDispatch({ field: 'webSocketConnectionState', value: nextState });
+      }
+    },
+    [homeDispatch]
+  );
+
+  /**
+   * Sends frames queued while disconnected and clears their queued badges
+   * Resumes streaming state when the selected conversation had a queued message
+   */
+  const flushQueuedFrames = (ws: WebSocket) => {
+    const sent = flushOutboundQueue(queued => ws.send(JSON.stringify(queued.frame)));
+    const sentUserMessages = sent.filter(
+      queued => queued.frame?.type === webSocketMessageTypes.userMessage
+    );
+    if (sentUserMessages.length === 0) return;
+
+    const updatedConversations = markQueuedMessagesSent(
+      conversationsRef.current,
+      sentUserMessages.map(queued => queued.id)
+    );
+    const updatedSelected =
+      updatedConversations.find(c => c.id === selectedConversationRef.current?.id) ??
+      (selectedConversationRef.current &&
+        markQueuedMessagesSent(
+          [selectedConversationRef.current],
+          sentUserMessages.map(queued => queued.id)
+        )[0]);
+
+    conversationsRef.current = updatedConversations;
+    homeDispatch({ field: 'conversations', value: updatedConversations });
+    saveConversations(updatedConversations);
+    if (updatedSelected) {
+      selectedConversationRef.current = updatedSelected;
+      homeDispatch({ field: 'selectedConversation', value: updatedSelected });
+      saveConversation(updatedSelected);
+    }
+
+    const lastForSelected = sentUserMessages
+      .filter(queued => queued.conversationId === updatedSelected?.id)
+      .at(-1);
+    if (lastForSelected) {
+      activeUserMessageId.current = lastForSelected.id;
+      homeDispatch({ field: 'loading', value: true });
+      homeDispatch({ field: 'messageIsStreaming', value: true });
+    }
+  };
+
+  const connectWebSocket = useCallback(
+    async (attempt = 0): Promise<boolean> => {
+      if (!webSocketURL) {
+        console.error('WebSocket URL not configured in environment variables');
+        toast.error('WebSocket URL not configured in environment variables.');
+        return false;
+      }
+
+      return new Promise(resolve => {
+        // Universal cookie handling for both cross-origin and same-origin connections
+        const getCookie = (name: string) => {
+          const value = `; ${document.cookie}`;
+          const parts = value.split(`; ${name}=`);
+          if (parts.length === 2) return parts.pop()?.split(';').shift();
+          return null;
+        };
+
+        const sessionCookie = getCookie(SESSION_COOKIE_NAME);
+      
+        // Use only the environment-configured WebSocket URL for security
+        let wsUrl: string = webSocketURL;
+      
+        // Validate WebSocket URL before connecting to prevent malicious connections
+        if (!validateWebSocketURL(wsUrl)) {
+          console.error('WebSocket URL validation failed, refusing to connect to potentially malicious server:', wsUrl);
+          toast.error('WebSocket URL validation failed.');
+          resolve(false);
+          return;
+        }
+
+        // Determine if this is a cross-origin connection
+        const wsUrlObj = new URL(wsUrl);
+        const isCrossOrigin = wsUrlObj.origin !== window.location.origin;
+
+        // Always add session cookie as query parameter for reliability
+        // This works for both cross-origin (required) and same-origin (redundant but harmless)
+        if (sessionCookie) {
+          const separator = wsUrl.includes('?') ? '&' : '?';
+          wsUrl += `${separator}session=${encodeURIComponent(sessionCookie)}`;
+        } else {
+        }
+
+        updateConnectionState('connect');
+        const ws = new WebSocket(wsUrl);
+        let opened = false;
+
+        websocketLoadingToastIdRef.current = toast.loading(
+          attempt > 0
+            ? `WebSocket disconnected, reconnecting (attempt ${attempt} of ${WEBSOCKET_RECONNECT_CONFIG.maxAttempts})...`
+            : 'WebSocket is not connected, trying to connect...',
+          { id: 'websocketLoadingToastId' }
+        );
+
+        ws.onopen = () => {
+          toast.success(
+            'Connected to ' + webSocketURL,
+            {
+              id: 'websocketSuccessToastId',
+            }
+          );
+          if (websocketLoadingToastIdRef.current) toast.dismiss(websocketLoadingToastIdRef.current);
+
+          // using ref due to usecallback for handlesend which will be recreated during next render when dependency array changes
+          // so values inside of are still one and be updated after next render
+          // so we'll not see any changes to websocket (state variable) or webSocketConnected (context variable) changes while the function is executing
+          opened = true;
+          webSocketConnectedRef.current = true;
+          homeDispatch({ field: 'webSocketConnected', value: true });
+          webSocketRef.current = ws;
+          updateConnectionState('open');
+
+          // Ask the server to replay frames sent while the socket was down
+          const resumeMessage = buildResumeMessage(lastSeenMessageIdsRef.current);
+          if (resumeMessage) {
+            ws.send(JSON.stringify(resumeMessage));
+          }
+          socketHandlersRef.current.flushQueuedFrames(ws);
+          resolve(true); // Resolve true only when connected
+        };
+
+        ws.onmessage = event => {
+          const message = JSON.parse(event.data);
+          socketHandlersRef.current.handleWebSocketMessage(message);
+        };
+
+        ws.onclose = () => {
+          webSocketConnectedRef.current = false;
+          homeDispatch({ field: 'webSocketConnected', value: false });
+
+          if (!webSocketModeRef?.current) {
+            updateConnectionState('disconnect');
+            resolve(false);
+            return;
+          }
+
+          // A socket that was open starts a fresh backoff sequence
+          const nextAttempt = opened ? 1 : attempt + 1;
+          if (nextAttempt <= WEBSOCKET_RECONNECT_CONFIG.maxAttempts) {
+            updateConnectionState('close');
+            reconnectTimerRef.current = setTimeout(async () => {
+              reconnectTimerRef.current = null;
+              resolve(await connectWebSocket(nextAttempt));
+            }, getReconnectDelay(nextAttempt - 1));
+          } else {
+            // Only resolve(false) after all retries fail
+            updateConnectionState('give_up');
+            homeDispatch({ field: 'loading', value: false });
+            homeDispatch({ field: 'messageIsStreaming', value: false });
+            if (websocketLoadingToastIdRef.current) toast.dismiss(websocketLoadingToastIdRef.current);
+            toast.error('WebSocket connection failed.', {
+              id: 'websocketErrorToastId',
+            });
+            resolve(false);
+          }
+        };
+
+        ws.onerror = error => {
+          homeDispatch({ field: 'webSocketConnected', value: false });
+          webSocketConnectedRef.current = false;
+          // Keep streaming state so a resumed socket can finish the answer
+          ws.close(); // Ensure the WebSocket is closed on error
+        };
+      });
+    },
+    [webSocketURL, homeDispatch, updateConnectionState]
+  );
+
   useEffect(() => {
     if (webSocketMode && !webSocketConnectedRef.current) {
       connectWebSocket();
     } else {
       // todo cancel ongoing connection attempts
-      if (websocketLoadingToastId) toast.dismiss(websocketLoadingToastId);
+      if (websocketLoadingToastIdRef.current) toast.dismiss(websocketLoadingToastIdRef.current);
     }
 
     return () => {
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
       if (webSocketRef?.current) {
+        // Intentional close, don't let onclose schedule a reconnect
+        webSocketRef.current.onclose = null;
         webSocketRef?.current?.close();
         webSocketConnectedRef.current = false;
+        updateConnectionState('disconnect');
       }
     };
-  }, [webSocketMode, webSocketURL]);
-
-  const connectWebSocket = async (retryCount = 0) => {
-    const maxRetries = 3;
-    const retryDelay = 1000; // 1-second delay between retries
-
-    if (!webSocketURL) {
-      console.error('WebSocket URL not configured in environment variables');
-      toast.error('WebSocket URL not configured in environment variables.');
-      return false;
-    }
+  }, [webSocketMode, webSocketURL, connectWebSocket, updateConnectionState]);
+
+  const updatePendingAuths = useCallback(
+    (
+      update: (pending: Record<string, PendingAuth>) => Record<string, PendingAuth>
+    ) => {
+      setPendingAuths(current => {
+        const next = update(current);
+        savePendingAuths(next);
+        return next;
+      });
+    },
+    []
+  );
 
-    return new Promise(resolve => {
-      // Universal cookie handling for both cross-origin and same-origin connections
-      const getCookie = (name: string) => {
-        const value = `; ${document.cookie}`;
-        const parts = value.split(`; ${name}=`);
-        if (parts.length === 2) return parts.pop()?.split(';').shift();
-        return null;
-      };
+  /**
+   * Applies a completion reported by /oauth/callback to the conversations
+   * waiting on consent, or to `conversationId` only when given
+   */
+  const handleOAuthCompletion = useCallback(
+    (completion: OAuthCompleteMessage, conversationId?: string) => {
+      updatePendingAuths(pending =>
+        Object.fromEntries(
+          Object.entries(pending).flatMap(([id, auth]) => {
+            if (conversationId !== undefined && id !== conversationId) {
+              return [[id, auth]];
+            }
+            return completion.status === 'success'
+              ? []
+              : [[id, { ...auth, status: 'failed' as const, error: completion.error }]];
+          })
+        )
+      );
+      if (completion.status === 'error') {
+        toast.error(completion.error || 'Authorization failed');
+      }
+    },
+    [updatePendingAuths]
+  );
 
-      const sessionCookie = getCookie(SESSION_COOKIE_NAME);
-      
-      // Use only the environment-configured WebSocket URL for security
-      let wsUrl: string = webSocketURL;
-      
-      // Validate WebSocket URL before connecting to prevent malicious connections
-      if (!validateWebSocketURL(wsUrl)) {
-        console.error('WebSocket URL validation failed, refusing to connect to potentially malicious server:', wsUrl);
-        toast.error('WebSocket URL validation failed.');
-        resolve(false);
+  /**
+   * Opens a validated consent URL in a popup and tracks it as pending auth for
+   * the conversation. When the popup is blocked the whole page redirects to the
+   * provider and /oauth/callback brings the user back to the conversation
+   */
+  const startOAuthConsent = useCallback(
+    (oauthUrl: string, conversationId: string = '') => {
+      if (!isValidConsentPromptURL(oauthUrl)) {
+        console.error('OAuth URL validation failed, refusing to open potentially malicious URL.');
+        toast.error('OAuth URL validation failed.');
         return;
       }
 
-      // Determine if this is a cross-origin connection
-      const wsUrlObj = new URL(wsUrl);
-      const isCrossOrigin = wsUrlObj.origin !== window.location.origin;
-
-      // Always add session cookie as query parameter for reliability
-      // This works for both cross-origin (required) and same-origin (redundant but harmless)
-      if (sessionCookie) {
-        const separator = wsUrl.includes('?') ? '&' : '?';
-        wsUrl += `${separator}session=${encodeURIComponent(sessionCookie)}`;
-      } else {
+      updatePendingAuths(pending => ({
+        ...pending,
+        [conversationId]: {
+          conversationId,
+          url: oauthUrl,
+          status: 'pending',
+          startedAt: Date.now(),
+        },
+      }));
+
+      const popup = openOAuthPopup(oauthUrl);
+      if (!popup) {
+        saveOAuthRedirectReturn({ conversationId });
+        window.location.assign(oauthUrl);
+        return;
       }
 
-      const ws = new WebSocket(wsUrl);
-
-      websocketLoadingToastId = toast.loading(
-        'WebSocket is not connected, trying to connect...',
-        { id: 'websocketLoadingToastId' }
-      );
-
-      ws.onopen = () => {
-        toast.success(
-          'Connected to ' + webSocketURL,
-          {
-            id: 'websocketSuccessToastId',
-          }
+      // A popup closed without reporting completion leaves the auth retryable
+      if (oauthPopupWatchRef.current) clearInterval(oauthPopupWatchRef.current);
+      oauthPopupWatchRef.current = setInterval(() => {
+        if (!popup.closed) return;
+        if (oauthPopupWatchRef.current) clearInterval(oauthPopupWatchRef.current);
+        oauthPopupWatchRef.current = null;
+        updatePendingAuths(pending =>
+          pending[conversationId]?.status === 'pending'
+            ? {
+                ...pending,
+                [conversationId]: {
+                  ...pending[conversationId],
+                  status: 'failed',
+                  error: 'The sign-in window was closed',
+                },
+              }
+            : pending
         );
-        if (websocketLoadingToastId) toast.dismiss(websocketLoadingToastId);
-
-        // using ref due to usecallback for handlesend which will be recreated during next render when dependency array changes
-        // so values inside of are still one and be updated after next render
-        // so we'll not see any changes to websocket (state variable) or webSocketConnected (context variable) changes while the function is executing
-        webSocketConnectedRef.current = true;
-        homeDispatch({ field: 'webSocketConnected', value: true });
-        webSocketRef.current = ws;
-        resolve(true); // Resolve true only when connected
-      };
-
-      ws.onmessage = event => {
-        const message = JSON.parse(event.data);
-        handleWebSocketMessage(message);
-      };
-
-      ws.onclose = async () => {
-        if (retryCount < maxRetries) {
-          retryCount++;
-
-          // Retry and capture the result
-          if (webSocketModeRef?.current) {
-            // Wait for retry delay
-            await new Promise(res => setTimeout(res, retryDelay));
-
-            const success = await connectWebSocket(retryCount);
-            resolve(success);
-          }
-        } else {
-          // Only resolve(false) after all retries fail
-          homeDispatch({ field: 'webSocketConnected', value: false });
-          webSocketConnectedRef.current = false;
-          homeDispatch({ field: 'loading', value: false });
-          homeDispatch({ field: 'messageIsStreaming', value: false });
-          if (websocketLoadingToastId) toast.dismiss(websocketLoadingToastId);
-          toast.error('WebSocket connection failed.', {
-            id: 'websocketErrorToastId',
-          });
-          resolve(false);
-        }
-      };
+      }, 1000);
+    },
+    [updatePendingAuths]
+  );
 
-      ws.onerror = error => {
-        homeDispatch({ field: 'webSocketConnected', value: false });
-        webSocketConnectedRef.current = false;
-        homeDispatch({ field: 'loading', value: false });
-        homeDispatch({ field: 'messageIsStreaming', value: false });
-        ws.close(); // Ensure the WebSocket is closed on error
-      };
-    });
+  const handleDismissPendingAuth = (pendingAuth: PendingAuth) => {
+    updatePendingAuths(pending =>
+      Object.fromEntries(
+        Object.entries(pending).filter(
+          ([conversationId]) => conversationId !== pendingAuth.conversationId
+        )
+      )
+    );
   };
 
-  // Re-attach the WebSocket handler when intermediateStepOverride changes because we need updated value from settings
   useEffect(() => {
-    if (webSocketRef.current) {
-      webSocketRef.current.onmessage = event => {
-        const message = JSON.parse(event.data);
-        handleWebSocketMessage(message);
-      };
+    const unsubscribe = subscribeOAuthComplete(completion =>
+      handleOAuthCompletion(completion)
+    );
+    return () => {
+      unsubscribe();
+      if (oauthPopupWatchRef.current) clearInterval(oauthPopupWatchRef.current);
+    };
+  }, [handleOAuthCompletion]);
+
+  // Back from a full-page consent redirect: reopen its conversation
+  useEffect(() => {
+    const redirectReturn = getOAuthRedirectReturn();
+    if (!redirectReturn) return;
+    const conversation = conversations.find(
+      c => c.id === redirectReturn.conversationId
+    );
+    if (!conversation) return;
+
+    saveOAuthRedirectReturn(null);
+    if (selectedConversation?.id !== conversation.id) {
+      homeDispatch({ field: 'selectedConversation', value: conversation });
+    }
+    if (redirectReturn.result) {
+      handleOAuthCompletion(redirectReturn.result, conversation.id);
     }
-  }, [intermediateStepOverride]);
+  }, [conversations, selectedConversation?.id, homeDispatch, handleOAuthCompletion]);
 
   /**
-   * Handles OAuth consent flow by opening popup window
+   * Handles OAuth consent prompts from the HTTP stream
    */
-  const handleOAuthConsent = (message: WebSocketInbound) => {
-    if (!isSystemInteractionMessage(message)) return false;
-
-    if (message.content?.input_type === 'oauth_consent') {
-      const oauthUrl = extractOAuthUrl(message);
-      if (oauthUrl) {
-        // Validate URL before opening
-        if (!isValidConsentPromptURL(oauthUrl)) {
-          console.error('OAuth URL validation failed in popup handler, refusing to open potentially malicious URL.');
-          toast.error('OAuth URL validation failed.');
-          return false;
+  const handleOAuthConsent = useCallback(
+    (message: WebSocketInbound, conversationId?: string) => {
+      if (!isSystemInteractionMessage(message)) return false;
+
+      if (message.content?.input_type === 'oauth_consent') {
+        const oauthUrl = extractOAuthUrl(message);
+        if (oauthUrl) {
+          startOAuthConsent(oauthUrl, conversationId);
         }
-        
-        const popup = window.open(
-          oauthUrl,
-          'oauth-popup',
-          'width=600,height=700,scrollbars=yes,resizable=yes,noopener,noreferrer'
-        );
-        const handleOAuthComplete = (event: MessageEvent) => {
-          if (popup && !popup.closed) popup.close();
-          window.removeEventListener('message', handleOAuthComplete);
-        };
-        window.addEventListener('message', handleOAuthComplete);
+        return true;
       }
-      return true;
-    }
-    return false;
-  };
+      return false;
+    },
+    [startOAuthConsent]
+  );
 
   /**
    * Updates refs immediately before React dispatch to prevent stale reads
    */
-  const updateRefsAndDispatch = (
+  const updateRefsAndDispatch = useCallback((
     updatedConversations: Conversation[],
     updatedConversation: Conversation,
     currentSelectedConversation: Conversation | null | undefined
@@ -479,7 +646,35 @@ export const Chat = () => {
       });
       saveConversation(updatedConversation);
     }
-  };
+  }, [homeDispatch]);
+
+  /**
+   * Applies a message transform to a conversation and persists the result
+   * Does nothing when the transform returns the messages unchanged
+   */
+  const updateConversationMessages = useCallback((
+    conversationId: string | undefined,
+    transform: (messages: Message[]) => Message[]
+  ) => {
+    const currentConversations = conversationsRef.current;
+    const target =
+      selectedConversationRef.current?.id === conversationId
+        ? selectedConversationRef.current
+        : currentConversations.find(c => c.id === conversationId);
+    if (!target) return;
+
+    const messages = transform(target.messages);
+    if (messages === target.messages) return;
+
+    const updatedConversation = { ...target, messages };
+    updateRefsAndDispatch(
+      currentConversations.map(c =>
+        c.id === updatedConversation.id ? updatedConversation : c
+      ),
+      updatedConversation,
+      selectedConversationRef.current
+    );
+  }, [updateRefsAndDispatch]);
 
   /**
    * Processes system response messages for content updates
@@ -502,7 +697,7 @@ export const Chat = () => {
     if (isLastAssistant) {
       // Append to existing assistant message using pure helper
       const combinedContent = appendAssistantText(
-        lastMessage.content || '',
+        getMessageText(lastMessage.content),
         incomingText
       );
       return messages.map((m, idx) =>
@@ -619,16 +814,36 @@ export const Chat = () => {
       return; // Don't process invalid messages
     }
 
+    lastSeenMessageIdsRef.current = recordLastSeenMessage(
+      lastSeenMessageIdsRef.current,
+      message
+    );
+
         // Filter messages based on active conversation for stop generating functionality
     const messageConversationId = message.conversation_id;
     const currentConversationId = selectedConversationRef.current?.id;
 
-    if (activeUserMessageId.current === null || messageConversationId !== currentConversationId) {
+    // Prompts still waiting when the workflow finishes can no longer be answered
+    if (isSystemResponseComplete(message)) {
+      updateConversationMessages(messageConversationId, expirePendingInteractions);
+    }
+
+    // Prompts are kept for background conversations too, the agent waits on them
+    const isBackgroundInteraction =
+      isSystemInteractionMessage(message) &&
+      messageConversationId !== currentConversationId;
+
+    if (
+      !isBackgroundInteraction &&
+      (activeUserMessageId.current === null || messageConversationId !== currentConversationId)
+    ) {
       return;
     }
 
     // End loading indicators as messages arrive
-    homeDispatch({ field: 'loading', value: false });
+    if (!isBackgroundInteraction) {
+      homeDispatch({ field: 'loading', value: false });
+    }
     if (isSystemResponseComplete(message)) {
       setTimeout(() => {
         homeDispatch({ field: 'messageIsStreaming', value: false });
@@ -647,14 +862,8 @@ export const Chat = () => {
           message?.content?.redirect_url ||
           message?.content?.text;
         if (oauthUrl) {
-          // Validate URL before opening to prevent Open Redirect attacks
-          if (isValidConsentPromptURL(oauthUrl)) {
-            // Open the validated OAuth URL in a new tab
-            window.open(oauthUrl, '_blank', 'noopener,noreferrer');
-          } else {
-            console.error('OAuth URL validation failed, refusing to open potentially malicious URL:', oauthUrl);
-            toast.error('Invalid OAuth URL received. Please contact support.');
-          }
+          // Validated before anything is opened to prevent Open Redirect attacks
+          startOAuthConsent(oauthUrl, message.conversation_id);
         } else {
           console.error(
             'OAuth consent message received but no URL found in content:',
@@ -662,9 +871,17 @@ export const Chat = () => {
           );
           toast.error('OAuth URL not found in message content');
         }
-        return; // Don't process further or show modal
+        return; // Don't process further or show a card
+      }
+      if (message?.content?.input_type === 'notification') {
+        showInteractionNotification(message.content);
+        return;
       }
-      openModal(message);
+      const record = createInteractionRecord(message);
+      liveInteractionIdsRef.current.add(record.id);
+      updateConversationMessages(message.conversation_id, messages =>
+        attachInteraction(messages, record)
+      );
       return;
     }
 
@@ -728,25 +945,39 @@ export const Chat = () => {
     );
   };
 
+  // Socket callbacks reach the latest handlers through a ref, so connectWebSocket
+  // keeps its identity and a reconnect never runs with outdated settings
+  const socketHandlersRef = useRef({ handleWebSocketMessage, flushQueuedFrames });
+  socketHandlersRef.current = { handleWebSocketMessage, flushQueuedFrames };
+
   const handleSend = useCallback(
     async (message: Message, deleteCount = 0, retry = false) => {
       message.id = uuidv4();
+      message.timestamp = Date.now();
+      delete message.queued;
+
+      // Queue instead of sending when the socket is down, flushed on reconnect
+      const shouldQueue =
+        Boolean(webSocketModeRef?.current) && !webSocketConnectedRef?.current;
 
       // Set the active user message ID for WebSocket message tracking
-      activeUserMessageId.current = message.id;
+      activeUserMessageId.current = shouldQueue ? null : message.id;
       // chat with bot
       if (selectedConversation) {
         let updatedConversation: Conversation;
         if (deleteCount) {
-          const updatedMessages = [...selectedConversation.messages];
-          for (let i = 0; i < deleteCount; i++) {
-            updatedMessages.pop();
-          }
+          // Keep the replaced messages as a sibling branch instead of dropping them
+          const branchedConversation = branchConversation(
+            selectedConversation,
+            selectedConversation.messages.length - deleteCount
+          );
+          message.parentId = branchedConversation.messages.at(-1)?.id;
           updatedConversation = {
-            ...selectedConversation,
-            messages: [...updatedMessages, message],
+            ...branchedConversation,
+            messages: [...branchedConversation.messages, message],
           };
         } else {
+          message.parentId = selectedConversation.messages.at(-1)?.id;
           // remove content from attachment since it could a large base64 encoded string which can cause session stroage overflow
           // Clone the message and update the attachment contentconst updateMessage = JSON.parse(JSON.stringify(message));
           const updateMessage = JSON.parse(JSON.stringify(message));
@@ -760,28 +991,27 @@ export const Chat = () => {
             isHomepageConversation: undefined,
           };
         }
+        if (shouldQueue) {
+          updatedConversation = {
+            ...updatedConversation,
+            messages: updatedConversation.messages.map(m =>
+              m.id === message.id ? { ...m, queued: true } : m
+            ),
+          };
+        }
         homeDispatch({
           field: 'selectedConversation',
           value: updatedConversation,
         });
 
-        homeDispatch({ field: 'loading', value: true });
-        homeDispatch({ field: 'messageIsStreaming', value: true });
+        homeDispatch({ field: 'loading', value: !shouldQueue });
+        homeDispatch({ field: 'messageIsStreaming', value: !shouldQueue });
 
         // websocket connection chat request
         if (webSocketModeRef?.current) {
-          if (!webSocketConnectedRef?.current) {
-            const connected = await connectWebSocket();
-            if (!connected) {
-              homeDispatch({ field: 'loading', value: false });
-              homeDispatch({ field: 'messageIsStreaming', value: false });
-              return;
-            } else {
-              handleSend(message, 1);
-              return;
-            }
+          if (!shouldQueue) {
+            toast.dismiss();
           }
-          toast.dismiss();
 
           saveConversation(updatedConversation);
           // Use conversationsRef.current to avoid stale closure that causes conversation wiping
@@ -805,23 +1035,7 @@ export const Chat = () => {
               (message: Message) => {
                 return {
                   role: message.role,
-                  content: [
-                    {
-                      type: 'text',
-                      text: message?.content?.trim() || '',
-                    },
-                    ...(typeof message?.content === 'object' &&
-                    message?.content &&
-                    'attachments' in message.content &&
-                    (message.content as any).attachments?.length > 0
-                      ? (message.content as any).attachments?.map(
-                          (attachment: any) => ({
-                            type: 'image',
-                            image_url: attachment?.content,
-                          })
-                        )
-                      : []),
-                  ],
+                  content: toOpenAIContentParts(message),
                 };
               }
             );
@@ -835,12 +1049,7 @@ export const Chat = () => {
             ].map(message => {
               return {
                 role: message.role,
-                content: [
-                  {
-                    type: 'text',
-                    text: message?.content?.trim() || '',
-                  },
-                ],
+                content: toOpenAIContentParts(message),
               };
             });
           }
@@ -857,6 +1066,30 @@ export const Chat = () => {
             timestamp: new Date().toISOString(),
           };
 
+          if (shouldQueue) {
+            const queued = enqueueOutboundFrame({
+              id: message.id,
+              conversationId: selectedConversation.id,
+              frame: wsMessage,
+            });
+            if (queued) {
+              toast('Message queued, it will be sent once the WebSocket reconnects.', {
+                id: 'websocketQueuedToastId',
+              });
+            } else {
+              toast.error('Storage quota exceeded, the message was not queued.', {
+                id: 'websocketQueuedToastId',
+              });
+            }
+            if (
+              connectionStateRef.current !== 'connecting' &&
+              connectionStateRef.current !== 'reconnecting'
+            ) {
+              connectWebSocket();
+            }
+            return;
+          }
+
           // console.log('Sent message via websocket', wsMessage)
           webSocketRef?.current?.send(JSON.stringify(wsMessage));
           return;
@@ -866,17 +1099,25 @@ export const Chat = () => {
         const messagesCleaned = updatedConversation.messages.map(message => {
           return {
             role: message.role,
-            content: (typeof message.content === 'string'
-              ? message.content
-              : ''
-            ).trim(),
+            // Content part arrays are forwarded as-is
+            content:
+              typeof message.content === 'string'
+                ? message.content.trim()
+                : message.content,
+            attachments: message.attachments,
           };
         });
 
         const chatRequest: ChatApiRequest = {
           messages: chatHistory
             ? messagesCleaned
-            : [{ role: 'user', content: message?.content }],
+            : [
+                {
+                  role: 'user',
+                  content: message?.content,
+                  attachments: message?.attachments,
+                },
+              ],
           httpEndpoint: sessionStorage.getItem('httpEndpoint') || httpEndpoint,
           optionalGenerationParameters: sessionStorage.getItem('optionalGenerationParameters') || optionalGenerationParameters,
           additionalProps: {
@@ -920,7 +1161,7 @@ export const Chat = () => {
           }
           if (!false) {
             if (updatedConversation.messages.length === 1) {
-              const { content } = message;
+              const content = getMessageText(message.content);
               const customName =
                 content.length > 30
                   ? content.substring(0, 30) + '...'
@@ -936,124 +1177,53 @@ export const Chat = () => {
             let done = false;
             let isFirst = true;
             let text = '';
-            let counter = 1;
-            let partialIntermediateStep = ''; // Add this to store partial chunks
-
-            // Initialize streaming buffers
-            const selectedEndpoint = sessionStorage.getItem('httpEndpoint') || httpEndpoint || DEFAULT_HTTP_ENDPOINT;
-            const isGenerateStream = selectedEndpoint.includes('generate');
-            let sseBuffer = '';
-            let ndjsonBuffer = '';
+            const streamDecoder = createChatStreamDecoder();
 
             while (!done) {
               const { value, done: doneReading } = await reader.read();
               done = doneReading;
-              if (!value) continue;
+              const events = value
+                ? streamDecoder.push(decoder.decode(value, { stream: true }))
+                : streamDecoder.flush();
 
               let chunkValue = '';
-
-              // Handle generate/stream endpoints safely
-              if (isGenerateStream) {
-                const chunkText = decoder.decode(value, { stream: true });
-
-                // 1) Try SSE first
-                sseBuffer += chunkText;
-                let sseFrames: string[] = [];
-                ({ frames: sseFrames, rest: sseBuffer } =
-                  extractSsePayloads(sseBuffer));
-
-                let extractedText = '';
-
-                if (sseFrames.length > 0) {
-                  for (const frame of sseFrames) {
-                    const objs = parsePossiblyConcatenatedJson(frame);
-                    for (const obj of objs) {
-                      if (obj && typeof obj.value === 'string') {
-                        extractedText += obj.value;
-                      } else if (typeof obj === 'string') {
-                        extractedText += obj; // some servers may send string payloads
-                      }
+              const rawIntermediateSteps: any[] = [];
+              const interactionRecords: InteractionRecord[] = [];
+              for (const event of events) {
+                switch (event.type) {
+                  case 'response_delta':
+                    chunkValue += event.text;
+                    break;
+                  case 'intermediate_step':
+                    if (event.step?.type === 'system_intermediate') {
+                      rawIntermediateSteps.push(event.step);
                     }
-                  }
-                } else {
-                  // 2) Fall back to NDJSON if it wasn't SSE
-                  ndjsonBuffer += chunkText;
-                  let lines: string[] = [];
-                  ({ lines, rest: ndjsonBuffer } = splitNdjson(ndjsonBuffer));
-                  for (const line of lines) {
-                    const obj = tryParseJson<any>(line);
-                    if (obj && typeof obj.value === 'string') {
-                      extractedText += obj.value;
-                    } else if (typeof obj === 'string') {
-                      extractedText += obj;
+                    break;
+                  case 'interaction':
+                    if (handleOAuthConsent(event.message, updatedConversation.id)) break;
+                    if (event.message?.content?.input_type === 'notification') {
+                      showInteractionNotification(event.message.content);
+                    } else {
+                      interactionRecords.push(
+                        createInteractionRecord(event.message)
+                      );
                     }
-                  }
+                    break;
+                  case 'error':
+                    toast.error(event.message);
+                    break;
+                  case 'done':
+                    done = true;
+                    break;
                 }
-
-                // 3) If neither SSE nor NDJSON detected, treat as plain text
-                chunkValue = extractedText || chunkText;
-              } else {
-                // Non-generate streaming path (existing logic)
-                chunkValue = decoder.decode(value, { stream: true });
-              }
-
-              // Ensure chunkValue is always a string
-              if (typeof chunkValue !== 'string') {
-                chunkValue = String(chunkValue ?? '');
               }
 
-              counter++;
-
-              // First, handle any partial chunk from previous iteration
-              if (partialIntermediateStep) {
-                chunkValue = partialIntermediateStep + chunkValue;
-                partialIntermediateStep = '';
-              }
-
-              // Check for incomplete tags
-              const openingTagIndex =
-                chunkValue.lastIndexOf('<intermediatestep>');
-              const closingTagIndex = chunkValue.lastIndexOf(
-                '</intermediatestep>'
-              );
-
-              // If we have an opening tag without a closing tag (or closing tag comes before opening)
-              if (openingTagIndex > closingTagIndex) {
-                // Store the partial chunk for the next iteration
-                partialIntermediateStep = chunkValue.substring(openingTagIndex);
-                // Remove the partial chunk from current processing
-                chunkValue = chunkValue.substring(0, openingTagIndex);
-              }
-
-              // Process complete intermediate steps
-              let rawIntermediateSteps: any[] = [];
-              let stepMatches =
-                chunkValue.match(
-                  /<intermediatestep>([\s\S]*?)<\/intermediatestep>/g
-                ) || [];
-              for (const stepMatch of stepMatches) {
-                try {
-                  const jsonString = stepMatch
-                    .replace('<intermediatestep>', '')
-                    .replace('</intermediatestep>', '')
-                    .trim();
-                  let rawIntermediateMessage = tryParseJson<any>(jsonString);
-                  // handle intermediate data
-                  if (rawIntermediateMessage?.type === 'system_intermediate') {
-                    rawIntermediateSteps.push(rawIntermediateMessage);
-                  }
-                } catch (error) {
-                  // console.log('Stream response parse error:', error.message);
-                }
-              }
-
-              // if the received chunk contains rawIntermediateSteps then remove them from the chunkValue
-              if (stepMatches.length > 0) {
-                chunkValue = chunkValue.replace(
-                  /<intermediatestep>[\s\S]*?<\/intermediatestep>/g,
-                  ''
-                );
-              }
+              if (
+                !chunkValue &&
+                rawIntermediateSteps.length === 0 &&
+                interactionRecords.length === 0
+              )
+                continue;
 
               text = text + chunkValue;
 
@@ -1078,9 +1248,12 @@ export const Chat = () => {
                 const updatedMessages: Message[] = [
                   ...updatedConversation.messages,
                   {
+                    id: uuidv4(),
+                    parentId: message.id,
                     role: 'assistant',
                     content: text, // main response content without intermediate steps
                     intermediateSteps: [...processedIntermediateSteps], // intermediate steps
+                    humanInteractionMessages: interactionRecords,
                   },
                 ];
 
@@ -1120,6 +1293,10 @@ export const Chat = () => {
                         ...message,
                         content: text, // main response content
                         intermediateSteps: updatedIntermediateSteps, // intermediate steps
+                        humanInteractionMessages: [
+                          ...(message.humanInteractionMessages || []),
+                          ...interactionRecords,
+                        ],
                       };
                       return msg;
                     }
@@ -1209,22 +1386,106 @@ export const Chat = () => {
       selectedConversation,
       homeDispatch,
       chatHistory,
-      webSocketConnected,
       webSocketSchema,
       httpEndpoint,
       optionalGenerationParameters,
-      expandIntermediateSteps,
       intermediateStepOverride,
       enableIntermediateSteps,
+      connectWebSocket,
+      handleOAuthConsent,
     ]
   );
 
   // Create stable onEdit callback to prevent unnecessary re-renders
   const handleEditMessage = useCallback((editedMessage: Message, deleteCount?: number) => {
-    setCurrentMessage(editedMessage);
+    // Editing a queued message replaces its pending frame
+    if (editedMessage.queued && editedMessage.id) {
+      removeOutboundFrame(editedMessage.id);
+    }
     handleSend(editedMessage, deleteCount || 0);
   }, [handleSend]);
 
+  // Shows another branch of the conversation from the selected message down
+  const handleSwitchBranch = useCallback((messageId: string) => {
+    const conversation = selectedConversationRef.current;
+    if (!conversation) return;
+
+    const { single, all } = updateConversation(
+      switchBranch(conversation, messageId),
+      conversationsRef.current
+    );
+    homeDispatch({ field: 'selectedConversation', value: single });
+    homeDispatch({ field: 'conversations', value: all });
+  }, [homeDispatch]);
+
+  // Sends the answer to an interaction card and keeps it in history
+  const handleInteractionSubmit = useCallback(
+    (record: InteractionRecord, response: InteractionResponse) => {
+      handleUserInteraction({
+        interactionMessage: record.message,
+        userResponse: response,
+      });
+      updateConversationMessages(selectedConversationRef.current?.id, messages =>
+        answerInteraction(messages, record.id, response)
+      );
+    },
+    [handleUserInteraction, updateConversationMessages]
+  );
+
+  // Times out due prompts in every conversation; only prompts received on this
+  // tab's WebSocket send their default_response, others just expire
+  useEffect(() => {
+    const nextDeadline = findNextInteractionDeadline([
+      ...(selectedConversation ? [selectedConversation] : []),
+      ...conversations.filter(c => c.id !== selectedConversation?.id),
+    ]);
+    if (nextDeadline === null) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      const selected = selectedConversationRef.current;
+      [
+        ...(selected ? [selected] : []),
+        ...conversationsRef.current.filter(c => c.id !== selected?.id),
+      ].forEach(conversation => {
+        const { messages, toSend } = resolveDueInteractions(
+          conversation.messages,
+          liveInteractionIdsRef.current,
+          now
+        );
+        toSend.forEach(record => {
+          // Forgotten before sending so the default is never sent twice
+          liveInteractionIdsRef.current.delete(record.id);
+          handleUserInteraction({
+            interactionMessage: record.message,
+            userResponse: record.message.default_response,
+            conversationId: conversation.id,
+          });
+        });
+        updateConversationMessages(conversation.id, () => messages);
+      });
+    }, Math.max(0, nextDeadline - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [conversations, selectedConversation, handleUserInteraction, updateConversationMessages]);
+
+  // Drops a queued user message before it is sent
+  const handleCancelQueuedMessage = useCallback((queuedMessage: Message) => {
+    const conversation = selectedConversationRef.current;
+    if (!queuedMessage.id || !conversation) return;
+
+    removeOutboundFrame(queuedMessage.id);
+    const { single, all } = updateConversation(
+      {
+        ...conversation,
+        messages: conversation.messages.filter(m => m.id !== queuedMessage.id),
+      },
+      conversationsRef.current
+    );
+    homeDispatch({ field: 'selectedConversation', value: single });
+    homeDispatch({ field: 'conversations', value: all });
+  }, [homeDispatch]);
+
   // Add a new effect to handle streaming state changes
   useEffect(() => {
     if (messageIsStreaming) {
@@ -1292,6 +1553,40 @@ export const Chat = () => {
     lastScrollTop.current = scrollTop;
   }, [autoScrollEnabled, messageIsStreaming]);
 
+  // Scroll to and flash the message opened from the Chatbar search results
+  useEffect(() => {
+    if (
+      !selectedConversation ||
+      messageJumpTarget?.conversationId !== selectedConversation.id
+    ) {
+      return;
+    }
+    homeDispatch({ field: 'messageJumpTarget', value: undefined });
+    setAutoScrollEnabled(false);
+
+    const byId = messageJumpTarget.messageId
+      ? selectedConversation.messages.findIndex(
+          (m) => m.id === messageJumpTarget.messageId,
+        )
+      : -1;
+    const index = byId >= 0 ? byId : messageJumpTarget.messageIndex;
+
+    // Wait for a newly selected conversation to render and settle its scroll
+    clearTimeout(flashTimerRef.current);
+    flashTimerRef.current = setTimeout(() => {
+      const element = chatContainerRef.current?.querySelector<HTMLElement>(
+        `[data-message-index="${index}"]`,
+      );
+      if (!element) return;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.classList.add('message-flash');
+      flashTimerRef.current = setTimeout(
+        () => element.classList.remove('message-flash'),
+        MESSAGE_FLASH_MS,
+      );
+    }, 300);
+  }, [messageJumpTarget, selectedConversation, homeDispatch]);
+
   const handleScrollDown = () => {
     chatContainerRef.current?.scrollTo({
       top: chatContainerRef.current.scrollHeight,
@@ -1315,11 +1610,6 @@ export const Chat = () => {
 
   useEffect(() => {
     throttledScrollDown();
-    selectedConversation &&
-      setCurrentMessage(() => {
-        const len = selectedConversation?.messages.length ?? 0;
-        return len >= 2 ? selectedConversation.messages[len - 2] : undefined;
-      });
   }, [selectedConversation, throttledScrollDown]);
 
   useEffect(() => {
@@ -1356,6 +1646,22 @@ export const Chat = () => {
     };
   }, [autoScrollEnabled, messageIsStreaming]);
 
+  const closeVoiceMode = useCallback(() => setVoiceModeOpen(false), []);
+
+  const voiceMode = useVoiceMode({
+    active: voiceModeOpen,
+    conversation: selectedConversation,
+    messageIsStreaming,
+    inputProvider: speechInputProvider,
+    language: speechLanguage,
+    outputProvider: speechOutputProvider,
+    voice: speechVoice,
+    onSend: (message) => handleSend(message, 0),
+    onStopGeneration: handleStopConversation,
+    onError: (message) => toast.error(message),
+    onClose: closeVoiceMode,
+  });
+
   return (
     <div className="relative flex-1 overflow-hidden bg-white dark:bg-[#343541] transition-all duration-300 ease-in-out">
       <>
@@ -1375,10 +1681,22 @@ export const Chat = () => {
                 message={message}
                 messageIndex={index}
                 onEdit={handleEditMessage}
+                onCancelQueued={handleCancelQueuedMessage}
+                onSwitchBranch={handleSwitchBranch}
+                onInteractionSubmit={handleInteractionSubmit}
               />
             );
           })}
           {loading && <ChatLoader statusUpdateText={`Thinking...`} />}
+          {selectedConversation && pendingAuths[selectedConversation.id] && (
+            <PendingAuthBanner
+              pendingAuth={pendingAuths[selectedConversation.id]}
+              onRetry={pendingAuth =>
+                startOAuthConsent(pendingAuth.url, pendingAuth.conversationId)
+              }
+              onDismiss={handleDismissPendingAuth}
+            />
+          )}
           <div
             className="h-[162px] bg-white dark:bg-[#343541]"
             ref={messagesEndRef}
@@ -1387,31 +1705,36 @@ export const Chat = () => {
         <ChatInput
           textareaRef={textareaRef}
           onSend={message => {
-            setCurrentMessage(message);
             handleSend(message, 0);
           }}
           onScrollDownClick={handleScrollDown}
           onRegenerate={() => {
-            if (currentMessage && currentMessage?.role === 'user') {
-              handleSend(currentMessage, 0);
-            } else {
-              const lastUserMessage = fetchLastMessage({
-                messages: selectedConversation?.messages || [],
-                role: 'user',
-              });
-              lastUserMessage && handleSend(lastUserMessage, 1);
+            // Resend the last prompt as a new branch next to the previous answer
+            const messages = selectedConversation?.messages || [];
+            const lastUserMessage = fetchLastMessage({ messages, role: 'user' });
+            const lastUserIndex = lastUserMessage
+              ? messages.lastIndexOf(lastUserMessage)
+              : -1;
+            if (lastUserMessage && lastUserIndex >= 0) {
+              handleSend(
+                { ...lastUserMessage },
+                messages.length - lastUserIndex
+              );
             }
           }}
           showScrollDownButton={showScrollDownButton}
           controller={controllerRef}
           onStopConversation={handleStopConversation}
+          onStartVoiceMode={() => setVoiceModeOpen(true)}
         />
-        <InteractionModal
-          isOpen={modalOpen}
-          interactionMessage={interactionMessage}
-          onClose={() => setModalOpen(false)}
-          onSubmit={handleUserInteraction}
-        />
+        {voiceModeOpen && (
+          <VoiceModeOverlay
+            phase={voiceMode.phase}
+            transcript={voiceMode.transcript}
+            onInterrupt={voiceMode.interrupt}
+            onClose={closeVoiceMode}
+          />
+        )}
       </>
     </div>
   );
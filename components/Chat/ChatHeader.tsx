@@ -3,6 +3,7 @@
 import {
   IconArrowsSort,
   IconMobiledataOff,
+  IconRefresh,
   IconSun,
   IconMoonFilled,
   IconUserFilled,
@@ -41,6 +42,7 @@ export const ChatHeader = ({ webSocketModeRef }: Props) => {
       chatHistory,
       webSocketMode,
       webSocketConnected,
+      webSocketConnectionState,
       selectedConversation,
       enableStreamingRagVizOptions,
     },
@@ -154,6 +156,10 @@ export const ChatHeader = ({ webSocketModeRef }: Props) => {
                 {webSocketMode &&
                   (webSocketConnected ? (
                     <IconArrowsSort size={18} color="black" />
+                  ) : webSocketConnectionState === 'reconnecting' ? (
+                    <span title="Reconnecting">
+                      <IconRefresh size={18} color="black" className="animate-spin" />
+                    </span>
                   ) : (
                     <IconMobiledataOff size={18} color="black" />
                   ))}
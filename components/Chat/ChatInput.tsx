@@ -1,12 +1,11 @@
 import {
   IconArrowDown,
   IconBolt,
+  IconHeadset,
   IconPaperclip,
-  IconPhoto,
   IconPlayerStop,
   IconRepeat,
   IconSend,
-  IconTrash,
   IconMicrophone,
   IconPlayerStopFilled,
   IconMicrophone2,
@@ -18,20 +17,36 @@ import {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from 'react';
 import toast from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
 
 import { useTranslation } from 'next-i18next';
 
-import { appConfig } from '@/utils/app/const';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  getAttachmentKind,
+  isFileUploadEnabled,
+  validateAttachment,
+} from '@/utils/app/attachments';
 import { compressImage, getWorkflowName } from '@/utils/app/helper';
+import { filterPrompts, fillVariables, parseVariables } from '@/utils/app/prompts';
+import { startSpeechInput } from '@/utils/app/speech';
 
-import { Message } from '@/types/chat';
+import { AttachmentKind, Message, MessageAttachment } from '@/types/chat';
+import { Prompt } from '@/types/prompt';
+import { SpeechInputSession } from '@/types/speech';
 
 import HomeContext from '@/pages/api/home/home.context';
 
+import { AttachmentChip } from './AttachmentChip';
+import { PromptList } from './PromptList';
+import { VariableModal } from './VariableModal';
+
 interface Props {
   onSend: (message: Message) => void;
   onRegenerate: () => void;
@@ -40,6 +55,7 @@ interface Props {
   showScrollDownButton: boolean;
   controller: Ref<AbortController>;
   onStopConversation: () => void;
+  onStartVoiceMode?: () => void;
 }
 
 export const ChatInput = ({
@@ -50,59 +66,68 @@ export const ChatInput = ({
   showScrollDownButton,
   controller,
   onStopConversation,
+  onStartVoiceMode,
 }: Props) => {
   const { t } = useTranslation('chat');
 
   const {
-    state: { selectedConversation, messageIsStreaming, loading, webSocketMode },
+    state: {
+      selectedConversation,
+      messageIsStreaming,
+      loading,
+      webSocketMode,
+      speechInputProvider,
+      speechLanguage,
+      prompts,
+    },
     dispatch: homeDispatch,
   } = useContext(HomeContext);
 
   const workflow = getWorkflowName();
+  const fileUploadEnabled = isFileUploadEnabled();
 
   // todo add the audio file
-  const recordingStartSound = new Audio('audio/recording.wav');
+  // Created once so handleSpeechToText keeps its identity between renders
+  const recordingStartSound = useMemo(() => new Audio('audio/recording.wav'), []);
 
   const [content, setContent] = useState<string>('');
   const [isTyping, setIsTyping] = useState<boolean>(false);
   const fileInputRef = useRef(null);
-  const [inputFile, setInputFile] = useState(null);
-  const [inputFileExtension, setInputFileExtension] = useState('');
-  const [inputFileContent, setInputFileContent] = useState('');
-  const [inputFileContentCompressed, setInputFileContentCompressed] =
-    useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
   const [isRecording, setIsRecording] = useState(false);
-  const recognitionRef = useRef(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const speechSessionRef = useRef<SpeechInputSession | null>(null);
+  const [showPromptList, setShowPromptList] = useState(false);
+  const [activePromptIndex, setActivePromptIndex] = useState(0);
+  const [promptInputValue, setPromptInputValue] = useState('');
+  const [variablePrompt, setVariablePrompt] = useState<Prompt | null>(null);
+  const [variables, setVariables] = useState<string[]>([]);
+  const promptListRef = useRef<HTMLUListElement | null>(null);
+
+  const filteredPrompts = filterPrompts(prompts, promptInputValue);
 
   const triggerFileUpload = () => {
     fileInputRef?.current.click();
   };
 
-  const handleInputFileDelete = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setInputFile(null);
-    setInputFileExtension('');
-    setInputFileContent('');
-    setInputFileContentCompressed('');
+  const handleAttachmentRemove = (attachment: MessageAttachment) => {
+    setAttachments((current) =>
+      current.filter((item) => item.id !== attachment.id),
+    );
   };
 
-  const handleFileChange = (e: { target: { files: any[]; value: null } }) => {
-    const file = e.target.files[0];
-    if (file) {
-      // Reset the input value so the same file can be selected again if needed
-      e.target.value = null;
-      const reader = new FileReader();
-      reader.onload = (loadEvent) => {
-        const fullBase64String = loadEvent.target?.result;
-        processFile({ fullBase64String, file });
-      };
-      reader.readAsDataURL(file);
-    }
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset the input value so the same file can be selected again if needed
+    e.target.value = '';
+    addFiles(files);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
 
     setContent(value);
+    updatePromptListVisibility(value);
   };
 
   const handleSend = () => {
@@ -110,41 +135,25 @@ export const ChatInput = ({
       return;
     }
 
-    // stop recognition if it's running
-    if (isRecording) {
-      recognitionRef.current.stop();
+    // drop the recording if it's running, its transcript would arrive after sending
+    if (speechSessionRef.current) {
+      speechSessionRef.current.cancel();
+      speechSessionRef.current = null;
       setIsRecording(false);
     }
 
-    if (!content.trim() && !inputFile && !inputFileContent) {
+    if (!content.trim() && attachments.length === 0) {
       toast.error(t('Please enter a message'));
       return;
     }
 
-    if (inputFile || inputFileContent) {
-      onSend({
-        role: 'user',
-        content: content,
-        attachments: [
-          {
-            content: inputFileContent,
-            type: 'image',
-          },
-        ],
-      });
-      setContent('');
-      setInputFile(null);
-      setInputFileExtension('');
-      setInputFileContent('');
-      setInputFileContentCompressed('');
-    } else {
-      onSend({ role: 'user', content });
-      setContent('');
-      setInputFile(null);
-      setInputFileExtension('');
-      setInputFileContent('');
-      setInputFileContentCompressed('');
-    }
+    onSend({
+      role: 'user',
+      content,
+      ...(attachments.length > 0 && { attachments }),
+    });
+    setContent('');
+    setAttachments([]);
 
     if (window.innerWidth < 640 && textareaRef && textareaRef.current) {
       textareaRef.current.blur();
@@ -152,6 +161,30 @@ export const ChatInput = ({
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showPromptList && filteredPrompts.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActivePromptIndex((prevIndex) =>
+          prevIndex < filteredPrompts.length - 1 ? prevIndex + 1 : prevIndex,
+        );
+        return;
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActivePromptIndex((prevIndex) =>
+          prevIndex > 0 ? prevIndex - 1 : prevIndex,
+        );
+        return;
+      } else if (e.key === 'Tab' || (e.key === 'Enter' && !isTyping)) {
+        e.preventDefault();
+        handleInitModal();
+        return;
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setShowPromptList(false);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !isTyping && !isMobile() && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -171,89 +204,99 @@ export const ChatInput = ({
     return mobileRegex.test(userAgent);
   };
 
-  const processFile = ({
-    fullBase64String,
-    file,
-  }: {
-    fullBase64String: string;
-    file: File;
-  }) => {
-    const [fileType] = file && file.type.split('/');
-    if (!['image'].includes(fileType)) {
-      alert(`Only supported file types are : ${['image'].join(', ')}`);
-      return;
-    }
-
-    if (file && file.size > 2 * 1024 * 1024) {
-      alert(`File size should not exceed : 2 MB`);
-      return;
-    }
+  const readAttachment = (file: File, kind: AttachmentKind) =>
+    new Promise<MessageAttachment>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const attachment: MessageAttachment = {
+          id: uuidv4(),
+          name: file.name,
+          mimeType: file.type || 'text/plain',
+          size: file.size,
+          kind,
+          content: String(reader.result ?? ''),
+        };
+        // Compress image only if it larger than 200KB
+        if (kind === 'image' && file.size > 200 * 1024) {
+          compressImage(attachment.content, file.type, true, (compressed) =>
+            resolve({ ...attachment, content: compressed }),
+          );
+        } else {
+          resolve(attachment);
+        }
+      };
+      reader.onerror = () => reject(reader.error);
+      // Text-like files are extracted here, the rest travel as data URLs
+      if (kind === 'text') {
+        reader.readAsText(file);
+      } else {
+        reader.readAsDataURL(file);
+      }
+    });
 
-    const base64WithoutPrefix = fullBase64String.replace(
-      /^data:image\/[a-z]+;base64,/,
-      '',
-    );
-    const sizeInKB = (base64WithoutPrefix.length * 3) / 4 / 1024;
-    // Compress image only if it larger than 200KB
-    const shouldCompress = sizeInKB > 200;
-
-    if (shouldCompress) {
-      compressImage(
-        fullBase64String,
-        file.type,
-        true,
-        (compressedBase64: string) => {
-          setInputFileContentCompressed(compressedBase64);
-          setInputFileContent(fullBase64String);
-          setInputFile(file?.name);
-          const extension = file.name.split('.').pop() ?? 'jpg';
-          setInputFileExtension(extension.toLowerCase());
-        },
-      );
-    } else {
-      // If no compression is needed, use the original image data
-      setInputFileContent(fullBase64String);
-      setInputFileContentCompressed(fullBase64String);
-      setInputFile(file.name);
-      const extension = file.name.split('.').pop() ?? 'jpg';
-      setInputFileExtension(extension.toLowerCase());
+  const addFiles = async (files: File[]) => {
+    let next = attachments;
+    const earlier =
+      selectedConversation?.messages.flatMap((m) => m.attachments || []) ?? [];
+    for (const file of files) {
+      const error = validateAttachment(file, next, earlier);
+      const kind = getAttachmentKind(file);
+      if (error || !kind) {
+        toast.error(error);
+        continue;
+      }
+      try {
+        next = [...next, await readAttachment(file, kind)];
+      } catch (err) {
+        console.error(err);
+        toast.error(`${file.name}: the file could not be read`);
+      }
     }
+    setAttachments(next);
   };
 
   const handleInitModal = () => {
     const selectedPrompt = filteredPrompts[activePromptIndex];
     if (selectedPrompt) {
-      setContent((prevContent) => {
-        const newContent = prevContent?.replace(
-          /\/\w*$/,
-          selectedPrompt.content,
-        );
-        return newContent;
-      });
       handlePromptSelect(selectedPrompt);
     }
     setShowPromptList(false);
   };
 
-  const parseVariables = (content: string) => {
-    const regex = /{{(.*?)}}/g;
-    const foundVariables = [];
-    let match;
+  // "/name" at the end of the input, at the start or after a space, opens the prompt list
+  const updatePromptListVisibility = (text: string) => {
+    const match = text.match(/(?:^|\s)\/(\w*)$/);
 
-    while ((match = regex.exec(content)) !== null) {
-      foundVariables.push(match[1]);
+    if (match && prompts.length > 0) {
+      setShowPromptList(true);
+      setPromptInputValue(match[1]);
+      setActivePromptIndex(0);
+    } else {
+      setShowPromptList(false);
+      setPromptInputValue('');
     }
+  };
 
-    return foundVariables;
+  // Replaces the "/name" command with the prompt body, taken literally
+  const insertPrompt = (body: string) => {
+    setContent((prevContent) => prevContent?.replace(/\/\w*$/, () => body));
   };
 
-  const handleSubmit = (updatedVariables: string[]) => {
-    const newContent = content?.replace(/{{(.*?)}}/g, (match, variable) => {
-      const index = variables.indexOf(variable);
-      return updatedVariables[index];
-    });
+  // Prompts with variables are inserted once the variables are filled in
+  const handlePromptSelect = (prompt: Prompt) => {
+    const parsedVariables = parseVariables(prompt.content);
+    if (parsedVariables.length > 0) {
+      setVariablePrompt(prompt);
+      setVariables(parsedVariables);
+    } else {
+      insertPrompt(prompt.content);
+    }
+  };
 
-    setContent(newContent);
+  const handleSubmit = (values: Record<string, string>) => {
+    if (variablePrompt) {
+      insertPrompt(fillVariables(variablePrompt.content, values));
+    }
 
     if (textareaRef && textareaRef.current) {
       textareaRef.current.focus();
@@ -267,50 +310,22 @@ export const ChatInput = ({
 
   const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
     e.preventDefault();
-    const files = e.dataTransfer.files;
+    const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      const file = files[0];
-      const reader = new FileReader();
-      reader.onload = (loadEvent) => {
-        const fullBase64String = loadEvent.target?.result;
-        processFile({ fullBase64String, file });
-      };
-      reader.readAsDataURL(file);
+      addFiles(files);
     }
   };
 
-  const handlePaste = (event: {
-    clipboardData: any;
-    originalEvent: { clipboardData: any };
-  }) => {
-    const clipboardData =
-      event.clipboardData || event.originalEvent.clipboardData;
-    let items = clipboardData.items;
-    let isImagePasted = false;
-
-    if (items) {
-      for (const item of items) {
-        if (item.type.indexOf('image') === 0) {
-          isImagePasted = true;
-          const file = item.getAsFile();
-          // Reading the image as Data URL (base64)
-          const reader = new FileReader();
-          reader.onload = (loadEvent) => {
-            const fullBase64String = loadEvent.target?.result;
-            processFile({ fullBase64String, file });
-          };
-          reader.readAsDataURL(file);
-          break; // Stop checking after finding image, preventing any text setting
-        }
-      }
-    }
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData?.items ?? [])
+      .filter((item) => item.kind === 'file')
+      .map((item) => item.getAsFile())
+      .filter((file): file is File => file !== null);
 
-    // Handle text only if no image was pasted
-    if (!isImagePasted) {
-      let text = clipboardData.getData('text/plain');
-      if (text) {
-        // setContent(text); // Set text content only if text is pasted
-      }
+    // Pasted text is left to the textarea
+    if (files.length > 0) {
+      event.preventDefault();
+      addFiles(files);
     }
   };
 
@@ -324,47 +339,49 @@ export const ChatInput = ({
     }
   }, [content, textareaRef]);
 
-  const handleSpeechToText = useCallback(() => {
-    if (!recognitionRef.current) {
-      const SpeechRecognition =
-        window?.SpeechRecognition || window?.webkitSpeechRecognition;
-
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.lang = 'en-US';
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.continuous = true;
-
-      recognitionRef.current.onresult = (event) => {
-        let currentTranscript = '';
-        for (let i = 0; i < event.results.length; i++) {
-          currentTranscript += event.results[i][0].transcript;
-        }
-        setContent(currentTranscript);
-      };
-
-      recognitionRef.current.onend = () => {
-        if (isRecording) {
-          recognitionRef.current.start();
-        }
-      };
+  const handleSpeechToText = useCallback(async () => {
+    if (speechSessionRef.current) {
+      speechSessionRef.current.stop();
+      speechSessionRef.current = null;
+      setIsRecording(false);
+      setIsTranscribing(true);
+      return;
     }
 
-    if (!isRecording) {
+    // The transcript is added after whatever was typed before recording
+    const typed = content.trim();
+    const prefix = typed ? `${typed} ` : '';
+
+    try {
+      speechSessionRef.current = await startSpeechInput(speechInputProvider, {
+        language: speechLanguage,
+        onTranscript: (transcript) => setContent(prefix + transcript),
+        onError: (message) => toast.error(t(message) || message),
+        onEnd: () => {
+          speechSessionRef.current = null;
+          setIsRecording(false);
+          setIsTranscribing(false);
+        },
+      });
       // Play sound when recording starts
       recordingStartSound.play();
-      recognitionRef.current.start();
       setIsRecording(true);
-    } else {
-      recognitionRef.current.stop();
-      setIsRecording(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('Could not start recording'),
+      );
     }
-  }, [isRecording]);
+  }, [content, recordingStartSound, speechInputProvider, speechLanguage, t]);
+
+  useEffect(() => {
+    if (promptListRef.current) {
+      promptListRef.current.scrollTop = activePromptIndex * 30;
+    }
+  }, [activePromptIndex]);
 
   useEffect(() => {
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
+      speechSessionRef.current?.cancel();
     };
   }, []);
 
@@ -396,6 +413,15 @@ export const ChatInput = ({
             </button>
           )}
 
+        {variablePrompt && (
+          <VariableModal
+            prompt={variablePrompt}
+            variables={variables}
+            onSubmit={handleSubmit}
+            onClose={() => setVariablePrompt(null)}
+          />
+        )}
+
         <div className="relative mx-2 flex w-full flex-grow flex-col rounded-md border border-black/10 bg-white shadow-[0_0_10px_rgba(0,0,0,0.10)] dark:border-gray-900/50 dark:bg-[#40414F] dark:text-white dark:shadow-[0_0_15px_rgba(0,0,0,0.10)] sm:mx-4">
           <textarea
             ref={textareaRef}
@@ -422,26 +448,35 @@ export const ChatInput = ({
             onCompositionEnd={() => setIsTyping(false)}
             onChange={handleChange}
             onKeyDown={handleKeyDown}
-            {...(appConfig?.fileUploadEnabled && {
+            {...(fileUploadEnabled && {
               onDragOver: handleDragOver,
               onDrop: handleDrop,
               onPaste: handlePaste,
             })}
           />
-          {inputFile && inputFileContent && (
-            <div>
-              <div className="relative right-0 top-0 p-1 bg-[#91c438] dark:bg-green-700 text-black dark:text-white flex items-center justify-start gap-2 rounded-small">
-                <IconPhoto className="ml-8" size={16} />
-                <span>{inputFile}</span>
-                <IconTrash
-                  className="hover:text-[#ff1717e9] cursor-pointer"
-                  size={16}
-                  onClick={handleInputFileDelete}
+          {showPromptList && filteredPrompts.length > 0 && (
+            <div className="absolute bottom-full left-0 mb-1 w-full">
+              <PromptList
+                activePromptIndex={activePromptIndex}
+                prompts={filteredPrompts}
+                onSelect={handleInitModal}
+                onMouseOver={setActivePromptIndex}
+                promptListRef={promptListRef}
+              />
+            </div>
+          )}
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 px-2 pb-2 sm:pl-8 md:pl-10">
+              {attachments.map((attachment) => (
+                <AttachmentChip
+                  key={attachment.id}
+                  attachment={attachment}
+                  onRemove={handleAttachmentRemove}
                 />
-              </div>
+              ))}
             </div>
           )}
-          {appConfig?.fileUploadEnabled && !inputFile && (
+          {fileUploadEnabled && attachments.length < MAX_ATTACHMENTS && (
             <>
               <button
                 className="absolute right-10 top-2 rounded-sm p-1 text-neutral-800 opacity-60 hover:text-[#76b900] dark:bg-opacity-50 dark:text-neutral-100 dark:hover:text-neutral-200"
@@ -457,22 +492,45 @@ export const ChatInput = ({
               </button>
               <input
                 type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
                 ref={fileInputRef}
                 style={{ display: 'none' }}
                 onChange={handleFileChange}
+                data-testid="attachment-input"
               />
             </>
           )}
+          {onStartVoiceMode && (
+            <button
+              className={`absolute ${
+                fileUploadEnabled && attachments.length < MAX_ATTACHMENTS
+                  ? 'right-[4.5rem]'
+                  : 'right-10'
+              } top-2 rounded-sm p-1 text-neutral-800 opacity-60 hover:text-[#76b900] disabled:text-neutral-400 dark:bg-opacity-50 dark:text-neutral-100 dark:hover:text-neutral-200`}
+              onClick={onStartVoiceMode}
+              disabled={messageIsStreaming || isRecording}
+              aria-label={t('Start voice mode') || 'Start voice mode'}
+              title={t('Voice mode') || 'Voice mode'}
+              data-testid="voice-mode-button"
+            >
+              <IconHeadset size={18} />
+            </button>
+          )}
           <button
             onClick={handleSpeechToText}
             className={`absolute left-2 top-2 rounded-sm p-[5px] text-neutral-800 opacity-60 dark:bg-opacity-50 dark:text-neutral-100 ${
-              messageIsStreaming
+              messageIsStreaming || isTranscribing
                 ? 'text-neutral-400' // Disable hover and change color when streaming
                 : 'hover:text-[#76b900] dark:hover:text-neutral-200' // Normal hover effect
             }`}
-            disabled={messageIsStreaming}
+            disabled={messageIsStreaming || isTranscribing}
+            aria-label={isRecording ? t('Stop recording') || 'Stop recording' : t('Voice input') || 'Voice input'}
+            data-testid="speech-input-button"
           >
-            {isRecording ? (
+            {isTranscribing ? (
+              <div className="h-[18px] w-[18px] animate-spin rounded-full border-t-2 border-neutral-800 opacity-60 dark:border-neutral-100"></div>
+            ) : isRecording ? (
               <IconPlayerStopFilled
                 size={18}
                 className="text-red-500 animate-blink"
@@ -1,180 +1,397 @@
 'use client';
 import { IconInfoCircle, IconX } from '@tabler/icons-react';
-import { useState } from 'react';
+import { FC, useEffect, useId, useMemo, useState } from 'react';
 import { toast } from 'react-hot-toast';
 
+import {
+  initialInteractionValues,
+  isMultiValueField,
+  toInteractionResponse,
+  toInteractionSchema,
+  validateInteraction,
+} from '@/utils/app/interaction';
 
-export const InteractionModal = ({
-  isOpen,
-  interactionMessage,
-  onClose,
-  onSubmit,
+import {
+  InteractionContent,
+  InteractionField,
+  InteractionResponse,
+  InteractionSchema,
+  InteractionValue,
+} from '@/types/interaction';
+
+const INPUT_CLASS = 'w-full border p-2 rounded text-black';
+
+interface FieldProps {
+  id: string;
+  field: InteractionField;
+  value: InteractionValue;
+  onChange: (value: InteractionValue) => void;
+}
+
+const InteractionFieldInput: FC<FieldProps> = ({
+  id,
+  field,
+  value,
+  onChange,
 }) => {
-  if (!isOpen || !interactionMessage) return null;
+  const options = field.options ?? [];
+  const selected = Array.isArray(value) ? value : [];
 
-  const { content } = interactionMessage;
-  const [userInput, setUserInput] = useState('');
-  const [error, setError] = useState('');
+  const toggle = (optionValue: string) =>
+    onChange(
+      selected.includes(optionValue)
+        ? selected.filter((item) => item !== optionValue)
+        : [...selected, optionValue],
+    );
 
-  // Validation for Text Input
-  const handleTextSubmit = () => {
-    if (content?.required && !userInput.trim()) {
-      setError('This field is required.');
-      return;
-    }
-    setError('');
-    onSubmit({ interactionMessage, userResponse: userInput });
-    onClose();
-  };
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <textarea
+          id={id}
+          className={INPUT_CLASS}
+          placeholder={field.placeholder}
+          maxLength={field.max_length}
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'number':
+    case 'date':
+      return (
+        <input
+          id={id}
+          type={field.type}
+          className={INPUT_CLASS}
+          placeholder={field.placeholder}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'checkbox':
+      if (!isMultiValueField(field)) {
+        return (
+          <label className="flex items-center gap-2 text-slate-800 dark:text-white">
+            <input
+              id={id}
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              className="text-[#76b900] focus:ring-[#76b900]"
+            />
+            {field.placeholder || field.label}
+          </label>
+        );
+      }
+      return (
+        <div className="space-y-2">
+          {options.map((option, index) => (
+            <label
+              key={option.id ?? index}
+              className="flex items-center gap-2 text-slate-800 dark:text-white"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggle(option.value)}
+                className="text-[#76b900] focus:ring-[#76b900]"
+              />
+              <span className="flex flex-col">
+                {option.label}
+                {option.description && (
+                  <span className="text-sm text-slate-600 dark:text-slate-400">
+                    {option.description}
+                  </span>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      );
+    case 'dropdown':
+      return (
+        <select
+          id={id}
+          className={INPUT_CLASS}
+          multiple={field.multiple}
+          value={field.multiple ? selected : String(value ?? '')}
+          onChange={(e) =>
+            onChange(
+              field.multiple
+                ? Array.from(e.target.selectedOptions, (option) => option.value)
+                : e.target.value,
+            )
+          }
+        >
+          {!field.multiple && (
+            <option value="">{field.placeholder || 'Select an option'}</option>
+          )}
+          {options.map((option, index) => (
+            <option key={option.id ?? index} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    case 'radio':
+      return (
+        <div className="space-y-3">
+          {options.map((option, index) => (
+            <div key={option.id ?? index} className="flex items-center">
+              <input
+                type="radio"
+                id={`${id}-${option.id ?? index}`}
+                name={id}
+                value={option.value}
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+                className="mr-2 text-[#76b900] focus:ring-[#76b900]"
+              />
+              <label
+                htmlFor={`${id}-${option.id ?? index}`}
+                className="flex flex-col"
+              >
+                <span className="text-slate-800 dark:text-white">
+                  {option.label}
+                </span>
+                {option.description && (
+                  <span className="text-sm text-slate-600 dark:text-slate-400">
+                    {option.description}
+                  </span>
+                )}
+              </label>
+            </div>
+          ))}
+        </div>
+      );
+    case 'binary_choice':
+      // Inside a form the buttons select a value instead of submitting
+      return (
+        <div className="flex gap-2">
+          {options.map((option, index) => (
+            <button
+              key={option.id ?? index}
+              type="button"
+              className={`px-4 py-2 rounded ${
+                value === option.value
+                  ? 'bg-[#76b900] text-white'
+                  : 'bg-slate-200 text-slate-800'
+              }`}
+              onClick={() => onChange(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      );
+    default:
+      return (
+        <input
+          id={id}
+          type="text"
+          className={INPUT_CLASS}
+          placeholder={field.placeholder}
+          maxLength={field.max_length}
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
 
-  // Handle Choice Selection
-  const handleChoiceSubmit = (option = '') => {
-    if (content?.required && !option) {
-      setError('Please select an option.');
-      return;
-    }
-    setError('');
-    onSubmit({ interactionMessage, userResponse: option });
-    onClose();
-  };
+interface FormProps {
+  schema: InteractionSchema;
+  onSubmit: (response: InteractionResponse) => void;
+  onCancel?: () => void;
+  cancelLabel?: string;
+}
 
-  // Handle Radio Selection
-  const handleRadioSubmit = () => {
-    if (content?.required && !userInput) {
-      setError('Please select an option.');
-      return;
-    }
-    setError('');
-    onSubmit({ interactionMessage, userResponse: userInput });
-    onClose();
+/**
+ * Renders the fields of an interaction schema and submits the typed response
+ * once every field validates
+ */
+export const InteractionForm: FC<FormProps> = ({
+  schema,
+  onSubmit,
+  onCancel,
+  cancelLabel = 'Cancel',
+}) => {
+  const idPrefix = `interaction-${useId().replace(/:/g, '')}`;
+  const [values, setValues] = useState(() => initialInteractionValues(schema));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues(initialInteractionValues(schema));
+    setErrors({});
+  }, [schema]);
+
+  const submit = (changes: Record<string, InteractionValue> = {}) => {
+    const next = { ...values, ...changes };
+    const nextErrors = validateInteraction(schema, next);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+    onSubmit(toInteractionResponse(schema, next));
   };
 
-  if (content.input_type === 'notification') {
-    toast.custom(
-      (t) => (
-        <div
-          className={`flex gap-2 items-center justify-evenly bg-white text-slate-800 dark:bg-slate-800 dark:text-slate-100 px-4 py-2 rounded-lg shadow-md ${
-            t.visible ? 'animate-fade-in' : 'animate-fade-out'
-          }`}
-        >
-          <IconInfoCircle size={16} className="text-[#76b900]" />
-          <span>
-            {content?.text || 'No content found for this notification'}
-          </span>
-          <button
-            onClick={() => toast.dismiss(t.id)}
-            className="text-slate-800 dark:bg-slate-800 dark:text-slate-100 ml-3 hover:bg-slate-300 rounded-full p-1"
-          >
-            <IconX size={12} />
-          </button>
+  const [singleField] = schema.fields;
+  // A lone binary choice answers as soon as a button is clicked
+  if (!schema.isForm && singleField?.type === 'binary_choice') {
+    return (
+      <div>
+        <div className="flex justify-end mt-4 space-x-2">
+          {(singleField.options ?? []).map((option, index) => (
+            <button
+              key={option.id ?? index}
+              className={`px-4 py-2 ${
+                option?.value?.includes('continue')
+                  ? 'bg-[#76b900]'
+                  : 'bg-slate-800'
+              } text-white rounded`}
+              onClick={() => submit({ [singleField.name]: option.value })}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
-      ),
-      {
-        position: 'top-right',
-        duration: Infinity,
-        id: 'notification-toast',
-      },
+        {errors[singleField.name] && (
+          <p className="text-red-500 text-sm mt-2">{errors[singleField.name]}</p>
+        )}
+      </div>
     );
-    return null;
   }
 
   return (
-    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 w">
-      <div className="bg-white p-6 rounded-lg shadow-lg sm:w-[75%] md:w-1/3 h-auto">
-        <h2 className="text-lg font-semibold mb-4 text-slate-800 dark:text-white">
-          {content?.text}
-        </h2>
-
-        {content.input_type === 'text' && (
-          <div>
-            <textarea
-              className="w-full border p-2 rounded text-black"
-              placeholder={content?.placeholder}
-              value={userInput}
-              onChange={(e) => setUserInput(e.target.value)}
-            />
-            {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
-            <div className="flex justify-end mt-4 space-x-2">
-              <button
-                className="px-4 py-2 bg-gray-500 rounded"
-                onClick={onClose}
-              >
-                Cancel
-              </button>
-              <button
-                className="px-4 py-2 bg-[#76b900] text-white rounded"
-                onClick={handleTextSubmit}
+    <form
+      noValidate
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <div className="space-y-4">
+        {schema.fields.map((field) => (
+          <div key={field.name}>
+            {schema.isForm && field.label && (
+              <label
+                htmlFor={`${idPrefix}-${field.name}`}
+                className="block mb-1 text-sm font-medium text-slate-800 dark:text-white"
               >
-                Submit
-              </button>
-            </div>
+                {field.label}
+                {field.required && <span className="text-red-500"> *</span>}
+              </label>
+            )}
+            {field.description && (
+              <p className="mb-1 text-sm text-slate-600 dark:text-slate-400">
+                {field.description}
+              </p>
+            )}
+            <InteractionFieldInput
+              id={`${idPrefix}-${field.name}`}
+              field={field}
+              value={values[field.name]}
+              onChange={(value) =>
+                setValues((current) => ({ ...current, [field.name]: value }))
+              }
+            />
+            {errors[field.name] && (
+              <p className="text-red-500 text-sm mt-2">{errors[field.name]}</p>
+            )}
           </div>
+        ))}
+      </div>
+      <div className="flex justify-end mt-4 space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            className="px-4 py-2 bg-gray-500 rounded"
+            onClick={onCancel}
+          >
+            {cancelLabel}
+          </button>
         )}
+        <button type="submit" className="px-4 py-2 bg-[#76b900] text-white rounded">
+          {schema.submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
 
-        {content.input_type === 'binary_choice' && (
-          <div>
-            <div className="flex justify-end mt-4 space-x-2">
-              {content.options.map((option) => (
-                <button
-                  key={option.id}
-                  className={`px-4 py-2 ${
-                    option?.value?.includes('continue')
-                      ? 'bg-[#76b900]'
-                      : 'bg-slate-800'
-                  } text-white rounded`}
-                  onClick={() => handleChoiceSubmit(option.value)}
-                >
-                  {option.label}
-                </button>
-              ))}
-            </div>
-          </div>
-        )}
+/**
+ * Shows a `notification` prompt as a toast, it needs no answer
+ */
+export const showInteractionNotification = (content: InteractionContent = {}) => {
+  toast.custom(
+    (t) => (
+      <div
+        className={`flex gap-2 items-center justify-evenly bg-white text-slate-800 dark:bg-slate-800 dark:text-slate-100 px-4 py-2 rounded-lg shadow-md ${
+          t.visible ? 'animate-fade-in' : 'animate-fade-out'
+        }`}
+      >
+        <IconInfoCircle size={16} className="text-[#76b900]" />
+        <span>{content?.text || 'No content found for this notification'}</span>
+        <button
+          onClick={() => toast.dismiss(t.id)}
+          className="text-slate-800 dark:bg-slate-800 dark:text-slate-100 ml-3 hover:bg-slate-300 rounded-full p-1"
+        >
+          <IconX size={12} />
+        </button>
+      </div>
+    ),
+    {
+      position: 'top-right',
+      duration: Infinity,
+      id: 'notification-toast',
+    },
+  );
+};
 
-        {content.input_type === 'radio' && (
-          <div>
-            <div className="space-y-3">
-              {content.options.map((option) => (
-                <div key={option.id} className="flex items-center">
-                  <input
-                    type="radio"
-                    id={option.id}
-                    name="notification-method"
-                    value={option.value}
-                    checked={userInput === option.value}
-                    onChange={() => setUserInput(option.value)}
-                    className="mr-2 text-[#76b900] focus:ring-[#76b900]"
-                  />
-                  <label htmlFor={option.id} className="flex flex-col">
-                    <span className="text-slate-800 dark:text-white">
-                      {option.label}
-                    </span>
-                    {/* {option.description && (
-                      <span className="text-sm text-slate-600 dark:text-slate-400">
-                        {option?.description}
-                      </span>
-                    )} */}
-                  </label>
-                </div>
-              ))}
-            </div>
-            {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
-            <div className="flex justify-end mt-4 space-x-2">
-              <button
-                className="px-4 py-2 bg-gray-500 rounded"
-                onClick={onClose}
-              >
-                Cancel
-              </button>
-              <button
-                className="px-4 py-2 bg-[#76b900] text-white rounded"
-                onClick={handleRadioSubmit}
-              >
-                Submit
-              </button>
-            </div>
-          </div>
-        )}
+interface Props {
+  isOpen: boolean;
+  interactionMessage: any;
+  onClose: () => void;
+  onSubmit: (submission: {
+    interactionMessage: any;
+    userResponse: InteractionResponse;
+  }) => void;
+}
+
+export const InteractionModal: FC<Props> = ({
+  isOpen,
+  interactionMessage,
+  onClose,
+  onSubmit,
+}) => {
+  const content = interactionMessage?.content;
+  const schema = useMemo(() => toInteractionSchema(content ?? {}), [content]);
+
+  useEffect(() => {
+    if (isOpen && content?.input_type === 'notification') {
+      showInteractionNotification(content);
+    }
+  }, [isOpen, content]);
+
+  if (!isOpen || !interactionMessage || content?.input_type === 'notification') {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 w">
+      <div className="bg-white p-6 rounded-lg shadow-lg sm:w-[75%] md:w-1/3 h-auto max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold mb-4 text-slate-800 dark:text-white">
+          {schema.title}
+        </h2>
+        <InteractionForm
+          schema={schema}
+          onSubmit={(userResponse) => {
+            onSubmit({ interactionMessage, userResponse });
+            onClose();
+          }}
+          onCancel={onClose}
+        />
       </div>
     </div>
   );
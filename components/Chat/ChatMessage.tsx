@@ -4,23 +4,36 @@ import {
   IconCheck,
   IconCopy,
   IconEdit,
+  IconFileExport,
   IconPlayerPause,
+  IconTimeline,
   IconTrash,
   IconUser,
   IconVolume2,
 } from '@tabler/icons-react';
 import { FC, memo, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
 import ReactMarkdown from 'react-markdown';
 
 import { useTranslation } from 'next-i18next';
 
+import { getMessageSiblings } from '@/utils/app/branches';
+import {
+  getMediaParts,
+  getMessageText,
+  replaceMessageText,
+} from '@/utils/app/content';
 import { updateConversation } from '@/utils/app/conversation';
 import {
   fixMalformedHtml,
   generateContentIntermediate,
 } from '@/utils/app/helper';
+import { exportTrace } from '@/utils/app/traceExport';
+import { startSpeechPlayback, toSpeechText } from '@/utils/app/tts';
 
 import { Message } from '@/types/chat';
+import { InteractionRecord, InteractionResponse } from '@/types/interaction';
+import { SpeechPlayback } from '@/types/speech';
 
 import HomeContext from '@/pages/api/home/home.context';
 
@@ -29,6 +42,12 @@ import { BotAvatar } from '@/components/Avatar/BotAvatar';
 import { getReactMarkDownCustomComponents } from '../Markdown/CustomComponents';
 import { MemoizedReactMarkdown } from '../Markdown/MemoizedReactMarkdown';
 
+import { AttachmentChip } from './AttachmentChip';
+import { BranchNavigator } from './BranchNavigator';
+import { InteractionCard } from './InteractionCard';
+import { MessageMediaParts } from './MessageMediaParts';
+import { TraceTimeline } from './TraceTimeline';
+
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -37,33 +56,73 @@ export interface Props {
   message: Message;
   messageIndex: number;
   onEdit?: (editedMessage: Message, deleteCount?: number) => void;
+  onCancelQueued?: (message: Message) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onInteractionSubmit?: (
+    record: InteractionRecord,
+    response: InteractionResponse,
+  ) => void;
 }
 
 export const ChatMessage: FC<Props> = memo(
-  ({ message, messageIndex, onEdit }) => {
+  ({
+    message,
+    messageIndex,
+    onEdit,
+    onCancelQueued,
+    onSwitchBranch,
+    onInteractionSubmit,
+  }) => {
     const { t } = useTranslation('chat');
 
     const {
-      state: { selectedConversation, conversations, messageIsStreaming },
+      state: {
+        selectedConversation,
+        conversations,
+        messageIsStreaming,
+        speechOutputProvider,
+        speechVoice,
+      },
       dispatch: homeDispatch,
     } = useContext(HomeContext);
 
     const [isEditing, setIsEditing] = useState<boolean>(false);
     const [isTyping, setIsTyping] = useState<boolean>(false);
-    const [messageContent, setMessageContent] = useState(message.content);
+    const messageText = getMessageText(message.content);
+    const [messageContent, setMessageContent] = useState(messageText);
     const [messagedCopied, setMessageCopied] = useState(false);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const [isPlaying, setIsPlaying] = useState(false);
-    const speechSynthesisRef = useRef<SpeechSynthesisUtterance | null>(null);
+    const [showTimeline, setShowTimeline] = useState(false);
+    const playbackRef = useRef<SpeechPlayback | null>(null);
 
     // Memoize the markdown components to prevent recreation on every render
     const markdownComponents = useMemo(() => {
       return getReactMarkDownCustomComponents(messageIndex, message?.id);
     }, [messageIndex, message?.id]);
 
+    const hasIntermediateSteps =
+      Array.isArray(message.intermediateSteps) &&
+      message.intermediateSteps.length > 0;
+
+    const siblings = getMessageSiblings(selectedConversation, message);
+    const branchNavigator = onSwitchBranch && (
+      <BranchNavigator
+        siblings={siblings}
+        currentId={message.id}
+        disabled={messageIsStreaming}
+        onSelect={onSwitchBranch}
+      />
+    );
+
     // return if the there is nothing to show
     // no message and no intermediate steps
-    if (message?.content === '' && message?.intermediateSteps?.length === 0) {
+    if (
+      messageText === '' &&
+      getMediaParts(message?.content).length === 0 &&
+      message?.intermediateSteps?.length === 0 &&
+      !message?.humanInteractionMessages?.length
+    ) {
       return null;
     }
 
@@ -82,10 +141,14 @@ export const ChatMessage: FC<Props> = memo(
     };
 
     const handleEditMessage = () => {
-      if (message.content != messageContent) {
+      if (messageText != messageContent) {
         if (selectedConversation && onEdit) {
           const deleteCount = (selectedConversation.messages.length || 0) - messageIndex;
-          onEdit({ ...message, content: messageContent }, deleteCount);
+          // Images, files and audio parts are kept, only the text is edited
+          onEdit(
+            { ...message, content: replaceMessageText(message.content, messageContent) },
+            deleteCount,
+          );
         }
       }
       setIsEditing(false);
@@ -130,7 +193,7 @@ export const ChatMessage: FC<Props> = memo(
     const copyOnClick = () => {
       if (!navigator.clipboard) return;
 
-      navigator.clipboard.writeText(message.content).then(() => {
+      navigator.clipboard.writeText(messageText).then(() => {
         setMessageCopied(true);
         setTimeout(() => {
           setMessageCopied(false);
@@ -139,8 +202,8 @@ export const ChatMessage: FC<Props> = memo(
     };
 
     useEffect(() => {
-      setMessageContent(message.content);
-    }, [message.content]);
+      setMessageContent(messageText);
+    }, [messageText]);
 
     useEffect(() => {
       if (textareaRef.current) {
@@ -149,36 +212,29 @@ export const ChatMessage: FC<Props> = memo(
       }
     }, [isEditing]);
 
-    const removeLinks = (text: string) => {
-      // This regex matches http/https URLs
-      const urlRegex = /(https?:\/\/[^\s]+)/g;
-      return text.replace(urlRegex, '');
-    };
-
     const handleTextToSpeech = () => {
-      if ('speechSynthesis' in window) {
-        if (isPlaying) {
-          window.speechSynthesis.cancel();
-          setIsPlaying(false);
-        } else {
-          const textWithoutLinks = removeLinks(message?.content);
-          const utterance = new SpeechSynthesisUtterance(textWithoutLinks);
-          utterance.onend = () => setIsPlaying(false);
-          utterance.onerror = () => setIsPlaying(false);
-          speechSynthesisRef.current = utterance;
-          setIsPlaying(true);
-          window.speechSynthesis.speak(utterance);
-        }
-      } else {
-        console.log('Text-to-speech is not supported in your browser.');
+      if (isPlaying) {
+        playbackRef.current?.stop();
+        return;
       }
+      const playback = startSpeechPlayback({
+        provider: speechOutputProvider,
+        voice: speechVoice,
+        onEnd: () => {
+          playbackRef.current = null;
+          setIsPlaying(false);
+        },
+        onError: (error) => toast.error(error),
+      });
+      playbackRef.current = playback;
+      setIsPlaying(true);
+      playback.append(toSpeechText(messageText));
+      playback.finish();
     };
 
     useEffect(() => {
       return () => {
-        if (speechSynthesisRef.current) {
-          window.speechSynthesis.cancel();
-        }
+        playbackRef.current?.stop();
       };
     }, []);
 
@@ -188,7 +244,8 @@ export const ChatMessage: FC<Props> = memo(
       intermediateStepsContent = false,
       role = 'assistant',
     } = {}) => {
-      const { content = '', intermediateSteps = [] } = message;
+      const { intermediateSteps = [] } = message;
+      const content = getMessageText(message.content);
 
       if (role === 'user') return content.trim();
 
@@ -207,6 +264,7 @@ export const ChatMessage: FC<Props> = memo(
 
     return (
       <div
+        data-message-index={messageIndex}
         className={`group md:px-4 ${
           message.role === 'assistant'
             ? 'border-b border-black/10 bg-gray-50 text-gray-800 dark:border-gray-900/50 dark:bg-[#444654] dark:text-gray-100'
@@ -257,7 +315,7 @@ export const ChatMessage: FC<Props> = memo(
                       <button
                         className="h-[40px] rounded-md border border-neutral-300 px-4 py-1 text-sm font-medium text-neutral-700 hover:bg-neutral-100 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
                         onClick={() => {
-                          setMessageContent(message.content);
+                          setMessageContent(messageText);
                           setIsEditing(false);
                         }}
                       >
@@ -276,6 +334,33 @@ export const ChatMessage: FC<Props> = memo(
                     >
                       {prepareContent({ message, role: 'user' })}
                     </ReactMarkdown>
+                    <MessageMediaParts content={message.content} />
+                    {message.attachments && message.attachments.length > 0 && (
+                      <div className="not-prose mt-2 flex flex-wrap gap-2">
+                        {message.attachments.map(attachment => (
+                          <AttachmentChip key={attachment.id} attachment={attachment} />
+                        ))}
+                      </div>
+                    )}
+                    {branchNavigator}
+                    {message.queued && (
+                      <div className="not-prose mt-2 flex items-center gap-2 text-xs">
+                        <span className="rounded-full bg-yellow-100 px-2 py-0.5 font-medium text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                          {t('Queued')}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {t('Will be sent when the connection is restored')}
+                        </span>
+                        {onCancelQueued && (
+                          <button
+                            className="text-gray-500 underline hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                            onClick={() => onCancelQueued(message)}
+                          >
+                            {t('Cancel')}
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -299,6 +384,9 @@ export const ChatMessage: FC<Props> = memo(
             ) : (
               <div className="flex flex-col w-[90%]">
                 <div className="flex flex-col gap-2">
+                  {showTimeline && hasIntermediateSteps && (
+                    <TraceTimeline steps={message.intermediateSteps} />
+                  )}
                   {/* for intermediate steps content  */}
                   <div className="w-full overflow-x-hidden overflow-y-auto">
                     <MemoizedReactMarkdown
@@ -348,8 +436,42 @@ export const ChatMessage: FC<Props> = memo(
                         responseContent: true,
                       })}
                     </MemoizedReactMarkdown>
+                    <MessageMediaParts content={message.content} />
                   </div>
+                  {message.humanInteractionMessages?.map((record) => (
+                    <InteractionCard
+                      key={record.id}
+                      record={record}
+                      onSubmit={onInteractionSubmit}
+                    />
+                  ))}
                   <div className="mt-1 flex gap-1">
+                    {branchNavigator}
+                    {hasIntermediateSteps && (
+                      <button
+                        className={`hover:text-gray-700 dark:hover:text-gray-300 ${
+                          showTimeline
+                            ? 'text-gray-700 dark:text-gray-300'
+                            : 'text-[#76b900] dark:text-[#76b900]'
+                        }`}
+                        onClick={() => setShowTimeline(!showTimeline)}
+                        title={t('Trace timeline') || 'Trace timeline'}
+                        aria-pressed={showTimeline}
+                      >
+                        <IconTimeline size={20} />
+                      </button>
+                    )}
+                    {hasIntermediateSteps && !messageIsStreaming && (
+                      <button
+                        className="text-[#76b900] hover:text-gray-700 dark:text-[#76b900] dark:hover:text-gray-300"
+                        onClick={() =>
+                          exportTrace(message, selectedConversation?.id)
+                        }
+                        title={t('Export trace') || 'Export trace'}
+                      >
+                        <IconFileExport size={20} />
+                      </button>
+                    )}
                     {!messageIsStreaming && (
                       <>
                         {messagedCopied ? (
@@ -0,0 +1,168 @@
+import {
+  IconCircleCheck,
+  IconClockHour4,
+  IconClockX,
+  IconMessageQuestion,
+} from '@tabler/icons-react';
+import { FC, useEffect, useMemo, useState } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { formatCountdown, toInteractionSchema } from '@/utils/app/interaction';
+
+import {
+  InteractionRecord,
+  InteractionResponse,
+  InteractionStatus,
+} from '@/types/interaction';
+
+import { InteractionForm } from './ChatInteractionMessage';
+
+interface Props {
+  record: InteractionRecord;
+  onSubmit?: (record: InteractionRecord, response: InteractionResponse) => void;
+}
+
+const STATUS_STYLES: Record<InteractionStatus, string> = {
+  pending: 'bg-[#76b900]/20 text-[#4a7300] dark:text-[#76b900]',
+  answered: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  expired: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  return String(value);
+};
+
+// Shows option labels instead of raw values where the schema has them
+const formatResponse = (
+  record: InteractionRecord,
+  schema: ReturnType<typeof toInteractionSchema>,
+): string[] => {
+  const label = (fieldName: string, value: unknown) => {
+    const options = schema.fields.find((f) => f.name === fieldName)?.options;
+    const toLabel = (item: unknown) =>
+      options?.find((option) => option.value === item)?.label ?? item;
+    return formatValue(Array.isArray(value) ? value.map(toLabel) : toLabel(value));
+  };
+
+  const { response } = record;
+  if (schema.isForm && response && typeof response === 'object' && !Array.isArray(response)) {
+    return schema.fields.map(
+      (field) => `${field.label || field.name}: ${label(field.name, response[field.name])}`,
+    );
+  }
+  return [label(schema.fields[0]?.name, response)];
+};
+
+/**
+ * Human-in-the-loop prompt shown inline in the transcript
+ * Pending prompts can be answered right away or put aside and reopened later
+ */
+export const InteractionCard: FC<Props> = ({ record, onSubmit }) => {
+  const { t } = useTranslation('chat');
+  const schema = useMemo(
+    () => toInteractionSchema(record.message?.content ?? {}),
+    [record.message],
+  );
+  const [expanded, setExpanded] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const counting = record.status === 'pending' && record.deadline !== undefined;
+  useEffect(() => {
+    if (!counting) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [counting]);
+
+  const statusLabel: Record<InteractionStatus, string> = {
+    pending: t('Waiting for you') || 'Waiting for you',
+    answered: t('Answered') || 'Answered',
+    expired: t('Expired') || 'Expired',
+  };
+
+  const StatusIcon =
+    record.status === 'answered'
+      ? IconCircleCheck
+      : record.status === 'expired'
+      ? IconClockX
+      : IconMessageQuestion;
+
+  return (
+    <div
+      className="my-2 rounded-lg border border-gray-200 p-4 dark:border-gray-600"
+      data-interaction-status={record.status}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 text-slate-800 dark:text-white">
+          <StatusIcon size={18} className="mt-0.5 shrink-0 text-[#76b900]" />
+          <span className="font-semibold">{schema.title}</span>
+        </div>
+        <span
+          className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[record.status]}`}
+        >
+          {statusLabel[record.status]}
+        </span>
+      </div>
+
+      {counting && (
+        <div
+          className="mt-2 flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300"
+          data-testid="interaction-countdown"
+        >
+          <IconClockHour4 size={16} />
+          {record.message?.default_response !== undefined
+            ? t('Default answer in') || 'Default answer in'
+            : t('Expires in') || 'Expires in'}{' '}
+          {formatCountdown((record.deadline ?? now) - now)}
+        </div>
+      )}
+
+      {record.status === 'pending' &&
+        (expanded ? (
+          <div className="mt-3">
+            <InteractionForm
+              schema={schema}
+              onSubmit={(response) => onSubmit?.(record, response)}
+              onCancel={() => setExpanded(false)}
+              cancelLabel={t('Later') || 'Later'}
+            />
+          </div>
+        ) : (
+          <div className="mt-3 flex justify-end">
+            <button
+              className="px-4 py-2 bg-[#76b900] text-white rounded"
+              onClick={() => setExpanded(true)}
+            >
+              {t('Reply') || 'Reply'}
+            </button>
+          </div>
+        ))}
+
+      {record.status === 'answered' && (
+        <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+          {formatResponse(record, schema).map((line, index) => (
+            <div key={index} className="whitespace-pre-wrap">
+              {line}
+            </div>
+          ))}
+          {record.autoSubmitted && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {t('Default answer sent after the prompt timed out.') ||
+                'Default answer sent after the prompt timed out.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {record.status === 'expired' && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          {t('This prompt expired before it was answered.') ||
+            'This prompt expired before it was answered.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -11,8 +11,21 @@ export const MemoizedChatMessage: FC<Props> = memo(
     const messageEqual = isEqual(prevProps.message, nextProps.message);
     const messageIndexEqual = prevProps.messageIndex === nextProps.messageIndex;
     const onEditEqual = prevProps.onEdit === nextProps.onEdit;
+    const onCancelQueuedEqual =
+      prevProps.onCancelQueued === nextProps.onCancelQueued;
+    const onSwitchBranchEqual =
+      prevProps.onSwitchBranch === nextProps.onSwitchBranch;
+    const onInteractionSubmitEqual =
+      prevProps.onInteractionSubmit === nextProps.onInteractionSubmit;
 
     // Return true if all props are equal (don't re-render)
-    return messageEqual && messageIndexEqual && onEditEqual;
+    return (
+      messageEqual &&
+      messageIndexEqual &&
+      onEditEqual &&
+      onCancelQueuedEqual &&
+      onSwitchBranchEqual &&
+      onInteractionSubmitEqual
+    );
   },
 );
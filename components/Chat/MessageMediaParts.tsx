@@ -0,0 +1,65 @@
+import { IconFile } from '@tabler/icons-react';
+import { FC } from 'react';
+
+import { getMediaParts, isDisplayableImageUrl } from '@/utils/app/content';
+
+import { MessageContent } from '@/types/chat';
+
+interface Props {
+  content: MessageContent;
+}
+
+/**
+ * Images, files and audio carried as content parts, rendered below the text
+ */
+export const MessageMediaParts: FC<Props> = ({ content }) => {
+  const parts = getMediaParts(content);
+  if (parts.length === 0) return null;
+
+  return (
+    <div className="not-prose mt-2 flex flex-wrap gap-2" data-testid="message-media-parts">
+      {parts.map((part, index) => {
+        switch (part.type) {
+          case 'image_url':
+            if (!isDisplayableImageUrl(part.image_url.url)) return null;
+            return (
+              <a
+                key={index}
+                href={part.image_url.url}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <img
+                  src={part.image_url.url}
+                  alt=""
+                  className="max-h-48 max-w-xs rounded-md border border-gray-200 object-contain dark:border-gray-600"
+                />
+              </a>
+            );
+          case 'input_audio':
+            return (
+              <audio
+                key={index}
+                controls
+                src={`data:audio/${part.input_audio.format};base64,${part.input_audio.data}`}
+              />
+            );
+          case 'file':
+            return (
+              <div
+                key={index}
+                className="flex items-center gap-2 rounded-md bg-gray-100 px-2 py-1 text-sm text-gray-800 dark:bg-gray-700 dark:text-gray-100"
+              >
+                <IconFile size={16} />
+                <span className="truncate">
+                  {part.file.filename || part.file.file_id || 'File'}
+                </span>
+              </div>
+            );
+          default:
+            return null;
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { IconKey, IconRefresh, IconX } from '@tabler/icons-react';
+import { FC } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { PendingAuth } from '@/types/oauth';
+
+interface Props {
+  pendingAuth: PendingAuth;
+  onRetry: (pendingAuth: PendingAuth) => void;
+  onDismiss: (pendingAuth: PendingAuth) => void;
+}
+
+/**
+ * Shows that the conversation is waiting on an OAuth consent, with a retry
+ * for when the sign-in window was closed or failed
+ */
+export const PendingAuthBanner: FC<Props> = ({
+  pendingAuth,
+  onRetry,
+  onDismiss,
+}) => {
+  const { t } = useTranslation('chat');
+  const failed = pendingAuth.status === 'failed';
+
+  return (
+    <div
+      className={`mx-auto mb-2 flex w-full max-w-3xl items-center gap-2 rounded-lg border px-4 py-2 text-sm ${
+        failed
+          ? 'border-red-300 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-900/30 dark:text-red-300'
+          : 'border-[#76b900]/50 bg-[#76b900]/10 text-gray-800 dark:text-gray-100'
+      }`}
+      data-testid="pending-auth-banner"
+      data-auth-status={pendingAuth.status}
+    >
+      <IconKey size={16} className="shrink-0" />
+      <span className="flex-1">
+        {failed
+          ? `${t('Authorization failed') || 'Authorization failed'}${
+              pendingAuth.error ? `: ${pendingAuth.error}` : ''
+            }`
+          : t('Waiting for authorization in the sign-in window') ||
+            'Waiting for authorization in the sign-in window'}
+      </span>
+      <button
+        className="flex items-center gap-1 rounded px-2 py-1 hover:bg-black/5 dark:hover:bg-white/10"
+        onClick={() => onRetry(pendingAuth)}
+      >
+        <IconRefresh size={14} />
+        {failed ? t('Retry') || 'Retry' : t('Reopen') || 'Reopen'}
+      </button>
+      <button
+        className="rounded p-1 hover:bg-black/5 dark:hover:bg-white/10"
+        onClick={() => onDismiss(pendingAuth)}
+        aria-label={t('Dismiss') || 'Dismiss'}
+      >
+        <IconX size={14} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { FC, MutableRefObject } from 'react';
+
+import { Prompt } from '@/types/prompt';
+
+interface Props {
+  prompts: Prompt[];
+  activePromptIndex: number;
+  onSelect: () => void;
+  onMouseOver: (index: number) => void;
+  promptListRef: MutableRefObject<HTMLUListElement | null>;
+}
+
+/**
+ * Prompts matching the "/" command typed in the chat input
+ */
+export const PromptList: FC<Props> = ({
+  prompts,
+  activePromptIndex,
+  onSelect,
+  onMouseOver,
+  promptListRef,
+}) => {
+  return (
+    <ul
+      ref={promptListRef}
+      className="z-10 max-h-52 w-full overflow-scroll rounded border border-black/10 bg-white shadow-[0_0_10px_rgba(0,0,0,0.10)] dark:border-neutral-500 dark:bg-[#343541] dark:text-white dark:shadow-[0_0_15px_rgba(0,0,0,0.10)]"
+      role="listbox"
+      data-testid="prompt-list"
+    >
+      {prompts.map((prompt, index) => (
+        <li
+          key={prompt.id}
+          className={`${
+            index === activePromptIndex
+              ? 'bg-gray-200 dark:bg-[#202123] dark:text-black'
+              : ''
+          } cursor-pointer px-3 py-2 text-sm text-black dark:text-white`}
+          role="option"
+          aria-selected={index === activePromptIndex}
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onSelect();
+          }}
+          onMouseEnter={() => onMouseOver(index)}
+        >
+          <div>{prompt.name}</div>
+          {prompt.description && (
+            <div className="truncate text-xs text-neutral-500 dark:text-neutral-400">
+              {prompt.description}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,111 @@
+import { FC, useMemo } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { buildTraceTimeline, formatDuration } from '@/utils/app/trace';
+
+import { TraceSpan } from '@/types/trace';
+import { IntermediateStep } from '@/types/websocket';
+
+interface Props {
+  steps: IntermediateStep[];
+}
+
+const BAR_CLASSES: Record<TraceSpan['status'], string> = {
+  complete: 'bg-[#76b900]',
+  in_progress: 'bg-[#76b900]/50 animate-pulse',
+  error: 'bg-red-500',
+};
+
+const formatTime = (time?: number) =>
+  time === undefined ? '' : new Date(time).toLocaleTimeString();
+
+export const TraceTimeline: FC<Props> = ({ steps }) => {
+  const { t } = useTranslation('chat');
+  const timeline = useMemo(() => buildTraceTimeline(steps), [steps]);
+  const { spans, start = 0, end = 0 } = timeline;
+  const total = Math.max(end - start, 1);
+
+  if (spans.length === 0) {
+    return null;
+  }
+
+  const barStyle = (span: TraceSpan) => {
+    if (span.start === undefined) return undefined;
+    // Running spans stretch to the latest event seen so far
+    const spanEnd = span.end ?? end;
+    return {
+      left: `${((span.start - start) / total) * 100}%`,
+      width: `max(${((spanEnd - span.start) / total) * 100}%, 2px)`,
+    };
+  };
+
+  const spanLabel = (span: TraceSpan) => {
+    if (span.status === 'error') return t('Failed') || 'Failed';
+    if (span.duration !== undefined) return formatDuration(span.duration);
+    if (span.status === 'in_progress') return t('Running') || 'Running';
+    return '';
+  };
+
+  return (
+    <div
+      className="w-full rounded-md border border-gray-200 p-2 text-xs dark:border-gray-700"
+      data-testid="trace-timeline"
+    >
+      <div className="mb-2 flex justify-between text-gray-500 dark:text-gray-400">
+        <span>
+          {spans.length} {t('steps') || 'steps'}
+        </span>
+        {timeline.start !== undefined && timeline.end !== undefined && (
+          <span>{formatDuration(end - start)}</span>
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        {spans.map((span) => (
+          <div
+            key={span.id}
+            className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_5rem] items-center gap-2"
+            title={[
+              span.name,
+              span.start !== undefined &&
+                `${formatTime(span.start)}${
+                  span.end !== undefined ? ` – ${formatTime(span.end)}` : ''
+                }`,
+              span.error,
+            ]
+              .filter(Boolean)
+              .join('\n')}
+          >
+            <span
+              className={`truncate ${
+                span.status === 'error'
+                  ? 'text-red-500'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+              style={{ paddingLeft: `${span.depth * 12}px` }}
+            >
+              {span.name}
+            </span>
+            <div className="relative h-3 rounded bg-gray-100 dark:bg-gray-800">
+              {barStyle(span) && (
+                <div
+                  className={`absolute top-0 h-3 rounded ${BAR_CLASSES[span.status]}`}
+                  style={barStyle(span)}
+                />
+              )}
+            </div>
+            <span
+              className={`text-right tabular-nums ${
+                span.status === 'error'
+                  ? 'text-red-500'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {spanLabel(span)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { FC, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { useTranslation } from 'next-i18next';
+
+import { Prompt } from '@/types/prompt';
+
+interface Props {
+  prompt: Prompt;
+  variables: string[];
+  onSubmit: (values: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks for the {{variables}} of a prompt inserted with the "/" command;
+ * every variable needs a value, Enter submits and Escape cancels
+ */
+export const VariableModal: FC<Props> = ({
+  prompt,
+  variables,
+  onSubmit,
+  onClose,
+}) => {
+  const { t } = useTranslation('promptbar');
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(variables.map((variable) => [variable, ''])),
+  );
+
+  const modalRef = useRef<HTMLDivElement>(null);
+  const firstInputRef = useRef<HTMLTextAreaElement>(null);
+
+  const handleSubmit = () => {
+    if (variables.some((variable) => values[variable] === '')) {
+      toast.error(t('Please fill out all variables'));
+      return;
+    }
+
+    onSubmit(values);
+    onClose();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    firstInputRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm z-50 dark:bg-opacity-20"
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        ref={modalRef}
+        className="w-full max-w-md bg-white dark:bg-[#202123] rounded-2xl shadow-lg p-6 transform transition-all relative"
+        role="dialog"
+        data-testid="variable-modal"
+      >
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">
+          {prompt.name}
+        </h2>
+        {prompt.description && (
+          <p className="mb-4 text-sm italic text-gray-600 dark:text-gray-400">
+            {prompt.description}
+          </p>
+        )}
+
+        {variables.map((variable, index) => (
+          <div key={variable} className="mt-4">
+            <label
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              htmlFor={`prompt-variable-${index}`}
+            >
+              {variable}
+            </label>
+            <textarea
+              id={`prompt-variable-${index}`}
+              ref={index === 0 ? firstInputRef : undefined}
+              className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none resize-none"
+              placeholder={
+                t('Enter a value for {{variable}}...', { variable }) || ''
+              }
+              value={values[variable]}
+              onChange={(e) =>
+                setValues((current) => ({
+                  ...current,
+                  [variable]: e.target.value,
+                }))
+              }
+              rows={2}
+            />
+          </div>
+        ))}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 focus:outline-none"
+            onClick={onClose}
+          >
+            {t('Cancel')}
+          </button>
+          <button
+            className="px-4 py-2 bg-[#76b900] text-white rounded-md hover:bg-[#5a9100] focus:outline-none"
+            onClick={handleSubmit}
+          >
+            {t('Submit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
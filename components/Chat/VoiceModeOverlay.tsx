@@ -0,0 +1,88 @@
+import { IconMicrophone, IconPlayerStop, IconX } from '@tabler/icons-react';
+import { FC, useEffect } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { VoiceModePhase } from '@/types/speech';
+
+interface Props {
+  phase: VoiceModePhase;
+  transcript: string;
+  onInterrupt: () => void;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<VoiceModePhase, string> = {
+  listening: 'Listening…',
+  thinking: 'Thinking…',
+  speaking: 'Speaking…',
+};
+
+const PHASE_STYLES: Record<VoiceModePhase, string> = {
+  listening: 'bg-[#76b900] animate-pulse',
+  thinking: 'border-8 border-gray-200 border-t-[#76b900] animate-spin dark:border-gray-700',
+  speaking: 'bg-[#76b900] animate-bounce',
+};
+
+/**
+ * Full-screen hands-free voice mode: a state indicator, what was heard and
+ * controls to interrupt the answer or leave; Escape leaves too
+ */
+export const VoiceModeOverlay: FC<Props> = ({
+  phase,
+  transcript,
+  onInterrupt,
+  onClose,
+}) => {
+  const { t } = useTranslation('chat');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-8 bg-white/95 px-6 text-gray-800 dark:bg-[#202123]/95 dark:text-gray-100"
+      role="dialog"
+      aria-label={t('Voice mode') || 'Voice mode'}
+      data-testid="voice-mode-overlay"
+      data-phase={phase}
+    >
+      <button
+        className="absolute right-4 top-4 rounded p-2 hover:bg-black/5 dark:hover:bg-white/10"
+        onClick={onClose}
+        aria-label={t('Exit voice mode') || 'Exit voice mode'}
+      >
+        <IconX size={24} />
+      </button>
+
+      <div
+        className={`flex h-32 w-32 items-center justify-center rounded-full ${PHASE_STYLES[phase]}`}
+      >
+        {phase === 'listening' && <IconMicrophone size={48} className="text-white" />}
+      </div>
+
+      <div className="text-xl font-semibold" aria-live="polite">
+        {t(PHASE_LABELS[phase]) || PHASE_LABELS[phase]}
+      </div>
+
+      <p className="min-h-[3rem] max-w-xl text-center text-lg text-gray-600 dark:text-gray-300">
+        {phase === 'listening' ? transcript : ''}
+      </p>
+
+      {phase !== 'listening' && (
+        <button
+          className="flex items-center gap-2 rounded-full border border-gray-300 px-6 py-3 hover:bg-black/5 dark:border-gray-600 dark:hover:bg-white/10"
+          onClick={onInterrupt}
+        >
+          <IconPlayerStop size={18} />
+          {t('Interrupt') || 'Interrupt'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,16 @@
 import { Conversation } from '@/types/chat';
+import { MessageSearchFilters, MessageSearchResult } from '@/types/search';
 
 export interface ChatbarInitialState {
   searchTerm: string;
+  searchFilters: MessageSearchFilters;
   filteredConversations: Conversation[];
+  searchResults: MessageSearchResult[];
 }
 
 export const initialState: ChatbarInitialState = {
   searchTerm: '',
+  searchFilters: {},
   filteredConversations: [],
+  searchResults: [],
 };
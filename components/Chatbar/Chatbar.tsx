@@ -1,10 +1,17 @@
 import { useCallback, useContext, useEffect } from 'react';
+import toast from 'react-hot-toast';
 
 import { useTranslation } from 'next-i18next';
 
 import { useCreateReducer } from '@/hooks/useCreateReducer';
-
-import { saveConversation, saveConversations } from '@/utils/app/conversation';
+import { useMessageSearch } from '@/hooks/useMessageSearch';
+
+import {
+  clearConversations,
+  clearSelectedConversation,
+  saveConversation,
+  saveConversations,
+} from '@/utils/app/conversation';
 import { saveFolders } from '@/utils/app/folders';
 import { exportData, importData } from '@/utils/app/importExport';
 
@@ -16,6 +23,8 @@ import HomeContext from '@/pages/api/home/home.context';
 import { ChatFolders } from './components/ChatFolders';
 import { ChatbarSettings } from './components/ChatbarSettings';
 import { Conversations } from './components/Conversations';
+import { SearchFilters } from './components/SearchFilters';
+import { SearchResults } from './components/SearchResults';
 
 import Sidebar from '../Sidebar';
 import ChatbarContext from './Chatbar.context';
@@ -23,6 +32,8 @@ import { ChatbarInitialState, initialState } from './Chatbar.state';
 
 import { v4 as uuidv4 } from 'uuid';
 
+const MAX_SEARCH_RESULTS = 50;
+
 export const Chatbar = () => {
   const { t } = useTranslation('sidebar');
 
@@ -31,7 +42,7 @@ export const Chatbar = () => {
   });
 
   const {
-    state: { conversations, showChatbar, folders },
+    state: { conversations, selectedConversation, showChatbar, folders },
     dispatch: homeDispatch,
     handleCreateFolder,
     handleNewConversation,
@@ -39,16 +50,21 @@ export const Chatbar = () => {
   } = useContext(HomeContext);
 
   const {
-    state: { searchTerm, filteredConversations },
+    state: { searchTerm, searchFilters, filteredConversations },
     dispatch: chatDispatch,
   } = chatBarContextValue;
 
-  const handleExportData = () => {
-    exportData();
+  const handleExportData = async () => {
+    try {
+      await exportData();
+    } catch {
+      toast.error(t('Failed to export conversations. Please try again.'));
+    }
   };
 
-  const handleImportConversations = (data: SupportedExportFormats) => {
-    const { history, folders, prompts }: LatestExportFormat = importData(data);
+  const handleImportConversations = async (data: SupportedExportFormats) => {
+    const { history, folders, prompts }: LatestExportFormat =
+      await importData(data);
     homeDispatch({ field: 'conversations', value: history });
     homeDispatch({
       field: 'selectedConversation',
@@ -73,8 +89,7 @@ export const Chatbar = () => {
 
     homeDispatch({ field: 'conversations', value: [] });
 
-    sessionStorage.removeItem('conversationHistory');
-    sessionStorage.removeItem('selectedConversation');
+    clearConversations();
 
     const updatedFolders = folders.filter((f) => f.type !== 'chat');
 
@@ -109,7 +124,7 @@ export const Chatbar = () => {
         },
       });
 
-      sessionStorage.removeItem('selectedConversation');
+      clearSelectedConversation();
     }
   };
 
@@ -127,6 +142,13 @@ export const Chatbar = () => {
     }
   };
 
+  const messageResults = useMessageSearch(
+    conversations,
+    selectedConversation,
+    searchTerm,
+    searchFilters,
+  );
+
   useEffect(() => {
     // Filter out homepage conversations that haven't had their first message sent
     const visibleConversations = conversations.filter(
@@ -134,23 +156,33 @@ export const Chatbar = () => {
     );
 
     if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      const matchingIds = new Set(messageResults.map((r) => r.conversationId));
+      const inFolder = (conversation: Conversation) =>
+        searchFilters.folderId === undefined ||
+        (conversation.folderId ?? null) === searchFilters.folderId;
+
       chatDispatch({
         field: 'filteredConversations',
-        value: visibleConversations.filter((conversation) => {
-          const searchable =
-            conversation.name.toLocaleLowerCase() +
-            ' ' +
-            conversation.messages.map((message) => message.content).join(' ');
-          return searchable.toLowerCase().includes(searchTerm.toLowerCase());
-        }),
+        value: visibleConversations.filter(
+          (conversation) =>
+            matchingIds.has(conversation.id) ||
+            (inFolder(conversation) &&
+              conversation.name.toLowerCase().includes(term)),
+        ),
+      });
+      chatDispatch({
+        field: 'searchResults',
+        value: messageResults.slice(0, MAX_SEARCH_RESULTS),
       });
     } else {
       chatDispatch({
         field: 'filteredConversations',
         value: visibleConversations,
       });
+      chatDispatch({ field: 'searchResults', value: [] });
     }
-  }, [searchTerm, conversations, chatDispatch]);
+  }, [searchTerm, searchFilters, messageResults, conversations, chatDispatch]);
 
   return (
     <ChatbarContext.Provider
@@ -166,10 +198,16 @@ export const Chatbar = () => {
         side={'left'}
         isOpen={showChatbar}
         addItemButtonTitle={t('New chat')}
-        itemComponent={<Conversations conversations={filteredConversations} />}
+        itemComponent={
+          <>
+            {searchTerm && <SearchResults />}
+            <Conversations conversations={filteredConversations} />
+          </>
+        }
         folderComponent={<ChatFolders searchTerm={searchTerm} />}
         items={filteredConversations}
         searchTerm={searchTerm}
+        searchControls={<SearchFilters />}
         handleSearchTerm={(searchTerm: string) =>
           chatDispatch({ field: 'searchTerm', value: searchTerm })
         }
@@ -14,6 +14,8 @@ import {
   useState,
 } from 'react';
 
+import { countPendingInteractions } from '@/utils/chatTransform';
+
 import { Conversation } from '@/types/chat';
 
 import HomeContext from '@/pages/api/home/home.context';
@@ -38,6 +40,13 @@ export const ConversationComponent = ({ conversation }: Props) => {
   const [isRenaming, setIsRenaming] = useState(false);
   const [renameValue, setRenameValue] = useState('');
 
+  // The selected conversation is ahead of the list while a response streams
+  const pendingInteractions = countPendingInteractions(
+    selectedConversation?.id === conversation.id
+      ? selectedConversation
+      : conversation,
+  );
+
   const handleEnterDown = (e: KeyboardEvent<HTMLDivElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -128,7 +137,20 @@ export const ConversationComponent = ({ conversation }: Props) => {
           draggable="true"
           onDragStart={(e) => handleDragStart(e, conversation)}
         >
-          <IconMessage size={18} />
+          <span className="relative">
+            <IconMessage size={18} />
+            {pendingInteractions > 0 && (
+              <span
+                className="absolute -right-2 -top-2 min-w-[16px] rounded-full bg-[#76b900] px-1 text-center text-[10px] leading-4 text-white"
+                title={`${pendingInteractions} pending prompt${
+                  pendingInteractions === 1 ? '' : 's'
+                }`}
+                data-testid="pending-interactions-badge"
+              >
+                {pendingInteractions}
+              </span>
+            )}
+          </span>
           <div
             className={`relative max-h-5 flex-1 overflow-hidden text-ellipsis whitespace-nowrap break-all text-left text-[12.5px] leading-3 ${
               selectedConversation?.id === conversation.id ? 'pr-12' : 'pr-1'
@@ -0,0 +1,118 @@
+import { useContext } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { Role } from '@/types/chat';
+import { MessageSearchFilters } from '@/types/search';
+
+import HomeContext from '@/pages/api/home/home.context';
+
+import ChatbarContext from '../Chatbar.context';
+
+const UNFILED = '__unfiled__';
+
+// Date inputs work in local days, filters in millisecond timestamps
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string, endOfDay = false) => {
+  if (!value) return undefined;
+  const time = new Date(
+    `${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`,
+  ).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const SearchFilters = () => {
+  const { t } = useTranslation('sidebar');
+
+  const {
+    state: { folders },
+  } = useContext(HomeContext);
+
+  const {
+    state: { searchFilters },
+    dispatch: chatDispatch,
+  } = useContext(ChatbarContext);
+
+  const update = (changes: Partial<MessageSearchFilters>) => {
+    chatDispatch({
+      field: 'searchFilters',
+      value: { ...searchFilters, ...changes },
+    });
+  };
+
+  const folderValue =
+    searchFilters.folderId === undefined
+      ? ''
+      : searchFilters.folderId === null
+        ? UNFILED
+        : searchFilters.folderId;
+
+  const selectClassName =
+    'w-full rounded-md border border-neutral-600 bg-[#202123] px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="grid grid-cols-2 gap-1 text-xs text-neutral-300">
+      <select
+        className={selectClassName}
+        aria-label={t('Role') || 'Role'}
+        value={searchFilters.roles?.[0] ?? ''}
+        onChange={(e) =>
+          update({
+            roles: e.target.value ? [e.target.value as Role] : undefined,
+          })
+        }
+      >
+        <option value="">{t('All roles')}</option>
+        <option value="user">{t('User')}</option>
+        <option value="assistant">{t('Assistant')}</option>
+      </select>
+
+      <select
+        className={selectClassName}
+        aria-label={t('Folder') || 'Folder'}
+        value={folderValue}
+        onChange={(e) =>
+          update({
+            folderId:
+              e.target.value === ''
+                ? undefined
+                : e.target.value === UNFILED
+                  ? null
+                  : e.target.value,
+          })
+        }
+      >
+        <option value="">{t('All folders')}</option>
+        <option value={UNFILED}>{t('No folder')}</option>
+        {folders
+          .filter((folder) => folder.type === 'chat')
+          .map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.name}
+            </option>
+          ))}
+      </select>
+
+      <input
+        type="date"
+        className={selectClassName}
+        aria-label={t('From') || 'From'}
+        value={toDateInput(searchFilters.from)}
+        onChange={(e) => update({ from: fromDateInput(e.target.value) })}
+      />
+      <input
+        type="date"
+        className={selectClassName}
+        aria-label={t('To') || 'To'}
+        value={toDateInput(searchFilters.to)}
+        onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { ReactNode, useContext } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { MessageSearchResult, SearchSnippet } from '@/types/search';
+
+import HomeContext from '@/pages/api/home/home.context';
+
+import ChatbarContext from '../Chatbar.context';
+
+const HighlightedSnippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(snippet.text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className="rounded bg-[#76b900]/40 text-white">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const SearchResults = () => {
+  const { t } = useTranslation('sidebar');
+
+  const {
+    state: { conversations, selectedConversation },
+    dispatch: homeDispatch,
+    handleSelectConversation,
+  } = useContext(HomeContext);
+
+  const {
+    state: { searchResults },
+  } = useContext(ChatbarContext);
+
+  if (!searchResults.length) {
+    return null;
+  }
+
+  const openResult = (result: MessageSearchResult) => {
+    const conversation = conversations.find(
+      (c) => c.id === result.conversationId,
+    );
+    if (!conversation) return;
+
+    if (selectedConversation?.id !== conversation.id) {
+      handleSelectConversation(conversation);
+    }
+    homeDispatch({
+      field: 'messageJumpTarget',
+      value: {
+        conversationId: result.conversationId,
+        messageId: result.messageId,
+        messageIndex: result.messageIndex,
+        requestedAt: Date.now(),
+      },
+    });
+  };
+
+  return (
+    <div className="mb-2 flex w-full flex-col gap-1 border-b border-white/20 pb-2">
+      <div className="px-1 text-xs text-neutral-400">
+        {t('Messages')} ({searchResults.length})
+      </div>
+      {searchResults.map((result) => (
+        <button
+          key={`${result.conversationId}:${result.messageIndex}:${result.field}`}
+          className="w-full rounded-md p-2 text-left text-xs text-neutral-200 transition-colors hover:bg-[#343541]/90"
+          onClick={() => openResult(result)}
+        >
+          <div className="mb-1 flex items-center justify-between gap-2 text-neutral-400">
+            <span className="truncate">{result.conversationName}</span>
+            <span className="flex-shrink-0">
+              {result.field === 'step' ? t('Step') : t(result.role)}
+            </span>
+          </div>
+          <div className="line-clamp-3 break-words">
+            <HighlightedSnippet snippet={result.snippet} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
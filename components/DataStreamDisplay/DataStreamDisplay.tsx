@@ -1,6 +1,12 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 
+import { useDataStreamEvents } from '@/hooks/useDataStreamEvents';
+
+import { DataStreamEvent, FinalizedDataEntry, StreamSegment } from '@/types/dataStream';
+
+import { StreamScrollback } from './StreamScrollback';
+
 /**
  * DataStreamDisplay Component
  *
@@ -10,14 +16,17 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
  * processed in real-time and eventually stored in a vector database.
  *
  * Key Features:
- * - Polls and displays live stream text every 100ms for real-time updates
+ * - Displays live stream text as it is pushed, polling every 100ms only while the push connection is down
  * - Shows the last database update timestamp for the selected stream
  * - Supports multiple concurrent streams with a stream selector dropdown
  * - Auto-scrolls to display the latest streaming content
+ * - History toggle shows a scrollback of the stream's recent updates with timestamps
  *
  * API Integration:
- * - GET /api/update-data-stream?stream={id} - Fetches live stream text (polled every 100ms)
- * - GET /api/update-data-stream?type=finalized&stream={id} - Fetches last DB update time
+ * - GET /api/data-stream-events?stream={id} - Pushes live text and finalized entries (SSE)
+ * - GET /api/update-data-stream?stream={id} - Fetches live stream text (fallback, polled every 100ms)
+ * - GET /api/update-data-stream?type=finalized&stream={id}&limit=1&order=newest - Fetches last DB update time
+ * - GET /api/update-data-stream?type=history&stream={id}&limit=50 - Fetches the scrollback
  *
  * Use Cases:
  * - Monitoring live ASR transcripts as they're being generated
@@ -32,21 +41,15 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
  * For detailed architecture and API documentation, see DATA_STREAMING.md
  */
 
+// Recent updates shown in the scrollback
+const SCROLLBACK_SIZE = 50;
+
 interface DataStreamDisplayProps {
   dataStreams: string[];
   selectedStream: string;
   onStreamChange: (stream: string) => void;
 }
 
-interface FinalizedDataEntry {
-  text: string;
-  stream_id: string;
-  timestamp: number;
-  id: string;
-  uuid?: string;
-  pending?: boolean;
-}
-
 export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
   dataStreams,
   selectedStream,
@@ -55,9 +58,29 @@ export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
   const scrollRef = useRef<HTMLDivElement>(null);
   const [text, setText] = useState('');
   const [lastDbUpdate, setLastDbUpdate] = useState<number | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [segments, setSegments] = useState<StreamSegment[]>([]);
+
+  const connected = useDataStreamEvents({
+    stream: selectedStream,
+    types: ['live-text', 'finalized-entry'],
+    onEvent: (event: DataStreamEvent) => {
+      if (event.type === 'live-text' && event.stream_id === selectedStream) {
+        setText(event.text);
+        const { segment } = event;
+        if (segment) {
+          setSegments((current) => [...current, segment].slice(-SCROLLBACK_SIZE));
+        }
+      } else if (event.type === 'finalized-entry') {
+        const timestamp = parseTimestampAsUTC(event.entry.timestamp);
+        setLastDbUpdate((current) => Math.max(current ?? 0, timestamp));
+      }
+    },
+  });
 
-  // Move polling logic into this component to isolate updates
+  // Poll only while pushed updates are unavailable; polling here isolates updates
   useEffect(() => {
+    if (connected) return;
     const interval = setInterval(async () => {
       try {
         // Get text for selected stream
@@ -73,26 +96,22 @@ export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
       }
     }, 100);
     return () => clearInterval(interval);
-  }, [selectedStream]);
+  }, [selectedStream, connected]);
 
   // Fetch last database update time for the selected stream
   useEffect(() => {
     const fetchLastDbUpdate = async () => {
       try {
-        const response = await fetch(`/api/update-data-stream?type=finalized&stream=${selectedStream}`);
+        // Only the most recent entry of the stream is needed
+        const response = await fetch(
+          `/api/update-data-stream?type=finalized&stream=${selectedStream}&limit=1&order=newest`
+        );
         if (response.ok) {
           const data = await response.json();
           const entries: FinalizedDataEntry[] = data.entries || [];
 
           if (entries.length > 0) {
-            // Find the most recent entry for this stream
-            const sortedEntries = entries.sort((a, b) => {
-              const timestampA = parseTimestampAsUTC(a.timestamp);
-              const timestampB = parseTimestampAsUTC(b.timestamp);
-              return timestampB - timestampA; // Most recent first
-            });
-
-            const latestTimestamp = parseTimestampAsUTC(sortedEntries[0].timestamp);
+            const latestTimestamp = parseTimestampAsUTC(entries[0].timestamp);
             setLastDbUpdate(latestTimestamp);
           } else {
             setLastDbUpdate(null);
@@ -106,11 +125,36 @@ export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
 
     if (selectedStream) {
       fetchLastDbUpdate();
-      // Check for updates every 5 seconds
+      if (connected) return;
+      // Check for updates every 5 seconds while pushed updates are unavailable
       const interval = setInterval(fetchLastDbUpdate, 5000);
       return () => clearInterval(interval);
     }
-  }, [selectedStream]);
+  }, [selectedStream, connected]);
+
+  // Load the scrollback when it is opened, and reload it while pushed updates are unavailable
+  useEffect(() => {
+    if (!showHistory || !selectedStream) return;
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(
+          `/api/update-data-stream?type=history&stream=${encodeURIComponent(selectedStream)}&limit=${SCROLLBACK_SIZE}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setSegments(Array.isArray(data.segments) ? data.segments : []);
+        }
+      } catch (err) {
+        // Keep the segments already shown
+      }
+    };
+
+    setSegments([]);
+    fetchHistory();
+    if (connected) return;
+    const interval = setInterval(fetchHistory, 5000);
+    return () => clearInterval(interval);
+  }, [showHistory, selectedStream, connected]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -167,22 +211,31 @@ export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
             {lastDbUpdate ? `Last DB update: ${formatLastUpdateTime(lastDbUpdate)}` : 'No database updates yet'}
           </span>
         </div>
-        {dataStreams.length > 1 && (
-          <div className="flex items-center gap-2">
-            <label className="text-sm text-black dark:text-white">Stream:</label>
-            <select
-              value={selectedStream}
-              onChange={(e) => onStreamChange(e.target.value)}
-              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
-            >
-              {dataStreams.map(stream => (
-                <option key={stream} value={stream}>
-                  {formatStreamName(stream)}
-                </option>
-              ))}
-            </select>
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-sm text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+            aria-expanded={showHistory}
+          >
+            {showHistory ? 'Hide history' : 'History'}
+          </button>
+          {dataStreams.length > 1 && (
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-black dark:text-white">Stream:</label>
+              <select
+                value={selectedStream}
+                onChange={(e) => onStreamChange(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+              >
+                {dataStreams.map(stream => (
+                  <option key={stream} value={stream}>
+                    {formatStreamName(stream)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
       </div>
       <div
         ref={scrollRef}
@@ -192,6 +245,7 @@ export const DataStreamDisplay: React.FC<DataStreamDisplayProps> = React.memo(({
           {text || 'Waiting for data...'}
         </p>
       </div>
+      {showHistory && <StreamScrollback segments={segments} />}
     </div>
   );
 });
\ No newline at end of file
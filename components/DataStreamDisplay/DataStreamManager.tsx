@@ -1,8 +1,9 @@
 'use client';
 
-import { useEffect, useContext } from 'react';
+import { useCallback, useEffect, useContext } from 'react';
 
 import HomeContext from '@/pages/api/home/home.context';
+import { useDataStreamEvents } from '@/hooks/useDataStreamEvents';
 import { Conversation } from '@/types/chat';
 import { saveConversation } from '@/utils/app/conversation';
 
@@ -16,14 +17,15 @@ import { DataStreamDisplay } from './DataStreamDisplay';
  * visualization component, handling stream discovery, selection persistence, and conditional rendering.
  *
  * Responsibilities:
- * - Discovers available streams by polling the API every 2 seconds
+ * - Discovers available streams from pushed `streams` events, polling every 2 seconds as a fallback
  * - Manages stream selection state per conversation
  * - Persists selected stream preference to conversation history
  * - Conditionally renders DataStreamDisplay based on user toggle state
  * - Updates global dataStreams list when new streams become available
  *
  * Stream Discovery:
- * - Polls GET /api/update-data-stream every 2 seconds
+ * - Subscribes to GET /api/data-stream-events, which pushes the stream list on connect and on change
+ * - Polls GET /api/update-data-stream every 2 seconds only while that connection is down
  * - Detects newly available streams automatically
  * - Only updates state when stream list actually changes (prevents unnecessary re-renders)
  * - Maintains list of all active streams in HomeContext
@@ -79,8 +81,31 @@ export const DataStreamManager = ({
     }
   };
 
+  const selectedStream =
+    selectedConversation?.selectedStream ||
+    (dataStreams && dataStreams.length > 0 ? dataStreams[0] : 'default');
+
+  const updateStreams = useCallback((newStreams: string[]) => {
+    // Only update if streams actually changed
+    const currentStreams = dataStreams || [];
+    if (JSON.stringify([...currentStreams].sort()) !== JSON.stringify([...newStreams].sort())) {
+      dispatch({ field: 'dataStreams', value: newStreams });
+    }
+  }, [dispatch, dataStreams]);
+
+  const connected = useDataStreamEvents({
+    types: ['streams'],
+    onEvent: (event) => {
+      if (event.type === 'streams') {
+        updateStreams(event.streams);
+      }
+    },
+  });
+
   // Poll /api/update-data-stream every 2 seconds to discover available streams
+  // while pushed updates are unavailable
   useEffect(() => {
+    if (connected) return;
     const interval = setInterval(async () => {
       try {
         // Get available streams
@@ -88,12 +113,7 @@ export const DataStreamManager = ({
         if (streamsRes.ok) {
           const streamsData = await streamsRes.json();
           if (streamsData.streams && Array.isArray(streamsData.streams)) {
-            // Only update if streams actually changed
-            const currentStreams = dataStreams || [];
-            const newStreams = streamsData.streams;
-            if (JSON.stringify(currentStreams.sort()) !== JSON.stringify(newStreams.sort())) {
-              dispatch({ field: 'dataStreams', value: newStreams });
-            }
+            updateStreams(streamsData.streams);
           }
         }
       } catch (err) {
@@ -101,7 +121,7 @@ export const DataStreamManager = ({
       }
     }, 2000); // Less frequent polling for stream discovery
     return () => clearInterval(interval);
-  }, [dispatch, dataStreams]);
+  }, [updateStreams, connected]);
 
   if (!showDataStreamDisplay || !selectedConversation) {
     return null;
@@ -110,7 +130,7 @@ export const DataStreamManager = ({
   return (
     <DataStreamDisplay
       dataStreams={dataStreams || []}
-      selectedStream={selectedConversation?.selectedStream || (dataStreams && dataStreams.length > 0 ? dataStreams[0] : 'default')}
+      selectedStream={selectedStream}
       onStreamChange={handleDataStreamChange}
     />
   );
@@ -0,0 +1,67 @@
+import React from 'react';
+
+import { formatLatency } from '@/utils/app/ingestion';
+
+import { IngestionSummary } from '@/types/dataStream';
+
+interface IngestionSummaryTableProps {
+  summaries: IngestionSummary[];
+  windowMs: number;
+}
+
+const formatStreamName = (streamId: string) => streamId || 'Default Stream';
+
+/**
+ * IngestionSummaryTable Component
+ *
+ * Per-stream ingestion progress on /database-updates: entries in each
+ * status, entries ingested per minute over the recent window, and the
+ * average and 95th percentile latency from finalization to ingestion.
+ */
+export const IngestionSummaryTable: React.FC<IngestionSummaryTableProps> = ({
+  summaries,
+  windowMs,
+}) => {
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="mb-6 overflow-x-auto" data-testid="ingestion-summary">
+      <table className="min-w-full text-sm text-left border border-gray-200 dark:border-gray-700 rounded-lg">
+        <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+          <tr>
+            <th className="px-3 py-2 font-medium">Stream</th>
+            <th className="px-3 py-2 font-medium">Queued</th>
+            <th className="px-3 py-2 font-medium">Embedding</th>
+            <th className="px-3 py-2 font-medium">Ingested</th>
+            <th className="px-3 py-2 font-medium">Failed</th>
+            <th className="px-3 py-2 font-medium" title={`Over the last ${Math.round(windowMs / 60000)} minutes`}>
+              Throughput
+            </th>
+            <th className="px-3 py-2 font-medium">Avg latency</th>
+            <th className="px-3 py-2 font-medium">p95 latency</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-900 dark:text-gray-100">
+          {summaries.map((summary) => (
+            <tr key={summary.stream_id} className="border-t border-gray-200 dark:border-gray-700">
+              <td className="px-3 py-2">{formatStreamName(summary.stream_id)}</td>
+              <td className="px-3 py-2">{summary.counts.queued}</td>
+              <td className="px-3 py-2">{summary.counts.embedding}</td>
+              <td className="px-3 py-2">{summary.counts.ingested}</td>
+              <td className={`px-3 py-2 ${summary.counts.failed > 0 ? 'text-red-600 dark:text-red-400 font-medium' : ''}`}>
+                {summary.counts.failed}
+              </td>
+              <td className="px-3 py-2">{summary.throughput_per_minute.toFixed(1)}/min</td>
+              <td className="px-3 py-2">
+                {summary.avg_latency_ms !== null ? formatLatency(summary.avg_latency_ms) : '—'}
+              </td>
+              <td className="px-3 py-2">
+                {summary.p95_latency_ms !== null ? formatLatency(summary.p95_latency_ms) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
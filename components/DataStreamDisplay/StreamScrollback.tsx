@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+
+import { StreamSegment } from '@/types/dataStream';
+
+interface StreamScrollbackProps {
+  segments: StreamSegment[];
+}
+
+const formatSegmentTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString();
+
+/**
+ * StreamScrollback Component
+ *
+ * Recent live updates of a stream, oldest first, each with its time and
+ * sequence number. Appended deltas are marked with "+", and a warning
+ * shows where sequence numbers were skipped.
+ */
+export const StreamScrollback: React.FC<StreamScrollbackProps> = ({ segments }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [segments]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className="mt-2 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-300 dark:border-gray-900 p-2 max-h-48 overflow-y-auto text-sm"
+      data-testid="stream-scrollback"
+    >
+      {segments.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 m-0">No recent updates</p>
+      ) : (
+        <ol className="m-0 p-0 list-none space-y-1">
+          {segments.map((segment, index) => (
+            <li key={`${segment.timestamp}-${segment.sequence ?? index}`}>
+              {segment.gap !== undefined && segment.gap > 0 && (
+                <div className="text-xs text-yellow-700 dark:text-yellow-300">
+                  {segment.gap} {segment.gap === 1 ? 'update' : 'updates'} missing
+                </div>
+              )}
+              <div className="flex gap-2">
+                <span className="shrink-0 font-mono text-xs text-gray-500 dark:text-gray-400 pt-0.5">
+                  {formatSegmentTime(segment.timestamp)}
+                  {segment.sequence !== undefined && ` #${segment.sequence}`}
+                </span>
+                <span className="text-black dark:text-white whitespace-pre-wrap">
+                  {segment.mode === 'append' ? `+ ${segment.text}` : segment.text}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
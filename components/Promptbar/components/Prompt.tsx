@@ -0,0 +1,89 @@
+import { IconBulbFilled, IconCheck, IconTrash, IconX } from '@tabler/icons-react';
+import { DragEvent, MouseEventHandler, useContext, useState } from 'react';
+
+import { Prompt } from '@/types/prompt';
+
+import SidebarActionButton from '@/components/Buttons/SidebarActionButton';
+import PromptbarContext from '@/components/Promptbar/Promptbar.context';
+
+import { PromptModal } from './PromptModal';
+
+interface Props {
+  prompt: Prompt;
+}
+
+export const PromptComponent = ({ prompt }: Props) => {
+  const { handleDeletePrompt, handleUpdatePrompt } =
+    useContext(PromptbarContext);
+
+  const [showModal, setShowModal] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDragStart = (e: DragEvent<HTMLButtonElement>, prompt: Prompt) => {
+    if (e.dataTransfer) {
+      e.dataTransfer.setData('prompt', JSON.stringify(prompt));
+    }
+  };
+
+  const handleConfirm: MouseEventHandler<HTMLButtonElement> = (e) => {
+    e.stopPropagation();
+    handleDeletePrompt(prompt);
+    setIsDeleting(false);
+  };
+
+  const handleCancel: MouseEventHandler<HTMLButtonElement> = (e) => {
+    e.stopPropagation();
+    setIsDeleting(false);
+  };
+
+  const handleOpenDeleteModal: MouseEventHandler<HTMLButtonElement> = (e) => {
+    e.stopPropagation();
+    setIsDeleting(true);
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        className="flex w-full cursor-pointer items-center gap-3 rounded-lg p-3 text-sm transition-colors duration-200 hover:bg-[#343541]/90"
+        draggable="true"
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowModal(true);
+        }}
+        onDragStart={(e) => handleDragStart(e, prompt)}
+        title={prompt.description || prompt.name}
+      >
+        <IconBulbFilled size={18} />
+
+        <div className="relative max-h-5 flex-1 overflow-hidden text-ellipsis whitespace-nowrap break-all pr-4 text-left text-[12.5px] leading-3">
+          {prompt.name}
+        </div>
+      </button>
+
+      {isDeleting ? (
+        <div className="absolute right-1 z-10 flex text-gray-300">
+          <SidebarActionButton handleClick={handleConfirm}>
+            <IconCheck size={18} />
+          </SidebarActionButton>
+          <SidebarActionButton handleClick={handleCancel}>
+            <IconX size={18} />
+          </SidebarActionButton>
+        </div>
+      ) : (
+        <div className="absolute right-1 z-10 flex text-gray-300">
+          <SidebarActionButton handleClick={handleOpenDeleteModal}>
+            <IconTrash size={18} />
+          </SidebarActionButton>
+        </div>
+      )}
+
+      {showModal && (
+        <PromptModal
+          prompt={prompt}
+          onClose={() => setShowModal(false)}
+          onUpdatePrompt={handleUpdatePrompt}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useContext } from 'react';
+
+import { FolderInterface } from '@/types/folder';
+
+import HomeContext from '@/pages/api/home/home.context';
+
+import Folder from '@/components/Folder';
+import PromptbarContext from '@/components/Promptbar/Promptbar.context';
+
+import { PromptComponent } from './Prompt';
+
+export const PromptFolders = () => {
+  const {
+    state: { folders },
+  } = useContext(HomeContext);
+
+  const {
+    state: { searchTerm, filteredPrompts },
+    handleUpdatePrompt,
+  } = useContext(PromptbarContext);
+
+  const handleDrop = (e: any, folder: FolderInterface) => {
+    if (e.dataTransfer) {
+      const prompt = JSON.parse(e.dataTransfer.getData('prompt'));
+      handleUpdatePrompt({ ...prompt, folderId: folder.id });
+    }
+  };
+
+  const PromptFolders = (currentFolder: FolderInterface) =>
+    filteredPrompts
+      .filter((prompt) => prompt.folderId === currentFolder.id)
+      .map((prompt) => (
+        <div key={prompt.id} className="ml-5 gap-2 border-l pl-2">
+          <PromptComponent prompt={prompt} />
+        </div>
+      ));
+
+  return (
+    <div className="flex w-full flex-col pt-2">
+      {folders
+        .filter((folder) => folder.type === 'prompt')
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((folder) => (
+          <Folder
+            key={folder.id}
+            searchTerm={searchTerm}
+            currentFolder={folder}
+            handleDrop={handleDrop}
+            folderComponent={PromptFolders(folder)}
+          />
+        ))}
+    </div>
+  );
+};
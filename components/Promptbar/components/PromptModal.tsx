@@ -0,0 +1,123 @@
+import { FC, KeyboardEvent, useEffect, useRef, useState } from 'react';
+
+import { useTranslation } from 'next-i18next';
+
+import { Prompt } from '@/types/prompt';
+
+interface Props {
+  prompt: Prompt;
+  onClose: () => void;
+  onUpdatePrompt: (prompt: Prompt) => void;
+}
+
+/**
+ * Edits a prompt's name, description and body; Escape or a click outside
+ * closes without saving
+ */
+export const PromptModal: FC<Props> = ({ prompt, onClose, onUpdatePrompt }) => {
+  const { t } = useTranslation('promptbar');
+
+  const [name, setName] = useState(prompt.name);
+  const [description, setDescription] = useState(prompt.description);
+  const [content, setContent] = useState(prompt.content);
+
+  const modalRef = useRef<HTMLDivElement>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    onUpdatePrompt({ ...prompt, name: name.trim() || prompt.name, description, content });
+    onClose();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // The body and description are multi-line, Enter only saves from the name
+    if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    nameInputRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm z-50 dark:bg-opacity-20"
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        ref={modalRef}
+        className="w-full max-w-md bg-white dark:bg-[#202123] rounded-2xl shadow-lg p-6 transform transition-all relative"
+        role="dialog"
+      >
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t('Name')}
+        </label>
+        <input
+          ref={nameInputRef}
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none"
+          placeholder={t('A name for your prompt.') || ''}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Description')}
+        </label>
+        <textarea
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none resize-none"
+          placeholder={t('A description for your prompt.') || ''}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+        />
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Prompt')}
+        </label>
+        <textarea
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none resize-none"
+          placeholder={
+            t(
+              'Prompt content. Use {{}} to denote a variable. Ex: {{name}} is a {{adjective}} {{noun}}',
+            ) || ''
+          }
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={10}
+        />
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 focus:outline-none"
+            onClick={onClose}
+          >
+            {t('Cancel')}
+          </button>
+          <button
+            className="px-4 py-2 bg-[#76b900] text-white rounded-md hover:bg-[#5a9100] focus:outline-none"
+            onClick={handleSave}
+          >
+            {t('Save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,19 @@ import { useTranslation } from 'next-i18next';
 
 import { useTheme } from '@/contexts/ThemeContext';
 import HomeContext from '@/pages/api/home/home.context';
-import { HTTP_ENDPOINTS, DEFAULT_HTTP_ENDPOINT } from '@/constants/endpoints';
+import { getDefaultHttpEndpoint, getHttpEndpointOptions } from '@/constants/endpoints';
+import { getBackendAdapter } from '@/utils/api/adapters';
+import { SPEECH_INPUT_PROVIDERS, SPEECH_LANGUAGES } from '@/utils/app/speech';
+import {
+  SPEECH_OUTPUT_PROVIDERS,
+  fetchServerVoices,
+  getBrowserVoices,
+} from '@/utils/app/tts';
+import {
+  SpeechInputProvider,
+  SpeechOutputProvider,
+  SpeechVoice,
+} from '@/types/speech';
 
 // WebSocket schema display names to match HTTP endpoint naming
 const WEBSOCKET_SCHEMA_LABELS: Record<string, string> = {
@@ -26,7 +38,6 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
   const {
     state: {
       httpEndpoint,
-      httpEndpoints,
       optionalGenerationParameters,
       webSocketSchema: schema,
       expandIntermediateSteps,
@@ -34,18 +45,26 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
       enableIntermediateSteps,
       enableStreamingRagVizOptions,
       webSocketSchemas,
+      speechInputProvider: defaultSpeechInputProvider,
+      speechLanguage: defaultSpeechLanguage,
+      speechOutputProvider: defaultSpeechOutputProvider,
+      speechVoice: defaultSpeechVoice,
+      autoReadResponses,
     },
     dispatch: homeDispatch,
   } = useContext(HomeContext);
 
   const [theme, setTheme] = useState<'light' | 'dark'>(themeLightMode);
   const [selectedHttpEndpoint, setSelectedHttpEndpoint] = useState(
-    sessionStorage.getItem('httpEndpoint') || httpEndpoint || DEFAULT_HTTP_ENDPOINT,
+    sessionStorage.getItem('httpEndpoint') || httpEndpoint || getDefaultHttpEndpoint(),
   );
   const [jsonBodyInput, setJsonBodyInput] = useState(
     sessionStorage.getItem('optionalGenerationParameters') || optionalGenerationParameters || '',
   );
   const [jsonValidationError, setJsonValidationError] = useState<string>('');
+  const acceptsGenerationParameters = Boolean(
+    getBackendAdapter(selectedHttpEndpoint)?.acceptsGenerationParameters,
+  );
   const [webSocketSchema, setWebSocketSchema] = useState(
     sessionStorage.getItem('webSocketSchema') || schema || 'chat_stream',
   );
@@ -72,6 +91,48 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
         : enableStreamingRagVizOptions,
     );
 
+  const [speechInputProvider, setSpeechInputProvider] = useState<SpeechInputProvider>(
+    (sessionStorage.getItem('speechInputProvider') as SpeechInputProvider) ||
+      defaultSpeechInputProvider,
+  );
+  const [speechLanguage, setSpeechLanguage] = useState(
+    sessionStorage.getItem('speechLanguage') || defaultSpeechLanguage,
+  );
+
+  const [speechOutputProvider, setSpeechOutputProvider] = useState<SpeechOutputProvider>(
+    (sessionStorage.getItem('speechOutputProvider') as SpeechOutputProvider) ||
+      defaultSpeechOutputProvider,
+  );
+  const [speechVoice, setSpeechVoice] = useState(
+    sessionStorage.getItem('speechVoice') ?? defaultSpeechVoice,
+  );
+  const [autoReadToggle, setAutoReadToggle] = useState(
+    sessionStorage.getItem('autoReadResponses')
+      ? sessionStorage.getItem('autoReadResponses') === 'true'
+      : autoReadResponses,
+  );
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+
+  // Browsers load their voices asynchronously, the server lists its own
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    if (speechOutputProvider === 'server') {
+      fetchServerVoices()
+        .then((serverVoices) => !cancelled && setVoices(serverVoices))
+        .catch(() => !cancelled && setVoices([]));
+      return () => {
+        cancelled = true;
+      };
+    }
+    const loadVoices = () => setVoices(getBrowserVoices());
+    loadVoices();
+    window.speechSynthesis?.addEventListener?.('voiceschanged', loadVoices);
+    return () => {
+      window.speechSynthesis?.removeEventListener?.('voiceschanged', loadVoices);
+    };
+  }, [open, speechOutputProvider]);
+
   // Sync local theme state when the actual theme changes
   useEffect(() => {
     setTheme(themeLightMode);
@@ -138,9 +199,9 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
   const handleHttpEndpointChange = (endpoint: string) => {
     setSelectedHttpEndpoint(endpoint);
 
-    // Clear JSON validation error when switching to generate endpoints
+    // Clear JSON validation error when switching to endpoints that ignore it
     // since the additional JSON field won't be visible/used
-    if (endpoint === HTTP_ENDPOINTS.GENERATE || endpoint === HTTP_ENDPOINTS.GENERATE_STREAM) {
+    if (!getBackendAdapter(endpoint)?.acceptsGenerationParameters) {
       setJsonValidationError('');
     }
   };
@@ -151,11 +212,7 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
       return;
     }
 
-    const isChatEndpoint = selectedHttpEndpoint === HTTP_ENDPOINTS.CHAT ||
-                           selectedHttpEndpoint === HTTP_ENDPOINTS.CHAT_STREAM ||
-                           selectedHttpEndpoint === HTTP_ENDPOINTS.CHAT_CA_RAG;
-
-    if (isChatEndpoint) {
+    if (acceptsGenerationParameters) {
       const validation = validateAdditionalJson(jsonBodyInput);
       if (!validation.isValid) {
         toast.error(`JSON Validation Error: ${validation.error}`);
@@ -164,7 +221,7 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
     }
 
     setLightMode(theme);
-    homeDispatch({ field: 'httpEndpoint', value: selectedHttpEndpoint || DEFAULT_HTTP_ENDPOINT });
+    homeDispatch({ field: 'httpEndpoint', value: selectedHttpEndpoint || getDefaultHttpEndpoint() });
     homeDispatch({ field: 'optionalGenerationParameters', value: jsonBodyInput });
     homeDispatch({ field: 'webSocketSchema', value: webSocketSchema || 'chat_stream' });
     homeDispatch({ field: 'expandIntermediateSteps', value: detailsToggle });
@@ -180,8 +237,13 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
       field: 'enableStreamingRagVizOptions',
       value: enableStreamingRagVizOptionsToggle,
     });
+    homeDispatch({ field: 'speechInputProvider', value: speechInputProvider });
+    homeDispatch({ field: 'speechLanguage', value: speechLanguage });
+    homeDispatch({ field: 'speechOutputProvider', value: speechOutputProvider });
+    homeDispatch({ field: 'speechVoice', value: speechVoice });
+    homeDispatch({ field: 'autoReadResponses', value: autoReadToggle });
 
-    sessionStorage.setItem('httpEndpoint', selectedHttpEndpoint || DEFAULT_HTTP_ENDPOINT);
+    sessionStorage.setItem('httpEndpoint', selectedHttpEndpoint || getDefaultHttpEndpoint());
     sessionStorage.setItem('optionalGenerationParameters', jsonBodyInput);
     sessionStorage.setItem('webSocketSchema', webSocketSchema || 'chat_stream');
     sessionStorage.setItem('expandIntermediateSteps', String(detailsToggle));
@@ -197,6 +259,11 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
       'enableStreamingRagVizOptions',
       String(enableStreamingRagVizOptionsToggle),
     );
+    sessionStorage.setItem('speechInputProvider', speechInputProvider);
+    sessionStorage.setItem('speechLanguage', speechLanguage);
+    sessionStorage.setItem('speechOutputProvider', speechOutputProvider);
+    sessionStorage.setItem('speechVoice', speechVoice);
+    sessionStorage.setItem('autoReadResponses', String(autoReadToggle));
 
     toast.success('Settings saved successfully');
     onClose();
@@ -234,15 +301,15 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
           value={selectedHttpEndpoint}
           onChange={(e) => handleHttpEndpointChange(e.target.value)}
         >
-          {httpEndpoints?.map((endpoint) => (
+          {getHttpEndpointOptions().map((endpoint) => (
             <option key={endpoint.value} value={endpoint.value}>
               {endpoint.label}
             </option>
           ))}
         </select>
 
-        {/* Show optional generation parameters for chat endpoints */}
-        {(selectedHttpEndpoint === HTTP_ENDPOINTS.CHAT || selectedHttpEndpoint === HTTP_ENDPOINTS.CHAT_STREAM) && (
+        {/* Show optional generation parameters for endpoints that accept them */}
+        {acceptsGenerationParameters && (
           <>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
               {t('Optional generation parameters')}
@@ -285,6 +352,91 @@ export const SettingDialog: FC<Props> = ({ open, onClose }) => {
           ))}
         </select>
 
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Speech Input')}
+        </label>
+        <select
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none"
+          value={speechInputProvider}
+          onChange={(e) =>
+            setSpeechInputProvider(e.target.value as SpeechInputProvider)
+          }
+        >
+          {SPEECH_INPUT_PROVIDERS.map((provider) => (
+            <option key={provider.value} value={provider.value}>
+              {t(provider.label)}
+            </option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Speech Language')}
+        </label>
+        <select
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none"
+          value={speechLanguage}
+          onChange={(e) => setSpeechLanguage(e.target.value)}
+        >
+          {SPEECH_LANGUAGES.map((language) => (
+            <option key={language.value} value={language.value}>
+              {language.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Speech Output')}
+        </label>
+        <select
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none"
+          value={speechOutputProvider}
+          onChange={(e) => {
+            setSpeechOutputProvider(e.target.value as SpeechOutputProvider);
+            // Voices differ between providers
+            setSpeechVoice('');
+          }}
+        >
+          {SPEECH_OUTPUT_PROVIDERS.map((provider) => (
+            <option key={provider.value} value={provider.value}>
+              {t(provider.label)}
+            </option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          {t('Voice')}
+        </label>
+        <select
+          className="w-full mt-1 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none"
+          value={speechVoice}
+          onChange={(e) => setSpeechVoice(e.target.value)}
+        >
+          <option value="">{t('Default voice')}</option>
+          {voices.map((voice) => (
+            <option key={voice.id} value={voice.id}>
+              {voice.label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex align-middle text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
+          <input
+            type="checkbox"
+            id="autoReadResponses"
+            checked={autoReadToggle}
+            onChange={() => {
+              setAutoReadToggle(!autoReadToggle);
+            }}
+            className="mr-2"
+          />
+          <label
+            htmlFor="autoReadResponses"
+            className="text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Read responses aloud as they arrive
+          </label>
+        </div>
+
         <div className="flex align-middle text-sm font-medium text-gray-700 dark:text-gray-300 mt-4">
           <input
             type="checkbox"
@@ -18,6 +18,7 @@ interface Props<T> {
   folderComponent: ReactNode;
   footerComponent?: ReactNode;
   searchTerm: string;
+  searchControls?: ReactNode; // Shown below the search box while searching
   handleSearchTerm: (searchTerm: string) => void;
   toggleOpen: () => void;
   handleCreateItem: () => void;
@@ -34,6 +35,7 @@ const Sidebar = <T,>({
   folderComponent,
   footerComponent,
   searchTerm,
+  searchControls,
   handleSearchTerm,
   toggleOpen,
   handleCreateItem,
@@ -90,6 +92,7 @@ const Sidebar = <T,>({
           searchTerm={searchTerm}
           onSearch={handleSearchTerm}
         />
+        {searchTerm && searchControls}
 
         <div className="flex-grow overflow-auto">
           {items?.length > 0 && (
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+
+import { getMessageText } from '@/utils/app/content';
+import { appendNewSpeechText, startSpeechPlayback } from '@/utils/app/tts';
+
+import { Conversation } from '@/types/chat';
+import { SpeechOutputProvider, SpeechPlayback } from '@/types/speech';
+
+interface Reading {
+  conversationId: string;
+  messageId: string;
+  playback: SpeechPlayback;
+  spokenLength: number; // Length of the speech text already queued
+}
+
+/**
+ * Reads the streaming assistant response aloud, sentence by sentence as it
+ * arrives, and the rest once streaming ends
+ * Switching conversations or turning the setting off stops the reading
+ */
+export const useAutoRead = ({
+  conversation,
+  messageIsStreaming,
+  enabled,
+  provider,
+  voice,
+}: {
+  conversation: Conversation | undefined;
+  messageIsStreaming: boolean;
+  enabled: boolean;
+  provider: SpeechOutputProvider;
+  voice: string;
+}) => {
+  const readingRef = useRef<Reading | null>(null);
+
+  useEffect(() => {
+    const reading = readingRef.current;
+    const messages = conversation?.messages ?? [];
+    const lastIndex = messages.length - 1;
+    const last = messages[lastIndex];
+    const messageId = last?.id ?? String(lastIndex);
+
+    if (
+      reading &&
+      (!enabled || reading.conversationId !== conversation?.id)
+    ) {
+      reading.playback.stop();
+      readingRef.current = null;
+      return;
+    }
+    if (!enabled || !conversation || last?.role !== 'assistant') return;
+
+    if (messageIsStreaming && reading?.messageId !== messageId) {
+      reading?.playback.stop();
+      readingRef.current = {
+        conversationId: conversation.id,
+        messageId,
+        playback: startSpeechPlayback({ provider, voice }),
+        spokenLength: 0,
+      };
+    }
+
+    const current = readingRef.current;
+    if (!current || current.messageId !== messageId) return;
+
+    current.spokenLength = appendNewSpeechText(
+      current.playback,
+      getMessageText(last.content),
+      current.spokenLength,
+    );
+    if (!messageIsStreaming) {
+      current.playback.finish();
+      readingRef.current = null;
+    }
+  }, [conversation, messageIsStreaming, enabled, provider, voice]);
+
+  useEffect(() => {
+    return () => {
+      readingRef.current?.playback.stop();
+    };
+  }, []);
+};
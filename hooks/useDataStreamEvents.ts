@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { subscribeToDataStream } from '@/utils/app/dataStream';
+
+import { DataStreamEvent, DataStreamEventType } from '@/types/dataStream';
+
+/**
+ * Pushed data stream events, for one stream or every stream when stream is
+ * undefined, optionally only of some types
+ * Returns whether the subscription is connected; callers poll while it is not
+ */
+export const useDataStreamEvents = ({
+  stream,
+  types,
+  onEvent,
+}: {
+  stream?: string;
+  types?: DataStreamEventType[];
+  onEvent: (event: DataStreamEvent) => void;
+}) => {
+  const [connected, setConnected] = useState(false);
+
+  // Events are handled with the latest callback without resubscribing
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const typesKey = types?.join(',');
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDataStream({
+      stream,
+      types: typesKey ? (typesKey.split(',') as DataStreamEventType[]) : undefined,
+      onEvent: (event) => onEventRef.current(event),
+      onConnectionChange: setConnected,
+    });
+    return () => {
+      unsubscribe();
+      setConnected(false);
+    };
+  }, [stream, typesKey]);
+
+  return connected;
+};
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { createSearchIndex } from '@/utils/app/search';
+
+import { Conversation } from '@/types/chat';
+import { MessageSearchFilters, MessageSearchResult } from '@/types/search';
+
+type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+/**
+ * Keeps a search index in sync with the conversation list and returns every
+ * message matching `query`
+ * The selected conversation is indexed in place of its list entry because
+ * it is updated on every streamed chunk before the list catches up
+ */
+export const useMessageSearch = (
+  conversations: Conversation[],
+  selectedConversation: Conversation | undefined,
+  query: string,
+  filters: MessageSearchFilters,
+): MessageSearchResult[] => {
+  const indexRef = useRef<SearchIndex>();
+  if (!indexRef.current) {
+    indexRef.current = createSearchIndex();
+  }
+  // Replaced after every sync so results are recomputed when the index changes
+  const [search, setSearch] = useState<SearchIndex['search']>();
+
+  useEffect(() => {
+    const index = indexRef.current;
+    if (!index) return;
+    index.sync(
+      conversations.map((conversation) =>
+        conversation.id === selectedConversation?.id
+          ? selectedConversation
+          : conversation,
+      ),
+    );
+    setSearch(() => (...args: Parameters<SearchIndex['search']>) =>
+      index.search(...args),
+    );
+  }, [conversations, selectedConversation]);
+
+  return useMemo(
+    () =>
+      query.trim() && search
+        ? search(query, { ...filters, limit: Infinity })
+        : [],
+    [query, filters, search],
+  );
+};
@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { getMessageText } from '@/utils/app/content';
+import { startSpeechInput } from '@/utils/app/speech';
+import { appendNewSpeechText, startSpeechPlayback } from '@/utils/app/tts';
+import {
+  VoiceActivityEvent,
+  watchVoiceActivity,
+} from '@/utils/app/voiceActivity';
+
+import { Conversation, Message } from '@/types/chat';
+import {
+  SpeechInputProvider,
+  SpeechInputSession,
+  SpeechOutputProvider,
+  SpeechPlayback,
+  VoiceModePhase,
+} from '@/types/speech';
+
+interface Options {
+  active: boolean;
+  conversation: Conversation | undefined;
+  messageIsStreaming: boolean;
+  inputProvider: SpeechInputProvider;
+  language: string;
+  outputProvider: SpeechOutputProvider;
+  voice: string;
+  onSend: (message: Message) => void;
+  onStopGeneration: () => void;
+  onError: (message: string) => void;
+  onClose: () => void; // Called when voice mode cannot run, e.g. without a microphone
+}
+
+interface Reading {
+  messageId: string;
+  playback: SpeechPlayback;
+  queuedLength: number;
+}
+
+const messageKey = (messages: Message[], index: number) =>
+  messages[index]?.id ?? String(index);
+
+/**
+ * Hands-free conversation loop: listen, send once the user stops talking,
+ * read the streaming answer aloud, listen again
+ *
+ * The microphone level is watched the whole time. Silence after speech ends
+ * the utterance; speech while the answer is read stops the playback and the
+ * generation and starts listening (barge-in). Echo cancellation keeps the
+ * spoken answer from triggering it.
+ */
+export const useVoiceMode = (options: Options) => {
+  const { active, conversation, messageIsStreaming } = options;
+  const [phase, setPhase] = useState<VoiceModePhase>('listening');
+  const [transcript, setTranscript] = useState('');
+
+  // Callbacks run from recognition, audio and timer events read the latest options
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const activeRef = useRef(false);
+  const phaseRef = useRef<VoiceModePhase>('listening');
+  const inputRef = useRef<SpeechInputSession | null>(null);
+  const transcriptRef = useRef('');
+  const inputFailedRef = useRef(false);
+  const activityRef = useRef<ReturnType<typeof watchVoiceActivity> | null>(null);
+  const readingRef = useRef<Reading | null>(null);
+  // Message count when the utterance was sent, null when not waiting for an answer
+  const sentAtCountRef = useRef<number | null>(null);
+  const sawStreamingRef = useRef(false);
+
+  const updatePhase = (next: VoiceModePhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const handleInputEnd = () => {
+    inputRef.current = null;
+    if (!activeRef.current || phaseRef.current !== 'listening') return;
+    // Restarting after a failed recognition or transcription would fail again
+    if (inputFailedRef.current) {
+      optionsRef.current.onClose();
+      return;
+    }
+
+    const text = transcriptRef.current.trim();
+    if (!text) {
+      startListening();
+      return;
+    }
+    sentAtCountRef.current = optionsRef.current.conversation?.messages.length ?? 0;
+    sawStreamingRef.current = false;
+    updatePhase('thinking');
+    optionsRef.current.onSend({ role: 'user', content: text });
+  };
+
+  const startListening = () => {
+    if (!activeRef.current) return;
+    transcriptRef.current = '';
+    inputFailedRef.current = false;
+    setTranscript('');
+    activityRef.current?.reset();
+    updatePhase('listening');
+
+    const { inputProvider, language, onError, onClose } = optionsRef.current;
+    startSpeechInput(inputProvider, {
+      language,
+      onTranscript: (text) => {
+        transcriptRef.current = text;
+        setTranscript(text);
+      },
+      onError: (message) => {
+        inputFailedRef.current = true;
+        onError(message);
+      },
+      onEnd: handleInputEnd,
+    })
+      .then((session) => {
+        if (activeRef.current && phaseRef.current === 'listening') {
+          inputRef.current = session;
+        } else {
+          session.cancel();
+        }
+      })
+      .catch((error) => {
+        onError(error instanceof Error ? error.message : 'Could not start listening');
+        onClose();
+      });
+  };
+
+  const stopReading = () => {
+    const reading = readingRef.current;
+    readingRef.current = null;
+    reading?.playback.stop();
+  };
+
+  // Stops the answer and listens, when the user talks over it or taps to interrupt
+  const interrupt = () => {
+    if (!activeRef.current || phaseRef.current === 'listening') return;
+    stopReading();
+    sentAtCountRef.current = null;
+    if (optionsRef.current.messageIsStreaming) {
+      optionsRef.current.onStopGeneration();
+    }
+    startListening();
+  };
+
+  const handleActivity = (event: VoiceActivityEvent) => {
+    if (event === 'silence' && phaseRef.current === 'listening') {
+      inputRef.current?.stop();
+    } else if (event === 'speech-start' && phaseRef.current === 'speaking') {
+      interrupt();
+    }
+  };
+
+  // Effects reach the helpers through a ref, like the options, so they only rerun on their inputs
+  const helpersRef = useRef({ updatePhase, startListening, stopReading, handleActivity });
+  helpersRef.current = { updatePhase, startListening, stopReading, handleActivity };
+
+  useEffect(() => {
+    if (!active) return;
+    const { updatePhase, startListening, stopReading, handleActivity } =
+      helpersRef.current;
+    activeRef.current = true;
+    let stream: MediaStream | null = null;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      optionsRef.current.onError('Voice mode needs microphone access');
+      optionsRef.current.onClose();
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((micStream) => {
+        stream = micStream;
+        if (!activeRef.current) {
+          micStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        activityRef.current = watchVoiceActivity(micStream, handleActivity);
+        startListening();
+      })
+      .catch(() => {
+        optionsRef.current.onError('Voice mode needs microphone access');
+        optionsRef.current.onClose();
+      });
+
+    return () => {
+      activeRef.current = false;
+      inputRef.current?.cancel();
+      inputRef.current = null;
+      stopReading();
+      sentAtCountRef.current = null;
+      activityRef.current?.stop();
+      activityRef.current = null;
+      stream?.getTracks().forEach((track) => track.stop());
+      updatePhase('listening');
+    };
+  }, [active]);
+
+  // Reads the answer to the sent utterance as it streams in
+  useEffect(() => {
+    if (!active) return;
+    const { updatePhase, startListening } = helpersRef.current;
+    const messages = conversation?.messages ?? [];
+    const lastIndex = messages.length - 1;
+    const last = messages[lastIndex];
+    if (messageIsStreaming) sawStreamingRef.current = true;
+
+    const sentAtCount = sentAtCountRef.current;
+    if (
+      sentAtCount !== null &&
+      last?.role === 'assistant' &&
+      lastIndex >= sentAtCount
+    ) {
+      sentAtCountRef.current = null;
+      const messageId = messageKey(messages, lastIndex);
+      const { outputProvider, voice, onError } = optionsRef.current;
+      readingRef.current = {
+        messageId,
+        queuedLength: 0,
+        playback: startSpeechPlayback({
+          provider: outputProvider,
+          voice,
+          onError,
+          onEnd: () => {
+            // Stopped readings were replaced or interrupted already
+            if (readingRef.current?.messageId !== messageId) return;
+            readingRef.current = null;
+            startListening();
+          },
+        }),
+      };
+    } else if (
+      sentAtCount !== null &&
+      sawStreamingRef.current &&
+      !messageIsStreaming
+    ) {
+      // The request ended without an answer
+      sentAtCountRef.current = null;
+      startListening();
+      return;
+    }
+
+    const reading = readingRef.current;
+    if (!reading || reading.messageId !== messageKey(messages, lastIndex)) return;
+    reading.queuedLength = appendNewSpeechText(
+      reading.playback,
+      getMessageText(last.content),
+      reading.queuedLength,
+    );
+    if (reading.queuedLength > 0 && phaseRef.current === 'thinking') {
+      updatePhase('speaking');
+    }
+    if (!messageIsStreaming) {
+      reading.playback.finish();
+    }
+  }, [active, conversation, messageIsStreaming]);
+
+  return { phase, transcript, interrupt };
+};
@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getHistoryStore,
+  isConversationRecord,
+  requireSessionId,
+  sendHistoryError,
+} from '@/utils/api/history';
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Conversations can carry base64 attachments
+      sizeLimit: process.env.NAT_MAX_FILE_SIZE_STRING || '5mb',
+    },
+  },
+};
+
+/**
+ * A single conversation of the current session
+ *
+ * GET    - Returns the conversation or 404
+ * PUT    - Creates or replaces the conversation; the body id must match the path
+ * DELETE - Removes the conversation, 404 when it does not exist
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  const sessionId = requireSessionId(req, res);
+  if (!sessionId) return;
+
+  const id = req.query.id;
+  if (typeof id !== 'string' || !id) {
+    return res.status(400).json({ error: 'Conversation id is required.' });
+  }
+
+  const store = getHistoryStore();
+
+  if (req.method === 'GET') {
+    try {
+      const conversation = await store.getConversation(sessionId, id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found.' });
+      }
+      return res.status(200).json(conversation);
+    } catch (error) {
+      return sendHistoryError(res, 'read conversation', error);
+    }
+  }
+
+  if (req.method === 'PUT') {
+    if (!isConversationRecord(req.body)) {
+      return res.status(400).json({
+        error: 'Body must be a conversation with id, name and messages.',
+      });
+    }
+    if (req.body.id !== id) {
+      return res
+        .status(400)
+        .json({ error: 'Conversation id does not match the URL.' });
+    }
+    try {
+      const conversation = await store.putConversation(sessionId, {
+        ...req.body,
+        folderId: req.body.folderId ?? null,
+      });
+      return res.status(200).json(conversation);
+    } catch (error) {
+      return sendHistoryError(res, 'save conversation', error);
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const deleted = await store.deleteConversation(sessionId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Conversation not found.' });
+      }
+      return res.status(204).end();
+    } catch (error) {
+      return sendHistoryError(res, 'delete conversation', error);
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+  res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getHistoryStore,
+  isFolderRecord,
+  requireSessionId,
+  sendHistoryError,
+} from '@/utils/api/history';
+
+/**
+ * A single folder of the current session
+ *
+ * PUT    - Creates or renames the folder; the body id must match the path
+ * DELETE - Removes the folder and moves its conversations out of it
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  const sessionId = requireSessionId(req, res);
+  if (!sessionId) return;
+
+  const id = req.query.id;
+  if (typeof id !== 'string' || !id) {
+    return res.status(400).json({ error: 'Folder id is required.' });
+  }
+
+  const store = getHistoryStore();
+
+  if (req.method === 'PUT') {
+    if (!isFolderRecord(req.body) || req.body.id !== id) {
+      return res.status(400).json({
+        error: 'Body must be a folder with id, name and type matching the URL.',
+      });
+    }
+    try {
+      const { name, type } = req.body;
+      const folder = await store.putFolder(sessionId, { id, name, type });
+      return res.status(200).json(folder);
+    } catch (error) {
+      return sendHistoryError(res, 'save folder', error);
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const deleted = await store.deleteFolder(sessionId, id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Folder not found.' });
+      }
+      return res.status(204).end();
+    } catch (error) {
+      return sendHistoryError(res, 'delete folder', error);
+    }
+  }
+
+  res.setHeader('Allow', ['PUT', 'DELETE']);
+  res.status(405).json({ error: 'Method not allowed' });
+}
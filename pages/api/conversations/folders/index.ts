@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getHistoryStore,
+  isFolderRecord,
+  requireSessionId,
+  sendHistoryError,
+} from '@/utils/api/history';
+
+/**
+ * Folders of the current session
+ *
+ * GET  - Returns { folders }
+ * POST - Creates a folder from { id, name, type }, 409 when the id exists
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  const sessionId = requireSessionId(req, res);
+  if (!sessionId) return;
+
+  const store = getHistoryStore();
+
+  if (req.method === 'GET') {
+    try {
+      const folders = await store.listFolders(sessionId);
+      return res.status(200).json({ folders });
+    } catch (error) {
+      return sendHistoryError(res, 'list folders', error);
+    }
+  }
+
+  if (req.method === 'POST') {
+    if (!isFolderRecord(req.body)) {
+      return res
+        .status(400)
+        .json({ error: 'Body must be a folder with id, name and type.' });
+    }
+    try {
+      const folders = await store.listFolders(sessionId);
+      if (folders.some((f) => f.id === req.body.id)) {
+        return res.status(409).json({ error: 'Folder already exists.' });
+      }
+      const { id, name, type } = req.body;
+      const folder = await store.putFolder(sessionId, { id, name, type });
+      return res.status(201).json(folder);
+    } catch (error) {
+      return sendHistoryError(res, 'create folder', error);
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'POST']);
+  res.status(405).json({ error: 'Method not allowed' });
+}
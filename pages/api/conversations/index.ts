@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getHistoryStore,
+  requireSessionId,
+  sendHistoryError,
+} from '@/utils/api/history';
+
+/**
+ * Conversation history of the current session
+ *
+ * GET    - Returns { conversations } in sidebar order
+ * DELETE - Removes every conversation of the session, folders are kept
+ *
+ * Sessions are identified by the cookie issued in middleware.ts; single
+ * conversations are read and written through /api/conversations/{id}
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  const sessionId = requireSessionId(req, res);
+  if (!sessionId) return;
+
+  const store = getHistoryStore();
+
+  if (req.method === 'GET') {
+    try {
+      const conversations = await store.listConversations(sessionId);
+      return res.status(200).json({ conversations });
+    } catch (error) {
+      return sendHistoryError(res, 'list conversations', error);
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      await store.clearConversations(sessionId);
+      return res.status(204).end();
+    } catch (error) {
+      return sendHistoryError(res, 'clear conversations', error);
+    }
+  }
+
+  res.setHeader('Allow', ['GET', 'DELETE']);
+  res.status(405).json({ error: 'Method not allowed' });
+}
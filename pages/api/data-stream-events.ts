@@ -0,0 +1,111 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getEventStreamId,
+  getStreamStore,
+  subscribeDataStreamEvents,
+} from '@/utils/api/dataStream';
+
+import { DataStreamEvent, DataStreamEventType } from '@/types/dataStream';
+
+export const config = {
+  api: {
+    // The response stays open after the handler returns
+    externalResolver: true,
+  },
+};
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Data Stream Events API Endpoint
+ *
+ * Server-Sent Events subscription for the data held by /api/update-data-stream,
+ * replacing the polling in DataStreamDisplay, DataStreamManager and
+ * /database-updates. Those keep polling only while this connection is down.
+ *
+ * GET - Opens the event stream
+ *   Query params: stream?, types?
+ *   - ?stream={id}: Only events about that stream (plus `streams`)
+ *   - ?types=finalized-entry,ingestion-status: Only these event types
+ *   - No params: Every event about every stream
+ *
+ * Events (SSE `event:` name = payload `type`, `data:` = JSON payload):
+ * - streams: { streams } - Stream ids with live text; sent on connect and when a new stream appears
+ * - live-text: { stream_id, text, timestamp, segment? } - Current live text; sent on connect
+ *   for ?stream. segment is the update that changed it (mode, delta, sequence and gap),
+ *   absent on connect and when finalizing clears the text
+ * - finalized-entry: { entry } - A chunk was marked for database storage
+ * - ingestion-status: { entry } - An entry's status, error, retries or latency changed via PATCH
+ *
+ * A comment line is sent every 15s so proxies keep the connection open.
+ *
+ * For detailed architecture and API documentation, see DATA_STREAMING.md
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const stream =
+    typeof req.query.stream === 'string' ? req.query.stream : undefined;
+  const types =
+    typeof req.query.types === 'string' && req.query.types
+      ? (req.query.types.split(',') as DataStreamEventType[])
+      : undefined;
+
+  let streamTexts;
+  try {
+    streamTexts = await getStreamStore().listStreamTexts();
+  } catch (error) {
+    console.error('Data stream store failed:', error);
+    return res.status(500).json({ error: 'Data stream store failed.' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'Content-Encoding': 'none', // Keeps response compression from buffering events
+    'X-Accel-Buffering': 'no', // Keeps nginx from buffering the stream
+  });
+
+  const send = (event: DataStreamEvent) => {
+    if (types && !types.includes(event.type)) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  send({ type: 'streams', streams: Object.keys(streamTexts) });
+  if (stream !== undefined) {
+    send({
+      type: 'live-text',
+      stream_id: stream,
+      text: streamTexts[stream]?.text || '',
+      timestamp: streamTexts[stream]?.timestamp || Date.now(),
+    });
+  }
+
+  const unsubscribe = subscribeDataStreamEvents((event) => {
+    const eventStreamId = getEventStreamId(event);
+    if (
+      stream === undefined ||
+      eventStreamId === undefined ||
+      eventStreamId === stream
+    ) {
+      send(event);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
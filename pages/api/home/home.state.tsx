@@ -2,8 +2,20 @@ import { env } from 'next-runtime-env';
 
 import { Conversation, Message } from '@/types/chat';
 import { FolderInterface } from '@/types/folder';
-import { DEFAULT_HTTP_ENDPOINT, HTTP_ENDPOINT_OPTIONS } from '@/constants/endpoints';
+import { Prompt } from '@/types/prompt';
+import { MessageJumpTarget } from '@/types/search';
+import { SpeechInputProvider, SpeechOutputProvider } from '@/types/speech';
+import { WebSocketConnectionState } from '@/types/websocket';
+import { getDefaultHttpEndpoint } from '@/constants/endpoints';
 import { buildWebSocketBaseURL } from '@/utils/backend-url';
+import {
+  DEFAULT_SPEECH_LANGUAGE,
+  getDefaultSpeechInputProvider,
+} from '@/utils/app/speech';
+import {
+  getDefaultSpeechOutputProvider,
+  isAutoReadDefaultOn,
+} from '@/utils/app/tts';
 
 export interface HomeInitialState {
   loading: boolean;
@@ -14,15 +26,18 @@ export interface HomeInitialState {
   selectedConversation: Conversation | undefined;
   currentMessage: Message | undefined;
   showChatbar: boolean;
+  prompts: Prompt[];
+  showPromptbar: boolean;
   currentFolder: FolderInterface | undefined;
   messageError: boolean;
   searchTerm: string;
+  messageJumpTarget?: MessageJumpTarget; // Set by Chatbar search results, cleared by Chat once scrolled
   chatHistory: boolean;
   httpEndpoint?: string;
-  httpEndpoints?: Array<{label: string; value: string}>;
   optionalGenerationParameters?: string;
   webSocketMode?: boolean;
   webSocketConnected?: boolean;
+  webSocketConnectionState?: WebSocketConnectionState;
   webSocketURL?: string;
   webSocketSchema?: string;
   webSocketSchemas?: string[];
@@ -30,6 +45,11 @@ export interface HomeInitialState {
   expandIntermediateSteps?: boolean;
   intermediateStepOverride?: boolean;
   autoScroll?: boolean;
+  speechInputProvider: SpeechInputProvider;
+  speechLanguage: string;
+  speechOutputProvider: SpeechOutputProvider;
+  speechVoice: string; // Empty for the provider's default voice
+  autoReadResponses: boolean; // Reads assistant responses aloud as they stream in
   enableStreamingRagVizOptions: boolean;  /* This toggle displays settings that are hidden during with default / core functionality */
   additionalConfig: any;
   dataStreams: string[];  /* Used for holding the associated label of live data streams (see `stream_id` in DATA_STREAMING.md) */
@@ -45,16 +65,18 @@ export const initialState: HomeInitialState = {
   selectedConversation: undefined,
   currentMessage: undefined,
   showChatbar: true,
+  prompts: [],
+  showPromptbar: true,
   currentFolder: undefined,
   messageError: false,
   searchTerm: '',
+  messageJumpTarget: undefined,
   chatHistory:
     env('NEXT_PUBLIC_NAT_CHAT_HISTORY_DEFAULT_ON') === 'true' ||
     process?.env?.NEXT_PUBLIC_NAT_CHAT_HISTORY_DEFAULT_ON === 'true'
       ? true
       : false,
-  httpEndpoint: DEFAULT_HTTP_ENDPOINT,
-  httpEndpoints: HTTP_ENDPOINT_OPTIONS,
+  httpEndpoint: getDefaultHttpEndpoint(),
   optionalGenerationParameters: '',
   webSocketMode:
     env('NEXT_PUBLIC_NAT_WEB_SOCKET_DEFAULT_ON') === 'true' ||
@@ -62,6 +84,7 @@ export const initialState: HomeInitialState = {
       ? true
       : false,
   webSocketConnected: false,
+  webSocketConnectionState: 'idle',
   webSocketURL: (() => {
     const backendAddress = env('NEXT_PUBLIC_NAT_BACKEND_ADDRESS') || process?.env?.NEXT_PUBLIC_NAT_BACKEND_ADDRESS;
     if (backendAddress) {
@@ -79,6 +102,11 @@ export const initialState: HomeInitialState = {
   expandIntermediateSteps: false,
   intermediateStepOverride: true,
   autoScroll: true,
+  speechInputProvider: getDefaultSpeechInputProvider(),
+  speechLanguage: DEFAULT_SPEECH_LANGUAGE,
+  speechOutputProvider: getDefaultSpeechOutputProvider(),
+  speechVoice: '',
+  autoReadResponses: isAutoReadDefaultOn(),
   enableStreamingRagVizOptions:
     env('NEXT_PUBLIC_NAT_ADDITIONAL_VIZ_DEFAULT_ON') === 'true' ||
     process?.env?.NEXT_PUBLIC_NAT_ADDITIONAL_VIZ_DEFAULT_ON === 'true'
@@ -13,27 +13,29 @@ import { ChatHeader } from '@/components/Chat/ChatHeader';
 import { useTheme } from '@/contexts/ThemeContext';
 
 import {
-  cleanConversationHistory,
-  cleanSelectedConversation,
-} from '@/utils/app/clean';
-import {
+  loadConversations,
   saveConversation,
   saveConversations,
   updateConversation,
 } from '@/utils/app/conversation';
 import { saveFolders } from '@/utils/app/folders';
 import { getWorkflowName } from '@/utils/app/helper';
+import { pullServerFolders } from '@/utils/app/historySync';
+import { savePrompts } from '@/utils/app/prompts';
 import { getSettings } from '@/utils/app/settings';
 
 import { APPLICATION_NAME } from '@/constants/constants';
+import { getDefaultHttpEndpoint } from '@/constants/endpoints';
 
 import { Conversation } from '@/types/chat';
 import { KeyValuePair } from '@/types/data';
 import { FolderInterface, FolderType } from '@/types/folder';
+import { Prompt } from '@/types/prompt';
 
 import { Chat } from '@/components/Chat/Chat';
 import { Chatbar } from '@/components/Chatbar/Chatbar';
 import { Navbar } from '@/components/Mobile/Navbar';
+import { Promptbar } from '@/components/Promptbar/Promptbar';
 
 import HomeContext from './home.context';
 import { HomeInitialState, initialState } from './home.state';
@@ -45,14 +47,15 @@ const webSocketMode = initialState.webSocketMode;
 const Home = (props: any) => {
   const { t } = useTranslation('chat');
 
+  // Resolved again here, since adapters can be registered after home.state loads
   const contextValue = useCreateReducer<HomeInitialState>({
-    initialState,
+    initialState: { ...initialState, httpEndpoint: getDefaultHttpEndpoint() },
   });
 
   let workflow = APPLICATION_NAME;
 
   const {
-    state: { folders, conversations, selectedConversation, enableStreamingRagVizOptions },
+    state: { folders, conversations, prompts, selectedConversation, enableStreamingRagVizOptions },
     dispatch,
   } = contextValue;
 
@@ -115,6 +118,20 @@ const Home = (props: any) => {
 
     dispatch({ field: 'conversations', value: updatedConversations });
     saveConversations(updatedConversations);
+
+    const updatedPrompts: Prompt[] = prompts.map((p) => {
+      if (p.folderId === folderId) {
+        return {
+          ...p,
+          folderId: null,
+        };
+      }
+
+      return p;
+    });
+
+    dispatch({ field: 'prompts', value: updatedPrompts });
+    savePrompts(updatedPrompts);
   };
 
   const handleUpdateFolder = (folderId: string, name: string) => {
@@ -201,6 +218,7 @@ const Home = (props: any) => {
   useEffect(() => {
     if (window.innerWidth < 640) {
       dispatch({ field: 'showChatbar', value: false });
+      dispatch({ field: 'showPromptbar', value: false });
     }
   }, [selectedConversation, dispatch]);
 
@@ -216,35 +234,43 @@ const Home = (props: any) => {
       dispatch({ field: 'showChatbar', value: showChatbar === 'true' });
     }
 
+    const showPromptbar = sessionStorage.getItem('showPromptbar');
+    if (showPromptbar) {
+      dispatch({ field: 'showPromptbar', value: showPromptbar === 'true' });
+    }
+
+    // Speech settings saved in the settings dialog
+    const speechFields = [
+      'speechInputProvider',
+      'speechLanguage',
+      'speechOutputProvider',
+      'speechVoice',
+    ] as const;
+    speechFields.forEach((field) => {
+      const value = sessionStorage.getItem(field);
+      if (value !== null) {
+        dispatch({ field, value });
+      }
+    });
+    const autoReadResponses = sessionStorage.getItem('autoReadResponses');
+    if (autoReadResponses) {
+      dispatch({ field: 'autoReadResponses', value: autoReadResponses === 'true' });
+    }
+
     const folders = sessionStorage.getItem('folders');
+    const localFolders: FolderInterface[] = folders ? JSON.parse(folders) : [];
     if (folders) {
-      dispatch({ field: 'folders', value: JSON.parse(folders) });
+      dispatch({ field: 'folders', value: localFolders });
     }
 
-    const conversationHistory = sessionStorage.getItem('conversationHistory');
-    if (conversationHistory) {
-      const parsedConversationHistory: Conversation[] =
-        JSON.parse(conversationHistory);
-      const cleanedConversationHistory = cleanConversationHistory(
-        parsedConversationHistory,
-      );
-
-      dispatch({ field: 'conversations', value: cleanedConversationHistory });
+    const prompts = sessionStorage.getItem('prompts');
+    if (prompts) {
+      dispatch({ field: 'prompts', value: JSON.parse(prompts) });
     }
 
-    const selectedConversation = sessionStorage.getItem('selectedConversation');
-    if (selectedConversation) {
-      const parsedSelectedConversation: Conversation =
-        JSON.parse(selectedConversation);
-      const cleanedSelectedConversation = cleanSelectedConversation(
-        parsedSelectedConversation,
-      );
+    let cancelled = false;
 
-      dispatch({
-        field: 'selectedConversation',
-        value: cleanedSelectedConversation,
-      });
-    } else {
+    const startHomepageConversation = (existing: Conversation[]) => {
       // Create homepage conversation like sidebar does, but mark it as homepage conversation
       const homepageConversation: Conversation = {
         id: uuidv4(),
@@ -254,14 +280,44 @@ const Home = (props: any) => {
         isHomepageConversation: true, // Flag to track it's a homepage conversation
       };
 
-      const updatedConversations = [...conversations, homepageConversation];
+      const updatedConversations = [...existing, homepageConversation];
 
       dispatch({ field: 'selectedConversation', value: homepageConversation });
       dispatch({ field: 'conversations', value: updatedConversations });
 
       saveConversation(homepageConversation);
       saveConversations(updatedConversations);
-    }
+    };
+
+    pullServerFolders(localFolders).then((mergedFolders) => {
+      if (!cancelled && mergedFolders !== localFolders) {
+        dispatch({ field: 'folders', value: mergedFolders });
+        saveFolders(mergedFolders);
+      }
+    });
+
+    loadConversations()
+      .then(({ conversations, selectedConversation }) => {
+        if (cancelled) return;
+
+        dispatch({ field: 'conversations', value: conversations });
+
+        if (selectedConversation) {
+          dispatch({ field: 'selectedConversation', value: selectedConversation });
+        } else {
+          startHomepageConversation(conversations);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load conversations:', error);
+        if (!cancelled) {
+          startHomepageConversation([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [dispatch, t, setLightMode]);
 
   return (
@@ -311,6 +367,8 @@ const Home = (props: any) => {
                 <Chat />
               </div>
             </main>
+
+            <Promptbar />
           </div>
         </div>
       )}
@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { TranscribeRequest } from '@/types/speech';
+
+/**
+ * Speech-to-text proxy
+ *
+ * POST - Body: { audio, mimeType, language? } with base64 audio
+ *        Returns { text }
+ *
+ * Forwards the recording to the Whisper-compatible server at NAT_STT_URL
+ * (an OpenAI-style /v1/audio/transcriptions endpoint, e.g. a local
+ * faster-whisper or whisper.cpp server). NAT_STT_MODEL picks the model and
+ * NAT_STT_API_KEY, when set, is sent as a bearer token. The browser never
+ * talks to the transcription server directly.
+ */
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: process.env.NAT_MAX_FILE_SIZE_STRING || '5mb',
+    },
+  },
+};
+
+const TRANSCRIBE_TIMEOUT_MS = 60000;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const serverURL = process.env.NAT_STT_URL;
+  if (!serverURL || !/^https?:\/\//.test(serverURL)) {
+    return res.status(400).json({ error: 'Transcription is not configured' });
+  }
+
+  const { audio, mimeType = 'audio/webm', language } =
+    (req.body || {}) as Partial<TranscribeRequest>;
+  if (typeof audio !== 'string' || !audio) {
+    return res.status(400).json({ error: 'Missing audio' });
+  }
+
+  // Recorders report e.g. 'audio/webm;codecs=opus', the server wants a file name
+  const baseType = mimeType.split(';')[0].trim().toLowerCase();
+  const form = new FormData();
+  form.append(
+    'file',
+    new Blob([Buffer.from(audio, 'base64')], { type: baseType }),
+    `recording.${FILE_EXTENSIONS[baseType] ?? 'webm'}`,
+  );
+  form.append('model', process.env.NAT_STT_MODEL || 'whisper-1');
+  if (language) {
+    // Whisper takes ISO 639-1 codes
+    form.append('language', language.split('-')[0].toLowerCase());
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TRANSCRIBE_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(serverURL, {
+      method: 'POST',
+      headers: process.env.NAT_STT_API_KEY
+        ? { Authorization: `Bearer ${process.env.NAT_STT_API_KEY}` }
+        : undefined,
+      body: form,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return res.status(200).json({ text: String(data?.text ?? '').trim() });
+  } catch (error) {
+    console.error('Error transcribing audio:', error);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return res.status(504).json({ error: 'Transcription timed out' });
+    }
+    return res.status(502).json({ error: 'Transcription failed' });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
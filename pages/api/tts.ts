@@ -0,0 +1,103 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { TextToSpeechRequest } from '@/types/speech';
+
+/**
+ * Text-to-speech proxy
+ *
+ * GET  - Returns { voices } offered in settings, from NAT_TTS_VOICES
+ * POST - Body: { text, voice? }
+ *        Returns the spoken audio (mp3)
+ *
+ * Forwards the text to the OpenAI-compatible /v1/audio/speech endpoint at
+ * NAT_TTS_URL (e.g. a local Kokoro, Piper or openedai-speech server).
+ * NAT_TTS_MODEL picks the model, NAT_TTS_VOICE the voice used when none is
+ * selected, and NAT_TTS_API_KEY, when set, is sent as a bearer token.
+ */
+
+const TTS_TIMEOUT_MS = 30000;
+// Playback is requested per sentence, anything longer is not a sentence
+const MAX_TTS_TEXT_LENGTH = 4096;
+
+const getTtsVoices = () =>
+  (process.env.NAT_TTS_VOICES || '')
+    .split(',')
+    .map((voice) => voice.trim())
+    .filter(Boolean);
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method === 'GET') {
+    return res.status(200).json({ voices: getTtsVoices() });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const serverURL = process.env.NAT_TTS_URL;
+  if (!serverURL || !/^https?:\/\//.test(serverURL)) {
+    return res.status(400).json({ error: 'Text-to-speech is not configured' });
+  }
+
+  const { text, voice } = (req.body || {}) as Partial<TextToSpeechRequest>;
+  if (typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'Missing text' });
+  }
+  if (text.length > MAX_TTS_TEXT_LENGTH) {
+    return res.status(413).json({ error: 'Text is too long' });
+  }
+
+  // Only configured voices can be requested when a list is configured
+  const voices = getTtsVoices();
+  const selectedVoice =
+    voice && (voices.length === 0 || voices.includes(voice))
+      ? voice
+      : process.env.NAT_TTS_VOICE || voices[0] || 'alloy';
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TTS_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(serverURL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.NAT_TTS_API_KEY && {
+          Authorization: `Bearer ${process.env.NAT_TTS_API_KEY}`,
+        }),
+      },
+      body: JSON.stringify({
+        model: process.env.NAT_TTS_MODEL || 'tts-1',
+        input: text,
+        voice: selectedVoice,
+        response_format: 'mp3',
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer());
+    res.setHeader(
+      'Content-Type',
+      response.headers.get('Content-Type') || 'audio/mpeg',
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(audio);
+  } catch (error) {
+    console.error('Error generating speech:', error);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return res.status(504).json({ error: 'Text-to-speech timed out' });
+    }
+    return res.status(502).json({ error: 'Text-to-speech failed' });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -1,6 +1,41 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 
+import {
+  getStreamStore,
+  publishDataStreamEvent,
+} from '@/utils/api/dataStream';
+import {
+  authenticateIngestion,
+  canWriteStream,
+  getMaxBodyBytes,
+  readRequestBody,
+} from '@/utils/api/dataStream/ingestion';
+import {
+  INGESTION_STATUSES,
+  THROUGHPUT_WINDOW_MS,
+  getIngestionStatus,
+  isIngestionStatus,
+  summarizeIngestion,
+} from '@/utils/app/ingestion';
+
+import {
+  FinalizedDataEntry,
+  FinalizedEntryUpdate,
+  IngestionKey,
+  IngestionStatus,
+  StreamSegment,
+} from '@/types/dataStream';
+
+// Write bodies are read raw, so signatures cover the exact bytes and the size is capped
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const MAX_PAGE_SIZE = 1000;
+
 /**
  * Update Data Stream API Endpoint
  *
@@ -19,9 +54,11 @@ import type { NextApiRequest, NextApiResponse } from 'next';
  *
  * 1. Live Stream Text (Non-Finalized):
  *    - Continuously updated text that hasn't been committed to database
- *    - Each stream_id has ONE current text value (overwrites on each POST)
+ *    - Each stream_id has ONE current text value, overwritten by each POST or
+ *      extended by it with mode: 'append'
  *    - Stored in: streamTexts object
- *    - Displayed in: DataStreamDisplay component
+ *    - Every update is also kept as a segment in a rolling per-stream history
+ *    - Displayed in: DataStreamDisplay component (text and scrollback)
  *    - Cleared when marked as finalized
  *
  * 2. Finalized Entries (Database-Bound):
@@ -32,88 +69,187 @@ import type { NextApiRequest, NextApiResponse } from 'next';
  *    - Displayed in: /database-updates page
  *    - Marked as pending until database confirms ingestion
  *
+ * Authentication (POST and PATCH):
+ * - Open unless NAT_DATA_STREAM_INGEST_KEYS lists ingestion keys, each allowed
+ *   to write every stream or only some (see utils/api/dataStream/ingestion.ts)
+ * - Authorization: Bearer <key>, or an HMAC-SHA256 of "<timestamp>.<body>"
+ *   in X-Data-Stream-Signature with the Unix time in X-Data-Stream-Timestamp
+ * - 401 (with WWW-Authenticate) without a valid key or signature, 403 when the
+ *   key may not write the stream, 413 for bodies over
+ *   NAT_DATA_STREAM_MAX_BODY_BYTES (256 KB by default)
+ * - GET stays open, the UI reads through it
+ *
  * HTTP Methods:
  *
  * POST - Submit stream updates or finalized entries
- *   Body: { text, stream_id?, timestamp?, finalized?, uuid? }
- *   - If finalized=false/omitted: Updates live stream text (overwrites existing)
+ *   Body: { text, stream_id?, timestamp?, finalized?, uuid?, mode?, sequence? }
+ *   - If finalized=false/omitted: Updates live stream text (overwrites existing,
+ *     or appends text to it with mode: 'append')
+ *   - sequence: Increasing number per stream; an update not above the last
+ *     one is rejected with 409, skipped numbers are reported as a gap
  *   - If finalized=true: Creates new database entry record (appends to list)
  *   Use Cases:
  *   - Stream generators sending live text updates
  *   - Backend marking chunks as ready for database storage
  *
  * GET - Retrieve stream data or finalized entries
- *   Query params: stream?, type?
+ *   Query params: stream?, type?, limit?, offset?, order?, status?
  *   - No params: Returns all available stream IDs and live text
  *   - ?stream={id}: Returns live text for specific stream
- *   - ?type=finalized: Returns all finalized entries
+ *   - ?type=finalized: Returns all finalized entries, oldest first
  *   - ?type=finalized&stream={id}: Returns finalized entries for specific stream
+ *   - ?type=history&stream={id}&limit={n}: Returns the stream's most recent live
+ *     update segments, oldest first
+ *   - ?type=finalized&limit={n}&offset={n}&order=newest|oldest: Returns one page
+ *     (at most 1000 entries) with the total count and next_offset
+ *   - ?type=finalized&status={status}: Only entries with that ingestion status
+ *   - ?type=summary&stream={id}?: Status counts, throughput and latency per stream
  *   Use Cases:
  *   - DataStreamManager discovering available streams
  *   - DataStreamDisplay polling for live text updates
  *   - Database Updates page fetching finalized entries
  *
  * PATCH - Update database ingestion status
- *   Body: { uuid, pending }
+ *   Body: { uuid, status?, error?, retries?, latency_ms?, pending? }
  *   - uuid: Backend UUID identifying the entry
- *   - pending: true = waiting for DB, false = successfully ingested
+ *   - status: queued | embedding | ingested | failed (error explains a failure)
+ *   - retries: Attempts after the first, counted up when a failed entry moves on
+ *   - latency_ms: Ingestion latency, measured from finalization when omitted
+ *   - pending: Without status, true = queued, false = ingested (older backends)
  *   Use Cases:
- *   - Database backend confirming successful ingestion
- *   - Updating UI from "Database Pending" to "Database Ingested"
+ *   - Database backend reporting progress, failures and successful ingestion
+ *   - Updating the status shown on /database-updates
+ *
+ * Push Updates:
+ * - Every change is published to /api/data-stream-events subscribers as a
+ *   live-text, finalized-entry, ingestion-status or streams event
  *
  * Data Storage:
- * - Module-level variables (in-memory, Node.js process)
- * - Does NOT persist to disk or actual database
- * - Lost on server restart
- * - streamTexts: Map of stream_id -> current live text
- * - finalizedEntries: Array of all finalized entries with metadata
+ * - StreamStore from utils/api/dataStream: in memory by default (lost on
+ *   restart), or a JSON file at NAT_DATA_STREAM_STORE_FILE
+ * - Retention: NAT_DATA_STREAM_MAX_ENTRIES finalized entries per stream
+ *   (1000 by default), NAT_DATA_STREAM_HISTORY_SIZE segments per stream (200
+ *   by default) and NAT_DATA_STREAM_TTL_HOURS for all of them and live text
+ * - streamTexts: Map of stream_id -> current live text and last sequence
+ * - streamSegments: Map of stream_id -> recent live updates
+ * - finalizedEntries: Finalized entries with metadata
  *
  * Data Flow Example:
  * 1. ASR service: POST { text: "hello", stream_id: "mic1" } (live update)
- * 2. Frontend polls: GET ?stream=mic1 -> returns "hello"
+ * 2. Subscribers of mic1 receive a live-text event with "hello"
  * 3. ASR service: POST { text: "hello world", stream_id: "mic1" } (overwrites)
- * 4. Frontend polls: GET ?stream=mic1 -> returns "hello world"
+ * 4. Subscribers of mic1 receive a live-text event with "hello world"
  * 5. Backend decides chunk is ready: POST { text: "hello world", stream_id: "mic1", finalized: true, uuid: "abc123" }
  * 6. Creates finalized entry with pending=true, clears live text for mic1
  * 7. Database ingests chunk: PATCH { uuid: "abc123", pending: false }
  * 8. Entry marked as successfully ingested
  *
  * Related Components:
- * - DataStreamDisplay.tsx - Polls for live stream text (100ms interval)
- * - DataStreamManager.tsx - Discovers available streams (2s interval)
+ * - DataStreamDisplay.tsx - Shows live stream text, pushed or polled (100ms) as a fallback
+ * - DataStreamManager.tsx - Discovers available streams, pushed or polled (2s) as a fallback
  * - /database-updates page - Displays finalized entries and their status
  * - DataStreamControls.tsx - UI controls for toggling display
  *
  * For detailed architecture, API examples, and usage patterns, see DATA_STREAMING.md
  */
 
-// Module-level variable to store text for multiple streams
-interface TextData {
-  text: string;
-  stream_id: string;
-  timestamp: number;
-  finalized?: boolean;
-}
+const parseCount = (value: string | string[] | undefined) => {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN;
+};
 
-interface FinalizedDataEntry {
-  text: string;
-  stream_id: string;
-  timestamp: number | string;
-  id: string; // unique identifier for each finalized entry
-  uuid?: string; // UUID from the backend for database tracking
-  pending?: boolean; // indicates if entry is pending database processing
-}
+const STATUS_ERROR = `Status must be one of ${INGESTION_STATUSES.join(', ')}.`;
+
+/**
+ * Changes for a PATCH: pending follows the status, the error is kept only
+ * while failed, leaving failed counts as a retry unless retries is given,
+ * and becoming ingested stamps ingested_at and the latency since
+ * finalization unless the backend reports its own
+ */
+const ingestionUpdate = (
+  existing: FinalizedDataEntry,
+  fields: {
+    status: IngestionStatus;
+    error?: string;
+    retries?: number;
+    latency_ms?: number;
+  },
+  now: number = Date.now()
+): FinalizedEntryUpdate => {
+  const previous = getIngestionStatus(existing);
+  const { status } = fields;
+  const ingested = status === 'ingested';
+  const becameIngested = ingested && previous !== 'ingested';
+  const retried = previous === 'failed' && status !== 'failed';
+
+  return {
+    status,
+    pending: !ingested,
+    error: status === 'failed' ? fields.error : undefined,
+    retries: fields.retries ?? (existing.retries ?? 0) + (retried ? 1 : 0),
+    ingested_at: !ingested ? undefined : becameIngested ? now : existing.ingested_at,
+    latency_ms: !ingested
+      ? undefined
+      : fields.latency_ms ??
+        (becameIngested && existing.finalized_at !== undefined
+          ? now - existing.finalized_at
+          : existing.latency_ms)
+  };
+};
+
+const forbidden = (res: NextApiResponse, streamId: string) =>
+  res.status(403).json({ error: `Not allowed to write stream ${streamId}.` });
+
+const handleRequest = async (req: NextApiRequest, res: NextApiResponse) => {
+  const store = getStreamStore();
+
+  let key: IngestionKey | null = null;
+  let body: any = {};
+  if (req.method === 'POST' || req.method === 'PATCH') {
+    const maxBodyBytes = getMaxBodyBytes();
+    const raw = await readRequestBody(req, maxBodyBytes);
+    if (raw === null) {
+      return res.status(413).json({
+        error: `Request body must not exceed ${maxBodyBytes} bytes.`
+      });
+    }
 
-let streamTexts: { [streamId: string]: TextData } = {};
-let finalizedEntries: FinalizedDataEntry[] = [];
+    const auth = authenticateIngestion(req, raw);
+    if (!auth.ok) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="data-stream"');
+      return res.status(401).json({ error: auth.error });
+    }
+    key = auth.key;
+
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      body = null;
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return res.status(400).json({ error: 'Body must be a JSON object.' });
+    }
+  }
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
-    const { text, stream_id, timestamp, finalized, uuid } = req.body;
+    const { text, stream_id, timestamp, finalized, uuid, mode = 'replace', sequence } = body;
     if (typeof text !== 'string') {
       return res.status(400).json({ error: 'Text must be a string.' });
     }
+    if (stream_id !== undefined && typeof stream_id !== 'string') {
+      return res.status(400).json({ error: 'Stream id must be a string.' });
+    }
+    if (mode !== 'replace' && mode !== 'append') {
+      return res.status(400).json({ error: 'Mode must be replace or append.' });
+    }
+    if (sequence !== undefined && (!Number.isInteger(sequence) || sequence < 0)) {
+      return res.status(400).json({ error: 'Sequence must be a non-negative integer.' });
+    }
     const streamId = stream_id || 'default';
+    if (!canWriteStream(key, streamId)) {
+      return forbidden(res, streamId);
+    }
     const currentTimestamp = timestamp || Date.now();
 
     if (finalized) {
@@ -124,59 +260,150 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
         timestamp: currentTimestamp,
         id: `${streamId}-${currentTimestamp}-${Math.random().toString(36).substring(2, 11)}`,
         uuid: uuid, // Store the UUID from the backend
-        pending: true // Initially mark as pending database processing
+        pending: true, // Initially mark as pending database processing
+        status: 'queued',
+        retries: 0,
+        finalized_at: Date.now()
       };
-      finalizedEntries.push(finalizedEntry);
-
-      // Sort by stream_id, then by timestamp
-      finalizedEntries.sort((a, b) => {
-        if (a.stream_id !== b.stream_id) {
-          return a.stream_id.localeCompare(b.stream_id);
-        }
-        const timestampA = typeof a.timestamp === 'string' ? new Date(a.timestamp).getTime() : a.timestamp;
-        const timestampB = typeof b.timestamp === 'string' ? new Date(b.timestamp).getTime() : b.timestamp;
-        return timestampA - timestampB;
-      });
+      await store.addFinalizedEntry(finalizedEntry);
+
+      publishDataStreamEvent({ type: 'finalized-entry', entry: finalizedEntry });
 
       // Clear the live text for this stream since it's now finalized
-      if (streamTexts[streamId]) {
-        streamTexts[streamId].text = '';
+      if (await store.clearStreamText(streamId)) {
+        publishDataStreamEvent({
+          type: 'live-text',
+          stream_id: streamId,
+          text: '',
+          timestamp: currentTimestamp
+        });
       }
     } else {
       // Store live text
-      streamTexts[streamId] = {
+      const result = await store.updateStreamText({
+        stream_id: streamId,
         text,
+        timestamp: currentTimestamp,
+        mode,
+        sequence
+      });
+
+      // Retried or reordered updates would repeat or scramble the text
+      if ('conflict' in result) {
+        return res.status(409).json({
+          error: 'Sequence is not above the last one received.',
+          last_sequence: result.last_sequence
+        });
+      }
+      const { text: streamText, gap } = result;
+
+      const segment: StreamSegment = {
         stream_id: streamId,
+        text,
         timestamp: currentTimestamp,
-        finalized: false
+        mode,
+        ...(sequence !== undefined && { sequence }),
+        ...(gap > 0 && { gap })
       };
+      await store.addStreamSegment(segment);
+
+      publishDataStreamEvent({
+        type: 'live-text',
+        stream_id: streamId,
+        text: streamText,
+        timestamp: currentTimestamp,
+        segment
+      });
+      if (result.created) {
+        publishDataStreamEvent({
+          type: 'streams',
+          streams: Object.keys(await store.listStreamTexts())
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        ...(sequence !== undefined && { sequence }),
+        ...(gap > 0 && { gap })
+      });
     }
 
     return res.status(200).json({ success: true });
   }
 
   if (req.method === 'GET') {
-    const { stream, type } = req.query;
+    const { stream, type, order, status } = req.query;
 
     if (type === 'finalized') {
-      // Get finalized entries
-      if (stream !== undefined) {
-        const streamId = stream as string;
-        const streamFinalizedEntries = finalizedEntries.filter(
-          entry => entry.stream_id === streamId
-        );
-        return res.status(200).json({
-          entries: streamFinalizedEntries,
-          stream_id: streamId
+      const limit = parseCount(req.query.limit);
+      const offset = parseCount(req.query.offset) ?? 0;
+      if (
+        Number.isNaN(offset) ||
+        Number.isNaN(limit) ||
+        limit === 0 ||
+        (limit !== undefined && limit > MAX_PAGE_SIZE)
+      ) {
+        return res.status(400).json({
+          error: `Limit must be between 1 and ${MAX_PAGE_SIZE} and offset a non-negative integer.`
         });
-      } else {
-        // Get all finalized entries
-        return res.status(200).json({
-          entries: finalizedEntries
+      }
+      if (order !== undefined && order !== 'newest' && order !== 'oldest') {
+        return res.status(400).json({ error: 'Order must be newest or oldest.' });
+      }
+      if (status !== undefined && !isIngestionStatus(status)) {
+        return res.status(400).json({ error: STATUS_ERROR });
+      }
+
+      const streamId = stream !== undefined ? (stream as string) : undefined;
+      const page = await store.listFinalizedEntries({
+        stream: streamId,
+        status,
+        offset,
+        limit,
+        order
+      });
+      const nextOffset = offset + page.entries.length;
+
+      return res.status(200).json({
+        entries: page.entries,
+        ...(streamId !== undefined && { stream_id: streamId }),
+        total: page.total,
+        streams: page.streams,
+        ...(limit !== undefined && {
+          offset,
+          limit,
+          next_offset: nextOffset < page.total ? nextOffset : null
+        })
+      });
+    }
+
+    if (type === 'summary') {
+      const streamId = stream !== undefined ? (stream as string) : undefined;
+      const { entries } = await store.listFinalizedEntries({ stream: streamId });
+      return res.status(200).json({
+        summaries: summarizeIngestion(entries),
+        window_ms: THROUGHPUT_WINDOW_MS
+      });
+    }
+
+    if (type === 'history') {
+      const limit = parseCount(req.query.limit);
+      if (typeof stream !== 'string') {
+        return res.status(400).json({ error: 'Stream is required.' });
+      }
+      if (Number.isNaN(limit) || limit === 0 || (limit !== undefined && limit > MAX_PAGE_SIZE)) {
+        return res.status(400).json({
+          error: `Limit must be between 1 and ${MAX_PAGE_SIZE}.`
         });
       }
+      return res.status(200).json({
+        segments: await store.listStreamSegments(stream, limit),
+        stream_id: stream
+      });
     }
 
+    const streamTexts = await store.listStreamTexts();
+
     if (stream !== undefined) {
       // Get live text for specific stream
       const streamId = stream as string;
@@ -197,33 +424,75 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
 
   // PATCH method for updating entry processing status
   if (req.method === 'PATCH') {
-    const { uuid, pending } = req.body;
+    const { uuid, pending, status, error, retries, latency_ms } = body;
 
     if (!uuid) {
       return res.status(400).json({ error: 'UUID is required.' });
     }
 
-    if (typeof pending !== 'boolean') {
+    if (pending !== undefined && typeof pending !== 'boolean') {
       return res.status(400).json({ error: 'Pending must be a boolean.' });
     }
+    if (status === undefined && pending === undefined) {
+      return res.status(400).json({ error: 'Status or pending is required.' });
+    }
+    if (status !== undefined && !isIngestionStatus(status)) {
+      return res.status(400).json({ error: STATUS_ERROR });
+    }
+    if (error !== undefined && typeof error !== 'string') {
+      return res.status(400).json({ error: 'Error must be a string.' });
+    }
+    if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+      return res.status(400).json({ error: 'Retries must be a non-negative integer.' });
+    }
+    if (
+      latency_ms !== undefined &&
+      (typeof latency_ms !== 'number' || !Number.isFinite(latency_ms) || latency_ms < 0)
+    ) {
+      return res.status(400).json({ error: 'Latency must be a non-negative number.' });
+    }
 
-    // Find the entry by UUID and update its pending status
-    const entryIndex = finalizedEntries.findIndex(
-      entry => entry.uuid === uuid
-    );
+    // Find the entry by UUID and update its ingestion status
+    const existing = await store.findFinalizedEntry(uuid);
 
-    if (entryIndex === -1) {
+    if (!existing) {
       return res.status(404).json({ error: 'Entry not found.' });
     }
+    if (!canWriteStream(key, existing.stream_id)) {
+      return forbidden(res, existing.stream_id);
+    }
 
-    finalizedEntries[entryIndex].pending = pending;
+    const entry = await store.updateFinalizedEntry(
+      uuid,
+      ingestionUpdate(existing, {
+        // pending alone, from older backends, means queued or ingested
+        status: status ?? (pending ? 'queued' : 'ingested'),
+        error,
+        retries,
+        latency_ms
+      })
+    );
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found.' });
+    }
+
+    publishDataStreamEvent({ type: 'ingestion-status', entry });
 
     return res.status(200).json({
       success: true,
-      entry: finalizedEntries[entryIndex]
+      entry
     });
   }
 
   res.setHeader('Allow', ['GET', 'POST', 'PATCH']);
   res.status(405).end(`Method ${req.method} Not Allowed`);
-}
\ No newline at end of file
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    await handleRequest(req, res);
+  } catch (error) {
+    console.error('Data stream store failed:', error);
+    res.status(500).json({ error: 'Data stream store failed.' });
+  }
+}
@@ -1,7 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
-import { IconRefresh, IconFilter, IconHistory, IconSortAscending, IconSortDescending, IconClock, IconCheck } from '@tabler/icons-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { IconRefresh, IconFilter, IconHistory, IconSortAscending, IconSortDescending, IconClock, IconCheck, IconLoader2, IconAlertTriangle } from '@tabler/icons-react';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useDataStreamEvents } from '@/hooks/useDataStreamEvents';
+import { IngestionSummaryTable } from '@/components/DataStreamDisplay/IngestionSummaryTable';
+import { formatLatency, getIngestionStatus, isIngestionStatus } from '@/utils/app/ingestion';
+import { DataStreamEvent, FinalizedDataEntry, IngestionStatus, IngestionSummary } from '@/types/dataStream';
 import Head from 'next/head';
 
 /**
@@ -11,18 +15,24 @@ import Head from 'next/head';
  * RAG pipeline. Shows which chunks have been sent to the database and their ingestion status.
  *
  * Key Features:
- * - Lists finalized entries with status: "Database Pending" (yellow) or "Database Ingested" (green)
- * - Filter by stream ID and processing status (pending/ingested/all)
- * - Auto-refresh every 5 seconds
+ * - Lists finalized entries with their ingestion status: Queued, Embedding, Ingested or Failed
+ *   (with the error and retry count), and the latency of ingested ones
+ * - Per-stream summary of status counts, throughput and latency
+ * - Filter by stream ID and ingestion status
+ * - Live updates pushed by /api/data-stream-events, auto-refresh every 5 seconds only while that is down
  * - Sort by newest/oldest (persists to localStorage)
+ * - Loads the newest entries a page at a time, "Load more" fetches older ones
  *
  * Data Flow:
- * 1. Backend marks chunk as finalized → Entry appears with "Database Pending" status
- * 2. Backend ingests chunk → Updates entry to "Database Ingested" status
+ * 1. Backend marks chunk as finalized → Entry appears as "Queued"
+ * 2. Backend reports progress → "Embedding", then "Ingested" or "Failed" (retried back to "Queued"/"Embedding")
  *
  * API Integration:
- * - GET /api/update-data-stream?type=finalized (polls every 5s)
- * - Reads entry.pending field for status
+ * - GET /api/update-data-stream?type=finalized&order=newest&limit={n} (initial load and "Load more",
+ *   polls every 5s as a fallback)
+ * - GET /api/data-stream-events?types=finalized-entry,ingestion-status (pushed new entries and status changes)
+ * - GET /api/update-data-stream?type=summary (per-stream summary, refreshed every 10s)
+ * - Reads entry.status for the status, entry.pending for entries stored before statuses existed
  * - Uses entry.uuid for backend correlation
  *
  * Access: Opened via "Data Updates" button in DataStreamControls (opens in new tab)
@@ -34,14 +44,35 @@ import Head from 'next/head';
  * For detailed architecture and API documentation, see DATA_STREAMING.md
  */
 
-interface FinalizedDataEntry {
-  text: string;
-  stream_id: string;
-  timestamp: number;
-  id: string;
-  uuid?: string;
-  pending?: boolean;
-}
+// Entries fetched per page; the API serves at most 1000 per request
+const PAGE_SIZE = 100;
+// Throughput changes with time alone, so the summary is refreshed even with pushed updates
+const SUMMARY_REFRESH_MS = 10000;
+
+type StatusFilter = 'all' | IngestionStatus;
+
+const STATUS_BADGES: Record<IngestionStatus, { label: string; className: string; Icon: typeof IconCheck }> = {
+  queued: {
+    label: 'Queued',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+    Icon: IconClock,
+  },
+  embedding: {
+    label: 'Embedding',
+    className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+    Icon: IconLoader2,
+  },
+  ingested: {
+    label: 'Ingested',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    Icon: IconCheck,
+  },
+  failed: {
+    label: 'Failed',
+    className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    Icon: IconAlertTriangle,
+  },
+};
 
 const DataStreamHistory = () => {
   const [entries, setEntries] = useState<FinalizedDataEntry[]>([]);
@@ -49,6 +80,9 @@ const DataStreamHistory = () => {
   const [selectedStream, setSelectedStream] = useState<string | null>(null);
   const [availableStreams, setAvailableStreams] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>(() => {
     // Initialize from localStorage, fallback to 'newest'
@@ -57,16 +91,22 @@ const DataStreamHistory = () => {
     }
     return 'newest';
   });
-  const [pendingFilter, setPendingFilter] = useState<'all' | 'pending' | 'ingested'>(() => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(() => {
     // Initialize from localStorage, fallback to 'all'
     if (typeof window !== 'undefined') {
-      return (localStorage.getItem('entry-pending-filter') as 'all' | 'pending' | 'ingested') || 'all';
+      const saved = localStorage.getItem('entry-status-filter');
+      return isIngestionStatus(saved) ? saved : 'all';
     }
     return 'all';
   });
+  const [summaries, setSummaries] = useState<IngestionSummary[]>([]);
+  const [summaryWindowMs, setSummaryWindowMs] = useState(0);
 
   const { lightMode } = useTheme();
 
+  // Number of entries loaded so far, so refreshes keep the pages already loaded
+  const loadedCountRef = useRef(0);
+
   // Save sort order to localStorage when it changes
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -74,40 +114,130 @@ const DataStreamHistory = () => {
     }
   }, [sortOrder]);
 
-  // Save pending filter to localStorage when it changes
+  // Save status filter to localStorage when it changes
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('entry-pending-filter', pendingFilter);
+      localStorage.setItem('entry-status-filter', statusFilter);
+    }
+  }, [statusFilter]);
+
+  // Fetch one page of finalized entries, newest first
+  const fetchPage = useCallback(async (offset: number, limit: number) => {
+    const params = new URLSearchParams({
+      type: 'finalized',
+      order: 'newest',
+      offset: String(offset),
+      limit: String(limit),
+    });
+    if (selectedStream !== null) params.set('stream', selectedStream);
+    if (statusFilter !== 'all') params.set('status', statusFilter);
+
+    const response = await fetch(`/api/update-data-stream?${params}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch entries');
+    }
+    const data = await response.json();
+
+    setTotalEntries(typeof data?.total === 'number' ? data.total : 0);
+    setNextOffset(typeof data?.next_offset === 'number' ? data.next_offset : null);
+    if (Array.isArray(data?.streams)) {
+      setAvailableStreams(data.streams);
     }
-  }, [pendingFilter]);
+    // Guard against missing entries
+    return (Array.isArray(data?.entries) ? data.entries : []) as FinalizedDataEntry[];
+  }, [selectedStream, statusFilter]);
 
-  // Fetch finalized entries
-  const fetchEntries = async () => {
+  // Fetch the per-stream ingestion summary
+  const fetchSummary = useCallback(async () => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/update-data-stream?type=finalized');
-      if (!response.ok) {
-        throw new Error('Failed to fetch entries');
-      }
+      const query = selectedStream !== null ? `&stream=${encodeURIComponent(selectedStream)}` : '';
+      const response = await fetch(`/api/update-data-stream?type=summary${query}`);
+      if (!response.ok) return;
       const data = await response.json();
+      setSummaries(Array.isArray(data?.summaries) ? data.summaries : []);
+      setSummaryWindowMs(typeof data?.window_ms === 'number' ? data.window_ms : 0);
+    } catch (err) {
+      // Keep the last summary; the entries show their own errors
+    }
+  }, [selectedStream]);
 
-      // Guard against missing entries
-      const entries = Array.isArray(data?.entries) ? data.entries : [];
+  // Fetch finalized entries, as many as are already loaded
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const entries = await fetchPage(0, Math.max(PAGE_SIZE, loadedCountRef.current));
+      loadedCountRef.current = entries.length;
       setEntries(entries);
-
-      // Extract unique stream IDs from entries
-      const streamIds = entries.map((t: FinalizedDataEntry) => t.stream_id);
-      const streams = Array.from(new Set<string>(streamIds)).sort((a: string, b: string) => a.localeCompare(b));
-      setAvailableStreams(streams);
-
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
     }
+  }, [fetchPage]);
+
+  // Append the next page of older entries
+  const loadMoreEntries = async () => {
+    if (nextOffset === null) return;
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(nextOffset, PAGE_SIZE);
+      // Entries pushed since the last fetch shift the offsets, skip repeats
+      setEntries((current) => {
+        const known = new Set(current.map((t) => t.id));
+        const merged = [...current, ...page.filter((t) => !known.has(t.id))];
+        loadedCountRef.current = merged.length;
+        return merged;
+      });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
+  // Whether an entry belongs to the list loaded for the current filters
+  const matchesFilters = (entry: FinalizedDataEntry) =>
+    (selectedStream === null || entry.stream_id === selectedStream) &&
+    (statusFilter === 'all' || getIngestionStatus(entry) === statusFilter);
+
+  // Adds pushed entries that match the filters, replaces ones whose status
+  // changed and drops ones whose new status no longer matches
+  const handleDataStreamEvent = (event: DataStreamEvent) => {
+    if (event.type !== 'finalized-entry' && event.type !== 'ingestion-status') return;
+    const { entry } = event;
+
+    const matches = matchesFilters(entry);
+    const loaded = entries.find((t) => t.id === entry.id);
+    // Entries not loaded yet matched before unless a status filter is set; then the
+    // status they left did not match
+    const matched =
+      event.type === 'ingestion-status' &&
+      (loaded ? matchesFilters(loaded) : statusFilter === 'all' && matches);
+
+    if (matches !== matched) {
+      setTotalEntries((total) => total + (matches ? 1 : -1));
+    }
+    setEntries((current) => {
+      if (!matches) return current.filter((t) => t.id !== entry.id);
+      if (current.some((t) => t.id === entry.id)) {
+        return current.map((t) => (t.id === entry.id ? entry : t));
+      }
+      return matched ? current : [...current, entry];
+    });
+    setAvailableStreams((current) =>
+      current.includes(entry.stream_id)
+        ? current
+        : [...current, entry.stream_id].sort((a, b) => a.localeCompare(b)),
+    );
+  };
+
+  const connected = useDataStreamEvents({
+    types: ['finalized-entry', 'ingestion-status'],
+    onEvent: handleDataStreamEvent,
+  });
+
   // Filter and sort entries based on selected stream, pending status, and sort order
   useEffect(() => {
     let filtered = entries;
@@ -117,16 +247,9 @@ const DataStreamHistory = () => {
       filtered = filtered.filter((t: FinalizedDataEntry) => t.stream_id === selectedStream);
     }
 
-    // Apply pending status filter
-    if (pendingFilter !== 'all') {
-      filtered = filtered.filter((t: FinalizedDataEntry) => {
-        if (pendingFilter === 'pending') {
-          return t.pending === true;
-        } else if (pendingFilter === 'ingested') {
-          return t.pending === false;
-        }
-        return true;
-      });
+    // Apply ingestion status filter
+    if (statusFilter !== 'all') {
+      filtered = filtered.filter((t: FinalizedDataEntry) => getIngestionStatus(t) === statusFilter);
     }
 
     // Apply sorting
@@ -148,19 +271,46 @@ const DataStreamHistory = () => {
     });
 
     setFilteredEntries(filtered);
-  }, [entries, selectedStream, pendingFilter, sortOrder]);
+  }, [entries, selectedStream, statusFilter, sortOrder]);
+
+  // Start over from the first page when the filters change
+  useEffect(() => {
+    loadedCountRef.current = 0;
+  }, [selectedStream, statusFilter]);
 
-  // Initial load and periodic refresh
+  // Summary on load and every 10 seconds
+  useEffect(() => {
+    fetchSummary();
+    const interval = setInterval(fetchSummary, SUMMARY_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchSummary]);
+
+  // Initial load, and a reload to catch up whenever pushed updates reconnect
   useEffect(() => {
     fetchEntries();
+  }, [connected, fetchEntries]);
+
+  // Periodic refresh while pushed updates are unavailable
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(fetchEntries, 5000); // Refresh every 5 seconds
     return () => clearInterval(interval);
-  }, []);
+  }, [connected, fetchEntries]);
 
-  const formatTimestamp = (timestamp: number) => {
+  const formatTimestamp = (timestamp: number | string) => {
     return new Date(timestamp).toLocaleString();
   };
 
+  const renderStatusBadge = (entry: FinalizedDataEntry) => {
+    const { label, className, Icon } = STATUS_BADGES[getIngestionStatus(entry)];
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}>
+        <Icon className="w-3 h-3 mr-1" />
+        {label}
+      </span>
+    );
+  };
+
   const formatStreamName = (streamId: string) => {
     return streamId || 'Default Stream';
   };
@@ -223,7 +373,10 @@ const DataStreamHistory = () => {
                     </span>
                   </button>
                   <button
-                    onClick={fetchEntries}
+                    onClick={() => {
+                      fetchEntries();
+                      fetchSummary();
+                    }}
                     disabled={loading}
                     className="flex items-center space-x-2 px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-md text-white transition-colors disabled:opacity-50"
                   >
@@ -256,23 +409,30 @@ const DataStreamHistory = () => {
                   ))}
                 </select>
 
-                {/* Pending Status Filter */}
+                {/* Ingestion Status Filter */}
                 <select
-                  value={pendingFilter}
-                  onChange={(e) => setPendingFilter(e.target.value as 'all' | 'pending' | 'ingested')}
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
                   className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-[#76b900] focus:border-transparent"
                 >
                   <option value="all">Any Status</option>
-                  <option value="pending">Pending</option>
-                  <option value="ingested">Ingested</option>
+                  {(Object.keys(STATUS_BADGES) as IngestionStatus[]).map((status) => (
+                    <option key={status} value={status}>
+                      {STATUS_BADGES[status].label}
+                    </option>
+                  ))}
                 </select>
 
                 <span className="text-sm text-gray-500 dark:text-gray-400">
                   {filteredEntries.length} {filteredEntries.length !== 1 ? 'entries' : 'entry'}
+                  {totalEntries > entries.length && ` (${entries.length} of ${totalEntries} loaded)`}
                 </span>
               </div>
             </div>
 
+            {/* Ingestion Summary */}
+            <IngestionSummaryTable summaries={summaries} windowMs={summaryWindowMs} />
+
             {/* Error State */}
             {error && (
               <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
@@ -316,24 +476,16 @@ const DataStreamHistory = () => {
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStreamColor(entry.stream_id)}`}>
                           {formatStreamName(entry.stream_id)}
                         </span>
-                        {/* Processing Status Indicator */}
-                        {entry.pending !== undefined && (
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                            entry.pending
-                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                              : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                          }`}>
-                            {entry.pending ? (
-                              <>
-                                <IconClock className="w-3 h-3 mr-1" />
-                                Database Pending
-                              </>
-                            ) : (
-                              <>
-                                <IconCheck className="w-3 h-3 mr-1" />
-                                Database Ingested
-                              </>
-                            )}
+                        {/* Ingestion Status Indicator */}
+                        {(entry.status !== undefined || entry.pending !== undefined) && renderStatusBadge(entry)}
+                        {!!entry.retries && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {entry.retries} {entry.retries === 1 ? 'retry' : 'retries'}
+                          </span>
+                        )}
+                        {entry.latency_ms !== undefined && getIngestionStatus(entry) === 'ingested' && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Ingested in {formatLatency(entry.latency_ms)}
                           </span>
                         )}
                         <span className="text-sm text-gray-500 dark:text-gray-400">
@@ -347,6 +499,12 @@ const DataStreamHistory = () => {
                         )}
                       </div>
                     </div>
+                    {/* Failure Details */}
+                    {getIngestionStatus(entry) === 'failed' && (
+                      <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-800 dark:text-red-200">
+                        {entry.error || 'Ingestion failed'}
+                      </div>
+                    )}
                     <div className="prose prose-sm max-w-none dark:prose-invert">
                       <p className="text-gray-900 dark:text-gray-100 leading-relaxed whitespace-pre-wrap">
                         {entry.text}
@@ -356,6 +514,19 @@ const DataStreamHistory = () => {
                 ))}
               </div>
             )}
+
+            {/* Load More */}
+            {nextOffset !== null && (
+              <div className="flex justify-center mt-6">
+                <button
+                  onClick={loadMoreEntries}
+                  disabled={loadingMore}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading…' : 'Load more'}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
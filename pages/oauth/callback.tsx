@@ -0,0 +1,85 @@
+import { IconCircleCheck, IconCircleX } from '@tabler/icons-react';
+import React, { useEffect, useRef, useState } from 'react';
+
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+
+import {
+  getOAuthRedirectReturn,
+  postOAuthComplete,
+  saveOAuthRedirectReturn,
+  toOAuthCompleteMessage,
+} from '@/utils/app/oauth';
+
+import { OAuthCompleteMessage } from '@/types/oauth';
+
+/**
+ * OAuth Callback Page (/oauth/callback)
+ *
+ * Purpose: Landing page the backend redirects to once an OAuth consent has
+ * completed, e.g. `/oauth/callback?status=success` or
+ * `/oauth/callback?error=access_denied&error_description=...`
+ *
+ * - Popup flow: reports an `oauth_complete` message to the chat window
+ *   (same-origin only) and closes itself
+ * - Redirect flow (popup was blocked): stores the result and returns to the
+ *   conversation that started the consent
+ *
+ * Related: utils/app/oauth.ts, Chat.tsx (handleOAuthConsent)
+ */
+const OAuthCallback = () => {
+  const router = useRouter();
+  const [result, setResult] = useState<OAuthCompleteMessage | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady || handled.current) return;
+    handled.current = true;
+
+    const message = toOAuthCompleteMessage(router.query);
+    setResult(message);
+
+    const redirectReturn = getOAuthRedirectReturn();
+    if (redirectReturn) {
+      saveOAuthRedirectReturn({ ...redirectReturn, result: message });
+      router.replace('/');
+      return;
+    }
+
+    postOAuthComplete(message);
+    if (message.status === 'success') {
+      window.close();
+    }
+  }, [router]);
+
+  return (
+    <>
+      <Head>
+        <title>Authorization</title>
+      </Head>
+      <div className="flex h-screen items-center justify-center bg-white dark:bg-[#343541]">
+        {result && (
+          <div className="flex max-w-md flex-col items-center gap-3 p-6 text-center text-gray-800 dark:text-gray-100">
+            {result.status === 'success' ? (
+              <IconCircleCheck size={40} className="text-[#76b900]" />
+            ) : (
+              <IconCircleX size={40} className="text-red-500" />
+            )}
+            <p className="text-lg font-semibold">
+              {result.status === 'success'
+                ? 'Authorization complete'
+                : 'Authorization failed'}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {result.status === 'success'
+                ? 'You can close this window and return to the chat.'
+                : `${result.error}. Close this window and retry from the chat.`}
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default OAuthCallback;
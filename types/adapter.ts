@@ -0,0 +1,62 @@
+/**
+ * Backend adapter type definitions
+ * Describes how /api/chat talks to a specific backend workflow endpoint
+ */
+
+// Values available to an adapter when it builds the backend request body
+export interface AdapterRequestContext {
+  messages: any[];
+  conversationId: string;
+  serverURL: string;
+}
+
+// Intermediate step emitted while parsing a backend stream
+export interface AdapterIntermediateStep {
+  id: string;
+  status: string;
+  error: string;
+  type: 'system_intermediate';
+  parent_id: string;
+  intermediate_parent_id: string;
+  content: {
+    name: string;
+    payload: string;
+  };
+  time_stamp: string;
+  index: number;
+}
+
+// A single unit of output produced from a backend stream line
+export type AdapterStreamPart =
+  | { type: 'text'; text: string }
+  | { type: 'intermediate_step'; step: AdapterIntermediateStep }
+  | { type: 'interaction'; message: any }
+  | { type: 'done' };
+
+// Mutable per-request state shared between stream chunk parser calls
+export interface AdapterStreamState {
+  rawContent: string;
+  stepIndex: number;
+}
+
+export interface BackendAdapter {
+  // Backend path this adapter handles, e.g. '/chat/stream'
+  endpoint: string;
+  // Display name shown in the settings dialog
+  label: string;
+  streaming: boolean;
+  // Whether optionalGenerationParameters are merged into the request body
+  acceptsGenerationParameters?: boolean;
+  // Fields in the request body that optionalGenerationParameters cannot override
+  reservedFields?: string[];
+  buildRequest: (context: AdapterRequestContext) => any | Promise<any>;
+  // Non-streaming: converts the full backend body into the answer text
+  parseResponse: (data: string) => string;
+  // Streaming: converts one backend line into zero or more output parts
+  parseStreamChunk?: (
+    line: string,
+    state: AdapterStreamState,
+  ) => AdapterStreamPart[];
+  // Streaming: called once the backend stream ends without a done marker
+  finalizeStream?: (state: AdapterStreamState) => AdapterStreamPart[];
+}
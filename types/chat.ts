@@ -1,16 +1,46 @@
+import { InteractionRecord } from './interaction';
+
 export interface Message {
   id?: string;
   role: Role;
-  content: string;
+  content: MessageContent;
   intermediateSteps?: any;
-  humanInteractionMessages?: any;
+  humanInteractionMessages?: InteractionRecord[];
   errorMessages?: any;
   timestamp?: number;
   parentId?: string;
+  queued?: boolean; // User message waiting in the WebSocket outbound queue
+  attachments?: MessageAttachment[];
+}
+
+// image and pdf files are kept as data URLs, text-like files as extracted text
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Original file size in bytes
+  kind: AttachmentKind;
+  content: string;
 }
 
 export type Role = 'assistant' | 'user' | 'agent' | 'system';
 
+// OpenAI chat content parts, see
+// https://platform.openai.com/docs/api-reference/chat/create#chat-create-messages
+export type MessageContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } }
+  | {
+      type: 'file';
+      file: { filename?: string; file_data?: string; file_id?: string };
+    }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' | 'mp3' } };
+
+// Plain text, as stored by older conversations, or a list of typed parts
+export type MessageContent = string | MessageContentPart[];
+
 export interface ChatBody {
   messages?: Message[];
   // Additional fields from user's JSON will be merged here
@@ -24,13 +54,23 @@ export interface ChatApiRequest {
   additionalProps?: any;
 }
 
+// Events emitted by /api/chat as newline-delimited JSON, one object per line
+export type ChatStreamEvent =
+  | { type: 'response_delta'; text: string }
+  | { type: 'intermediate_step'; step: any }
+  | { type: 'interaction'; message: any }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
 export interface Conversation {
   id: string;
   name: string;
-  messages: Message[];
+  messages: Message[]; // Active branch, root first
+  branchMessages?: Message[]; // Messages on inactive branches, linked by parentId
   folderId: string | null;
   isHomepageConversation?: boolean; // Flag to track homepage conversations before first message
   selectedStream?: string;  // Determines which live data stream is being displayed (by `stream_id`) see "Data Stream Display" in DATA_STREAMING.md
+  updatedAt?: number; // Epoch ms of the last change sent to the server history, the newer side wins on sync
 }
 
 // WebSocket Message Types
@@ -0,0 +1,147 @@
+// Live, non-finalized text of one stream, overwritten or appended to on each update
+export interface TextData {
+  text: string;
+  stream_id: string;
+  timestamp: number;
+  finalized?: boolean;
+  sequence?: number; // Last sequence number received for the stream
+}
+
+// How a live update changes the stream text: replace it or add a delta to it
+export type StreamUpdateMode = 'replace' | 'append';
+
+// Live update applied to a stream's text in one store operation
+export interface StreamTextUpdate {
+  stream_id: string;
+  text: string; // The whole text for replace updates, the delta for append
+  timestamp: number;
+  mode: StreamUpdateMode;
+  sequence?: number;
+}
+
+// The stream text after an update, or the last sequence when the update is not above it
+export type StreamTextResult =
+  | {
+      text: string;
+      gap: number; // Sequence numbers skipped right before this update
+      created: boolean; // The stream had no live text before
+    }
+  | { conflict: true; last_sequence: number };
+
+// One live update kept in the rolling per-stream history
+export interface StreamSegment {
+  stream_id: string;
+  text: string; // The whole text for replace updates, the delta for append
+  timestamp: number;
+  mode: StreamUpdateMode;
+  sequence?: number;
+  gap?: number; // Sequence numbers missing right before this update
+}
+
+// Where a finalized entry is on its way into the database
+export type IngestionStatus = 'queued' | 'embedding' | 'ingested' | 'failed';
+
+// Text chunk marked for database storage, tracked until it is ingested
+export interface FinalizedDataEntry {
+  text: string;
+  stream_id: string;
+  timestamp: number | string;
+  id: string; // unique identifier for each finalized entry
+  uuid?: string; // UUID from the backend for database tracking
+  pending?: boolean; // true until ingested, kept in step with status for older clients
+  status?: IngestionStatus; // Entries stored before statuses existed only have pending
+  error?: string; // Why the last ingestion attempt failed
+  retries?: number; // Ingestion attempts after the first
+  finalized_at?: number; // When the entry reached the server, epoch ms
+  ingested_at?: number;
+  latency_ms?: number; // From finalized_at to ingested_at, or as reported by the backend
+}
+
+// Ingestion fields PATCH can change
+export type FinalizedEntryUpdate = Partial<
+  Pick<
+    FinalizedDataEntry,
+    'pending' | 'status' | 'error' | 'retries' | 'ingested_at' | 'latency_ms'
+  >
+>;
+
+// Ingestion progress of one stream, from GET ?type=summary
+export interface IngestionSummary {
+  stream_id: string;
+  total: number;
+  counts: Record<IngestionStatus, number>;
+  throughput_per_minute: number; // Entries ingested per minute over the recent window
+  avg_latency_ms: number | null; // null until an entry with a latency is ingested
+  p95_latency_ms: number | null;
+}
+
+/**
+ * Events pushed by /api/data-stream-events, sent as SSE events named after
+ * their type
+ */
+export type DataStreamEvent =
+  | { type: 'streams'; streams: string[] }
+  | {
+      type: 'live-text';
+      stream_id: string;
+      text: string;
+      timestamp: number;
+      segment?: StreamSegment; // The update, absent when finalizing clears the text
+    }
+  | { type: 'finalized-entry'; entry: FinalizedDataEntry }
+  | { type: 'ingestion-status'; entry: FinalizedDataEntry };
+
+export type DataStreamEventType = DataStreamEvent['type'];
+
+// Limits applied by every StreamStore, 0 disables a limit
+export interface StreamRetention {
+  maxEntriesPerStream: number; // Oldest finalized entries beyond this are dropped
+  maxSegmentsPerStream: number; // Oldest live update segments beyond this are dropped
+  ttlMs: number; // Entries, segments and live text older than this are dropped
+}
+
+export interface FinalizedEntryQuery {
+  stream?: string;
+  status?: IngestionStatus;
+  offset?: number;
+  limit?: number; // Every matching entry when omitted
+  order?: 'newest' | 'oldest'; // By timestamp, oldest first by default
+}
+
+export interface FinalizedEntryPage {
+  entries: FinalizedDataEntry[];
+  total: number; // Matching entries before offset and limit
+  streams: string[]; // Every stream with finalized entries
+}
+
+/**
+ * Storage behind /api/update-data-stream
+ * Implementations are asynchronous so they can be backed by files or a database
+ */
+export interface StreamStore {
+  listStreamTexts: () => Promise<{ [streamId: string]: TextData }>;
+  setStreamText: (data: TextData) => Promise<void>;
+  // Checks the sequence and replaces or appends in one step, so concurrent updates cannot interleave
+  updateStreamText: (update: StreamTextUpdate) => Promise<StreamTextResult>;
+  clearStreamText: (streamId: string) => Promise<boolean>; // false when there was no text
+  addStreamSegment: (segment: StreamSegment) => Promise<void>;
+  listStreamSegments: (
+    streamId: string,
+    limit?: number, // The most recent ones, every kept segment when omitted
+  ) => Promise<StreamSegment[]>; // Oldest first
+  addFinalizedEntry: (entry: FinalizedDataEntry) => Promise<void>;
+  listFinalizedEntries: (
+    query: FinalizedEntryQuery,
+  ) => Promise<FinalizedEntryPage>;
+  findFinalizedEntry: (uuid: string) => Promise<FinalizedDataEntry | undefined>;
+  updateFinalizedEntry: (
+    uuid: string,
+    changes: FinalizedEntryUpdate,
+  ) => Promise<FinalizedDataEntry | undefined>;
+}
+
+// Secret allowed to POST and PATCH /api/update-data-stream
+export interface IngestionKey {
+  secret: string; // Sent as a bearer token or used to sign the body
+  streams: string[]; // Stream ids it may write, "prefix*" matches a prefix, "*" any
+}
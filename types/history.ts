@@ -0,0 +1,40 @@
+import { Conversation } from './chat';
+import { FolderInterface } from './folder';
+
+// A conversation change not yet confirmed by the server, kept across reloads
+export interface PendingHistoryChange {
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+// Everything the server keeps for one session cookie
+export interface SessionHistory {
+  conversations: Conversation[];
+  folders: FolderInterface[];
+}
+
+/**
+ * Server-side persistence behind /api/conversations, partitioned by session id
+ * New records are appended, existing ones are replaced in place so the
+ * sidebar order is kept
+ */
+export interface HistoryStore {
+  listConversations: (sessionId: string) => Promise<Conversation[]>;
+  getConversation: (
+    sessionId: string,
+    id: string,
+  ) => Promise<Conversation | undefined>;
+  putConversation: (
+    sessionId: string,
+    conversation: Conversation,
+  ) => Promise<Conversation>;
+  deleteConversation: (sessionId: string, id: string) => Promise<boolean>;
+  clearConversations: (sessionId: string) => Promise<void>;
+  listFolders: (sessionId: string) => Promise<FolderInterface[]>;
+  putFolder: (
+    sessionId: string,
+    folder: FolderInterface,
+  ) => Promise<FolderInterface>;
+  // Conversations in the deleted folder are moved out of it
+  deleteFolder: (sessionId: string, id: string) => Promise<boolean>;
+}
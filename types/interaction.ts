@@ -0,0 +1,90 @@
+/**
+ * Human-in-the-loop interaction schema
+ * Describes the prompt carried in `system_interaction_message.content` and
+ * the typed response collected by InteractionForm
+ */
+
+export type InteractionFieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'date'
+  | 'checkbox' // Single boolean, or several values when options are given
+  | 'dropdown'
+  | 'radio'
+  | 'binary_choice'; // One button per option, submits immediately
+
+export interface InteractionFieldOption {
+  id?: string;
+  label: string;
+  value: string;
+  description?: string;
+}
+
+export interface InteractionField {
+  name: string;
+  type: InteractionFieldType;
+  label?: string;
+  description?: string;
+  placeholder?: string;
+  required?: boolean;
+  default_value?: InteractionValue;
+  options?: InteractionFieldOption[];
+  multiple?: boolean; // dropdown only
+  // number: value bounds, date: ISO date bounds, text: length bounds
+  min?: number | string;
+  max?: number | string;
+  step?: number;
+  min_length?: number;
+  max_length?: number;
+  pattern?: string;
+  pattern_message?: string;
+}
+
+export type InteractionValue = string | number | boolean | string[] | null;
+
+export type InteractionResponse = InteractionValue | Record<string, InteractionValue>;
+
+export interface InteractionContent {
+  // text, textarea, number, date, checkbox, dropdown, radio, binary_choice,
+  // form, notification or oauth_consent; anything else falls back to text
+  input_type?: string;
+  text?: string;
+  required?: boolean;
+  placeholder?: string;
+  options?: InteractionFieldOption[];
+  // Single-field prompts may carry any InteractionField property inline
+  [key: string]: any;
+  fields?: InteractionField[]; // form only
+  submit_label?: string;
+  oauth_url?: string;
+  redirect_url?: string;
+}
+
+// Normalized prompt rendered by InteractionForm
+export interface InteractionSchema {
+  title: string;
+  fields: InteractionField[];
+  // Single-field prompts answer with the bare value, forms with a record
+  isForm: boolean;
+  submitLabel: string;
+  // Set when input_type was not recognized
+  fallback?: boolean;
+}
+
+export type InteractionStatus = 'pending' | 'answered' | 'expired';
+
+// A prompt kept on the assistant message it arrived with, rendered as a card
+export interface InteractionRecord {
+  id: string;
+  status: InteractionStatus;
+  // Original system_interaction_message, its thread_id and parent_id route the answer
+  message: any;
+  receivedAt: number;
+  answeredAt?: number;
+  response?: InteractionResponse;
+  // Epoch ms at which the prompt times out, set from timeout_seconds
+  deadline?: number;
+  // Set when the default response was sent because the prompt timed out
+  autoSubmitted?: boolean;
+}
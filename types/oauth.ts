@@ -0,0 +1,25 @@
+export type OAuthCompletionStatus = 'success' | 'error';
+
+// Posted by /oauth/callback to the chat window once the provider redirects back
+export interface OAuthCompleteMessage {
+  type: 'oauth_complete';
+  status: OAuthCompletionStatus;
+  error?: string;
+}
+
+export type PendingAuthStatus = 'pending' | 'failed';
+
+// OAuth consent a conversation is waiting on, kept per conversation id
+export interface PendingAuth {
+  conversationId: string;
+  url: string; // Validated consent URL, reopened on retry
+  status: PendingAuthStatus;
+  startedAt: number;
+  error?: string;
+}
+
+// Saved before a full-page redirect so the chat can be restored afterwards
+export interface OAuthRedirectReturn {
+  conversationId: string;
+  result?: OAuthCompleteMessage; // Set by /oauth/callback
+}
@@ -0,0 +1,7 @@
+export interface Prompt {
+  id: string;
+  name: string;
+  description: string;
+  content: string; // The prompt body, may contain {{variables}} filled in on insert
+  folderId: string | null;
+}
@@ -0,0 +1,34 @@
+import { Role } from './chat';
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][]; // [start, end) offsets into text
+}
+
+export interface MessageSearchFilters {
+  roles?: Role[];
+  folderId?: string | null; // undefined searches every folder, null only unfiled conversations
+  from?: number; // message timestamp bounds in ms, inclusive
+  to?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  conversationId: string;
+  conversationName: string;
+  messageId?: string;
+  messageIndex: number;
+  role: Role;
+  field: 'content' | 'step'; // message text or intermediate step names and payloads
+  timestamp?: number;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+// Message Chat.tsx scrolls to and flashes, set when a search result is opened
+export interface MessageJumpTarget {
+  conversationId: string;
+  messageIndex: number;
+  messageId?: string;
+  requestedAt: number;
+}
@@ -0,0 +1,50 @@
+// Browser speech recognition, or audio recorded and sent to /api/transcribe
+export type SpeechInputProvider = 'browser' | 'server';
+
+export interface SpeechInputOptions {
+  language: string; // BCP 47 tag, e.g. 'en-US'
+  onTranscript: (text: string) => void; // Full transcript so far
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+// A running recording; stop() ends it and, for the server provider, transcribes it
+export interface SpeechInputSession {
+  stop: () => void;
+  cancel: () => void; // Ends the recording without producing a transcript
+}
+
+// Body of POST /api/transcribe
+export interface TranscribeRequest {
+  audio: string; // base64, without the data URL prefix
+  mimeType: string;
+  language?: string;
+}
+
+export interface TranscribeResponse {
+  text: string;
+}
+
+// Browser speech synthesis, or audio generated by the server behind /api/tts
+export type SpeechOutputProvider = 'browser' | 'server';
+
+export interface SpeechVoice {
+  id: string; // voiceURI for the browser, voice name for the server
+  label: string;
+}
+
+// Body of POST /api/tts, answered with the audio
+export interface TextToSpeechRequest {
+  text: string;
+  voice?: string;
+}
+
+// Sentences queued for playback, read in order
+export interface SpeechPlayback {
+  append: (text: string) => void; // More text, spoken once a sentence is complete
+  finish: () => void; // No more text, speaks what is left
+  stop: () => void;
+}
+
+// Hands-free voice mode: waiting for the user, for the answer, or reading it
+export type VoiceModePhase = 'listening' | 'thinking' | 'speaking';
@@ -15,3 +15,16 @@ export interface LocalStorage {
   showChatbar: boolean;
   showPromptbar: boolean;
 }
+
+/**
+ * Persistence for conversations, one record per conversation
+ * Implementations are asynchronous so they can be backed by IndexedDB
+ */
+export interface ConversationStore {
+  getAll: () => Promise<Conversation[]>;
+  put: (conversations: Conversation[]) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+  getSelectedId: () => Promise<string | null>;
+  setSelectedId: (id: string | null) => Promise<void>;
+}
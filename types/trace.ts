@@ -0,0 +1,55 @@
+export type TraceSpanStatus = 'in_progress' | 'complete' | 'error';
+
+// One tool or LLM step laid out on the trace timeline
+export interface TraceSpan {
+  id: string;
+  parentId?: string; // Enclosing span id, from `intermediate_parent_id` or nesting
+  name: string;
+  depth: number;
+  status: TraceSpanStatus;
+  error?: string;
+  start?: number; // Epoch ms, undefined when the backend sent no timestamps
+  end?: number;
+  duration?: number; // ms
+  payload?: string;
+}
+
+export interface TraceTimeline {
+  spans: TraceSpan[]; // Depth-first, children after their parent
+  start?: number;
+  end?: number;
+}
+
+// OTLP/JSON trace export, see
+// https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { boolValue: boolean };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string; // 32 hex chars
+  spanId: string; // 16 hex chars
+  parentSpanId?: string;
+  name: string;
+  kind: number; // 1 = SPAN_KIND_INTERNAL
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  status: { code: number; message?: string }; // 0 unset, 1 ok, 2 error
+}
+
+export interface OtlpTrace {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: {
+      scope: { name: string; version?: string };
+      spans: OtlpSpan[];
+    }[];
+  }[];
+}
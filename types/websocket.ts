@@ -3,6 +3,8 @@
  * Provides type safety for WebSocket message handling
  */
 
+import { InteractionContent, InteractionResponse } from './interaction';
+
 // Base interface for all WebSocket messages
 export interface WebSocketMessageBase {
   id?: string;
@@ -31,19 +33,18 @@ export interface SystemIntermediateMessage extends WebSocketMessageBase {
     payload?: string;
   };
   index?: number;
+  intermediate_parent_id?: string;
   intermediate_steps?: IntermediateStep[];
 }
 
 // Human interaction message (OAuth, etc.)
 export interface SystemInteractionMessage extends WebSocketMessageBase {
   type: 'system_interaction_message';
-  content?: {
-    input_type?: string;
-    oauth_url?: string;
-    redirect_url?: string;
-    text?: string;
-  };
+  content?: InteractionContent;
   thread_id?: string;
+  // Answer with default_response when nobody replies within timeout_seconds
+  timeout_seconds?: number;
+  default_response?: InteractionResponse;
 }
 
 // Error message
@@ -62,11 +63,56 @@ export type WebSocketInbound =
   | SystemInteractionMessage 
   | ErrorMessage;
 
+// Resume handshake sent after a reconnect so the server can replay missed frames
+export interface UserResumeMessage {
+  type: 'user_resume_message';
+  id: string;
+  content: {
+    // Last message id received per conversation_id
+    last_message_ids: Record<string, string>;
+  };
+  timestamp: string;
+}
+
+// Outbound frame waiting in sessionStorage until the socket reconnects
+export interface QueuedWebSocketFrame {
+  // Matches the user message id for user_message frames
+  id: string;
+  conversationId: string;
+  frame: any;
+  queuedAt: number;
+}
+
+// Client-side WebSocket connection lifecycle
+export type WebSocketConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'failed'
+  | 'closed';
+
+export type WebSocketConnectionEvent =
+  | 'connect'
+  | 'open'
+  | 'close'
+  | 'give_up'
+  | 'disconnect';
+
 // Intermediate step structure
 export interface IntermediateStep {
   id?: string;
   parent_id?: string;
+  // Id of the enclosing tool or LLM step in the workflow call tree
+  intermediate_parent_id?: string;
   index?: number;
+  status?: string;
+  error?: string;
+  // Event time, `time_stamp` from HTTP streams and `timestamp` from WebSocket
+  time_stamp?: string | number;
+  timestamp?: string;
+  // Time of the first event for this step, kept when a later event overrides it
+  started_at?: string | number;
   content?: any;
   intermediate_steps?: IntermediateStep[];
   [key: string]: any;
@@ -0,0 +1,68 @@
+import { withAttachmentText } from '@/utils/app/attachments';
+
+import { BackendAdapter } from '@/types/adapter';
+
+// Track initialized conversations to avoid re-initialization
+const initializedConversations = new Set<string>();
+
+/**
+ * Context-aware RAG /call endpoint, see DATA_STREAMING.md
+ * Initializes the retrieval system once per conversation before the first question
+ */
+export const contextAwareRagAdapter: BackendAdapter = {
+  endpoint: '/call',
+  label: 'Context-Aware RAG — Non-Streaming (Experimental)',
+  streaming: false,
+  buildRequest: async ({ messages, conversationId, serverURL }) => {
+    if (!messages?.length || messages[messages.length - 1]?.role !== 'user') {
+      throw new Error('User message not found: messages array is empty or invalid.');
+    }
+
+    // Combine RAG_UUID and conversation.id to create unique identifier
+    const ragUuid = process.env.RAG_UUID || '123456';
+    const combinedConversationId = `${ragUuid}-${conversationId || 'default'}`;
+
+    if (!initializedConversations.has(combinedConversationId)) {
+      try {
+        // Use URL constructor to properly handle trailing slashes and normalization
+        const initURL = new URL('/init', serverURL).toString();
+        const initResponse = await fetch(initURL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ uuid: ragUuid }),
+        });
+
+        if (!initResponse.ok) {
+          throw new Error(`CA RAG initialization failed: ${initResponse.statusText}`);
+        }
+
+        initializedConversations.add(combinedConversationId);
+      } catch (initError) {
+        throw new Error(`CA RAG initialization failed: ${initError instanceof Error ? initError.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      state: {
+        chat: {
+          question: withAttachmentText(messages[messages.length - 1]),
+        },
+      },
+    };
+  },
+  parseResponse: (data) => {
+    try {
+      const parsed = JSON.parse(data);
+      const content =
+        parsed?.result ||
+        (Array.isArray(parsed?.choices)
+          ? parsed.choices[0]?.message?.content
+          : null) ||
+        parsed ||
+        data;
+      return typeof content === 'string' ? content : JSON.stringify(content);
+    } catch {
+      return data;
+    }
+  },
+};
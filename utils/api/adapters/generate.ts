@@ -0,0 +1,104 @@
+import { withAttachmentText } from '@/utils/app/attachments';
+
+import { BackendAdapter } from '@/types/adapter';
+
+import {
+  isInteractionPayload,
+  parseIntermediateDataLine,
+  parseSseDataLine,
+} from './stream';
+
+const INTERMEDIATE_STEP_TAG = /<intermediatestep>([\s\S]*?)<\/intermediatestep>/;
+
+function buildGeneratePayload({ messages }: { messages: any[] }) {
+  const lastMessage = messages?.at(-1);
+  // Text attachments travel inline, the endpoint only takes a prompt string
+  const userMessage = lastMessage ? withAttachmentText(lastMessage) : '';
+  if (!userMessage) {
+    throw new Error('User message not found.');
+  }
+  return { input_message: userMessage };
+}
+
+/**
+ * Non-streaming /generate endpoint
+ */
+export const generateAdapter: BackendAdapter = {
+  endpoint: '/generate',
+  label: 'Generate — Non-Streaming',
+  streaming: false,
+  buildRequest: buildGeneratePayload,
+  parseResponse: (data) => {
+    try {
+      const parsed = JSON.parse(data);
+      const value =
+        parsed?.value ||
+        parsed?.output ||
+        parsed?.answer ||
+        (Array.isArray(parsed?.choices)
+          ? parsed.choices[0]?.message?.content
+          : null);
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    } catch {
+      return data;
+    }
+  },
+};
+
+/**
+ * Streaming /generate/stream endpoint
+ * Accepts SSE `data:` lines, `intermediate_data:` lines, pre-tagged steps,
+ * and falls back to a single JSON body when the backend does not stream
+ */
+export const generateStreamAdapter: BackendAdapter = {
+  endpoint: '/generate/stream',
+  label: 'Generate — Streaming',
+  streaming: true,
+  buildRequest: buildGeneratePayload,
+  parseResponse: generateAdapter.parseResponse,
+  parseStreamChunk: (line, state) => {
+    const parsed = parseSseDataLine(line);
+    if (parsed === '[DONE]') {
+      return [{ type: 'done' }];
+    }
+    if (isInteractionPayload(parsed)) {
+      return [{ type: 'interaction', message: parsed }];
+    }
+    if (parsed !== null) {
+      const content =
+        parsed?.value ||
+        parsed?.output ||
+        parsed?.answer ||
+        parsed?.choices?.[0]?.message?.content ||
+        parsed?.choices?.[0]?.delta?.content;
+      return content && typeof content === 'string'
+        ? [{ type: 'text', text: content }]
+        : [];
+    }
+
+    const tagged = line.match(INTERMEDIATE_STEP_TAG);
+    if (tagged) {
+      try {
+        return [{ type: 'intermediate_step', step: JSON.parse(tagged[1]) }];
+      } catch {
+        return [];
+      }
+    }
+
+    return parseIntermediateDataLine(line, state);
+  },
+  finalizeStream: (state) => {
+    try {
+      const parsed = JSON.parse(state.rawContent);
+      const value =
+        parsed?.value ||
+        parsed?.output ||
+        parsed?.answer ||
+        parsed?.choices?.[0]?.message?.content;
+      if (value && typeof value === 'string') {
+        return [{ type: 'text', text: value.trim() }];
+      }
+    } catch {}
+    return [];
+  },
+};
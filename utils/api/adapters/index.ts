@@ -0,0 +1,44 @@
+import { BackendAdapter } from '@/types/adapter';
+
+import { contextAwareRagAdapter } from './contextAwareRag';
+import { generateAdapter, generateStreamAdapter } from './generate';
+import { chatAdapter, chatStreamAdapter } from './openaiChat';
+
+/**
+ * Backend adapter registry keyed by endpoint path
+ *
+ * /api/chat, the settings dialog endpoint list and request URL validation all
+ * read from this registry, so a new workflow shape only needs an adapter module
+ * and a registerBackendAdapter call.
+ */
+const adapters = new Map<string, BackendAdapter>();
+
+export function registerBackendAdapter(adapter: BackendAdapter): void {
+  adapters.set(adapter.endpoint, adapter);
+}
+
+export function getBackendAdapter(endpoint: string): BackendAdapter | undefined {
+  return adapters.get(endpoint);
+}
+
+export function getBackendAdapters(): BackendAdapter[] {
+  return Array.from(adapters.values());
+}
+
+// Built-in adapters, registered in the order they appear in settings
+[
+  chatStreamAdapter,
+  chatAdapter,
+  generateStreamAdapter,
+  generateAdapter,
+  contextAwareRagAdapter,
+].forEach(registerBackendAdapter);
+
+export { createAdapterStream } from './stream';
+export {
+  chatAdapter,
+  chatStreamAdapter,
+  contextAwareRagAdapter,
+  generateAdapter,
+  generateStreamAdapter,
+};
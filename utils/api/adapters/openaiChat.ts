@@ -0,0 +1,75 @@
+import { toOpenAIChatMessages } from '@/utils/app/attachments';
+
+import { BackendAdapter } from '@/types/adapter';
+
+import {
+  isInteractionPayload,
+  parseIntermediateDataLine,
+  parseSseDataLine,
+} from './stream';
+
+const CHAT_RESERVED_FIELDS = ['messages', 'stream', 'input_message'];
+
+/**
+ * Non-streaming OpenAI Chat Completions compatible /chat endpoint
+ */
+export const chatAdapter: BackendAdapter = {
+  endpoint: '/chat',
+  label: 'Chat Completions — Non-Streaming',
+  streaming: false,
+  acceptsGenerationParameters: true,
+  reservedFields: CHAT_RESERVED_FIELDS,
+  buildRequest: ({ messages }) => ({
+    messages: toOpenAIChatMessages(messages),
+    stream: false,
+  }),
+  parseResponse: (data) => {
+    try {
+      const parsed = JSON.parse(data);
+      const content =
+        parsed?.output ||
+        parsed?.answer ||
+        parsed?.value ||
+        (Array.isArray(parsed?.choices)
+          ? parsed.choices[0]?.message?.content
+          : null) ||
+        parsed ||
+        data;
+      return typeof content === 'string' ? content : JSON.stringify(content);
+    } catch {
+      return data;
+    }
+  },
+};
+
+/**
+ * Streaming OpenAI Chat Completions compatible /chat/stream endpoint
+ */
+export const chatStreamAdapter: BackendAdapter = {
+  endpoint: '/chat/stream',
+  label: 'Chat Completions — Streaming',
+  streaming: true,
+  acceptsGenerationParameters: true,
+  reservedFields: CHAT_RESERVED_FIELDS,
+  buildRequest: ({ messages }) => ({
+    messages: toOpenAIChatMessages(messages),
+    stream: true,
+  }),
+  parseResponse: chatAdapter.parseResponse,
+  parseStreamChunk: (line, state) => {
+    const parsed = parseSseDataLine(line);
+    if (parsed === '[DONE]') {
+      return [{ type: 'done' }];
+    }
+    if (isInteractionPayload(parsed)) {
+      return [{ type: 'interaction', message: parsed }];
+    }
+    if (parsed !== null) {
+      const content =
+        parsed.choices?.[0]?.message?.content ||
+        parsed.choices?.[0]?.delta?.content;
+      return content ? [{ type: 'text', text: content }] : [];
+    }
+    return parseIntermediateDataLine(line, state);
+  },
+};
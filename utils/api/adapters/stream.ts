@@ -0,0 +1,168 @@
+import {
+  AdapterIntermediateStep,
+  AdapterStreamPart,
+  AdapterStreamState,
+  BackendAdapter,
+} from '@/types/adapter';
+import { ChatStreamEvent } from '@/types/chat';
+import { encodeChatStreamEvent } from '@/utils/chatStream';
+
+const INTERMEDIATE_DATA_PREFIX = 'intermediate_data: ';
+
+/**
+ * Normalizes an `intermediate_data:` payload into the step shape the UI expects
+ */
+export function toIntermediateStep(
+  payload: any,
+  index: number,
+): AdapterIntermediateStep {
+  return {
+    id: payload?.id || '',
+    status: payload?.status || 'in_progress',
+    error: payload?.error || '',
+    type: 'system_intermediate',
+    parent_id: payload?.parent_id || 'default',
+    intermediate_parent_id: payload?.intermediate_parent_id || 'default',
+    content: {
+      name: payload?.name || 'Step',
+      payload: payload?.payload || 'No details',
+    },
+    time_stamp: payload?.time_stamp || 'default',
+    index,
+  };
+}
+
+/**
+ * Parses an `intermediate_data: {...}` line into a step part
+ * Returns an empty list for other lines or malformed JSON
+ */
+export function parseIntermediateDataLine(
+  line: string,
+  state: AdapterStreamState,
+): AdapterStreamPart[] {
+  if (!line.startsWith(INTERMEDIATE_DATA_PREFIX)) {
+    return [];
+  }
+  try {
+    const payload = JSON.parse(line.slice(INTERMEDIATE_DATA_PREFIX.length));
+    return [
+      {
+        type: 'intermediate_step',
+        step: toIntermediateStep(payload, state.stepIndex++),
+      },
+    ];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parses a `data: {...}` SSE line, returning null for other lines or malformed JSON
+ * The literal `[DONE]` sentinel is returned as the string '[DONE]'
+ */
+export function parseSseDataLine(line: string): any | null {
+  if (!line.startsWith('data: ')) {
+    return null;
+  }
+  const data = line.slice(5);
+  if (data.trim() === '[DONE]') {
+    return '[DONE]';
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a parsed SSE payload is a human-in-the-loop interaction request
+ * Uses the same message type as the WebSocket protocol
+ */
+export function isInteractionPayload(parsed: any): boolean {
+  return parsed?.type === 'system_interaction_message';
+}
+
+function toChatStreamEvent(part: AdapterStreamPart): ChatStreamEvent {
+  if (part.type === 'text') {
+    return { type: 'response_delta', text: part.text };
+  }
+  return part;
+}
+
+/**
+ * Reads a backend response line by line through an adapter's stream parser
+ * and re-encodes the resulting parts as NDJSON chat stream events
+ * Always terminates with a `done` event, preceded by an `error` event if the
+ * backend stream fails mid-way
+ */
+export function createAdapterStream(
+  response: Response,
+  adapter: BackendAdapter,
+  { enableIntermediateSteps = true }: { enableIntermediateSteps?: boolean } = {},
+): ReadableStream<Uint8Array> {
+  const reader = response?.body?.getReader();
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const state: AdapterStreamState = { rawContent: '', stepIndex: 0 };
+  let buffer = '';
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+      };
+
+      // Returns false once the adapter signals the end of the stream
+      const emit = (parts: AdapterStreamPart[]): boolean => {
+        for (const part of parts) {
+          if (part.type === 'done') {
+            return false;
+          }
+          if (part.type === 'intermediate_step' && !enableIntermediateSteps) {
+            continue;
+          }
+          if (part.type === 'text' && !part.text) {
+            continue;
+          }
+          send(toChatStreamEvent(part));
+        }
+        return true;
+      };
+
+      try {
+        let open = true;
+        while (open) {
+          const { done, value } = await reader!.read();
+          if (done) {
+            emit(adapter.finalizeStream?.(state) ?? []);
+            break;
+          }
+
+          const chunk = decoder.decode(value, { stream: true });
+          buffer += chunk;
+          state.rawContent += chunk;
+
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (!emit(adapter.parseStreamChunk?.(line, state) ?? [])) {
+              open = false;
+              break;
+            }
+          }
+        }
+      } catch (error) {
+        send({
+          type: 'error',
+          message: `Stream interrupted: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      } finally {
+        send({ type: 'done' });
+        controller.close();
+        reader?.releaseLock();
+      }
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { StreamRetention, StreamStore } from '@/types/dataStream';
+
+import {
+  StreamStoreData,
+  createMemoryStreamStore,
+  emptyStreamStoreData,
+} from './memoryStore';
+
+// Live text changes many times a second, writes are batched over this delay
+const WRITE_DELAY_MS = 1000;
+
+/**
+ * Stream store persisted to one JSON file
+ * The file is read on first use and the data is then served from memory;
+ * changes are written at most once per second through a temporary file and
+ * a rename, so a restart loses at most the last second of updates
+ */
+export const createFileStreamStore = (
+  file: string,
+  retention: StreamRetention,
+): StreamStore => {
+  let store: Promise<StreamStore> | null = null;
+  let data: StreamStoreData | null = null;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const write = () => {
+    writeTimer = null;
+    const snapshot = JSON.stringify(data);
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(temp, snapshot, 'utf8');
+        await fs.rename(temp, file);
+      })
+      .catch((error) => {
+        console.error('Failed to save data streams:', error);
+      });
+  };
+
+  const scheduleWrite = () => {
+    if (!writeTimer) {
+      writeTimer = setTimeout(write, WRITE_DELAY_MS);
+    }
+  };
+
+  const read = async (): Promise<StreamStoreData> => {
+    try {
+      const saved = JSON.parse(await fs.readFile(file, 'utf8'));
+      return {
+        streamTexts:
+          saved?.streamTexts && typeof saved.streamTexts === 'object'
+            ? saved.streamTexts
+            : {},
+        streamSegments:
+          saved?.streamSegments && typeof saved.streamSegments === 'object'
+            ? saved.streamSegments
+            : {},
+        finalizedEntries: Array.isArray(saved?.finalizedEntries)
+          ? saved.finalizedEntries
+          : [],
+      };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return emptyStreamStoreData();
+      }
+      throw error;
+    }
+  };
+
+  const load = () => {
+    if (!store) {
+      store = read().then((saved) => {
+        data = saved;
+        return createMemoryStreamStore(retention, saved, scheduleWrite);
+      });
+      // A failed read is retried on the next call
+      store.catch(() => {
+        store = null;
+      });
+    }
+    return store;
+  };
+
+  return {
+    listStreamTexts: async () => (await load()).listStreamTexts(),
+    setStreamText: async (text) => (await load()).setStreamText(text),
+    updateStreamText: async (update) =>
+      (await load()).updateStreamText(update),
+    clearStreamText: async (streamId) =>
+      (await load()).clearStreamText(streamId),
+    addStreamSegment: async (segment) =>
+      (await load()).addStreamSegment(segment),
+    listStreamSegments: async (streamId, limit) =>
+      (await load()).listStreamSegments(streamId, limit),
+    addFinalizedEntry: async (entry) =>
+      (await load()).addFinalizedEntry(entry),
+    listFinalizedEntries: async (query) =>
+      (await load()).listFinalizedEntries(query),
+    findFinalizedEntry: async (uuid) => (await load()).findFinalizedEntry(uuid),
+    updateFinalizedEntry: async (uuid, changes) =>
+      (await load()).updateFinalizedEntry(uuid, changes),
+  };
+};
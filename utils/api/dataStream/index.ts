@@ -0,0 +1,101 @@
+import {
+  DataStreamEvent,
+  StreamRetention,
+  StreamStore,
+} from '@/types/dataStream';
+
+import { createFileStreamStore } from './fileStore';
+import { createMemoryStreamStore } from './memoryStore';
+
+export { createFileStreamStore } from './fileStore';
+export { createMemoryStreamStore } from './memoryStore';
+
+type Listener = (event: DataStreamEvent) => void;
+
+const DEFAULT_MAX_ENTRIES_PER_STREAM = 1000;
+const DEFAULT_MAX_SEGMENTS_PER_STREAM = 200;
+
+let streamStore: StreamStore | null = null;
+const listeners = new Set<Listener>();
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+/**
+ * Retention from NAT_DATA_STREAM_MAX_ENTRIES (finalized entries kept per
+ * stream, 1000 by default), NAT_DATA_STREAM_HISTORY_SIZE (live update
+ * segments kept per stream, 200 by default) and NAT_DATA_STREAM_TTL_HOURS
+ * (off by default); 0 disables a limit
+ */
+export const getStreamRetention = (): StreamRetention => ({
+  maxEntriesPerStream: readLimit(
+    process.env.NAT_DATA_STREAM_MAX_ENTRIES,
+    DEFAULT_MAX_ENTRIES_PER_STREAM,
+  ),
+  maxSegmentsPerStream: readLimit(
+    process.env.NAT_DATA_STREAM_HISTORY_SIZE,
+    DEFAULT_MAX_SEGMENTS_PER_STREAM,
+  ),
+  ttlMs: readLimit(process.env.NAT_DATA_STREAM_TTL_HOURS, 0) * 60 * 60 * 1000,
+});
+
+/**
+ * Store shared by /api/update-data-stream and /api/data-stream-events
+ * In memory by default, in the JSON file at NAT_DATA_STREAM_STORE_FILE when
+ * set; deployments can plug in their own implementation with setStreamStore
+ */
+export const getStreamStore = (): StreamStore => {
+  if (!streamStore) {
+    const file = process.env.NAT_DATA_STREAM_STORE_FILE;
+    streamStore = file
+      ? createFileStreamStore(file, getStreamRetention())
+      : createMemoryStreamStore(getStreamRetention());
+  }
+  return streamStore;
+};
+
+export const setStreamStore = (store: StreamStore | null) => {
+  streamStore = store;
+};
+
+/**
+ * Registers a listener for every published event, returns the unsubscribe
+ */
+export const subscribeDataStreamEvents = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Sends an event to every subscriber; a failing subscriber is dropped so
+ * one broken connection does not stop the others
+ */
+export const publishDataStreamEvent = (event: DataStreamEvent) => {
+  Array.from(listeners).forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Dropping data stream subscriber:', error);
+      listeners.delete(listener);
+    }
+  });
+};
+
+// Stream id of an event, undefined for events about every stream
+export const getEventStreamId = (event: DataStreamEvent) => {
+  switch (event.type) {
+    case 'live-text':
+      return event.stream_id;
+    case 'finalized-entry':
+    case 'ingestion-status':
+      return event.entry.stream_id;
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,180 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+import { IngestionKey } from '@/types/dataStream';
+
+export const SIGNATURE_HEADER = 'x-data-stream-signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-data-stream-timestamp';
+
+const DEFAULT_MAX_BODY_BYTES = 256 * 1024;
+// Signed requests older or newer than this are rejected, so captured ones cannot be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+// Signatures remembered to stop replays within the tolerance window
+const MAX_SEEN_SIGNATURES = 10000;
+
+// "<timestamp>.<digest>" of accepted signatures, with the time they leave the window
+const seenSignatures = new Map<string, number>();
+
+// Forgets every accepted signature, for tests
+export const clearSeenSignatures = () => seenSignatures.clear();
+
+/**
+ * Records an accepted signature; false when it was already used
+ * Expired entries are dropped once the cache is full, and the oldest ones
+ * after that, so memory stays bounded under a flood of signed requests
+ */
+const rememberSignature = (id: string, expiresAt: number, now: number) => {
+  const seenUntil = seenSignatures.get(id);
+  if (seenUntil !== undefined && seenUntil > now) return false;
+
+  if (seenSignatures.size >= MAX_SEEN_SIGNATURES) {
+    seenSignatures.forEach((until, seen) => {
+      if (until <= now) seenSignatures.delete(seen);
+    });
+  }
+  while (seenSignatures.size >= MAX_SEEN_SIGNATURES) {
+    seenSignatures.delete(seenSignatures.keys().next().value as string);
+  }
+  seenSignatures.set(id, expiresAt);
+  return true;
+};
+
+/**
+ * Ingestion keys from NAT_DATA_STREAM_INGEST_KEYS, entries separated by ";"
+ * Each entry is a secret, allowed to write every stream, or
+ * "secret=stream1,stream2" to limit it to those streams; a stream ending in
+ * "*" matches every stream id with that prefix. No keys leaves writes open.
+ */
+export const getIngestionKeys = (): IngestionKey[] =>
+  (process.env.NAT_DATA_STREAM_INGEST_KEYS || '')
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      if (separator === -1) return { secret: entry, streams: ['*'] };
+      return {
+        secret: entry.slice(0, separator).trim(),
+        streams: entry
+          .slice(separator + 1)
+          .split(',')
+          .map((stream) => stream.trim())
+          .filter(Boolean),
+      };
+    })
+    .filter((key) => key.secret.length > 0);
+
+// Largest POST or PATCH body accepted, from NAT_DATA_STREAM_MAX_BODY_BYTES
+export const getMaxBodyBytes = () => {
+  const parsed = Number(process.env.NAT_DATA_STREAM_MAX_BODY_BYTES);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_BODY_BYTES;
+};
+
+/**
+ * Reads the raw request body, up to maxBytes
+ * Resolves to null when the body is larger, without reading the rest
+ */
+export const readRequestBody = async (
+  req: IncomingMessage,
+  maxBytes: number,
+): Promise<string | null> => {
+  const declared = Number(req.headers['content-length']);
+  if (Number.isFinite(declared) && declared > maxBytes) return null;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > maxBytes) return null;
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Both values are hashed to the same length first, so timing reveals neither their contents nor their lengths
+const COMPARE_KEY = randomBytes(32);
+
+const safeEqual = (a: string, b: string) =>
+  timingSafeEqual(
+    createHmac('sha256', COMPARE_KEY).update(a).digest(),
+    createHmac('sha256', COMPARE_KEY).update(b).digest(),
+  );
+
+const headerValue = (req: IncomingMessage, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+export const signDataStreamBody = (
+  secret: string,
+  timestamp: number | string,
+  body: string,
+) => createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export type IngestionAuthResult =
+  | { ok: true; key: IngestionKey | null } // null when no keys are configured
+  | { ok: false; error: string };
+
+/**
+ * Checks a write request against the ingestion keys
+ * Accepted are "Authorization: Bearer <secret>", or an HMAC-SHA256 of
+ * "<timestamp>.<raw body>" with the secret, sent as
+ * "X-Data-Stream-Signature: sha256=<hex>" with the Unix time in seconds in
+ * X-Data-Stream-Timestamp. Timestamps must be within 5 minutes of the server
+ * clock, and each signature is accepted once while it is within that window;
+ * the record of used signatures is per process, so instances behind a load
+ * balancer do not share it.
+ */
+export const authenticateIngestion = (
+  req: IncomingMessage,
+  rawBody: string,
+  keys: IngestionKey[] = getIngestionKeys(),
+  now: number = Date.now(),
+): IngestionAuthResult => {
+  if (keys.length === 0) return { ok: true, key: null };
+
+  const authorization = headerValue(req, 'authorization');
+  const signature = headerValue(req, SIGNATURE_HEADER);
+
+  if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    const key = keys.find((k) => safeEqual(k.secret, token));
+    return key
+      ? { ok: true, key }
+      : { ok: false, error: 'Invalid ingestion key.' };
+  }
+
+  if (signature) {
+    const timestamp = headerValue(req, SIGNATURE_TIMESTAMP_HEADER) ?? '';
+    const seconds = Number(timestamp);
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      return { ok: false, error: 'Signature timestamp is missing or expired.' };
+    }
+    const digest = signature.startsWith('sha256=')
+      ? signature.slice('sha256='.length)
+      : signature;
+    const key = keys.find((k) =>
+      safeEqual(signDataStreamBody(k.secret, timestamp, rawBody), digest),
+    );
+    if (!key) return { ok: false, error: 'Invalid signature.' };
+    const expiresAt = (seconds + SIGNATURE_TOLERANCE_SECONDS) * 1000;
+    return rememberSignature(`${timestamp}.${digest}`, expiresAt, now)
+      ? { ok: true, key }
+      : { ok: false, error: 'Signature has already been used.' };
+  }
+
+  return { ok: false, error: 'Ingestion key or signature is required.' };
+};
+
+// Whether the key may write the stream; anything goes without keys
+export const canWriteStream = (key: IngestionKey | null, streamId: string) =>
+  !key ||
+  key.streams.some((stream) =>
+    stream.endsWith('*')
+      ? streamId.startsWith(stream.slice(0, -1))
+      : stream === streamId,
+  );
@@ -0,0 +1,205 @@
+import { getIngestionStatus } from '@/utils/app/ingestion';
+
+import {
+  FinalizedDataEntry,
+  StreamRetention,
+  StreamSegment,
+  StreamStore,
+  TextData,
+} from '@/types/dataStream';
+
+export interface StreamStoreData {
+  streamTexts: { [streamId: string]: TextData };
+  streamSegments: { [streamId: string]: StreamSegment[] };
+  finalizedEntries: FinalizedDataEntry[];
+}
+
+export const emptyStreamStoreData = (): StreamStoreData => ({
+  streamTexts: {},
+  streamSegments: {},
+  finalizedEntries: [],
+});
+
+// Timestamps come from producers as epoch milliseconds or ISO strings
+export const toTime = (timestamp: number | string) =>
+  typeof timestamp === 'string' ? new Date(timestamp).getTime() : timestamp;
+
+const byTime = (a: FinalizedDataEntry, b: FinalizedDataEntry) =>
+  (toTime(a.timestamp) || 0) - (toTime(b.timestamp) || 0);
+
+/**
+ * Default stream store, kept in the Node.js process
+ * `data` is changed in place and `onChange` runs after every change, which
+ * lets the file store persist it
+ */
+export const createMemoryStreamStore = (
+  retention: StreamRetention,
+  data: StreamStoreData = emptyStreamStoreData(),
+  onChange: () => void = () => {},
+): StreamStore => {
+  // Unparseable timestamps never expire
+  const isExpired = (timestamp: number | string, now: number) =>
+    retention.ttlMs > 0 && now - toTime(timestamp) > retention.ttlMs;
+
+  const prune = () => {
+    const now = Date.now();
+    let changed = false;
+
+    Object.keys(data.streamTexts).forEach((streamId) => {
+      if (isExpired(data.streamTexts[streamId].timestamp, now)) {
+        delete data.streamTexts[streamId];
+        changed = true;
+      }
+    });
+
+    Object.keys(data.streamSegments).forEach((streamId) => {
+      const segments = data.streamSegments[streamId];
+      const keptSegments = segments.filter(
+        (segment) => !isExpired(segment.timestamp, now),
+      );
+      if (keptSegments.length === 0) {
+        delete data.streamSegments[streamId];
+        changed = true;
+      } else if (keptSegments.length !== segments.length) {
+        data.streamSegments[streamId] = keptSegments;
+        changed = true;
+      }
+    });
+
+    const kept = data.finalizedEntries.filter(
+      (entry) => !isExpired(entry.timestamp, now),
+    );
+    if (kept.length !== data.finalizedEntries.length) {
+      data.finalizedEntries = kept;
+      changed = true;
+    }
+    return changed;
+  };
+
+  // Drops the oldest entries of a stream beyond the per-stream limit
+  const capStream = (streamId: string) => {
+    if (retention.maxEntriesPerStream <= 0) return;
+    const streamEntries = data.finalizedEntries
+      .filter((entry) => entry.stream_id === streamId)
+      .sort(byTime);
+    const excess = streamEntries.length - retention.maxEntriesPerStream;
+    if (excess > 0) {
+      const dropped = new Set(streamEntries.slice(0, excess));
+      data.finalizedEntries = data.finalizedEntries.filter(
+        (entry) => !dropped.has(entry),
+      );
+    }
+  };
+
+  return {
+    listStreamTexts: async () => {
+      if (prune()) onChange();
+      return data.streamTexts;
+    },
+
+    setStreamText: async (text) => {
+      data.streamTexts[text.stream_id] = text;
+      onChange();
+    },
+
+    updateStreamText: async ({ stream_id, text, timestamp, mode, sequence }) => {
+      prune();
+      const current = data.streamTexts[stream_id];
+      const lastSequence = current?.sequence;
+      if (
+        sequence !== undefined &&
+        lastSequence !== undefined &&
+        sequence <= lastSequence
+      ) {
+        return { conflict: true, last_sequence: lastSequence };
+      }
+
+      const streamText =
+        mode === 'append' ? (current?.text ?? '') + text : text;
+      data.streamTexts[stream_id] = {
+        text: streamText,
+        stream_id,
+        timestamp,
+        finalized: false,
+        sequence: sequence ?? lastSequence,
+      };
+      onChange();
+      return {
+        text: streamText,
+        gap:
+          sequence !== undefined && lastSequence !== undefined
+            ? sequence - lastSequence - 1
+            : 0,
+        created: !current,
+      };
+    },
+
+    clearStreamText: async (streamId) => {
+      const current = data.streamTexts[streamId];
+      if (!current) return false;
+      current.text = '';
+      onChange();
+      return true;
+    },
+
+    addStreamSegment: async (segment) => {
+      const segments = data.streamSegments[segment.stream_id] ?? [];
+      segments.push(segment);
+      if (
+        retention.maxSegmentsPerStream > 0 &&
+        segments.length > retention.maxSegmentsPerStream
+      ) {
+        segments.splice(0, segments.length - retention.maxSegmentsPerStream);
+      }
+      data.streamSegments[segment.stream_id] = segments;
+      prune();
+      onChange();
+    },
+
+    listStreamSegments: async (streamId, limit) => {
+      if (prune()) onChange();
+      const segments = data.streamSegments[streamId] ?? [];
+      return limit === undefined ? segments.slice() : segments.slice(-limit);
+    },
+
+    addFinalizedEntry: async (entry) => {
+      data.finalizedEntries.push(entry);
+      prune();
+      capStream(entry.stream_id);
+      onChange();
+    },
+
+    listFinalizedEntries: async ({ stream, status, offset = 0, limit, order }) => {
+      if (prune()) onChange();
+
+      const matching = data.finalizedEntries
+        .filter((entry) => stream === undefined || entry.stream_id === stream)
+        .filter((entry) => status === undefined || getIngestionStatus(entry) === status)
+        .sort(byTime);
+      if (order === 'newest') matching.reverse();
+
+      const start = Math.max(0, offset);
+      return {
+        entries:
+          limit === undefined
+            ? matching.slice(start)
+            : matching.slice(start, start + limit),
+        total: matching.length,
+        streams: Array.from(
+          new Set(data.finalizedEntries.map((entry) => entry.stream_id)),
+        ).sort((a, b) => a.localeCompare(b)),
+      };
+    },
+
+    findFinalizedEntry: async (uuid) =>
+      data.finalizedEntries.find((e) => e.uuid === uuid),
+
+    updateFinalizedEntry: async (uuid, changes) => {
+      const entry = data.finalizedEntries.find((e) => e.uuid === uuid);
+      if (!entry) return undefined;
+      Object.assign(entry, changes);
+      onChange();
+      return entry;
+    },
+  };
+};
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { Conversation } from '@/types/chat';
+import { FolderInterface } from '@/types/folder';
+import { HistoryStore, SessionHistory } from '@/types/history';
+
+const emptyHistory = (): SessionHistory => ({ conversations: [], folders: [] });
+
+const upsert = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some((existing) => existing.id === item.id)
+    ? items.map((existing) => (existing.id === item.id ? item : existing))
+    : [...items, item];
+
+/**
+ * Default history store: one JSON file per session under `rootDir`
+ * File names are a hash of the session id, so cookie values never reach the
+ * file system; writes go through a temporary file and a rename, and are
+ * serialized per session within the process
+ */
+export const createFileHistoryStore = (rootDir: string): HistoryStore => {
+  const locks = new Map<string, Promise<unknown>>();
+
+  const fileFor = (sessionId: string) =>
+    path.join(
+      rootDir,
+      `${createHash('sha256').update(sessionId).digest('hex')}.json`,
+    );
+
+  const read = async (sessionId: string): Promise<SessionHistory> => {
+    try {
+      const data = JSON.parse(await fs.readFile(fileFor(sessionId), 'utf8'));
+      return {
+        conversations: Array.isArray(data?.conversations)
+          ? data.conversations
+          : [],
+        folders: Array.isArray(data?.folders) ? data.folders : [],
+      };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return emptyHistory();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (sessionId: string, history: SessionHistory) => {
+    const file = fileFor(sessionId);
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(rootDir, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(history), 'utf8');
+    await fs.rename(temp, file);
+  };
+
+  // Runs read-modify-write cycles for a session one after another
+  const update = <T>(
+    sessionId: string,
+    change: (history: SessionHistory) => { history?: SessionHistory; result: T },
+  ): Promise<T> => {
+    const previous = locks.get(sessionId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const { history, result } = change(await read(sessionId));
+        if (history) {
+          await write(sessionId, history);
+        }
+        return result;
+      });
+    locks.set(sessionId, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (locks.get(sessionId) === next) {
+          locks.delete(sessionId);
+        }
+      });
+    return next;
+  };
+
+  return {
+    listConversations: async (sessionId) =>
+      (await read(sessionId)).conversations,
+
+    getConversation: async (sessionId, id) =>
+      (await read(sessionId)).conversations.find((c) => c.id === id),
+
+    putConversation: (sessionId, conversation: Conversation) =>
+      update(sessionId, (history) => ({
+        history: {
+          ...history,
+          conversations: upsert(history.conversations, conversation),
+        },
+        result: conversation,
+      })),
+
+    deleteConversation: (sessionId, id) =>
+      update(sessionId, (history) => {
+        const conversations = history.conversations.filter((c) => c.id !== id);
+        const deleted = conversations.length !== history.conversations.length;
+        return {
+          history: deleted ? { ...history, conversations } : undefined,
+          result: deleted,
+        };
+      }),
+
+    clearConversations: (sessionId) =>
+      update(sessionId, (history) => ({
+        history: { ...history, conversations: [] },
+        result: undefined,
+      })),
+
+    listFolders: async (sessionId) => (await read(sessionId)).folders,
+
+    putFolder: (sessionId, folder: FolderInterface) =>
+      update(sessionId, (history) => ({
+        history: { ...history, folders: upsert(history.folders, folder) },
+        result: folder,
+      })),
+
+    deleteFolder: (sessionId, id) =>
+      update(sessionId, (history) => {
+        const folders = history.folders.filter((f) => f.id !== id);
+        if (folders.length === history.folders.length) {
+          return { result: false };
+        }
+        return {
+          history: {
+            folders,
+            conversations: history.conversations.map((c) =>
+              c.folderId === id ? { ...c, folderId: null } : c,
+            ),
+          },
+          result: true,
+        };
+      }),
+  };
+};
@@ -0,0 +1,83 @@
+import path from 'path';
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { SESSION_COOKIE_NAME } from '@/constants/constants';
+
+import { Conversation } from '@/types/chat';
+import { FolderInterface } from '@/types/folder';
+import { HistoryStore } from '@/types/history';
+
+import { createFileHistoryStore } from './fileStore';
+
+export { createFileHistoryStore } from './fileStore';
+
+let historyStore: HistoryStore | null = null;
+
+/**
+ * Store used by /api/conversations
+ * Defaults to JSON files under NAT_CONVERSATION_STORE_DIR (or
+ * `.nat-history` in the working directory); deployments can plug in their
+ * own implementation with setHistoryStore
+ */
+export const getHistoryStore = (): HistoryStore => {
+  if (!historyStore) {
+    historyStore = createFileHistoryStore(
+      process.env.NAT_CONVERSATION_STORE_DIR ||
+        path.join(process.cwd(), '.nat-history'),
+    );
+  }
+  return historyStore;
+};
+
+export const setHistoryStore = (store: HistoryStore | null) => {
+  historyStore = store;
+};
+
+/**
+ * Session id from the cookie issued by middleware.ts
+ * Responds with 401 and returns null when there is none
+ */
+export const requireSessionId = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+): string | null => {
+  const sessionId = req.cookies?.[SESSION_COOKIE_NAME];
+
+  if (!sessionId) {
+    res.status(401).json({ error: 'Session cookie is required.' });
+    return null;
+  }
+  return sessionId;
+};
+
+export const isConversationRecord = (value: any): value is Conversation =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  value.id.length > 0 &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.messages) &&
+  (value.folderId === undefined ||
+    value.folderId === null ||
+    typeof value.folderId === 'string');
+
+export const isFolderRecord = (value: any): value is FolderInterface =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  value.id.length > 0 &&
+  typeof value.name === 'string' &&
+  (value.type === 'chat' || value.type === 'prompt');
+
+/**
+ * Logs the failure and answers with a generic 500
+ */
+export const sendHistoryError = (
+  res: NextApiResponse,
+  action: string,
+  error: unknown,
+) => {
+  console.error(`Failed to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}.` });
+};
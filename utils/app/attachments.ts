@@ -0,0 +1,174 @@
+import { env } from 'next-runtime-env';
+
+import { appConfig } from '@/utils/app/const';
+import { getMessageText } from '@/utils/app/content';
+
+import {
+  AttachmentKind,
+  Message,
+  MessageAttachment,
+  MessageContentPart,
+} from '@/types/chat';
+
+/**
+ * Chat attachments: which files can be attached, and how they are sent
+ *
+ * Images and PDFs travel as data URLs, text-like files (CSV, JSON, text and
+ * source code) are read client-side and travel as their text. OpenAI-style
+ * chat endpoints receive them as `content` part arrays, endpoints that only
+ * take a prompt string get the extracted text appended to it.
+ */
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 2 * 1024 * 1024;
+// Across a whole conversation: every request carries the earlier messages and
+// history sync stores the conversation as one record, both under the default
+// 5mb body limit once base64 encoded
+export const MAX_TOTAL_ATTACHMENT_SIZE = 3 * 1024 * 1024;
+
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-sh',
+  'application/javascript',
+  'application/typescript',
+  'application/sql',
+];
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml',
+  'ini', 'log', 'py', 'js', 'jsx', 'ts', 'tsx', 'java', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'go', 'rs', 'rb', 'php', 'sh', 'sql', 'html', 'css', 'scss', 'kt',
+  'swift', 'r', 'scala',
+];
+
+export const ATTACHMENT_ACCEPT = [
+  'image/*',
+  'application/pdf',
+  'text/*',
+  ...TEXT_MIME_TYPES,
+  ...TEXT_EXTENSIONS.map((extension) => `.${extension}`),
+].join(',');
+
+export const isFileUploadEnabled = () =>
+  appConfig.fileUploadEnabled ||
+  env('NEXT_PUBLIC_NAT_FILE_UPLOAD_ENABLED') === 'true' ||
+  process?.env?.NEXT_PUBLIC_NAT_FILE_UPLOAD_ENABLED === 'true';
+
+const getExtension = (name: string) =>
+  name.includes('.') ? name.split('.').pop()?.toLowerCase() ?? '' : '';
+
+/**
+ * Returns how a file is attached, or null when the type is not supported
+ * Browsers often leave `type` empty for source files, so the extension counts too
+ */
+export const getAttachmentKind = (file: {
+  name: string;
+  type: string;
+}): AttachmentKind | null => {
+  const extension = getExtension(file.name);
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (
+    file.type.startsWith('text/') ||
+    TEXT_MIME_TYPES.includes(file.type) ||
+    TEXT_EXTENSIONS.includes(extension)
+  ) {
+    return 'text';
+  }
+  return null;
+};
+
+/**
+ * Returns an error message when the file cannot be added to the attachments
+ * already on the message, or null when it can
+ * `earlier` holds the attachments of the conversation's sent messages, which
+ * count towards the total size
+ */
+export const validateAttachment = (
+  file: { name: string; type: string; size: number },
+  existing: MessageAttachment[],
+  earlier: MessageAttachment[] = [],
+): string | null => {
+  if (!getAttachmentKind(file)) {
+    return `${file.name}: only images, PDFs, text, CSV, JSON and code files can be attached`;
+  }
+  if (existing.length >= MAX_ATTACHMENTS) {
+    return `At most ${MAX_ATTACHMENTS} files can be attached to a message`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: files must not exceed ${formatAttachmentSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  const total = [...earlier, ...existing].reduce(
+    (sum, attachment) => sum + attachment.size,
+    0,
+  );
+  if (total + file.size > MAX_TOTAL_ATTACHMENT_SIZE) {
+    return `Attachments in a conversation must not exceed ${formatAttachmentSize(MAX_TOTAL_ATTACHMENT_SIZE)} in total`;
+  }
+  return null;
+};
+
+export const formatAttachmentSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+};
+
+// Text files are quoted with their name so the model can tell them apart
+const toAttachmentText = (attachment: MessageAttachment) =>
+  `File: ${attachment.name}\n\`\`\`${getExtension(attachment.name)}\n${attachment.content}\n\`\`\``;
+
+/**
+ * OpenAI chat `content` parts for a message: its text or parts, then one part
+ * per attachment
+ */
+export const toOpenAIContentParts = (
+  message: Pick<Message, 'content' | 'attachments'>,
+): MessageContentPart[] => [
+  ...(Array.isArray(message.content)
+    ? message.content
+    : [{ type: 'text' as const, text: (message.content || '').trim() }]),
+  ...(message.attachments || []).map((attachment): MessageContentPart => {
+    switch (attachment.kind) {
+      case 'image':
+        return { type: 'image_url', image_url: { url: attachment.content } };
+      case 'pdf':
+        return {
+          type: 'file',
+          file: { filename: attachment.name, file_data: attachment.content },
+        };
+      default:
+        return { type: 'text', text: toAttachmentText(attachment) };
+    }
+  }),
+];
+
+/**
+ * Messages for OpenAI-style chat endpoints; plain string messages without
+ * attachments are sent unchanged
+ */
+export const toOpenAIChatMessages = (messages: any[]) =>
+  messages.map(({ attachments, ...message }) =>
+    Array.isArray(attachments) && attachments.length > 0
+      ? { ...message, content: toOpenAIContentParts({ ...message, attachments }) }
+      : message,
+  );
+
+/**
+ * Message text with text attachments appended, for endpoints that take a
+ * single prompt string; images and PDFs cannot be carried and are left out
+ */
+export const withAttachmentText = (
+  message: Pick<Message, 'content' | 'attachments'>,
+): string =>
+  [
+    getMessageText(message.content),
+    ...(message.attachments || [])
+      .filter((attachment) => attachment.kind === 'text')
+      .map(toAttachmentText),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
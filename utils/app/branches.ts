@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { Conversation, Message } from '@/types/chat';
+
+/**
+ * Conversation branching
+ *
+ * `conversation.messages` is always the active path from the root to the
+ * latest message, so rendering and streaming code can treat it as a list.
+ * Messages on other branches live in `conversation.branchMessages` and are
+ * linked to their parent through `parentId`. Together the two lists form the
+ * full message tree; a message is never in both.
+ */
+
+// Siblings are shown in creation order, ids break timestamp ties
+const bySiblingOrder = (a: Message, b: Message) =>
+  (a.timestamp ?? 0) - (b.timestamp ?? 0) ||
+  (a.id ?? '').localeCompare(b.id ?? '');
+
+/**
+ * Gives every message on a linear path an id, a timestamp and a parentId
+ * pointing at the previous message, replacing missing or duplicate ids
+ */
+export const linkMessagePath = (messages: Message[]): Message[] => {
+  const seen = new Set<string>();
+  const now = Date.now();
+  let previousId: string | undefined;
+
+  return messages.map((message, index) => {
+    const id = message.id && !seen.has(message.id) ? message.id : uuidv4();
+    seen.add(id);
+    const linked: Message = {
+      ...message,
+      id,
+      parentId: previousId,
+      timestamp: message.timestamp ?? now + index,
+    };
+    previousId = id;
+    return linked;
+  });
+};
+
+/**
+ * Moves the active path from `fromIndex` onwards into branchMessages so an
+ * edit or regeneration can continue from the message before it
+ * Queued messages that were never sent are dropped instead of kept
+ */
+export const branchConversation = (
+  conversation: Conversation,
+  fromIndex: number,
+): Conversation => {
+  const linked = linkMessagePath(conversation.messages);
+  const tail = linked.slice(fromIndex).filter((message) => !message.queued);
+
+  return {
+    ...conversation,
+    messages: linked.slice(0, fromIndex),
+    branchMessages: [...(conversation.branchMessages ?? []), ...tail],
+  };
+};
+
+/**
+ * Returns the message and its alternatives at the same position in the tree,
+ * in creation order; a message without branches is its own only sibling
+ */
+export const getMessageSiblings = (
+  conversation: Conversation | undefined,
+  message: Message,
+): Message[] => {
+  if (!conversation?.branchMessages?.length || !message.id) {
+    return [message];
+  }
+
+  // On the active path the parent is whatever precedes the message
+  const index = conversation.messages.findIndex((m) => m.id === message.id);
+  const parentId =
+    index >= 0 ? conversation.messages[index - 1]?.id : message.parentId;
+
+  const alternatives = conversation.branchMessages.filter(
+    (m) =>
+      m.id !== message.id && m.parentId === parentId && m.role === message.role,
+  );
+
+  return [message, ...alternatives].sort(bySiblingOrder);
+};
+
+/**
+ * Makes the branch containing `messageId` the active path
+ * Below the selected message the most recent child is followed at each level
+ */
+export const switchBranch = (
+  conversation: Conversation,
+  messageId: string,
+): Conversation => {
+  const all = [
+    ...linkMessagePath(conversation.messages),
+    ...(conversation.branchMessages ?? []),
+  ];
+  const byId = new Map(all.map((message) => [message.id, message]));
+  const target = byId.get(messageId);
+  if (!target) {
+    return conversation;
+  }
+
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let cursor: Message | undefined = target;
+  while (cursor?.id && !visited.has(cursor.id)) {
+    visited.add(cursor.id);
+    path.unshift(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+
+  let last = target;
+  for (;;) {
+    const children = all
+      .filter((m) => m.parentId === last.id && m.id && !visited.has(m.id))
+      .sort(bySiblingOrder);
+    const next = children[children.length - 1];
+    if (!next?.id) break;
+    visited.add(next.id);
+    path.push(next);
+    last = next;
+  }
+
+  return {
+    ...conversation,
+    messages: path,
+    branchMessages: all.filter((m) => !m.id || !visited.has(m.id)),
+  };
+};
+
+/**
+ * Repairs the branches of imported or stored conversations
+ * Branch messages without an id, duplicated on the active path, or whose
+ * parent is missing are dropped; conversations without branches are returned
+ * unchanged
+ */
+export const normalizeMessageTree = (conversation: Conversation): Conversation => {
+  if (conversation.branchMessages === undefined) {
+    return conversation;
+  }
+
+  const messages: Message[] = Array.isArray(conversation.messages)
+    ? conversation.messages
+    : [];
+  const messageIds = new Set(messages.map((m) => m.id).filter(Boolean));
+  let branchMessages = (
+    Array.isArray(conversation.branchMessages)
+      ? conversation.branchMessages
+      : []
+  ).filter((m) => m?.id && !messageIds.has(m.id));
+
+  // Drop orphans until every remaining branch message hangs off a known parent
+  for (;;) {
+    const known = new Set([
+      ...Array.from(messageIds),
+      ...branchMessages.map((m) => m.id),
+    ]);
+    const kept = branchMessages.filter(
+      (m) => m.parentId === undefined || known.has(m.parentId),
+    );
+    if (kept.length === branchMessages.length) break;
+    branchMessages = kept;
+  }
+
+  return {
+    ...conversation,
+    messages,
+    branchMessages: branchMessages.length ? branchMessages : undefined,
+  };
+};
@@ -1,4 +1,25 @@
-import { Conversation } from '@/types/chat';
+import { Conversation, Message } from '@/types/chat';
+
+import { normalizeMessageTree } from './branches';
+import { normalizeMessageContent } from './content';
+
+// Content may be a string or a part array, anything else is repaired
+const cleanMessages = (messages: Message[]): Message[] =>
+  messages.map((message) => {
+    if (!message || typeof message.content === 'string') return message;
+    return { ...message, content: normalizeMessageContent(message.content) };
+  });
+
+const cleanMessageContent = (conversation: Conversation): Conversation => {
+  const cleaned = {
+    ...conversation,
+    messages: cleanMessages(conversation.messages),
+  };
+  if (Array.isArray(conversation.branchMessages)) {
+    cleaned.branchMessages = cleanMessages(conversation.branchMessages);
+  }
+  return cleaned;
+};
 
 export const cleanSelectedConversation = (conversation: Conversation) => {
   let updatedConversation = conversation;
@@ -17,7 +38,7 @@ export const cleanSelectedConversation = (conversation: Conversation) => {
     };
   }
 
-  return updatedConversation;
+  return normalizeMessageTree(cleanMessageContent(updatedConversation));
 };
 
 export const cleanConversationHistory = (history: any[]): Conversation[] => {
@@ -36,7 +57,7 @@ export const cleanConversationHistory = (history: any[]): Conversation[] => {
         conversation.messages = [];
       }
 
-      acc.push(conversation);
+      acc.push(normalizeMessageTree(cleanMessageContent(conversation)));
       return acc;
     } catch (error) {
       console.warn(
@@ -1,10 +1,13 @@
 export const nextEndPoints = {
   chat: 'api/chat',
+  transcribe: 'api/transcribe',
+  tts: 'api/tts',
 };
 
 export const webSocketMessageTypes = {
   userMessage: 'user_message',
   userInteractionMessage: 'user_interaction_message',
+  userResumeMessage: 'user_resume_message',
   systemResponseMessage: 'system_response_message',
   systemIntermediateMessage: 'system_intermediate_message',
   systemInteractionMessage: 'system_interaction_message',
@@ -0,0 +1,86 @@
+import { MessageContent, MessageContentPart } from '@/types/chat';
+
+/**
+ * Accessors for message content, which is either a plain string (older
+ * conversations and streamed assistant text) or an array of OpenAI-style
+ * content parts
+ */
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object';
+
+export const isContentPart = (part: unknown): part is MessageContentPart => {
+  if (!isObject(part)) return false;
+  switch (part.type) {
+    case 'text':
+      return typeof part.text === 'string';
+    case 'image_url':
+      return isObject(part.image_url) && typeof part.image_url.url === 'string';
+    case 'file':
+      return (
+        isObject(part.file) &&
+        (typeof part.file.file_data === 'string' ||
+          typeof part.file.file_id === 'string')
+      );
+    case 'input_audio':
+      return (
+        isObject(part.input_audio) &&
+        typeof part.input_audio.data === 'string' &&
+        typeof part.input_audio.format === 'string'
+      );
+    default:
+      return false;
+  }
+};
+
+/**
+ * Text of the message, text parts joined by blank lines
+ */
+export const getMessageText = (content: MessageContent | undefined | null): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((part): part is Extract<MessageContentPart, { type: 'text' }> => part?.type === 'text')
+    .map((part) => part.text)
+    .join('\n\n');
+};
+
+export const toContentParts = (
+  content: MessageContent | undefined | null,
+): MessageContentPart[] => {
+  if (Array.isArray(content)) return content;
+  return content ? [{ type: 'text', text: content }] : [];
+};
+
+// Image parts may come from imports, only web and inline image URLs are shown
+export const isDisplayableImageUrl = (url: string) =>
+  /^(https?:\/\/|data:image\/)/i.test(url);
+
+// Parts other than text: images, files and audio
+export const getMediaParts = (content: MessageContent | undefined | null) =>
+  toContentParts(content).filter((part) => part.type !== 'text');
+
+export const hasMessageContent = (content: MessageContent | undefined | null) =>
+  getMessageText(content).trim() !== '' || getMediaParts(content).length > 0;
+
+/**
+ * Replaces the text of the message and keeps its other parts
+ * Content with no other parts stays a plain string
+ */
+export const replaceMessageText = (
+  content: MessageContent | undefined | null,
+  text: string,
+): MessageContent => {
+  const media = getMediaParts(content);
+  return media.length > 0 ? [{ type: 'text', text }, ...media] : text;
+};
+
+/**
+ * Repairs content read from storage or an import: strings are kept, arrays
+ * keep their valid parts and anything else becomes an empty string
+ */
+export const normalizeMessageContent = (content: unknown): MessageContent => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.filter(isContentPart);
+  return '';
+};
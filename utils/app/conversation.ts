@@ -2,6 +2,14 @@ import toast from 'react-hot-toast';
 
 import { Conversation, Role } from '@/types/chat';
 
+import { cleanConversationHistory } from './clean';
+import { getConversationStore, migrateSessionStorage } from './conversationStore';
+import {
+  clearServerConversations,
+  pullServerConversations,
+  syncConversations,
+} from './historySync';
+
 export const updateConversation = (
   updatedConversation: Conversation,
   allConversations: Conversation[],
@@ -23,30 +31,102 @@ export const updateConversation = (
   };
 };
 
-export const saveConversation = (conversation: Conversation) => {
+// Last saved version of each conversation, so saves only write what changed
+const persisted = new Map<string, Conversation>();
+
+const handleSaveError = (error: unknown, ids: string[]) => {
+  ids.forEach((id) => persisted.delete(id));
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    console.log('Storage quota exceeded, cannot save conversation.');
+    toast.error('Storage quota exceeded, cannot save conversation.');
+  } else {
+    console.error('Failed to save conversations:', error);
+  }
+};
+
+/**
+ * Loads stored conversations, migrating sessionStorage data on first use and
+ * merging in the server history when it is enabled
+ */
+export const loadConversations = async (): Promise<{
+  conversations: Conversation[];
+  selectedConversation?: Conversation;
+}> => {
+  const store = getConversationStore();
+  await migrateSessionStorage(store);
+
+  const local = cleanConversationHistory(await store.getAll());
+  const selectedId = await store.getSelectedId();
+
+  persisted.clear();
+  local.forEach((c) => persisted.set(c.id, c));
+
+  const conversations = await pullServerConversations(local);
+  if (conversations !== local) {
+    await saveConversations(conversations);
+  }
+
+  return {
+    conversations,
+    selectedConversation: conversations.find((c) => c.id === selectedId),
+  };
+};
+
+/**
+ * Saves the selected conversation and remembers it for the next load
+ */
+export const saveConversation = async (conversation: Conversation) => {
+  persisted.set(conversation.id, conversation);
+  syncConversations([conversation]);
+  const store = getConversationStore();
   try {
-    sessionStorage.setItem(
-      'selectedConversation',
-      JSON.stringify(conversation),
-    );
+    await store.put([conversation]);
+    await store.setSelectedId(conversation.id);
   } catch (error) {
-    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-      console.log('Storage quota exceeded, cannot save conversation.');
-      toast.error('Storage quota exceeded, cannot save conversation.');
+    handleSaveError(error, [conversation.id]);
+  }
+};
+
+/**
+ * Saves the conversation list incrementally: only conversations that changed
+ * since the last save are written and missing ones are deleted
+ */
+export const saveConversations = async (conversations: Conversation[]) => {
+  const changed = conversations.filter((c) => persisted.get(c.id) !== c);
+  const ids = new Set(conversations.map((c) => c.id));
+  const removed = Array.from(persisted.keys()).filter((id) => !ids.has(id));
+
+  changed.forEach((c) => persisted.set(c.id, c));
+  removed.forEach((id) => persisted.delete(id));
+  syncConversations(changed, removed);
+
+  const store = getConversationStore();
+  try {
+    if (removed.length) {
+      await store.remove(removed);
+    }
+    if (changed.length) {
+      await store.put(changed);
     }
+  } catch (error) {
+    handleSaveError(error, changed.map((c) => c.id));
   }
 };
 
-export const saveConversations = (conversations: Conversation[]) => {
+export const clearSelectedConversation = async () => {
   try {
-    sessionStorage.setItem(
-      'conversationHistory',
-      JSON.stringify(conversations),
-    );
+    await getConversationStore().setSelectedId(null);
   } catch (error) {
-    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-      console.log('Storage quota exceeded, cannot save conversations.');
-      toast.error('Storage quota exceeded, cannot save conversation.');
-    }
+    console.error('Failed to clear selected conversation:', error);
+  }
+};
+
+export const clearConversations = async () => {
+  persisted.clear();
+  clearServerConversations();
+  try {
+    await getConversationStore().clear();
+  } catch (error) {
+    console.error('Failed to clear conversations:', error);
   }
 };
@@ -0,0 +1,234 @@
+import { Conversation } from '@/types/chat';
+import { ConversationStore } from '@/types/storage';
+
+const DB_NAME = 'nat-ui';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const META = 'meta';
+const ORDER_KEY = 'conversationOrder';
+const SELECTED_KEY = 'selectedConversationId';
+
+// sessionStorage keys written before conversations moved to the store
+const LEGACY_HISTORY_KEY = 'conversationHistory';
+const LEGACY_SELECTED_KEY = 'selectedConversation';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * IndexedDB backed store with one record per conversation
+ * Records are keyed by id, so the sidebar order is kept in the meta store;
+ * new conversations are appended to it and removed ones dropped from it
+ */
+export const createIndexedDbConversationStore = (
+  factory: IDBFactory = indexedDB,
+): ConversationStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = factory.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+            db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META)) {
+            db.createObjectStore(META);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return database;
+  };
+
+  const readWrite = async (
+    update: (conversations: IDBObjectStore, meta: IDBObjectStore) => void,
+  ) => {
+    const db = await open();
+    const transaction = db.transaction([CONVERSATIONS, META], 'readwrite');
+    update(transaction.objectStore(CONVERSATIONS), transaction.objectStore(META));
+    await transactionDone(transaction);
+  };
+
+  const updateOrder = (
+    meta: IDBObjectStore,
+    change: (order: string[]) => string[],
+  ) => {
+    const request = meta.get(ORDER_KEY);
+    request.onsuccess = () => {
+      const order = Array.isArray(request.result) ? request.result : [];
+      meta.put(change(order), ORDER_KEY);
+    };
+  };
+
+  return {
+    getAll: async () => {
+      const db = await open();
+      const transaction = db.transaction([CONVERSATIONS, META], 'readonly');
+      const [records, order] = await Promise.all([
+        requestResult<Conversation[]>(
+          transaction.objectStore(CONVERSATIONS).getAll(),
+        ),
+        requestResult<string[] | undefined>(
+          transaction.objectStore(META).get(ORDER_KEY),
+        ),
+      ]);
+      const position = new Map((order ?? []).map((id, index) => [id, index]));
+      const rank = (c: Conversation) => position.get(c.id) ?? Infinity;
+      return records.sort((a, b) => rank(a) - rank(b));
+    },
+
+    put: (conversations) =>
+      readWrite((store, meta) => {
+        conversations.forEach((conversation) => store.put(conversation));
+        updateOrder(meta, (order) => {
+          const known = new Set(order);
+          const added = conversations
+            .map((c) => c.id)
+            .filter((id, index, ids) => !known.has(id) && ids.indexOf(id) === index);
+          return added.length ? [...order, ...added] : order;
+        });
+      }),
+
+    remove: (ids) =>
+      readWrite((store, meta) => {
+        ids.forEach((id) => store.delete(id));
+        updateOrder(meta, (order) => order.filter((id) => !ids.includes(id)));
+      }),
+
+    clear: () =>
+      readWrite((store, meta) => {
+        store.clear();
+        meta.clear();
+      }),
+
+    getSelectedId: async () => {
+      const db = await open();
+      const id = await requestResult(
+        db.transaction(META, 'readonly').objectStore(META).get(SELECTED_KEY),
+      );
+      return typeof id === 'string' ? id : null;
+    },
+
+    setSelectedId: (id) =>
+      readWrite((_store, meta) => {
+        if (id === null) {
+          meta.delete(SELECTED_KEY);
+        } else {
+          meta.put(id, SELECTED_KEY);
+        }
+      }),
+  };
+};
+
+/**
+ * In-memory store used where IndexedDB is unavailable (server render, tests)
+ */
+export const createMemoryConversationStore = (): ConversationStore => {
+  const records = new Map<string, Conversation>();
+  let selectedId: string | null = null;
+
+  return {
+    getAll: async () => Array.from(records.values()),
+    put: async (conversations) => {
+      conversations.forEach((c) => records.set(c.id, c));
+    },
+    remove: async (ids) => {
+      ids.forEach((id) => records.delete(id));
+    },
+    clear: async () => {
+      records.clear();
+      selectedId = null;
+    },
+    getSelectedId: async () => selectedId,
+    setSelectedId: async (id) => {
+      selectedId = id;
+    },
+  };
+};
+
+let conversationStore: ConversationStore | null = null;
+
+export const getConversationStore = (): ConversationStore => {
+  if (!conversationStore) {
+    conversationStore =
+      typeof indexedDB !== 'undefined'
+        ? createIndexedDbConversationStore(indexedDB)
+        : createMemoryConversationStore();
+  }
+  return conversationStore;
+};
+
+export const setConversationStore = (store: ConversationStore | null) => {
+  conversationStore = store;
+};
+
+const parseLegacyItem = (key: string) => {
+  const json = sessionStorage.getItem(key);
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    console.error(`Discarding unreadable ${key} from sessionStorage`, e);
+    return null;
+  }
+};
+
+/**
+ * Moves conversations saved by earlier versions from sessionStorage into the
+ * store; the legacy keys are removed once the store has them, so this only
+ * does work on the first load after upgrading
+ * The separately saved selected conversation is newer than its copy in the
+ * history and replaces it
+ */
+export const migrateSessionStorage = async (
+  store: ConversationStore,
+): Promise<boolean> => {
+  const history = parseLegacyItem(LEGACY_HISTORY_KEY);
+  const selected = parseLegacyItem(LEGACY_SELECTED_KEY);
+  if (!history && !selected) {
+    return false;
+  }
+
+  const conversations: Conversation[] = (
+    Array.isArray(history) ? history : []
+  ).filter((c) => c?.id);
+  if (selected?.id) {
+    const index = conversations.findIndex((c) => c.id === selected.id);
+    if (index >= 0) {
+      conversations[index] = selected;
+    } else {
+      conversations.push(selected);
+    }
+  }
+
+  if (conversations.length) {
+    await store.put(conversations);
+  }
+  if (selected?.id) {
+    await store.setSelectedId(selected.id);
+  }
+
+  sessionStorage.removeItem(LEGACY_HISTORY_KEY);
+  sessionStorage.removeItem(LEGACY_SELECTED_KEY);
+  return true;
+};
@@ -0,0 +1,79 @@
+import { DataStreamEvent, DataStreamEventType } from '@/types/dataStream';
+
+export const DATA_STREAM_EVENT_TYPES: DataStreamEventType[] = [
+  'streams',
+  'live-text',
+  'finalized-entry',
+  'ingestion-status',
+];
+
+// Delay before reopening a subscription the browser gave up on
+const RECONNECT_DELAY_MS = 10000;
+
+interface DataStreamSubscriptionOptions {
+  stream?: string; // Only events about this stream, every stream when omitted
+  types?: DataStreamEventType[]; // Only these event types, all when omitted
+  onEvent: (event: DataStreamEvent) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+/**
+ * Subscribes to /api/data-stream-events, returns a function that closes it
+ *
+ * onConnectionChange(false) tells the caller to poll until the connection is
+ * (re)established. Without EventSource support it is called once and the
+ * caller keeps polling.
+ */
+export const subscribeToDataStream = ({
+  stream,
+  types,
+  onEvent,
+  onConnectionChange,
+}: DataStreamSubscriptionOptions) => {
+  if (typeof EventSource === 'undefined') {
+    onConnectionChange(false);
+    return () => {};
+  }
+
+  const params = new URLSearchParams();
+  if (stream !== undefined) params.set('stream', stream);
+  if (types) params.set('types', types.join(','));
+  const query = params.toString();
+  const url = `/api/data-stream-events${query ? `?${query}` : ''}`;
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const handleMessage = (message: MessageEvent) => {
+    try {
+      onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.error('Invalid data stream event:', error);
+    }
+  };
+
+  const open = () => {
+    source = new EventSource(url);
+    source.onopen = () => onConnectionChange(true);
+    source.onerror = () => {
+      onConnectionChange(false);
+      // The browser retries on its own unless the server refused the stream
+      if (source?.readyState === EventSource.CLOSED && !closed) {
+        source = null;
+        reconnectTimer = setTimeout(open, RECONNECT_DELAY_MS);
+      }
+    };
+    (types ?? DATA_STREAM_EVENT_TYPES).forEach((type) =>
+      source?.addEventListener(type, handleMessage as EventListener),
+    );
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    source?.close();
+    source = null;
+  };
+};
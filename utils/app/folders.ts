@@ -1,5 +1,8 @@
 import { FolderInterface } from '@/types/folder';
 
+import { syncFolders } from './historySync';
+
 export const saveFolders = (folders: FolderInterface[]) => {
   sessionStorage.setItem('folders', JSON.stringify(folders));
+  syncFolders(folders);
 };
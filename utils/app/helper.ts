@@ -1,7 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { env } from 'next-runtime-env'
 import { Message, Conversation, WebSocketMessage, SystemResponseMessage, SystemIntermediateMessage, SystemInteractionMessage, ErrorMessage } from '@/types/chat';
+import { IntermediateStep } from '@/types/websocket';
 import { APPLICATION_NAME } from '@/constants/constants';
+import { getMessageText, hasMessageContent } from '@/utils/app/content';
 export const getInitials = (fullName = '') => {
     if (!fullName) {
         return "";
@@ -129,15 +131,6 @@ export const fetchLastMessage = ({messages = [], role = 'user'}: {messages?: Mes
 
 export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-interface IntermediateStep {
-    id?: string;
-    parent_id?: string;
-    index?: number;
-    content?: any;
-    intermediate_steps?: IntermediateStep[];
-    [key: string]: any; // For any additional properties
-}
-
 export const processIntermediateMessage = (
     existingSteps: IntermediateStep[] = [],
     newMessage: IntermediateStep = {} as IntermediateStep,
@@ -152,10 +145,11 @@ export const processIntermediateMessage = (
     const replaceMessage = (steps: IntermediateStep[]): boolean => {
         for (let i = 0; i < steps.length; i++) {
             if (steps[i].id === newMessage.id && steps[i].content?.name === newMessage.content?.name) {
-                // Preserve the index when overriding
+                // Preserve the index and start time when overriding
                 steps[i] = {
                     ...newMessage,
-                    index: steps[i].index
+                    index: steps[i].index,
+                    started_at: steps[i].started_at ?? steps[i].time_stamp ?? steps[i].timestamp
                 };
                 return true;
             }
@@ -413,10 +407,11 @@ export const createAssistantMessage = (
 export const updateConversationTitle = (conversation: Conversation): Conversation => {
     const firstUserMessage = conversation.messages.find((m) => m.role === 'user');
 
-    if (firstUserMessage?.content && conversation.name === 'New Conversation') {
+    const firstUserText = getMessageText(firstUserMessage?.content);
+    if (firstUserText && conversation.name === 'New Conversation') {
         return {
             ...conversation,
-            name: firstUserMessage.content.substring(0, 30),
+            name: firstUserText.substring(0, 30),
         };
     }
 
@@ -438,7 +433,7 @@ export const appendToAssistantContent = (
  * Checks if an assistant message should be rendered (has content or intermediate steps)
  */
 export const shouldRenderAssistantMessage = (message: Message): boolean => {
-    const hasText = !!message.content?.trim();
+    const hasText = hasMessageContent(message.content);
     const hasSteps = !!(message.intermediateSteps && message.intermediateSteps.length > 0);
 
     return message.role !== 'assistant' || hasText || hasSteps;
@@ -0,0 +1,379 @@
+import { env } from 'next-runtime-env';
+
+import { Conversation } from '@/types/chat';
+import { FolderInterface } from '@/types/folder';
+import { PendingHistoryChange } from '@/types/history';
+
+import { cleanConversationHistory } from './clean';
+
+/**
+ * Mirrors the local conversation history to /api/conversations so the same
+ * session cookie sees the same chats in every browser
+ *
+ * Enabled with NEXT_PUBLIC_NAT_SERVER_HISTORY_ON. Conversation writes are
+ * debounced because streaming saves the selected conversation on every chunk.
+ * Conversations and folders the server does not know yet are uploaded when
+ * history is pulled, so local history from before syncing is kept
+ *
+ * Every queued change is stamped with `updatedAt` and recorded in
+ * localStorage until the server confirms it, so edits and deletions made
+ * offline survive a reload. When history is pulled, a recorded change newer
+ * than the server copy wins and is sent again; otherwise the server copy wins.
+ *
+ * The ids the server has confirmed are recorded as well. A conversation or
+ * folder that was confirmed before and is missing on the server was deleted
+ * in another browser, so it is dropped locally instead of uploaded again.
+ */
+
+const CONVERSATIONS_URL = '/api/conversations';
+const FOLDERS_URL = '/api/conversations/folders';
+export const HISTORY_SYNC_DELAY_MS = 1000;
+
+// Last version known to be on the server, compared by reference
+const syncedConversations = new Map<string, Conversation>();
+const syncedFolders = new Map<string, FolderInterface>();
+
+// Conversations waiting to be written, null marks a deletion
+const pending = new Map<string, Conversation | null>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const UNCONFIRMED_KEY = 'historySyncUnconfirmed';
+
+// Changes sent or waiting to be sent, by conversation id, until the server confirms them
+const getUnconfirmed = (): Record<string, PendingHistoryChange> => {
+  try {
+    const unconfirmed = JSON.parse(localStorage.getItem(UNCONFIRMED_KEY) || '{}');
+    return unconfirmed && typeof unconfirmed === 'object' ? unconfirmed : {};
+  } catch (error) {
+    console.error(error);
+    return {};
+  }
+};
+
+const saveUnconfirmed = (unconfirmed: Record<string, PendingHistoryChange>) => {
+  try {
+    if (Object.keys(unconfirmed).length === 0) {
+      localStorage.removeItem(UNCONFIRMED_KEY);
+    } else {
+      localStorage.setItem(UNCONFIRMED_KEY, JSON.stringify(unconfirmed));
+    }
+  } catch (error) {
+    console.error('Failed to save unsynced history changes:', error);
+  }
+};
+
+const CONFIRMED_CONVERSATIONS_KEY = 'historySyncConfirmedConversations';
+const CONFIRMED_FOLDERS_KEY = 'historySyncConfirmedFolders';
+
+// Ids the server is known to have had, so a missing one was deleted elsewhere
+const getConfirmedIds = (key: string): Set<string> => {
+  try {
+    const ids = JSON.parse(localStorage.getItem(key) || '[]');
+    return new Set(Array.isArray(ids) ? ids : []);
+  } catch (error) {
+    console.error(error);
+    return new Set();
+  }
+};
+
+const saveConfirmedIds = (key: string, ids: Set<string>) => {
+  try {
+    if (ids.size === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(Array.from(ids)));
+    }
+  } catch (error) {
+    console.error('Failed to save synced history ids:', error);
+  }
+};
+
+const markConfirmed = (key: string, id: string, onServer: boolean) => {
+  const ids = getConfirmedIds(key);
+  if (ids.has(id) === onServer) return;
+  if (onServer) {
+    ids.add(id);
+  } else {
+    ids.delete(id);
+  }
+  saveConfirmedIds(key, ids);
+};
+
+// Drops the record of a change once the server has it, unless a newer one was queued meanwhile
+const confirmChange = (id: string, updatedAt: number) => {
+  const unconfirmed = getUnconfirmed();
+  if (unconfirmed[id]?.updatedAt === updatedAt) {
+    delete unconfirmed[id];
+    saveUnconfirmed(unconfirmed);
+  }
+};
+
+export const isServerHistoryEnabled = () =>
+  env('NEXT_PUBLIC_NAT_SERVER_HISTORY_ON') === 'true' ||
+  process?.env?.NEXT_PUBLIC_NAT_SERVER_HISTORY_ON === 'true';
+
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    credentials: 'same-origin',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  // A conversation deleted elsewhere is already gone
+  if (!response.ok && !(init?.method === 'DELETE' && response.status === 404)) {
+    throw new Error(`${init?.method ?? 'GET'} ${url} failed: ${response.status}`);
+  }
+  return response;
+};
+
+const conversationUrl = (id: string) =>
+  `${CONVERSATIONS_URL}/${encodeURIComponent(id)}`;
+
+const folderUrl = (id: string) => `${FOLDERS_URL}/${encodeURIComponent(id)}`;
+
+export const flushHistorySync = async () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const batch = Array.from(pending.entries());
+  pending.clear();
+  const unconfirmed = getUnconfirmed();
+
+  await Promise.all(
+    batch.map(async ([id, conversation]) => {
+      const updatedAt = conversation?.updatedAt ?? unconfirmed[id]?.updatedAt;
+      try {
+        if (conversation) {
+          await request(conversationUrl(id), {
+            method: 'PUT',
+            body: JSON.stringify(conversation),
+          });
+        } else {
+          await request(conversationUrl(id), { method: 'DELETE' });
+        }
+        if (updatedAt !== undefined) confirmChange(id, updatedAt);
+        markConfirmed(CONFIRMED_CONVERSATIONS_KEY, id, Boolean(conversation));
+      } catch (error) {
+        // Forget the synced version so the next save retries; the recorded
+        // change is sent again after a reload otherwise
+        syncedConversations.delete(id);
+        console.error('Failed to sync conversation history:', error);
+      }
+    }),
+  );
+};
+
+const scheduleFlush = () => {
+  if (!flushTimer) {
+    flushTimer = setTimeout(flushHistorySync, HISTORY_SYNC_DELAY_MS);
+  }
+};
+
+// Queues a write or deletion (null) and records it until the server confirms it
+const queueChange = (
+  id: string,
+  conversation: Conversation | null,
+  updatedAt: number,
+  unconfirmed: Record<string, PendingHistoryChange>,
+) => {
+  pending.set(id, conversation && { ...conversation, updatedAt });
+  unconfirmed[id] = conversation ? { updatedAt } : { updatedAt, deleted: true };
+};
+
+/**
+ * Queues changed conversations and deletions for the server
+ */
+export const syncConversations = (
+  conversations: Conversation[],
+  removedIds: string[] = [],
+) => {
+  if (!isServerHistoryEnabled()) return;
+
+  const now = Date.now();
+  const unconfirmed = getUnconfirmed();
+  const changed = conversations.filter((c) => syncedConversations.get(c.id) !== c);
+  changed.forEach((c) => {
+    syncedConversations.set(c.id, c);
+    queueChange(c.id, c, now, unconfirmed);
+  });
+  removedIds.forEach((id) => {
+    syncedConversations.delete(id);
+    queueChange(id, null, now, unconfirmed);
+  });
+
+  if (changed.length || removedIds.length) {
+    saveUnconfirmed(unconfirmed);
+  }
+  if (pending.size) {
+    scheduleFlush();
+  }
+};
+
+export const clearServerConversations = async () => {
+  if (!isServerHistoryEnabled()) return;
+
+  pending.clear();
+  syncedConversations.clear();
+  saveUnconfirmed({});
+  saveConfirmedIds(CONFIRMED_CONVERSATIONS_KEY, new Set());
+  try {
+    await request(CONVERSATIONS_URL, { method: 'DELETE' });
+  } catch (error) {
+    console.error('Failed to clear server conversation history:', error);
+  }
+};
+
+/**
+ * Writes changed folders and deletes removed ones right away
+ */
+export const syncFolders = async (folders: FolderInterface[]) => {
+  if (!isServerHistoryEnabled()) return;
+
+  const ids = new Set(folders.map((f) => f.id));
+  const changed = folders.filter((f) => syncedFolders.get(f.id) !== f);
+  const removed = Array.from(syncedFolders.keys()).filter((id) => !ids.has(id));
+
+  changed.forEach((f) => syncedFolders.set(f.id, f));
+  removed.forEach((id) => syncedFolders.delete(id));
+
+  await Promise.all([
+    ...changed.map((folder) =>
+      request(folderUrl(folder.id), {
+        method: 'PUT',
+        body: JSON.stringify(folder),
+      })
+        .then(() => markConfirmed(CONFIRMED_FOLDERS_KEY, folder.id, true))
+        .catch((error) => {
+          syncedFolders.delete(folder.id);
+          console.error('Failed to sync folder:', error);
+        }),
+    ),
+    ...removed.map((id) =>
+      request(folderUrl(id), { method: 'DELETE' })
+        .then(() => markConfirmed(CONFIRMED_FOLDERS_KEY, id, false))
+        .catch((error) => console.error('Failed to delete folder:', error)),
+    ),
+  ]);
+};
+
+// Server records first, then local records the server never had; local
+// records it confirmed before and no longer has were deleted elsewhere
+const mergeById = <T extends { id: string }>(
+  remote: T[],
+  local: T[],
+  confirmedIds: Set<string>,
+) => {
+  const remoteIds = new Set(remote.map((item) => item.id));
+  const missing = local.filter((item) => !remoteIds.has(item.id));
+  const localOnly = missing.filter((item) => !confirmedIds.has(item.id));
+  const deletedElsewhere = missing.filter((item) => confirmedIds.has(item.id));
+  return {
+    merged: [...remote, ...localOnly],
+    localOnly,
+    deletedElsewhere,
+    remoteIds,
+  };
+};
+
+/**
+ * Merges the server history into the local conversations, uploads the local
+ * ones it never had and drops the ones deleted in another browser; returns the local list unchanged when syncing is
+ * off or the server cannot be reached
+ *
+ * Where both sides have a conversation, the server copy wins unless a local
+ * change or deletion newer than it was never confirmed; that change is kept
+ * and sent again
+ */
+export const pullServerConversations = async (
+  local: Conversation[],
+): Promise<Conversation[]> => {
+  if (!isServerHistoryEnabled()) return local;
+
+  try {
+    const response = await request(CONVERSATIONS_URL);
+    const { conversations } = await response.json();
+    const remote = cleanConversationHistory(
+      Array.isArray(conversations) ? conversations : [],
+    );
+
+    const unconfirmed = getUnconfirmed();
+    const localById = new Map(local.map((c) => [c.id, c]));
+    const resolved = remote.flatMap((serverCopy): Conversation[] => {
+      const change = unconfirmed[serverCopy.id];
+      const localCopy = localById.get(serverCopy.id);
+      const localIsNewer =
+        change !== undefined && change.updatedAt > (serverCopy.updatedAt ?? 0);
+
+      if (localIsNewer && change.deleted) {
+        queueChange(serverCopy.id, null, change.updatedAt, unconfirmed);
+        return [];
+      }
+      if (localIsNewer && localCopy) {
+        const kept = { ...localCopy, updatedAt: change.updatedAt };
+        syncedConversations.set(kept.id, kept);
+        queueChange(kept.id, kept, change.updatedAt, unconfirmed);
+        return [kept];
+      }
+      delete unconfirmed[serverCopy.id];
+      syncedConversations.set(serverCopy.id, serverCopy);
+      return [serverCopy];
+    });
+
+    const { localOnly, deletedElsewhere, remoteIds } = mergeById(
+      remote,
+      local,
+      getConfirmedIds(CONFIRMED_CONVERSATIONS_KEY),
+    );
+    saveConfirmedIds(CONFIRMED_CONVERSATIONS_KEY, remoteIds);
+    deletedElsewhere.forEach((c) => delete unconfirmed[c.id]);
+
+    // Deletions of conversations the server no longer has are done
+    Object.keys(unconfirmed)
+      .filter((id) => unconfirmed[id].deleted && !remoteIds.has(id))
+      .forEach((id) => delete unconfirmed[id]);
+    saveUnconfirmed(unconfirmed);
+
+    syncConversations(localOnly);
+    if (pending.size) scheduleFlush();
+    return [...resolved, ...localOnly];
+  } catch (error) {
+    console.error('Failed to load server conversation history:', error);
+    return local;
+  }
+};
+
+export const pullServerFolders = async (
+  local: FolderInterface[],
+): Promise<FolderInterface[]> => {
+  if (!isServerHistoryEnabled()) return local;
+
+  try {
+    const response = await request(FOLDERS_URL);
+    const { folders } = await response.json();
+    const remote: FolderInterface[] = Array.isArray(folders) ? folders : [];
+
+    remote.forEach((f) => syncedFolders.set(f.id, f));
+    const { merged, remoteIds } = mergeById(
+      remote,
+      local,
+      getConfirmedIds(CONFIRMED_FOLDERS_KEY),
+    );
+    saveConfirmedIds(CONFIRMED_FOLDERS_KEY, remoteIds);
+    await syncFolders(merged);
+    return merged;
+  } catch (error) {
+    console.error('Failed to load server folders:', error);
+    return local;
+  }
+};
+
+// Exposed for tests; recorded changes stay in localStorage, as after a reload
+export const resetHistorySync = () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  pending.clear();
+  syncedConversations.clear();
+  syncedFolders.clear();
+};
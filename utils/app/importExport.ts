@@ -11,6 +11,12 @@ import { FolderInterface } from '@/types/folder';
 import { Prompt } from '@/types/prompt';
 
 import { cleanConversationHistory } from './clean';
+import {
+  clearSelectedConversation,
+  saveConversation,
+  saveConversations,
+} from './conversation';
+import { getConversationStore } from './conversationStore';
 
 export function isExportFormatV1(obj: any): obj is ExportFormatV1 {
   return Array.isArray(obj);
@@ -54,11 +60,16 @@ export function cleanData(data: SupportedExportFormats): LatestExportFormat {
   }
 
   if (isExportFormatV3(data)) {
-    return { ...data, version: 4, prompts: [] };
+    return {
+      ...data,
+      version: 4,
+      history: cleanConversationHistory(data.history || []),
+      prompts: [],
+    };
   }
 
   if (isExportFormatV4(data)) {
-    return data;
+    return { ...data, history: cleanConversationHistory(data.history || []) };
   }
 
   throw new Error('Unsupported data format');
@@ -71,15 +82,11 @@ function currentDate() {
   return `${month}-${day}`;
 }
 
-export const exportData = () => {
-  let history = sessionStorage.getItem('conversationHistory');
+export const exportData = async () => {
+  const history = await getConversationStore().getAll();
   let folders = sessionStorage.getItem('folders');
   let prompts = sessionStorage.getItem('prompts');
 
-  if (history) {
-    history = JSON.parse(history);
-  }
-
   if (folders) {
     folders = JSON.parse(folders);
   }
@@ -109,15 +116,12 @@ export const exportData = () => {
   URL.revokeObjectURL(url);
 };
 
-export const importData = (
+export const importData = async (
   data: SupportedExportFormats,
-): LatestExportFormat => {
+): Promise<LatestExportFormat> => {
   const { history, folders, prompts } = cleanData(data);
 
-  const oldConversations = sessionStorage.getItem('conversationHistory');
-  const oldConversationsParsed = oldConversations
-    ? JSON.parse(oldConversations)
-    : [];
+  const oldConversationsParsed = await getConversationStore().getAll();
 
   const newHistory: Conversation[] = [
     ...oldConversationsParsed,
@@ -126,14 +130,11 @@ export const importData = (
     (conversation, index, self) =>
       index === self.findIndex((c) => c.id === conversation.id),
   );
-  sessionStorage.setItem('conversationHistory', JSON.stringify(newHistory));
+  await saveConversations(newHistory);
   if (newHistory.length > 0) {
-    sessionStorage.setItem(
-      'selectedConversation',
-      JSON.stringify(newHistory[newHistory.length - 1]),
-    );
+    await saveConversation(newHistory[newHistory.length - 1]);
   } else {
-    sessionStorage.removeItem('selectedConversation');
+    await clearSelectedConversation();
   }
 
   const oldFolders = sessionStorage.getItem('folders');
@@ -0,0 +1,93 @@
+import {
+  FinalizedDataEntry,
+  IngestionStatus,
+  IngestionSummary,
+} from '@/types/dataStream';
+
+export const INGESTION_STATUSES: IngestionStatus[] = [
+  'queued',
+  'embedding',
+  'ingested',
+  'failed',
+];
+
+// Throughput counts the entries ingested within this window
+export const THROUGHPUT_WINDOW_MS = 5 * 60 * 1000;
+
+export const isIngestionStatus = (value: unknown): value is IngestionStatus =>
+  INGESTION_STATUSES.includes(value as IngestionStatus);
+
+/**
+ * Status of an entry; entries stored before statuses existed only carry
+ * pending, which maps to queued or ingested
+ */
+export const getIngestionStatus = (entry: FinalizedDataEntry): IngestionStatus =>
+  entry.status ?? (entry.pending === false ? 'ingested' : 'queued');
+
+const emptyCounts = (): Record<IngestionStatus, number> => ({
+  queued: 0,
+  embedding: 0,
+  ingested: 0,
+  failed: 0,
+});
+
+/**
+ * Per-stream status counts, recent throughput and ingestion latency,
+ * sorted by stream id
+ */
+export const summarizeIngestion = (
+  entries: FinalizedDataEntry[],
+  now: number = Date.now(),
+): IngestionSummary[] => {
+  const byStream = new Map<string, FinalizedDataEntry[]>();
+  entries.forEach((entry) => {
+    const streamEntries = byStream.get(entry.stream_id);
+    if (streamEntries) {
+      streamEntries.push(entry);
+    } else {
+      byStream.set(entry.stream_id, [entry]);
+    }
+  });
+
+  return Array.from(byStream.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .map((streamId) => {
+      const streamEntries = byStream.get(streamId) ?? [];
+      const counts = emptyCounts();
+      streamEntries.forEach((entry) => {
+        counts[getIngestionStatus(entry)] += 1;
+      });
+
+      const recent = streamEntries.filter(
+        (entry) =>
+          entry.ingested_at !== undefined &&
+          now - entry.ingested_at <= THROUGHPUT_WINDOW_MS,
+      ).length;
+
+      const latencies = streamEntries
+        .filter((entry) => getIngestionStatus(entry) === 'ingested')
+        .map((entry) => entry.latency_ms)
+        .filter((latency): latency is number => typeof latency === 'number')
+        .sort((a, b) => a - b);
+
+      return {
+        stream_id: streamId,
+        total: streamEntries.length,
+        counts,
+        throughput_per_minute: recent / (THROUGHPUT_WINDOW_MS / 60000),
+        avg_latency_ms: latencies.length
+          ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+          : null,
+        p95_latency_ms: latencies.length
+          ? latencies[Math.ceil(latencies.length * 0.95) - 1]
+          : null,
+      };
+    });
+};
+
+// Short duration for latencies: "850 ms", "1.2 s", "3.4 min"
+export const formatLatency = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${(ms / 60000).toFixed(1)} min`;
+};
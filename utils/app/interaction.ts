@@ -0,0 +1,289 @@
+import {
+  InteractionContent,
+  InteractionField,
+  InteractionFieldType,
+  InteractionResponse,
+  InteractionSchema,
+  InteractionValue,
+} from '@/types/interaction';
+
+/**
+ * Normalizes human-in-the-loop prompts into a field schema, validates the
+ * values entered for it and shapes them into the response sent back
+ *
+ * Legacy single-input prompts (`text`, `radio`, `binary_choice`, ...) become
+ * a one-field schema answered with the bare value; `form` prompts list their
+ * fields and are answered with a record keyed by field name.
+ */
+
+export const SINGLE_FIELD_NAME = 'response';
+
+const FIELD_TYPES: InteractionFieldType[] = [
+  'text',
+  'textarea',
+  'number',
+  'date',
+  'checkbox',
+  'dropdown',
+  'radio',
+  'binary_choice',
+];
+
+const CHOICE_TYPES: InteractionFieldType[] = [
+  'checkbox',
+  'dropdown',
+  'radio',
+  'binary_choice',
+];
+
+// Field properties a single-field prompt may carry inline on its content
+const INLINE_FIELD_KEYS: (keyof InteractionField)[] = [
+  'placeholder',
+  'required',
+  'default_value',
+  'options',
+  'multiple',
+  'min',
+  'max',
+  'step',
+  'min_length',
+  'max_length',
+  'pattern',
+  'pattern_message',
+];
+
+const isFieldType = (type: unknown): type is InteractionFieldType =>
+  FIELD_TYPES.includes(type as InteractionFieldType);
+
+const hasOptions = (field: InteractionField) =>
+  Array.isArray(field.options) && field.options.length > 0;
+
+// Fields whose value is a list of selected option values
+export const isMultiValueField = (field: InteractionField) =>
+  (field.type === 'checkbox' && hasOptions(field)) ||
+  (field.type === 'dropdown' && !!field.multiple);
+
+const sanitizeField = (field: any, index: number): InteractionField | null => {
+  if (!field || typeof field !== 'object') return null;
+  return {
+    ...field,
+    name: field.name ? String(field.name) : `field_${index}`,
+    type: isFieldType(field.type) ? field.type : 'text',
+    options: Array.isArray(field.options)
+      ? field.options.filter((option: any) => option && option.value !== undefined)
+      : undefined,
+  };
+};
+
+export const toInteractionSchema = (
+  content: InteractionContent = {},
+): InteractionSchema => {
+  const title = content.text || 'Input requested';
+  const submitLabel = content.submit_label || 'Submit';
+
+  if (content.input_type === 'form') {
+    const fields = (Array.isArray(content.fields) ? content.fields : [])
+      .map(sanitizeField)
+      .filter((field): field is InteractionField => field !== null);
+    if (fields.length > 0) {
+      return { title, fields, isForm: true, submitLabel };
+    }
+  }
+
+  const inline = INLINE_FIELD_KEYS.reduce<Partial<InteractionField>>(
+    (picked, key) =>
+      content[key] === undefined ? picked : { ...picked, [key]: content[key] },
+    {},
+  );
+
+  // The original text prompt rendered a textarea
+  if (content.input_type === 'text') {
+    return {
+      title,
+      fields: [{ ...inline, name: SINGLE_FIELD_NAME, type: 'textarea' }],
+      isForm: false,
+      submitLabel,
+    };
+  }
+
+  if (isFieldType(content.input_type)) {
+    return {
+      title,
+      fields: [{ ...inline, name: SINGLE_FIELD_NAME, type: content.input_type }],
+      isForm: false,
+      submitLabel,
+    };
+  }
+
+  // Unknown prompt: offer its options if it has any, free text otherwise
+  const options = Array.isArray(content.options) ? content.options : [];
+  return {
+    title,
+    fields: [
+      {
+        ...inline,
+        name: SINGLE_FIELD_NAME,
+        type: options.length > 0 ? 'radio' : 'textarea',
+      },
+    ],
+    isForm: false,
+    submitLabel,
+    fallback: true,
+  };
+};
+
+const emptyValue = (field: InteractionField): InteractionValue => {
+  if (isMultiValueField(field)) return [];
+  if (field.type === 'checkbox') return false;
+  return '';
+};
+
+export const initialInteractionValues = (
+  schema: InteractionSchema,
+): Record<string, InteractionValue> =>
+  schema.fields.reduce<Record<string, InteractionValue>>((values, field) => {
+    const fallback = emptyValue(field);
+    let value = field.default_value ?? fallback;
+    if (Array.isArray(fallback) && !Array.isArray(value)) {
+      value = value === '' || value === null ? [] : [String(value)];
+    } else if (field.type === 'number' && typeof value === 'number') {
+      // Number inputs are edited as strings
+      value = String(value);
+    }
+    return { ...values, [field.name]: value };
+  }, {});
+
+const isEmpty = (value: InteractionValue | undefined) =>
+  value === undefined ||
+  value === null ||
+  value === false ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const matchesPattern = (pattern: string, value: string) => {
+  try {
+    // Anchored like the HTML pattern attribute
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Returns an error message for an invalid value, or null when it is valid
+ */
+export const validateInteractionField = (
+  field: InteractionField,
+  value: InteractionValue | undefined,
+): string | null => {
+  if (isEmpty(value)) {
+    if (!field.required) return null;
+    return CHOICE_TYPES.includes(field.type) && hasOptions(field)
+      ? 'Please select an option.'
+      : 'This field is required.';
+  }
+
+  if (CHOICE_TYPES.includes(field.type) && hasOptions(field)) {
+    const allowed = new Set(field.options?.map((option) => String(option.value)));
+    const selected = Array.isArray(value) ? value : [value];
+    if (selected.some((item) => !allowed.has(String(item)))) {
+      return 'Select a valid option.';
+    }
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || Number.isNaN(number)) {
+        return 'Enter a valid number.';
+      }
+      if (field.min !== undefined && number < Number(field.min)) {
+        return `Must be at least ${field.min}.`;
+      }
+      if (field.max !== undefined && number > Number(field.max)) {
+        return `Must be at most ${field.max}.`;
+      }
+      return null;
+    }
+    case 'date': {
+      const date = String(value);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+        return 'Enter a valid date.';
+      }
+      if (field.min !== undefined && date < String(field.min)) {
+        return `Must be on or after ${field.min}.`;
+      }
+      if (field.max !== undefined && date > String(field.max)) {
+        return `Must be on or before ${field.max}.`;
+      }
+      return null;
+    }
+    case 'text':
+    case 'textarea': {
+      const text = String(value);
+      if (field.min_length !== undefined && text.length < field.min_length) {
+        return `Must be at least ${field.min_length} characters.`;
+      }
+      if (field.max_length !== undefined && text.length > field.max_length) {
+        return `Must be at most ${field.max_length} characters.`;
+      }
+      if (field.pattern && !matchesPattern(field.pattern, text)) {
+        return field.pattern_message || 'Invalid format.';
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const validateInteraction = (
+  schema: InteractionSchema,
+  values: Record<string, InteractionValue>,
+): Record<string, string> =>
+  schema.fields.reduce<Record<string, string>>((errors, field) => {
+    const error = validateInteractionField(field, values[field.name]);
+    return error ? { ...errors, [field.name]: error } : errors;
+  }, {});
+
+/**
+ * Converts edited values to their typed response: numbers become numbers and
+ * empty optional numbers become null
+ */
+export const toInteractionResponse = (
+  schema: InteractionSchema,
+  values: Record<string, InteractionValue>,
+): InteractionResponse => {
+  const typed = schema.fields.reduce<Record<string, InteractionValue>>(
+    (result, field) => {
+      let value = values[field.name] ?? emptyValue(field);
+      if (field.type === 'number') {
+        value = isEmpty(value) ? null : Number(value);
+      }
+      return { ...result, [field.name]: value };
+    },
+    {},
+  );
+  return schema.isForm ? typed : typed[SINGLE_FIELD_NAME];
+};
+
+/**
+ * Text sent in the user interaction message; strings go as-is so legacy
+ * prompts keep their plain-text answers
+ */
+export const serializeInteractionResponse = (
+  response: InteractionResponse | undefined,
+): string => {
+  if (response === undefined || response === null) return '';
+  return typeof response === 'string' ? response : JSON.stringify(response);
+};
+
+/**
+ * Time left before a prompt times out, as `m:ss`
+ */
+export const formatCountdown = (remainingMs: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,160 @@
+import { isValidConsentPromptURL } from '@/utils/security/oauth-validation';
+
+import {
+  OAuthCompleteMessage,
+  OAuthRedirectReturn,
+  PendingAuth,
+} from '@/types/oauth';
+
+/**
+ * OAuth consent flow shared by the chat window and the /oauth/callback page
+ *
+ * Consent opens in a popup whose opener is severed; the callback page reports
+ * completion over a same-origin BroadcastChannel (and to its opener when it
+ * still has one). When the popup is blocked the chat window redirects to the
+ * provider itself and /oauth/callback sends it back to the conversation.
+ */
+
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+export const OAUTH_CHANNEL_NAME = 'oauth-consent';
+
+const PENDING_AUTH_KEY = 'oauthPendingAuth';
+const REDIRECT_RETURN_KEY = 'oauthRedirectReturn';
+
+export const isOAuthCompleteMessage = (
+  data: unknown,
+): data is OAuthCompleteMessage => {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Partial<OAuthCompleteMessage>;
+  return (
+    message.type === 'oauth_complete' &&
+    (message.status === 'success' || message.status === 'error') &&
+    (message.error === undefined || typeof message.error === 'string')
+  );
+};
+
+/**
+ * Only completion messages from this app's own origin are accepted
+ */
+export const isTrustedOAuthEvent = (
+  event: MessageEvent,
+  origin: string = window.location.origin,
+): boolean => event.origin === origin && isOAuthCompleteMessage(event.data);
+
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Builds the completion message from the callback query string
+ * `?status=success`, or `?error=...&error_description=...` on failure
+ */
+export const toOAuthCompleteMessage = (
+  query: Record<string, string | string[] | undefined>,
+): OAuthCompleteMessage => {
+  const error =
+    firstValue(query.error_description) || firstValue(query.error);
+  if (error || firstValue(query.status) === 'error') {
+    return {
+      type: 'oauth_complete',
+      status: 'error',
+      error: error || 'Authorization failed',
+    };
+  }
+  return { type: 'oauth_complete', status: 'success' };
+};
+
+export const postOAuthComplete = (message: OAuthCompleteMessage) => {
+  const origin = window.location.origin;
+  if (window.opener && window.opener !== window) {
+    try {
+      window.opener.postMessage(message, origin);
+    } catch (error) {
+      console.error('Failed to notify opener of OAuth completion:', error);
+    }
+  }
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(OAUTH_CHANNEL_NAME);
+    channel.postMessage(message);
+    channel.close();
+  }
+};
+
+/**
+ * Calls `onComplete` for every trusted completion message until unsubscribed
+ */
+export const subscribeOAuthComplete = (
+  onComplete: (message: OAuthCompleteMessage) => void,
+): (() => void) => {
+  const handleMessage = (event: MessageEvent) => {
+    if (isTrustedOAuthEvent(event)) onComplete(event.data);
+  };
+
+  window.addEventListener('message', handleMessage);
+  const channel =
+    typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(OAUTH_CHANNEL_NAME)
+      : null;
+  channel?.addEventListener('message', handleMessage);
+
+  return () => {
+    window.removeEventListener('message', handleMessage);
+    channel?.close();
+  };
+};
+
+/**
+ * Opens validated consent URLs in a popup without giving the provider page
+ * a handle on this window. Returns null when the URL is rejected or the
+ * browser blocked the popup
+ */
+export const openOAuthPopup = (url: string): Window | null => {
+  if (!isValidConsentPromptURL(url)) return null;
+  const popup = window.open(
+    url,
+    'oauth-popup',
+    'width=600,height=700,scrollbars=yes,resizable=yes',
+  );
+  if (!popup) return null;
+  try {
+    popup.opener = null;
+  } catch {
+    // Some browsers make opener read-only once the provider page loads
+  }
+  return popup;
+};
+
+const readSession = <T>(key: string): T | null => {
+  try {
+    const json = sessionStorage.getItem(key);
+    return json ? (JSON.parse(json) as T) : null;
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+};
+
+const writeSession = (key: string, value: unknown) => {
+  try {
+    if (value === null) {
+      sessionStorage.removeItem(key);
+    } else {
+      sessionStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch (e) {
+    console.error(e);
+  }
+};
+
+export const getPendingAuths = (): Record<string, PendingAuth> => {
+  const pending = readSession<Record<string, PendingAuth>>(PENDING_AUTH_KEY);
+  return pending && typeof pending === 'object' ? pending : {};
+};
+
+export const savePendingAuths = (pending: Record<string, PendingAuth>) =>
+  writeSession(PENDING_AUTH_KEY, Object.keys(pending).length ? pending : null);
+
+export const getOAuthRedirectReturn = (): OAuthRedirectReturn | null =>
+  readSession<OAuthRedirectReturn>(REDIRECT_RETURN_KEY);
+
+export const saveOAuthRedirectReturn = (value: OAuthRedirectReturn | null) =>
+  writeSession(REDIRECT_RETURN_KEY, value);
@@ -0,0 +1,94 @@
+import { Conversation } from '@/types/chat';
+import { QueuedWebSocketFrame } from '@/types/websocket';
+
+const STORAGE_KEY = 'webSocketOutboundQueue';
+
+export const getOutboundQueue = (): QueuedWebSocketFrame[] => {
+  const queueJson = sessionStorage.getItem(STORAGE_KEY);
+  if (!queueJson) {
+    return [];
+  }
+  try {
+    const queue = JSON.parse(queueJson);
+    return Array.isArray(queue) ? queue : [];
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+};
+
+// Returns false when the queue could not be stored, e.g. over the storage quota
+export const saveOutboundQueue = (queue: QueuedWebSocketFrame[]): boolean => {
+  try {
+    if (queue.length === 0) {
+      sessionStorage.removeItem(STORAGE_KEY);
+    } else {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    }
+    return true;
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) {
+      console.error('Failed to save outbound queue:', error);
+    }
+    return false;
+  }
+};
+
+// Returns false when the frame could not be queued
+export const enqueueOutboundFrame = (
+  frame: Omit<QueuedWebSocketFrame, 'queuedAt'>,
+): boolean =>
+  saveOutboundQueue([
+    ...getOutboundQueue().filter((queued) => queued.id !== frame.id),
+    { ...frame, queuedAt: Date.now() },
+  ]);
+
+export const removeOutboundFrame = (id: string): QueuedWebSocketFrame[] => {
+  const queue = getOutboundQueue().filter((queued) => queued.id !== id);
+  saveOutboundQueue(queue);
+  return queue;
+};
+
+/**
+ * Sends queued frames in the order they were queued
+ * Stops at the first frame that fails to send and keeps it and everything
+ * after it in the queue; returns the frames that went out
+ */
+export const flushOutboundQueue = (
+  send: (frame: QueuedWebSocketFrame) => void,
+): QueuedWebSocketFrame[] => {
+  const queue = getOutboundQueue();
+  const sent: QueuedWebSocketFrame[] = [];
+
+  for (const queued of queue) {
+    try {
+      send(queued);
+    } catch (error) {
+      console.error('Failed to send queued WebSocket frame:', error);
+      break;
+    }
+    sent.push(queued);
+  }
+
+  saveOutboundQueue(queue.slice(sent.length));
+  return sent;
+};
+
+/**
+ * Clears the queued flag on user messages whose frames have been sent
+ */
+export const markQueuedMessagesSent = (
+  conversations: Conversation[],
+  messageIds: string[],
+): Conversation[] =>
+  conversations.map((conversation) => {
+    if (!conversation.messages.some((m) => m.id && messageIds.includes(m.id))) {
+      return conversation;
+    }
+    return {
+      ...conversation,
+      messages: conversation.messages.map((m) =>
+        m.id && messageIds.includes(m.id) ? { ...m, queued: undefined } : m,
+      ),
+    };
+  });
@@ -1,5 +1,7 @@
 import { Prompt } from '@/types/prompt';
 
+const VARIABLE_PATTERN = /{{(.*?)}}/g;
+
 export const updatePrompt = (updatedPrompt: Prompt, allPrompts: Prompt[]) => {
   const updatedPrompts = allPrompts.map((c) => {
     if (c.id === updatedPrompt.id) {
@@ -20,3 +22,49 @@ export const updatePrompt = (updatedPrompt: Prompt, allPrompts: Prompt[]) => {
 export const savePrompts = (prompts: Prompt[]) => {
   sessionStorage.setItem('prompts', JSON.stringify(prompts));
 };
+
+/**
+ * Names of the {{variables}} in a prompt body, in order of first use
+ */
+export const parseVariables = (content: string) => {
+  const regex = new RegExp(VARIABLE_PATTERN);
+  const variables: string[] = [];
+  let match;
+
+  while ((match = regex.exec(content)) !== null) {
+    const name = match[1].trim();
+    if (name && !variables.includes(name)) {
+      variables.push(name);
+    }
+  }
+
+  return variables;
+};
+
+/**
+ * Replaces each {{variable}} with its value, unknown variables are left as they are
+ */
+export const fillVariables = (
+  content: string,
+  values: Record<string, string>,
+) =>
+  content.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name.trim())
+      ? values[name.trim()]
+      : match,
+  );
+
+/**
+ * Prompts whose name starts with or contains the text typed after "/",
+ * prefix matches first
+ */
+export const filterPrompts = (prompts: Prompt[], query: string) => {
+  const term = query.toLowerCase();
+  const matching = prompts.filter((prompt) =>
+    prompt.name.toLowerCase().includes(term),
+  );
+  return [
+    ...matching.filter((prompt) => prompt.name.toLowerCase().startsWith(term)),
+    ...matching.filter((prompt) => !prompt.name.toLowerCase().startsWith(term)),
+  ];
+};
@@ -0,0 +1,304 @@
+import { getMessageText } from '@/utils/app/content';
+
+import { Conversation, Message, Role } from '@/types/chat';
+import {
+  MessageSearchFilters,
+  MessageSearchResult,
+  SearchSnippet,
+} from '@/types/search';
+
+/**
+ * Client-side full-text search over conversation messages
+ *
+ * Every message on a conversation's active path is indexed as up to two
+ * documents: its content and the names and payloads of its intermediate
+ * steps. The inverted index maps tokens to document ids. `sync` compares
+ * message objects by reference, so while a response streams in only the
+ * message that changed is re-indexed.
+ */
+
+interface SearchDocument {
+  id: string;
+  conversationId: string;
+  folderId: string | null;
+  messageId?: string;
+  messageIndex: number;
+  role: Role;
+  timestamp?: number;
+  field: 'content' | 'step';
+  text: string;
+}
+
+interface IndexedConversation {
+  conversation: Conversation;
+  messages: Message[];
+  documentIds: string[][]; // per message index
+}
+
+const SNIPPET_CONTEXT = 40;
+const MAX_RESULTS = 50;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// Names and payloads of a step and its nested steps
+const collectStepText = (steps: any[] | undefined, parts: string[] = []) => {
+  (Array.isArray(steps) ? steps : []).forEach((step) => {
+    const name = step?.content?.name ?? step?.name;
+    const payload = step?.content?.payload ?? step?.payload;
+    if (name) parts.push(stringify(name));
+    if (payload) parts.push(stringify(payload));
+    collectStepText(step?.intermediate_steps, parts);
+  });
+  return parts;
+};
+
+/**
+ * Cuts a window around the first match and returns highlight ranges relative
+ * to the snippet
+ */
+export const buildSnippet = (text: string, terms: string[]): SearchSnippet => {
+  const lower = text.toLowerCase();
+  const first = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  const start = Math.max(0, (first ?? 0) - SNIPPET_CONTEXT);
+  const end = Math.min(
+    text.length,
+    (first ?? 0) + SNIPPET_CONTEXT * 2 + (terms[0]?.length ?? 0),
+  );
+  const window = text.slice(start, end).replace(/\s+/g, ' ');
+  const prefix = start > 0 ? '…' : '';
+  const snippetText = `${prefix}${window}${end < text.length ? '…' : ''}`;
+
+  const highlights: [number, number][] = [];
+  const windowLower = snippetText.toLowerCase();
+  terms.forEach((term) => {
+    let index = windowLower.indexOf(term);
+    while (term && index >= 0) {
+      highlights.push([index, index + term.length]);
+      index = windowLower.indexOf(term, index + term.length);
+    }
+  });
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping ranges so the renderer can walk them in order
+  const merged = highlights.reduce<[number, number][]>((ranges, range) => {
+    const last = ranges[ranges.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      ranges.push([...range]);
+    }
+    return ranges;
+  }, []);
+
+  return { text: snippetText, highlights: merged };
+};
+
+const matchesFilters = (
+  document: SearchDocument,
+  filters: MessageSearchFilters,
+) => {
+  if (filters.roles?.length && !filters.roles.includes(document.role)) {
+    return false;
+  }
+  if (filters.folderId !== undefined && document.folderId !== filters.folderId) {
+    return false;
+  }
+  if (filters.from !== undefined || filters.to !== undefined) {
+    if (document.timestamp === undefined) return false;
+    if (filters.from !== undefined && document.timestamp < filters.from) {
+      return false;
+    }
+    if (filters.to !== undefined && document.timestamp > filters.to) {
+      return false;
+    }
+  }
+  return true;
+};
+
+export const createSearchIndex = () => {
+  const postings = new Map<string, Set<string>>();
+  const documents = new Map<string, SearchDocument>();
+  const conversations = new Map<string, IndexedConversation>();
+
+  const addDocument = (document: SearchDocument) => {
+    documents.set(document.id, document);
+    new Set(tokenize(document.text)).forEach((token) => {
+      let ids = postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        postings.set(token, ids);
+      }
+      ids.add(document.id);
+    });
+  };
+
+  const removeDocument = (id: string) => {
+    const document = documents.get(id);
+    if (!document) return;
+    new Set(tokenize(document.text)).forEach((token) => {
+      const ids = postings.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) postings.delete(token);
+    });
+    documents.delete(id);
+  };
+
+  const indexMessage = (
+    conversation: Conversation,
+    message: Message,
+    messageIndex: number,
+  ): string[] => {
+    const base = {
+      conversationId: conversation.id,
+      folderId: conversation.folderId ?? null,
+      messageId: message.id,
+      messageIndex,
+      role: message.role,
+      timestamp: message.timestamp,
+    };
+    const key = `${conversation.id}:${messageIndex}`;
+    const ids: string[] = [];
+
+    const add = (field: SearchDocument['field'], text: string) => {
+      if (!text.trim()) return;
+      const id = `${key}:${field}`;
+      addDocument({ ...base, id, field, text });
+      ids.push(id);
+    };
+
+    add('content', getMessageText(message.content));
+    add('step', collectStepText(message.intermediateSteps).join('\n'));
+    return ids;
+  };
+
+  const removeConversation = (conversationId: string) => {
+    conversations
+      .get(conversationId)
+      ?.documentIds.forEach((ids) => ids.forEach(removeDocument));
+    conversations.delete(conversationId);
+  };
+
+  const updateConversation = (conversation: Conversation): void => {
+    const previous = conversations.get(conversation.id);
+    const messages = Array.isArray(conversation.messages)
+      ? conversation.messages
+      : [];
+
+    // Folder moves change every document, re-index the whole conversation
+    if (previous && previous.conversation.folderId !== conversation.folderId) {
+      removeConversation(conversation.id);
+      return updateConversation(conversation);
+    }
+
+    const documentIds = messages.map((message, index) => {
+      if (previous && previous.messages[index] === message) {
+        return previous.documentIds[index];
+      }
+      previous?.documentIds[index]?.forEach(removeDocument);
+      return indexMessage(conversation, message, index);
+    });
+    previous?.documentIds
+      .slice(messages.length)
+      .forEach((ids) => ids.forEach(removeDocument));
+
+    conversations.set(conversation.id, {
+      conversation,
+      messages,
+      documentIds,
+    });
+  };
+
+  /**
+   * Brings the index in line with the conversation list, touching only
+   * conversations and messages that changed
+   */
+  const sync = (list: Conversation[]) => {
+    const ids = new Set(list.map((c) => c.id));
+    Array.from(conversations.keys())
+      .filter((id) => !ids.has(id))
+      .forEach(removeConversation);
+    list.forEach((conversation) => {
+      if (conversations.get(conversation.id)?.conversation !== conversation) {
+        updateConversation(conversation);
+      }
+    });
+  };
+
+  /**
+   * Every query term must match; the last one also matches as a prefix so
+   * results update while typing. Results are ranked by how often the terms
+   * occur, then by recency
+   */
+  const search = (
+    query: string,
+    filters: MessageSearchFilters = {},
+  ): MessageSearchResult[] => {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (!terms.length) return [];
+
+    const matchesFor = (term: string, prefix: boolean) => {
+      if (!prefix) return postings.get(term) ?? new Set<string>();
+      const ids = new Set<string>();
+      postings.forEach((postingIds, token) => {
+        if (token.startsWith(term)) postingIds.forEach((id) => ids.add(id));
+      });
+      return ids;
+    };
+
+    let candidates = matchesFor(terms[0], terms.length === 1);
+    for (let index = 1; index < terms.length; index++) {
+      const ids = matchesFor(terms[index], index === terms.length - 1);
+      candidates = new Set(Array.from(candidates).filter((id) => ids.has(id)));
+    }
+
+    const results: MessageSearchResult[] = [];
+    candidates.forEach((id) => {
+      const document = documents.get(id);
+      if (!document || !matchesFilters(document, filters)) return;
+
+      const lower = document.text.toLowerCase();
+      const score = terms.reduce(
+        (total, term) => total + (lower.split(term).length - 1),
+        0,
+      );
+      results.push({
+        conversationId: document.conversationId,
+        conversationName:
+          conversations.get(document.conversationId)?.conversation.name ?? '',
+        messageId: document.messageId,
+        messageIndex: document.messageIndex,
+        role: document.role,
+        field: document.field,
+        timestamp: document.timestamp,
+        score,
+        snippet: buildSnippet(document.text, terms),
+      });
+    });
+
+    return results
+      .sort(
+        (a, b) =>
+          b.score - a.score || (b.timestamp ?? 0) - (a.timestamp ?? 0),
+      )
+      .slice(0, filters.limit ?? MAX_RESULTS);
+  };
+
+  return { sync, updateConversation, removeConversation, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,230 @@
+import { env } from 'next-runtime-env';
+
+import {
+  SpeechInputOptions,
+  SpeechInputProvider,
+  SpeechInputSession,
+  TranscribeRequest,
+  TranscribeResponse,
+} from '@/types/speech';
+
+import { getEndpoint } from './api';
+
+/**
+ * Speech input for the chat box
+ *
+ * The browser provider uses the Web Speech API (Chrome, Edge, Safari). The
+ * server provider records with MediaRecorder and sends the audio to
+ * /api/transcribe, which proxies a Whisper-compatible server, so it also
+ * works in Firefox and in deployments without access to cloud recognition.
+ * When the chosen provider is not available in the browser the other one is
+ * used instead.
+ */
+
+export const DEFAULT_SPEECH_LANGUAGE = 'en-US';
+
+export const SPEECH_LANGUAGES = [
+  { label: 'English (US)', value: 'en-US' },
+  { label: 'English (UK)', value: 'en-GB' },
+  { label: 'Deutsch', value: 'de-DE' },
+  { label: 'Español', value: 'es-ES' },
+  { label: 'Français', value: 'fr-FR' },
+  { label: 'Italiano', value: 'it-IT' },
+  { label: 'Português (Brasil)', value: 'pt-BR' },
+  { label: '日本語', value: 'ja-JP' },
+  { label: '한국어', value: 'ko-KR' },
+  { label: '中文 (简体)', value: 'zh-CN' },
+  { label: 'हिन्दी', value: 'hi-IN' },
+];
+
+export const SPEECH_INPUT_PROVIDERS: Array<{
+  label: string;
+  value: SpeechInputProvider;
+}> = [
+  { label: 'Browser speech recognition', value: 'browser' },
+  { label: 'Transcription server', value: 'server' },
+];
+
+export const getDefaultSpeechInputProvider = (): SpeechInputProvider =>
+  (env('NEXT_PUBLIC_NAT_STT_PROVIDER') ||
+    process?.env?.NEXT_PUBLIC_NAT_STT_PROVIDER) === 'server'
+    ? 'server'
+    : 'browser';
+
+const getSpeechRecognition = () =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isBrowserSpeechSupported = () => Boolean(getSpeechRecognition());
+
+export const isAudioRecordingSupported = () =>
+  typeof navigator !== 'undefined' &&
+  Boolean(navigator.mediaDevices?.getUserMedia) &&
+  typeof MediaRecorder !== 'undefined';
+
+/**
+ * Provider that will actually be used, or null when the browser supports
+ * neither
+ */
+export const resolveSpeechInputProvider = (
+  preferred: SpeechInputProvider,
+): SpeechInputProvider | null => {
+  const supported: Record<SpeechInputProvider, boolean> = {
+    browser: isBrowserSpeechSupported(),
+    server: isAudioRecordingSupported(),
+  };
+  if (supported[preferred]) return preferred;
+  const fallback = preferred === 'browser' ? 'server' : 'browser';
+  return supported[fallback] ? fallback : null;
+};
+
+const startBrowserSpeechInput = ({
+  language,
+  onTranscript,
+  onError,
+  onEnd,
+}: SpeechInputOptions): SpeechInputSession => {
+  const SpeechRecognition = getSpeechRecognition();
+  const recognition = new SpeechRecognition();
+  recognition.lang = language;
+  recognition.interimResults = true;
+  recognition.continuous = true;
+
+  let active = true;
+
+  recognition.onresult = (event: any) => {
+    let transcript = '';
+    for (let i = 0; i < event.results.length; i++) {
+      transcript += event.results[i][0].transcript;
+    }
+    onTranscript(transcript);
+  };
+
+  recognition.onerror = (event: any) => {
+    // 'no-speech' and 'aborted' end the session on their own, onend follows
+    if (event?.error && !['no-speech', 'aborted'].includes(event.error)) {
+      active = false;
+      onError(`Speech recognition failed: ${event.error}`);
+    }
+  };
+
+  // Browsers end continuous recognition after a pause, keep it going
+  recognition.onend = () => {
+    if (active) {
+      recognition.start();
+    } else {
+      onEnd();
+    }
+  };
+
+  recognition.start();
+
+  const stop = () => {
+    active = false;
+    recognition.stop();
+  };
+
+  return { stop, cancel: stop };
+};
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Sends recorded audio to /api/transcribe and returns the text
+ */
+export const transcribeAudio = async (
+  audio: Blob,
+  language: string,
+): Promise<string> => {
+  const body: TranscribeRequest = {
+    audio: await blobToBase64(audio),
+    mimeType: audio.type || 'audio/webm',
+    language,
+  };
+  const response = await fetch(
+    `${window.location.origin}/${getEndpoint({ service: 'transcribe' })}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+  );
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Transcription failed: ${response.status}`);
+  }
+  const { text } = (await response.json()) as TranscribeResponse;
+  return text ?? '';
+};
+
+const startServerSpeechInput = async ({
+  language,
+  onTranscript,
+  onError,
+  onEnd,
+}: SpeechInputOptions): Promise<SpeechInputSession> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  let cancelled = false;
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  recorder.onstop = async () => {
+    stream.getTracks().forEach((track) => track.stop());
+    if (cancelled || chunks.length === 0) {
+      onEnd();
+      return;
+    }
+    try {
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      onTranscript(await transcribeAudio(audio, language));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Transcription failed');
+    }
+    onEnd();
+  };
+
+  recorder.start();
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return {
+    stop,
+    cancel: () => {
+      cancelled = true;
+      stop();
+    },
+  };
+};
+
+/**
+ * Starts recording with the preferred provider, or the other one when the
+ * browser does not support it
+ */
+export const startSpeechInput = async (
+  preferred: SpeechInputProvider,
+  options: SpeechInputOptions,
+): Promise<SpeechInputSession> => {
+  const provider = resolveSpeechInputProvider(preferred);
+  if (!provider) {
+    throw new Error('Speech input is not supported in this browser');
+  }
+  return provider === 'browser'
+    ? startBrowserSpeechInput(options)
+    : startServerSpeechInput(options);
+};
@@ -0,0 +1,166 @@
+import { TraceSpan, TraceSpanStatus, TraceTimeline } from '@/types/trace';
+import { IntermediateStep } from '@/types/websocket';
+
+/**
+ * Builds a Gantt-style timeline from a message's intermediate steps
+ *
+ * A tool or LLM call can arrive as several events sharing one id (a start
+ * and an end event, or status updates that override each other), so events
+ * are grouped by id into a single span covering the earliest to the latest
+ * event time. Spans nest under `intermediate_parent_id` when it names another
+ * step, otherwise under the step they were nested in by
+ * `processIntermediateMessage`.
+ */
+
+// "Function Start: calculator" -> "calculator"
+const EVENT_PREFIX = /^(?:[\w-]+\s+)?(?:start|end|complete|completed)\s*:\s*/i;
+const END_EVENT = /^(?:[\w-]+\s+)?(?:end|complete|completed)\s*:/i;
+const ERROR_STATUS = /error|fail/i;
+const COMPLETE_STATUS = /^(?:complete|completed|success|succeeded|done)$/i;
+
+interface StepEvent {
+  key: string;
+  step: IntermediateStep;
+  treeParentId?: string;
+}
+
+/**
+ * Parses an epoch (seconds or ms, number or numeric string) or ISO timestamp
+ * Returns undefined for placeholders like 'default'
+ */
+export const parseStepTime = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return undefined;
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  if (/^\d+(?:\.\d+)?$/.test(value.trim())) {
+    return parseStepTime(Number(value));
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(2)} s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+};
+
+const flattenSteps = (
+  steps: IntermediateStep[] | undefined,
+  treeParentId: string | undefined,
+  events: StepEvent[],
+) => {
+  (Array.isArray(steps) ? steps : []).forEach((step) => {
+    if (!step) return;
+    const key = step.id || `step-${events.length}`;
+    events.push({ key, step, treeParentId });
+    flattenSteps(step.intermediate_steps, key, events);
+  });
+  return events;
+};
+
+const toSpan = (key: string, events: StepEvent[]): TraceSpan => {
+  const steps = events.map((event) => event.step);
+  const names = steps.map((step) => String(step.content?.name ?? ''));
+
+  const times = steps
+    .flatMap((step) => [
+      parseStepTime(step.started_at),
+      parseStepTime(step.time_stamp ?? step.timestamp),
+    ])
+    .filter((time): time is number => time !== undefined);
+
+  const error = steps.map((step) => step.error).find(Boolean);
+  let status: TraceSpanStatus = 'in_progress';
+  if (error || steps.some((step) => ERROR_STATUS.test(step.status ?? ''))) {
+    status = 'error';
+  } else if (
+    steps.some((step) => COMPLETE_STATUS.test(step.status ?? '')) ||
+    names.some((name) => END_EVENT.test(name))
+  ) {
+    status = 'complete';
+  }
+
+  const start = times.length ? Math.min(...times) : undefined;
+  const end =
+    start !== undefined && status !== 'in_progress'
+      ? Math.max(...times)
+      : undefined;
+  const payload = steps[steps.length - 1]?.content?.payload;
+
+  return {
+    id: key,
+    name: names.map((name) => name.replace(EVENT_PREFIX, '')).find(Boolean) || 'Step',
+    depth: 0,
+    status,
+    error: error || undefined,
+    start,
+    end,
+    duration: start !== undefined && end !== undefined ? end - start : undefined,
+    payload:
+      payload === undefined || typeof payload === 'string'
+        ? payload
+        : JSON.stringify(payload),
+  };
+};
+
+export const buildTraceTimeline = (
+  steps: IntermediateStep[] | undefined,
+): TraceTimeline => {
+  const groups = new Map<string, StepEvent[]>();
+  flattenSteps(steps, undefined, []).forEach((event) => {
+    groups.set(event.key, [...(groups.get(event.key) ?? []), event]);
+  });
+
+  const spans = new Map<string, TraceSpan>();
+  groups.forEach((events, key) => {
+    const span = toSpan(key, events);
+    const candidates = [
+      ...events.map((event) => event.step.intermediate_parent_id),
+      ...events.map((event) => event.treeParentId),
+    ];
+    span.parentId = candidates.find(
+      (id): id is string => !!id && id !== key && groups.has(id),
+    );
+    spans.set(key, span);
+  });
+
+  const children = new Map<string | undefined, TraceSpan[]>();
+  spans.forEach((span) => {
+    children.set(span.parentId, [...(children.get(span.parentId) ?? []), span]);
+  });
+
+  // Depth-first, siblings by start time; spans without timing keep arrival order
+  const ordered: TraceSpan[] = [];
+  const visited = new Set<string>();
+  const visit = (span: TraceSpan, depth: number) => {
+    if (visited.has(span.id)) return;
+    visited.add(span.id);
+    ordered.push({ ...span, depth });
+    [...(children.get(span.id) ?? [])]
+      .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity))
+      .forEach((child) => visit(child, depth + 1));
+  };
+  [...(children.get(undefined) ?? [])]
+    .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity))
+    .forEach((span) => visit(span, 0));
+  // Parent cycles leave spans unreachable from a root, list them at the top level
+  spans.forEach((span) => visit(span, 0));
+
+  const starts = ordered
+    .map((span) => span.start)
+    .filter((time): time is number => time !== undefined);
+  const ends = ordered
+    .map((span) => span.end ?? span.start)
+    .filter((time): time is number => time !== undefined);
+
+  return {
+    spans: ordered,
+    start: starts.length ? Math.min(...starts) : undefined,
+    end: ends.length ? Math.max(...ends) : undefined,
+  };
+};
@@ -0,0 +1,131 @@
+import { buildTraceTimeline } from '@/utils/app/trace';
+
+import { Message } from '@/types/chat';
+import { OtlpKeyValue, OtlpSpan, OtlpTrace, TraceSpan } from '@/types/trace';
+
+import { APPLICATION_NAME } from '@/constants/constants';
+
+/**
+ * Converts a message's intermediate steps into an OTLP/JSON trace
+ *
+ * Every export of the same message yields the same trace and span ids, so
+ * re-importing an updated trace replaces the old one in the viewer. Steps
+ * become children of a root span for the assistant message; steps without
+ * timestamps are placed as zero-length spans at the start of the trace.
+ */
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const SCOPE_NAME = 'nat-ui.intermediate-steps';
+
+// 32-bit FNV-1a, seeded so several passes give independent hex words
+const fnv1a = (value: string, seed: number) => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const hexId = (value: string, words: number) => {
+  const id = Array.from({ length: words }, (_, seed) => fnv1a(value, seed)).join('');
+  // All-zero ids are invalid in OTLP
+  return /^0+$/.test(id) ? `${id.slice(0, -1)}1` : id;
+};
+
+const toUnixNano = (ms: number) => `${Math.round(ms)}000000`;
+
+const stringAttribute = (key: string, value?: string): OtlpKeyValue[] =>
+  value === undefined || value === '' ? [] : [{ key, value: { stringValue: value } }];
+
+export const toOtlpTrace = (
+  message: Message,
+  conversationId?: string,
+): OtlpTrace => {
+  const timeline = buildTraceTimeline(message.intermediateSteps);
+  const messageKey = message.id || `${conversationId ?? ''}:${message.timestamp ?? ''}`;
+  const traceId = hexId(`trace:${messageKey}`, 4);
+  const rootSpanId = hexId(`root:${messageKey}`, 2);
+
+  const fallback = timeline.start ?? message.timestamp ?? Date.now();
+  const traceStart = timeline.start ?? fallback;
+  const traceEnd = timeline.end ?? traceStart;
+  const hasError = timeline.spans.some((span) => span.status === 'error');
+
+  const toSpan = (span: TraceSpan): OtlpSpan => {
+    const start = span.start ?? fallback;
+    // Running spans end at the latest event seen
+    const end = span.end ?? (span.start !== undefined ? traceEnd : start);
+    return {
+      traceId,
+      spanId: hexId(`span:${messageKey}:${span.id}`, 2),
+      parentSpanId: span.parentId
+        ? hexId(`span:${messageKey}:${span.parentId}`, 2)
+        : rootSpanId,
+      name: span.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(start),
+      endTimeUnixNano: toUnixNano(end),
+      attributes: [
+        ...stringAttribute('nat.step.id', span.id),
+        ...stringAttribute('nat.step.name', span.name),
+        ...stringAttribute('nat.step.status', span.status),
+        ...stringAttribute('nat.step.payload', span.payload),
+        ...stringAttribute('nat.step.parent_id', span.parentId),
+      ],
+      status:
+        span.status === 'error'
+          ? { code: STATUS_ERROR, message: span.error }
+          : { code: span.status === 'complete' ? STATUS_OK : 0 },
+    };
+  };
+
+  const root: OtlpSpan = {
+    traceId,
+    spanId: rootSpanId,
+    name: 'assistant_response',
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(traceStart),
+    endTimeUnixNano: toUnixNano(traceEnd),
+    attributes: [
+      ...stringAttribute('nat.conversation.id', conversationId),
+      ...stringAttribute('nat.message.id', message.id),
+      ...stringAttribute('nat.message.parent_id', message.parentId),
+    ],
+    status: hasError ? { code: STATUS_ERROR } : { code: STATUS_OK },
+  };
+
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: stringAttribute('service.name', APPLICATION_NAME),
+        },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: [root, ...timeline.spans.map(toSpan)],
+          },
+        ],
+      },
+    ],
+  };
+};
+
+export const exportTrace = (message: Message, conversationId?: string) => {
+  const trace = toOtlpTrace(message, conversationId);
+  const blob = new Blob([JSON.stringify(trace, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `trace_${message.id ?? 'message'}.json`;
+  link.href = url;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,234 @@
+import { env } from 'next-runtime-env';
+
+import {
+  SpeechOutputProvider,
+  SpeechPlayback,
+  SpeechVoice,
+  TextToSpeechRequest,
+} from '@/types/speech';
+
+import { getEndpoint } from './api';
+
+/**
+ * Reading assistant messages aloud
+ *
+ * The browser provider uses speechSynthesis, the server provider fetches
+ * audio per sentence from /api/tts, which proxies an OpenAI-compatible TTS
+ * server. Text is queued sentence by sentence so playback can start while a
+ * response is still streaming; only one playback runs at a time.
+ */
+
+export const SPEECH_OUTPUT_PROVIDERS: Array<{
+  label: string;
+  value: SpeechOutputProvider;
+}> = [
+  { label: 'Browser speech synthesis', value: 'browser' },
+  { label: 'Text-to-speech server', value: 'server' },
+];
+
+export const getDefaultSpeechOutputProvider = (): SpeechOutputProvider =>
+  (env('NEXT_PUBLIC_NAT_TTS_PROVIDER') ||
+    process?.env?.NEXT_PUBLIC_NAT_TTS_PROVIDER) === 'server'
+    ? 'server'
+    : 'browser';
+
+export const isAutoReadDefaultOn = () =>
+  env('NEXT_PUBLIC_NAT_TTS_AUTO_READ_DEFAULT_ON') === 'true' ||
+  process?.env?.NEXT_PUBLIC_NAT_TTS_AUTO_READ_DEFAULT_ON === 'true';
+
+const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const getBrowserVoices = (): SpeechVoice[] =>
+  isSpeechSynthesisSupported()
+    ? window.speechSynthesis.getVoices().map((voice) => ({
+        id: voice.voiceURI,
+        label: `${voice.name} (${voice.lang})`,
+      }))
+    : [];
+
+const ttsUrl = () => `${window.location.origin}/${getEndpoint({ service: 'tts' })}`;
+
+// Voices offered by the TTS server, configured with NAT_TTS_VOICES
+export const fetchServerVoices = async (): Promise<SpeechVoice[]> => {
+  const response = await fetch(ttsUrl());
+  if (!response.ok) return [];
+  const { voices = [] } = await response.json();
+  return voices.map((voice: string) => ({ id: voice, label: voice }));
+};
+
+/**
+ * Text as it should be spoken: links, code blocks and markdown markup are
+ * left out. An unclosed code fence hides everything after it, so text that
+ * is still streaming only ever grows
+ */
+export const toSpeechText = (text: string) =>
+  text
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)?/g, '$1')
+    .replace(/https?:\/\/\S*/g, '')
+    .replace(/[*_`#>|~]/g, '');
+
+/**
+ * Splits off the complete sentences at the start of `text`
+ * `rest` is the unfinished sentence still waiting for more text
+ */
+export const splitSentences = (
+  text: string,
+): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?。！？]+["')\]]*(\s+|$)|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text))) {
+    // A boundary at the very end may be a decimal point or an abbreviation
+    if (match.index + match[0].length === text.length && !/\s$/.test(match[0])) {
+      break;
+    }
+    const sentence = text.slice(start, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+  return { sentences, rest: text.slice(start) };
+};
+
+/**
+ * Queues the part of a growing message that was not queued yet
+ * Returns the new queued length, to pass back with the next update
+ */
+export const appendNewSpeechText = (
+  playback: SpeechPlayback,
+  messageText: string,
+  queuedLength: number,
+) => {
+  const text = toSpeechText(messageText);
+  if (text.length <= queuedLength) return queuedLength;
+  playback.append(text.slice(queuedLength));
+  return text.length;
+};
+
+const fetchSpeechAudio = async (text: string, voice: string) => {
+  const body: TextToSpeechRequest = { text, voice: voice || undefined };
+  const response = await fetch(ttsUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Text-to-speech failed: ${response.status}`);
+  }
+  return URL.createObjectURL(await response.blob());
+};
+
+let currentPlayback: SpeechPlayback | null = null;
+
+export const stopSpeechPlayback = () => currentPlayback?.stop();
+
+/**
+ * Starts a playback, stopping any other one
+ * `onEnd` runs once, when everything was spoken or the playback was stopped
+ */
+export const startSpeechPlayback = ({
+  provider,
+  voice = '',
+  onEnd,
+  onError,
+}: {
+  provider: SpeechOutputProvider;
+  voice?: string;
+  onEnd?: () => void;
+  onError?: (message: string) => void;
+}): SpeechPlayback => {
+  currentPlayback?.stop();
+
+  const useServer = provider === 'server' || !isSpeechSynthesisSupported();
+  const pending: string[] = [];
+  let buffer = '';
+  let running = false;
+  let finished = false;
+  let ended = false;
+  let audio: HTMLAudioElement | null = null;
+
+  // Server audio is fetched one sentence ahead of the one playing
+  const prepare = (sentence: string): Promise<string> =>
+    useServer ? fetchSpeechAudio(sentence, voice) : Promise.resolve(sentence);
+
+  const play = (prepared: string) =>
+    new Promise<void>((resolve) => {
+      if (ended) return resolve();
+      if (useServer) {
+        audio = new Audio(prepared);
+        // Paused only by stop()
+        audio.onended = audio.onerror = audio.onpause = () => {
+          URL.revokeObjectURL(prepared);
+          resolve();
+        };
+        audio.play().catch(() => resolve());
+      } else {
+        const utterance = new SpeechSynthesisUtterance(prepared);
+        const browserVoice = window.speechSynthesis
+          .getVoices()
+          .find((item) => item.voiceURI === voice);
+        if (browserVoice) utterance.voice = browserVoice;
+        utterance.onend = utterance.onerror = () => resolve();
+        window.speechSynthesis.speak(utterance);
+      }
+    });
+
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    if (currentPlayback === playback) currentPlayback = null;
+    onEnd?.();
+  };
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let next = pending.length ? prepare(pending.shift()!) : null;
+      while (next && !ended) {
+        const current = next;
+        next = pending.length ? prepare(pending.shift()!) : null;
+        await play(await current);
+        if (!next && pending.length) next = prepare(pending.shift()!);
+      }
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : 'Text-to-speech failed');
+      playback.stop();
+    }
+    running = false;
+    if (finished && pending.length === 0) end();
+  };
+
+  const playback: SpeechPlayback = {
+    append: (text) => {
+      if (ended || finished) return;
+      const { sentences, rest } = splitSentences(buffer + text);
+      buffer = rest;
+      if (sentences.length > 0) {
+        pending.push(...sentences);
+        run();
+      }
+    },
+    finish: () => {
+      if (ended || finished) return;
+      finished = true;
+      if (buffer.trim()) pending.push(buffer.trim());
+      buffer = '';
+      if (running) return;
+      if (pending.length > 0) run();
+      else end();
+    },
+    stop: () => {
+      pending.length = 0;
+      finished = true;
+      if (audio) audio.pause();
+      if (!useServer) window.speechSynthesis.cancel();
+      end();
+    },
+  };
+
+  currentPlayback = playback;
+  return playback;
+};
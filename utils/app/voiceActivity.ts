@@ -0,0 +1,100 @@
+/**
+ * Voice activity detection on the microphone level, used by voice mode to
+ * send after the user stops talking and to notice them talking over a reply
+ */
+
+export type VoiceActivityEvent = 'speech-start' | 'silence';
+
+export interface VoiceActivityOptions {
+  threshold?: number; // RMS level, 0-1, above which the input counts as speech
+  minSpeechMs?: number; // Speech shorter than this (clicks, coughs) is ignored
+  silenceMs?: number; // Quiet this long after speech ends the utterance
+}
+
+export const VOICE_ACTIVITY_DEFAULTS: Required<VoiceActivityOptions> = {
+  threshold: 0.04,
+  minSpeechMs: 250,
+  silenceMs: 1500,
+};
+
+const POLL_INTERVAL_MS = 50;
+
+/**
+ * Turns a series of levels into events: 'speech-start' once the level stays
+ * above the threshold for minSpeechMs, then 'silence' once it stays below for
+ * silenceMs. reset() starts over, e.g. after an utterance was sent
+ */
+export const createVoiceActivityTracker = (options: VoiceActivityOptions = {}) => {
+  const { threshold, minSpeechMs, silenceMs } = {
+    ...VOICE_ACTIVITY_DEFAULTS,
+    ...options,
+  };
+  let speaking = false;
+  let loudSince: number | null = null;
+  let quietSince: number | null = null;
+
+  return {
+    update: (level: number, now: number): VoiceActivityEvent | null => {
+      if (level >= threshold) {
+        quietSince = null;
+        loudSince ??= now;
+        if (!speaking && now - loudSince >= minSpeechMs) {
+          speaking = true;
+          return 'speech-start';
+        }
+        return null;
+      }
+      loudSince = null;
+      if (!speaking) return null;
+      quietSince ??= now;
+      if (now - quietSince >= silenceMs) {
+        speaking = false;
+        quietSince = null;
+        return 'silence';
+      }
+      return null;
+    },
+    reset: () => {
+      speaking = false;
+      loudSince = null;
+      quietSince = null;
+    },
+    isSpeaking: () => speaking,
+  };
+};
+
+/**
+ * Polls the level of a microphone stream and reports voice activity
+ * stop() ends the polling, the stream itself is left open
+ */
+export const watchVoiceActivity = (
+  stream: MediaStream,
+  onEvent: (event: VoiceActivityEvent) => void,
+  options: VoiceActivityOptions = {},
+) => {
+  const AudioContextClass =
+    window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const tracker = createVoiceActivityTracker(options);
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const event = tracker.update(Math.sqrt(sum / samples.length), Date.now());
+    if (event) onEvent(event);
+  }, POLL_INTERVAL_MS);
+
+  return {
+    reset: tracker.reset,
+    stop: () => {
+      clearInterval(interval);
+      context.close();
+    },
+  };
+};
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  UserResumeMessage,
+  WebSocketConnectionEvent,
+  WebSocketConnectionState,
+} from '@/types/websocket';
+
+import { webSocketMessageTypes } from './const';
+
+export const WEBSOCKET_RECONNECT_CONFIG = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 8,
+};
+
+/**
+ * Exponential backoff with equal jitter: half of the capped delay is fixed,
+ * the other half is random so many clients don't reconnect in lockstep
+ */
+export const getReconnectDelay = (
+  attempt: number,
+  random: () => number = Math.random,
+  config = WEBSOCKET_RECONNECT_CONFIG,
+): number => {
+  const cappedDelay = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * 2 ** Math.max(0, attempt),
+  );
+  return Math.round(cappedDelay / 2 + random() * (cappedDelay / 2));
+};
+
+const connectionTransitions: Record<
+  WebSocketConnectionState,
+  Partial<Record<WebSocketConnectionEvent, WebSocketConnectionState>>
+> = {
+  idle: { connect: 'connecting' },
+  connecting: { open: 'open', close: 'reconnecting', give_up: 'failed' },
+  open: { close: 'reconnecting' },
+  reconnecting: { connect: 'reconnecting', open: 'open', close: 'reconnecting', give_up: 'failed' },
+  failed: { connect: 'connecting' },
+  closed: { connect: 'connecting' },
+};
+
+/**
+ * Connection state machine; events that are not valid for the current state
+ * leave it unchanged, and `disconnect` always moves to `closed`
+ */
+export const nextConnectionState = (
+  state: WebSocketConnectionState,
+  event: WebSocketConnectionEvent,
+): WebSocketConnectionState => {
+  if (event === 'disconnect') {
+    return 'closed';
+  }
+  return connectionTransitions[state][event] ?? state;
+};
+
+/**
+ * Records the id of an inbound frame as the last one seen for its conversation
+ */
+export const recordLastSeenMessage = (
+  lastSeen: Record<string, string>,
+  message: any,
+): Record<string, string> => {
+  if (!message?.id || !message?.conversation_id) {
+    return lastSeen;
+  }
+  return { ...lastSeen, [message.conversation_id]: message.id };
+};
+
+/**
+ * Builds the resume handshake sent right after a reconnect
+ * Returns null when nothing has been received yet, so there is nothing to replay
+ */
+export const buildResumeMessage = (
+  lastSeen: Record<string, string>,
+): UserResumeMessage | null => {
+  if (Object.keys(lastSeen).length === 0) {
+    return null;
+  }
+  return {
+    type: webSocketMessageTypes.userResumeMessage as 'user_resume_message',
+    id: uuidv4(),
+    content: { last_message_ids: { ...lastSeen } },
+    timestamp: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Typed event stream shared by /api/chat and the chat client
+ * Each event is encoded as one JSON object per line (NDJSON)
+ */
+
+import { ChatStreamEvent } from '@/types/chat';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+const CHAT_STREAM_EVENT_TYPES = [
+  'response_delta',
+  'intermediate_step',
+  'interaction',
+  'error',
+  'done',
+];
+
+/**
+ * Serializes a single event as an NDJSON line
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Type guard for decoded stream events
+ */
+export function isChatStreamEvent(value: any): value is ChatStreamEvent {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    CHAT_STREAM_EVENT_TYPES.includes(value.type)
+  );
+}
+
+function parseEventLine(line: string): ChatStreamEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(trimmed);
+    return isChatStreamEvent(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental decoder for the /api/chat event stream
+ * Buffers partial lines across chunks so an event split between network
+ * reads is only parsed once its terminating newline arrives
+ */
+export function createChatStreamDecoder() {
+  let buffer = '';
+
+  const decodeLines = (lines: string[]): ChatStreamEvent[] =>
+    lines
+      .map(parseEventLine)
+      .filter((event): event is ChatStreamEvent => event !== null);
+
+  return {
+    push(chunk: string): ChatStreamEvent[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return decodeLines(lines);
+    },
+    flush(): ChatStreamEvent[] {
+      const rest = buffer;
+      buffer = '';
+      return decodeLines([rest]);
+    },
+  };
+}
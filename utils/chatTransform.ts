@@ -3,13 +3,15 @@
  * These functions have no side effects and are easily testable
  */
 
-import { Message, Conversation } from '@/types/chat';
+import { Message, Conversation, MessageContent } from '@/types/chat';
+import { InteractionRecord, InteractionResponse } from '@/types/interaction';
 import { 
   WebSocketInbound, 
   SystemResponseMessage, 
   SystemIntermediateMessage,
   IntermediateStep 
 } from '@/types/websocket';
+import { getMessageText, hasMessageContent } from '@/utils/app/content';
 import { processIntermediateMessage } from '@/utils/app/helper';
 
 /**
@@ -97,12 +99,12 @@ export function applyMessageUpdate(
   const firstUserMessage = updatedMessages.find((m) => m.role === 'user');
   if (
     firstUserMessage &&
-    firstUserMessage.content &&
+    getMessageText(firstUserMessage.content) &&
     updatedConversation.name === 'New Conversation'
   ) {
     updatedConversation = {
       ...updatedConversation,
-      name: firstUserMessage.content.substring(0, 30)
+      name: getMessageText(firstUserMessage.content).substring(0, 30)
     };
   }
 
@@ -137,7 +139,7 @@ export function createAssistantMessage(
  */
 export function updateAssistantMessage(
   message: Message,
-  newContent?: string,
+  newContent?: MessageContent,
   newIntermediateSteps?: IntermediateStep[]
 ): Message {
   return {
@@ -157,11 +159,11 @@ export function shouldRenderAssistantMessage(message: Message): boolean {
     return true; // Always render non-assistant messages
   }
   
-  const content = message.content;
-  const hasContent = Boolean(content && content.trim());
+  const hasContent = hasMessageContent(message.content);
   const hasIntermediateSteps = Boolean(message.intermediateSteps?.length);
+  const hasInteractions = Boolean(message.humanInteractionMessages?.length);
   
-  return hasContent || hasIntermediateSteps;
+  return hasContent || hasIntermediateSteps || hasInteractions;
 }
 
 /**
@@ -169,5 +171,214 @@ export function shouldRenderAssistantMessage(message: Message): boolean {
  */
 export function extractConversationContent(conversation: Conversation): string {
   const lastMessage = conversation.messages[conversation.messages.length - 1];
-  return lastMessage?.content || '';
-}
\ No newline at end of file
+  return getMessageText(lastMessage?.content);
+}
+
+/**
+ * Wraps a system_interaction_message into a pending interaction record
+ * A positive timeout_seconds sets the deadline at which the prompt times out
+ */
+export function createInteractionRecord(
+  message: any,
+  receivedAt: number = Date.now()
+): InteractionRecord {
+  const timeoutSeconds = Number(message?.timeout_seconds);
+  return {
+    id: message?.id || `${receivedAt}`,
+    status: 'pending',
+    message,
+    receivedAt,
+    ...(timeoutSeconds > 0 && { deadline: receivedAt + timeoutSeconds * 1000 }),
+  };
+}
+
+/**
+ * Attaches an interaction record to the last assistant message, creating one
+ * if the prompt arrived before any response. A repeated prompt id is ignored
+ */
+export function attachInteraction(
+  messages: Message[],
+  record: InteractionRecord
+): Message[] {
+  const exists = messages.some(m =>
+    m.humanInteractionMessages?.some(r => r.id === record.id)
+  );
+  if (exists) return messages;
+
+  const lastMessage = messages.at(-1);
+  if (lastMessage?.role !== 'assistant') {
+    return [
+      ...messages,
+      createAssistantMessage(
+        record.message?.id,
+        record.message?.parent_id,
+        '',
+        [],
+        [record]
+      ),
+    ];
+  }
+  return messages.map((m, idx) =>
+    idx === messages.length - 1
+      ? {
+          ...m,
+          humanInteractionMessages: [...(m.humanInteractionMessages || []), record],
+        }
+      : m
+  );
+}
+
+/**
+ * Applies changes to the interaction with the given id
+ * Returns the same array when no message holds that interaction
+ */
+export function updateInteraction(
+  messages: Message[],
+  interactionId: string,
+  update: (record: InteractionRecord) => InteractionRecord
+): Message[] {
+  let changed = false;
+  const updated = messages.map(m => {
+    if (!m.humanInteractionMessages?.some(r => r.id === interactionId)) {
+      return m;
+    }
+    changed = true;
+    return {
+      ...m,
+      humanInteractionMessages: m.humanInteractionMessages.map(r =>
+        r.id === interactionId ? update(r) : r
+      ),
+    };
+  });
+  return changed ? updated : messages;
+}
+
+/**
+ * Marks a pending interaction as answered and keeps the response
+ */
+export function answerInteraction(
+  messages: Message[],
+  interactionId: string,
+  response: InteractionResponse,
+  answeredAt: number = Date.now()
+): Message[] {
+  return updateInteraction(messages, interactionId, record =>
+    record.status === 'pending'
+      ? { ...record, status: 'answered', response, answeredAt }
+      : record
+  );
+}
+
+/**
+ * Resolves a pending interaction whose deadline has passed: its
+ * default_response is recorded as an automatic answer, or the prompt expires
+ * when it has none
+ */
+export function timeOutInteraction(
+  messages: Message[],
+  interactionId: string,
+  answeredAt: number = Date.now()
+): Message[] {
+  return updateInteraction(messages, interactionId, record => {
+    if (record.status !== 'pending') return record;
+    const defaultResponse = record.message?.default_response;
+    return defaultResponse === undefined
+      ? { ...record, status: 'expired' }
+      : {
+          ...record,
+          status: 'answered',
+          response: defaultResponse,
+          answeredAt,
+          autoSubmitted: true,
+        };
+  });
+}
+
+/**
+ * Lists pending interactions whose deadline is at or before `now`
+ */
+export function findDueInteractions(
+  messages: Message[],
+  now: number = Date.now()
+): InteractionRecord[] {
+  return messages.flatMap(m =>
+    (m.humanInteractionMessages || []).filter(
+      r => r.status === 'pending' && r.deadline !== undefined && r.deadline <= now
+    )
+  );
+}
+
+/**
+ * Times out the interactions due at `now`. Only prompts in `liveIds`, those
+ * received on this tab's WebSocket, are answered with their default_response;
+ * the rest, such as prompts loaded from storage after a reload, expire.
+ * Returns the updated messages and the records whose answer must be sent
+ */
+export function resolveDueInteractions(
+  messages: Message[],
+  liveIds: ReadonlySet<string>,
+  now: number = Date.now()
+): { messages: Message[]; toSend: InteractionRecord[] } {
+  let updated = messages;
+  const toSend: InteractionRecord[] = [];
+  findDueInteractions(messages, now).forEach(record => {
+    if (liveIds.has(record.id)) {
+      updated = timeOutInteraction(updated, record.id, now);
+      if (record.message?.default_response !== undefined) toSend.push(record);
+    } else {
+      updated = updateInteraction(updated, record.id, r => ({ ...r, status: 'expired' }));
+    }
+  });
+  return { messages: updated, toSend };
+}
+
+/**
+ * Earliest deadline among pending interactions across conversations, or null
+ */
+export function findNextInteractionDeadline(
+  conversations: Conversation[]
+): number | null {
+  let next: number | null = null;
+  conversations.forEach(conversation =>
+    (conversation.messages || []).forEach(m =>
+      (m.humanInteractionMessages || []).forEach(r => {
+        if (r.status === 'pending' && r.deadline !== undefined) {
+          next = next === null ? r.deadline : Math.min(next, r.deadline);
+        }
+      })
+    )
+  );
+  return next;
+}
+
+/**
+ * Expires every pending interaction, used once the workflow has finished
+ * without waiting for them. Returns the same array when nothing was pending
+ */
+export function expirePendingInteractions(messages: Message[]): Message[] {
+  if (!messages.some(m => m.humanInteractionMessages?.some(r => r.status === 'pending'))) {
+    return messages;
+  }
+  return messages.map(m =>
+    m.humanInteractionMessages?.some(r => r.status === 'pending')
+      ? {
+          ...m,
+          humanInteractionMessages: m.humanInteractionMessages.map(r =>
+            r.status === 'pending' ? { ...r, status: 'expired' as const } : r
+          ),
+        }
+      : m
+  );
+}
+
+/**
+ * Counts interactions in a conversation that are still waiting for an answer
+ */
+export function countPendingInteractions(conversation: Conversation): number {
+  return (conversation.messages || []).reduce(
+    (count, m) =>
+      count +
+      (m.humanInteractionMessages || []).filter(r => r.status === 'pending').length,
+    0
+  );
+}
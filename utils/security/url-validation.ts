@@ -1,4 +1,4 @@
-import { HTTP_ENDPOINTS } from '@/constants/endpoints';
+import { getBackendAdapter } from '@/utils/api/adapters';
 import { WEBSOCKET_PATH } from '@/constants/constants';
 
 /**
@@ -34,9 +34,8 @@ function isValidPath(urlString: string): boolean {
   const url = new URL(urlString);
   const pathname = url.pathname;
   
-  // Check if it's a valid HTTP endpoint
-  const httpEndpoints = Object.values(HTTP_ENDPOINTS);
-  if (httpEndpoints.includes(pathname as any)) {
+  // Check if it's an endpoint with a registered backend adapter
+  if (getBackendAdapter(pathname)) {
     return true;
   }
   